@@ -0,0 +1,330 @@
+"use client";
+
+import {
+  CheckCircle2,
+  Download,
+  Eye,
+  FolderDown,
+  Loader2,
+  RotateCcw,
+  Trash2,
+  Video,
+  XCircle,
+} from "lucide-react";
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+export type BatchItemStatus =
+  | "queued"
+  | "converting"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number;
+  error: string | null;
+  /** `saved` is set when the output was written to a user-chosen folder */
+  result: { blob: Blob; fileName: string; saved: boolean } | null;
+}
+
+/** How finished batch outputs leave the browser */
+export type BatchSaveMode = "zip" | "folder";
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Waiting",
+  converting: "Converting",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+export function createBatchItem(file: File): BatchItem {
+  return {
+    id: `batch-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    file,
+    status: "queued",
+    progress: 0,
+    error: null,
+    result: null,
+  };
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1,
+  );
+  return `${(bytes / k ** i).toFixed(1)} ${sizes[i]}`;
+}
+
+interface BatchConversionPanelProps {
+  items: BatchItem[];
+  /** The file shown in the preview, which the editing settings are made on */
+  previewFile: File | null;
+  outputFormat: string;
+  canConvert: boolean;
+  isRunning: boolean;
+  isZipping: boolean;
+  saveMode: BatchSaveMode;
+  canSaveToFolder: boolean;
+  onSaveModeChange: (mode: BatchSaveMode) => void;
+  onConvertAll: () => void;
+  onCancel: () => void;
+  onRetry: (itemId: string) => void;
+  onRemove: (itemId: string) => void;
+  onPreview: (itemId: string) => void;
+  onDownloadZip: () => void;
+}
+
+/**
+ * File list and controls for converting several files with the same
+ * settings. Files run one after another; each keeps its own status.
+ */
+export function BatchConversionPanel({
+  items,
+  previewFile,
+  outputFormat,
+  canConvert,
+  isRunning,
+  isZipping,
+  saveMode,
+  canSaveToFolder,
+  onSaveModeChange,
+  onConvertAll,
+  onCancel,
+  onRetry,
+  onRemove,
+  onPreview,
+  onDownloadZip,
+}: BatchConversionPanelProps) {
+  // Outputs that only exist in the browser and still need downloading
+  const downloadable = items.filter(
+    (item) => item.result && !item.result.saved,
+  );
+  const finishedCount = items.filter(
+    (item) => item.status !== "queued" && item.status !== "converting",
+  ).length;
+  const overallProgress =
+    items.length > 0
+      ? Math.round(
+          (items.reduce(
+            (sum, item) =>
+              sum +
+              (item.status === "converting"
+                ? item.progress
+                : item.status === "queued"
+                  ? 0
+                  : 1),
+            0,
+          ) /
+            items.length) *
+            100,
+        )
+      : 0;
+
+  // Update page title based on batch progress
+  useEffect(() => {
+    if (!isRunning) return;
+    document.title = `${overallProgress}% - Converting ${items.length} files...`;
+    return () => {
+      document.title = "LocalCut - Converter";
+    };
+  }, [isRunning, overallProgress, items.length]);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-card p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm">Batch ({items.length} files)</h4>
+        {isRunning && (
+          <span className="font-mono text-sm">
+            {finishedCount}/{items.length}
+          </span>
+        )}
+      </div>
+      {isRunning && <Progress value={overallProgress} className="h-2" />}
+
+      <ul className="max-h-80 divide-y divide-border overflow-y-auto rounded-md border border-border">
+        {items.map((item) => (
+          <li key={item.id} className="space-y-1.5 px-3 py-2">
+            <div className="flex items-center gap-2">
+              {item.status === "converting" ? (
+                <Loader2 className="size-4 shrink-0 animate-spin text-primary" />
+              ) : item.status === "done" ? (
+                <CheckCircle2 className="size-4 shrink-0 text-primary" />
+              ) : item.status === "error" ? (
+                <XCircle className="size-4 shrink-0 text-red-600" />
+              ) : (
+                <Video className="size-4 shrink-0 text-foreground/40" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p
+                  className={cn(
+                    "truncate text-sm font-medium",
+                    item.file === previewFile && "text-primary",
+                  )}
+                >
+                  {item.file.name}
+                </p>
+                <p
+                  className={cn(
+                    "truncate text-xs text-foreground/60",
+                    item.status === "error" && "text-red-700 dark:text-red-300",
+                  )}
+                >
+                  {item.status === "error"
+                    ? item.error
+                    : item.status === "converting"
+                      ? `${Math.round(item.progress * 100)}%`
+                      : item.status === "done" && item.result
+                        ? `${item.result.saved ? `Saved as ${item.result.fileName}` : STATUS_LABELS.done} · ${formatBytes(item.result.blob.size)}`
+                        : `${STATUS_LABELS[item.status]} · ${formatBytes(item.file.size)}`}
+                </p>
+              </div>
+
+              {item.file !== previewFile && !isRunning && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  title="Preview"
+                  onClick={() => onPreview(item.id)}
+                >
+                  <Eye className="size-3.5" />
+                </Button>
+              )}
+              {item.status === "done" && item.result && !item.result.saved && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  title="Download"
+                  onClick={() =>
+                    item.result &&
+                    downloadBlob(item.result.blob, item.result.fileName)
+                  }
+                >
+                  <Download className="size-3.5" />
+                </Button>
+              )}
+              {(item.status === "error" || item.status === "cancelled") &&
+                !isRunning && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    title="Retry"
+                    disabled={!canConvert}
+                    onClick={() => onRetry(item.id)}
+                  >
+                    <RotateCcw className="size-3.5" />
+                  </Button>
+                )}
+              {!isRunning && items.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  title="Remove"
+                  onClick={() => onRemove(item.id)}
+                >
+                  <Trash2 className="size-3.5" />
+                </Button>
+              )}
+            </div>
+            {item.status === "converting" && (
+              <Progress value={item.progress * 100} className="h-1" />
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canSaveToFolder && (
+        <div className="space-y-2">
+          <span className="text-sm font-medium block">Save Results</span>
+          <Select
+            value={saveMode}
+            onValueChange={(v) => onSaveModeChange(v as BatchSaveMode)}
+            disabled={isRunning}
+          >
+            <SelectTrigger className="bg-card shadow-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="zip">Download together as a ZIP</SelectItem>
+              <SelectItem value="folder">
+                Save each file to a folder (choose before converting)
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {isRunning ? (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          className="w-full"
+        >
+          Cancel
+        </Button>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            size="lg"
+            className="w-full sm:flex-1 text-base font-bold"
+            disabled={!canConvert}
+            onClick={onConvertAll}
+          >
+            <Video className="size-5" />
+            Convert {items.length} Files
+            {outputFormat ? ` to ${outputFormat.toUpperCase()}` : ""}
+          </Button>
+          {downloadable.length > 0 && (
+            <Button
+              variant="outline"
+              size="lg"
+              className="w-full sm:w-auto"
+              disabled={isZipping}
+              onClick={onDownloadZip}
+            >
+              {isZipping ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <FolderDown className="size-4" />
+              )}
+              Download ZIP ({downloadable.length})
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -35,7 +35,8 @@ export interface ConversionStatusHandle {
   updateProgress: (progress: number) => void;
   updateStats: (stats: ConversionStats) => void;
   setFinalizing: () => void;
-  setCompleted: (blob: Blob) => void;
+  /** `savedFileName` is set when the output was written to a user-chosen file */
+  setCompleted: (blob: Blob, savedFileName?: string) => void;
   setError: (message: string) => void;
   reset: () => void;
 }
@@ -77,6 +78,7 @@ export const ConversionStatusDisplay = forwardRef<
     const [progress, setProgress] = useState<number>(0);
     const [stats, setStats] = useState<ConversionStats | null>(null);
     const [convertedBlob, setConvertedBlob] = useState<Blob | null>(null);
+    const [savedFileName, setSavedFileName] = useState<string | null>(null);
     const [errorMessage, setErrorMessage] = useState<string>("");
     const downloadIconRef = useRef<DownloadIconHandle>(null);
 
@@ -86,6 +88,7 @@ export const ConversionStatusDisplay = forwardRef<
         setProgress(0);
         setStats(null);
         setConvertedBlob(null);
+        setSavedFileName(null);
         setErrorMessage("");
       },
       updateProgress: (p: number) => {
@@ -98,8 +101,9 @@ export const ConversionStatusDisplay = forwardRef<
         setStatus("finalizing");
         setProgress(99);
       },
-      setCompleted: (blob: Blob) => {
+      setCompleted: (blob: Blob, fileName?: string) => {
         setConvertedBlob(blob);
+        setSavedFileName(fileName ?? null);
         setStatus("completed");
         setProgress(100);
       },
@@ -112,6 +116,7 @@ export const ConversionStatusDisplay = forwardRef<
         setProgress(0);
         setStats(null);
         setConvertedBlob(null);
+        setSavedFileName(null);
         setErrorMessage("");
       },
     }));
@@ -189,7 +194,9 @@ export const ConversionStatusDisplay = forwardRef<
                   </div>
                 </div>
                 <div className="col-span-2 rounded-md border border-border bg-muted px-3 py-2">
-                  <div className="text-xs text-foreground/60">Output Size</div>
+                  <div className="text-xs text-foreground/60">
+                    Written to Disk
+                  </div>
                   <div className="font-mono font-semibold">
                     {formatBytes(stats.currentFileSize)}
                   </div>
@@ -250,22 +257,29 @@ export const ConversionStatusDisplay = forwardRef<
                 </div>
               )}
             </div>
+            {savedFileName && (
+              <p className="text-sm text-foreground/60">
+                Saved to {savedFileName}
+              </p>
+            )}
             <div className="flex flex-col sm:flex-row gap-2">
-              <Button
-                size="lg"
-                onClick={handleDownload}
-                onMouseEnter={() => downloadIconRef.current?.startAnimation()}
-                onMouseLeave={() => downloadIconRef.current?.stopAnimation()}
-                className="w-full sm:flex-1"
-              >
-                <DownloadIcon ref={downloadIconRef} />
-                Download File
-              </Button>
+              {!savedFileName && (
+                <Button
+                  size="lg"
+                  onClick={handleDownload}
+                  onMouseEnter={() => downloadIconRef.current?.startAnimation()}
+                  onMouseLeave={() => downloadIconRef.current?.stopAnimation()}
+                  className="w-full sm:flex-1"
+                >
+                  <DownloadIcon ref={downloadIconRef} />
+                  Download File
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="lg"
                 onClick={onReset}
-                className="w-full sm:w-auto"
+                className={savedFileName ? "w-full" : "w-full sm:w-auto"}
               >
                 Convert Another
               </Button>
@@ -0,0 +1,291 @@
+import { registerMp3Encoder } from "@mediabunny/mp3-encoder";
+import {
+  ALL_FORMATS,
+  type AudioCodec,
+  BlobSource,
+  Conversion,
+  type ConversionAudioOptions,
+  ConversionCanceledError,
+  type ConversionVideoOptions,
+  canEncodeAudio,
+  Input as MediaInput,
+  Output,
+  type VideoCodec,
+} from "mediabunny";
+import { type EditingState, fineTuneToCSS } from "@/components/editing";
+import {
+  type AnimatedImageFormat,
+  type AnimatedImageSettings,
+  getAnimatedImageMimeType,
+  isAnimatedImageFormat,
+} from "@/lib/animated-image";
+import {
+  getFileExtension,
+  getMediabunnyOutput,
+  getMimeType,
+  isAudioOnlyFormat,
+  type OutputContainer,
+} from "@/lib/mediabunny";
+import {
+  createOutputTarget,
+  createOutputWriter,
+  type OutputDestination,
+  type OutputTargetHandle,
+} from "@/lib/output-target";
+import { convertToAnimatedImage } from "./convert-to-animated-image";
+
+export type ConvertOutputFormat = OutputContainer | AnimatedImageFormat;
+
+/** Everything that decides how a file is converted, shared by batch jobs */
+export interface ConvertSettings {
+  format: ConvertOutputFormat;
+  /** A codec, or "copy" to keep the input's stream */
+  videoCodec: string;
+  audioCodec: string;
+  animatedFps: number;
+  animatedSettings: AnimatedImageSettings;
+  editing: EditingState;
+}
+
+export function getConvertedMimeType(format: ConvertOutputFormat): string {
+  return isAnimatedImageFormat(format)
+    ? getAnimatedImageMimeType(format)
+    : getMimeType(format);
+}
+
+export function getConvertedFileName(
+  file: File,
+  format: ConvertOutputFormat,
+): string {
+  const base = file.name.replace(/\.[^/.]+$/, "");
+  return `${base}_converted.${getFileExtension(format as OutputContainer)}`;
+}
+
+/**
+ * Build mediabunny's video options from the editor state. Crop is stored
+ * relative to the frame, so it is scaled to this file's dimensions here.
+ */
+function getVideoOptions(
+  settings: ConvertSettings,
+  dimensions: { width: number; height: number } | null,
+): ConversionVideoOptions | undefined {
+  const { editing } = settings;
+  if (isAudioOnlyFormat(settings.format as OutputContainer)) {
+    return { discard: true };
+  }
+
+  const options: ConversionVideoOptions = {};
+  if (settings.videoCodec !== "copy") {
+    options.codec = settings.videoCodec as VideoCodec;
+  }
+
+  // MediaBunny rotate format: 0 | 90 | 180 | 270, clockwise
+  if (editing.rotate.enabled && editing.rotate.degrees !== 0) {
+    options.rotate = editing.rotate.degrees;
+  }
+
+  // Rotation is applied BEFORE crop in MediaBunny's pipeline, so crop
+  // coordinates must be in the rotated coordinate space
+  if (editing.crop.enabled && editing.crop.rect && dimensions) {
+    const degrees = editing.rotate.enabled ? editing.rotate.degrees : 0;
+    const isQuarterTurn = degrees === 90 || degrees === 270;
+    const width = isQuarterTurn ? dimensions.height : dimensions.width;
+    const height = isQuarterTurn ? dimensions.width : dimensions.height;
+    options.crop = {
+      left: Math.round(editing.crop.rect.left * width),
+      top: Math.round(editing.crop.rect.top * height),
+      width: Math.round(editing.crop.rect.width * width),
+      height: Math.round(editing.crop.rect.height * height),
+    };
+  }
+
+  if (editing.fineTune.enabled) {
+    const cssFilter = fineTuneToCSS(editing.fineTune.filters);
+    if (cssFilter !== "none") {
+      let ctx: OffscreenCanvasRenderingContext2D | null = null;
+      options.process = (sample) => {
+        if (!ctx) {
+          const canvas = new OffscreenCanvas(
+            sample.displayWidth,
+            sample.displayHeight,
+          );
+          const context = canvas.getContext("2d");
+          if (!context) throw new Error("Failed to get 2d context");
+          ctx = context;
+          ctx.filter = cssFilter;
+        }
+        sample.draw(ctx, 0, 0);
+        return ctx.canvas;
+      };
+    }
+  }
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Trim range for this file. Batch jobs share one trim, so it is clamped to
+ * each file's own duration; files that end before the trim start are rejected.
+ */
+function getTrimOptions(
+  editing: EditingState,
+  duration: number | null,
+): { start?: number; end?: number } | undefined {
+  if (!editing.trim.enabled) return undefined;
+  if (duration !== null && editing.trim.start >= duration) {
+    throw new Error(
+      `File is shorter than the trim start (${duration.toFixed(2)}s)`,
+    );
+  }
+  const trim: { start?: number; end?: number } = {};
+  if (editing.trim.start > 0) trim.start = editing.trim.start;
+  if (duration === null || editing.trim.end < duration) {
+    trim.end = editing.trim.end;
+  }
+  return Object.keys(trim).length > 0 ? trim : undefined;
+}
+
+/** Remux or transcode `file` into a media container with `Conversion` */
+async function convertToContainer(params: {
+  file: File;
+  settings: ConvertSettings;
+  format: OutputContainer;
+  outputTarget: OutputTargetHandle;
+  onProgress?: (progress: number) => void;
+  abortSignal?: AbortSignal;
+}): Promise<void> {
+  const { file, settings, format } = params;
+
+  if (format === "mp3" && !(await canEncodeAudio("mp3"))) {
+    registerMp3Encoder();
+  }
+
+  const input = new MediaInput({
+    source: new BlobSource(file),
+    formats: ALL_FORMATS,
+  });
+  const videoTrack = await input.getPrimaryVideoTrack();
+  const dimensions = videoTrack
+    ? { width: videoTrack.displayWidth, height: videoTrack.displayHeight }
+    : null;
+  const duration = await input.computeDuration().catch(() => null);
+
+  // If mute is enabled, discard the audio track entirely
+  let audioOptions: ConversionAudioOptions | undefined;
+  if (settings.editing.mute.enabled) {
+    audioOptions = { discard: true };
+  } else if (settings.audioCodec !== "copy") {
+    audioOptions = { codec: settings.audioCodec as AudioCodec };
+  }
+
+  const conversion = await Conversion.init({
+    input,
+    output: new Output({
+      format: getMediabunnyOutput(format),
+      target: params.outputTarget.target,
+    }),
+    video: getVideoOptions(settings, dimensions),
+    audio: audioOptions,
+    trim: getTrimOptions(settings.editing, duration),
+  });
+
+  if (!conversion.isValid) {
+    const reasons = conversion.discardedTracks
+      .map((t) => `${t.track?.type || "unknown"}: ${t.reason}`)
+      .join(", ");
+    throw new Error(`Conversion invalid: ${reasons || "Unknown reason"}`);
+  }
+
+  if (params.onProgress) conversion.onProgress = params.onProgress;
+  const abort = () => void conversion.cancel();
+  params.abortSignal?.addEventListener("abort", abort);
+  try {
+    if (params.abortSignal?.aborted) await conversion.cancel();
+    await conversion.execute();
+  } catch (error) {
+    // Report cancellation the same way the GIF/WebP path does
+    if (error instanceof ConversionCanceledError) {
+      throw new DOMException("Conversion cancelled", "AbortError");
+    }
+    throw error;
+  } finally {
+    params.abortSignal?.removeEventListener("abort", abort);
+  }
+}
+
+/** A converted file; `storedName` is its OPFS entry, if it has one */
+export type ConvertedOutput = { blob: Blob; storedName: string | null };
+
+/**
+ * Convert one file with `settings` and write it to `destination`. GIF/WebP
+ * frames are encoded here; everything else goes through mediabunny's
+ * `Conversion`. Cancelling rejects with an `AbortError` DOMException.
+ */
+export async function convertFile(params: {
+  file: File;
+  settings: ConvertSettings;
+  destination: OutputDestination;
+  fileName: string;
+  onProgress?: (progress: number) => void;
+  onWrite?: (bytesWritten: number) => void;
+  /** Encoding is done and the output is being written out */
+  onFinalizing?: () => void;
+  abortSignal?: AbortSignal;
+}): Promise<ConvertedOutput> {
+  const { file, settings, destination, fileName } = params;
+  const { format } = settings;
+
+  if (isAnimatedImageFormat(format)) {
+    const output = await createOutputWriter({
+      destination,
+      fileName,
+      onWrite: params.onWrite,
+    });
+    try {
+      await convertToAnimatedImage({
+        file,
+        format,
+        fps: settings.animatedFps,
+        settings: settings.animatedSettings,
+        editing: settings.editing,
+        output,
+        onProgress: params.onProgress,
+        abortSignal: params.abortSignal,
+      });
+      params.onFinalizing?.();
+      return {
+        blob: await output.getResult(getConvertedMimeType(format)),
+        storedName: output.storedName,
+      };
+    } catch (error) {
+      await output.discard();
+      throw error;
+    }
+  }
+
+  // Chunks stream to disk as they are muxed instead of piling up in memory
+  const outputTarget = await createOutputTarget({
+    destination,
+    fileName,
+    onWrite: params.onWrite,
+  });
+  try {
+    await convertToContainer({
+      file,
+      settings,
+      format,
+      outputTarget,
+      onProgress: params.onProgress,
+      abortSignal: params.abortSignal,
+    });
+    params.onFinalizing?.();
+    // Read from disk lazily, not copied
+    return {
+      blob: await outputTarget.getResult(getConvertedMimeType(format)),
+      storedName: outputTarget.storedName,
+    };
+  } catch (error) {
+    await outputTarget.discard();
+    throw error;
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  ALL_FORMATS,
+  BlobSource,
+  CanvasSink,
+  Input as MediaInput,
+  type Rotation,
+} from "mediabunny";
+import { type EditingState, fineTuneToCSS } from "@/components/editing";
+import {
+  ANIMATED_IMAGE_MAX_FPS,
+  type AnimatedImageFormat,
+  type AnimatedImageSettings,
+  createAnimatedImageEncoder,
+  fitAnimatedImageSize,
+} from "@/lib/animated-image";
+import type { OutputWriter } from "@/lib/output-target";
+
+/**
+ * Convert a video file to an animated GIF or WebP, applying the editor's
+ * trim, rotation, crop and fine-tune filters. mediabunny's `Conversion` only
+ * writes media containers, so frames are decoded and encoded here directly,
+ * and written to `output` as they are encoded.
+ */
+export async function convertToAnimatedImage(params: {
+  file: File;
+  format: AnimatedImageFormat;
+  fps: number;
+  settings: AnimatedImageSettings;
+  editing: EditingState;
+  output: OutputWriter;
+  onProgress?: (progress: number) => void;
+  abortSignal?: AbortSignal;
+}): Promise<void> {
+  const { file, format, settings, editing } = params;
+  const fps = Math.min(params.fps, ANIMATED_IMAGE_MAX_FPS);
+
+  const input = new MediaInput({
+    source: new BlobSource(file),
+    formats: ALL_FORMATS,
+  });
+  const track = await input.getPrimaryVideoTrack();
+  if (!track) {
+    throw new Error("GIF and WebP output need a file with a video track.");
+  }
+  if (!(await track.canDecode())) {
+    throw new Error("This browser can't decode the video track.");
+  }
+
+  // The editor's rotation is on top of the file's own rotation metadata
+  const extraRotation = editing.rotate.enabled ? editing.rotate.degrees : 0;
+  const rotation = ((track.rotation + extraRotation) % 360) as Rotation;
+  const isQuarterTurn = rotation === 90 || rotation === 270;
+  const rotatedWidth = isQuarterTurn ? track.codedHeight : track.codedWidth;
+  const rotatedHeight = isQuarterTurn ? track.codedWidth : track.codedHeight;
+
+  const cropRect = editing.crop.enabled ? editing.crop.rect : null;
+  const crop = cropRect
+    ? {
+        left: Math.round(cropRect.left * rotatedWidth),
+        top: Math.round(cropRect.top * rotatedHeight),
+        width: Math.round(cropRect.width * rotatedWidth),
+        height: Math.round(cropRect.height * rotatedHeight),
+      }
+    : undefined;
+
+  const { width, height } = fitAnimatedImageSize(
+    crop?.width ?? rotatedWidth,
+    crop?.height ?? rotatedHeight,
+    settings.maxSize,
+  );
+  const sink = new CanvasSink(track, {
+    width,
+    height,
+    fit: "fill",
+    rotation,
+    crop,
+    poolSize: 2,
+  });
+
+  const start = editing.trim.enabled
+    ? editing.trim.start
+    : await track.getFirstTimestamp();
+  const end = editing.trim.enabled
+    ? editing.trim.end
+    : await track.computeDuration();
+  const frameCount = Math.max(1, Math.ceil((end - start) * fps));
+  function* timestamps(count: number, interval: number) {
+    for (let i = 0; i < count; i++) yield start + i * interval;
+  }
+
+  // Fine-tune filters are applied while copying each frame
+  const cssFilter = editing.fineTune.enabled
+    ? fineTuneToCSS(editing.fineTune.filters)
+    : "none";
+  const filterContext =
+    cssFilter !== "none"
+      ? new OffscreenCanvas(width, height).getContext("2d")
+      : null;
+  if (filterContext) filterContext.filter = cssFilter;
+  const filtered = (canvas: OffscreenCanvas | HTMLCanvasElement) => {
+    if (!filterContext) return canvas;
+    filterContext.clearRect(0, 0, width, height);
+    filterContext.drawImage(canvas, 0, 0);
+    return filterContext.canvas;
+  };
+
+  const encoder = createAnimatedImageEncoder({
+    format,
+    width,
+    height,
+    fps,
+    settings,
+    output: params.output,
+  });
+
+  // A shared GIF palette comes from a handful of frames across the clip
+  const sampleCount = Math.min(encoder.paletteSampleCount, frameCount);
+  for await (const wrapped of sink.canvasesAtTimestamps(
+    timestamps(sampleCount, (end - start) / sampleCount),
+  )) {
+    if (params.abortSignal?.aborted) {
+      throw new DOMException("Conversion cancelled", "AbortError");
+    }
+    if (wrapped) encoder.addPaletteSample(filtered(wrapped.canvas));
+  }
+
+  let index = 0;
+  for await (const wrapped of sink.canvasesAtTimestamps(
+    timestamps(frameCount, 1 / fps),
+  )) {
+    if (params.abortSignal?.aborted) {
+      throw new DOMException("Conversion cancelled", "AbortError");
+    }
+    if (wrapped) await encoder.addFrame(filtered(wrapped.canvas));
+    params.onProgress?.(++index / frameCount);
+  }
+
+  await encoder.finalize();
+}
@@ -0,0 +1,71 @@
+export function isMediaFile(file: File): boolean {
+  return file.type.startsWith("video/") || file.type.startsWith("audio/");
+}
+
+function readDirectory(
+  directory: FileSystemDirectoryEntry,
+): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in batches until it yields an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    readBatch();
+  });
+}
+
+async function collectFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) =>
+      (entry as FileSystemFileEntry).file((file) => resolve([file]), reject),
+    );
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    children.sort((a, b) => a.name.localeCompare(b.name));
+    const nested = await Promise.all(children.map(collectFiles));
+    return nested.flat();
+  }
+  return [];
+}
+
+/**
+ * Files from a drop, with dropped folders walked recursively. Must be called
+ * synchronously from the drop handler; the DataTransfer is emptied after it.
+ */
+export function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const files = Array.from(dataTransfer.files);
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry());
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Promise.resolve(files);
+  }
+  return Promise.all((entries as FileSystemEntry[]).map(collectFiles)).then(
+    (nested) => nested.flat(),
+  );
+}
+
+/** Make output names unique by numbering repeats, e.g. `clip_2.mp4` */
+export function getUniqueFileNames(fileNames: string[]): string[] {
+  const used = new Set<string>();
+  return fileNames.map((fileName) => {
+    const dot = fileName.lastIndexOf(".");
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : "";
+    let unique = fileName;
+    for (let n = 2; used.has(unique); n++) {
+      unique = `${base}_${n}${extension}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
@@ -1,20 +1,13 @@
 "use client";
 
-import { registerMp3Encoder } from "@mediabunny/mp3-encoder";
 import { Loader2, Upload } from "lucide-react";
 import {
   ALL_FORMATS,
   type AudioCodec,
   BlobSource,
-  BufferTarget,
-  Conversion,
-  type ConversionAudioOptions,
-  type ConversionVideoOptions,
-  canEncodeAudio,
   getEncodableAudioCodecs,
   getEncodableVideoCodecs,
   Input as MediaInput,
-  Output,
   type VideoCodec,
 } from "mediabunny";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
@@ -40,22 +33,57 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  type AnimatedImageSettings,
+  DEFAULT_ANIMATED_IMAGE_MAX_SIZE,
+  isAnimatedImageFormat,
+  type PaletteMode,
+} from "@/lib/animated-image";
 import {
   AUDIO_CODEC_LABELS,
   getCommonAudioCodecs,
-  getMediabunnyOutput,
-  getMimeType,
   getSupportedVideoCodecs,
   isAudioOnlyFormat,
   type OutputContainer,
   outputContainers,
   VIDEO_CODEC_LABELS,
 } from "@/lib/mediabunny";
+import {
+  createOutputWriter,
+  getDefaultDestination,
+  type OutputDestination,
+  pickSaveDirectory,
+  pickSaveFile,
+  removeStaleOutputs,
+  removeStoredOutput,
+  supportsDirectoryPicker,
+  supportsSaveFilePicker,
+} from "@/lib/output-target";
+import { createZipWriter } from "@/lib/zip";
+import {
+  BatchConversionPanel,
+  type BatchItem,
+  type BatchSaveMode,
+  createBatchItem,
+  downloadBlob,
+} from "./batch-conversion-panel";
 import {
   type ConversionStats,
   ConversionStatusDisplay,
   type ConversionStatusHandle,
 } from "./conversion-status-display";
+import {
+  type ConvertOutputFormat,
+  type ConvertSettings,
+  convertFile,
+  getConvertedFileName,
+  getConvertedMimeType,
+} from "./convert-file";
+import {
+  getDroppedFiles,
+  getUniqueFileNames,
+  isMediaFile,
+} from "./media-files";
 
 const INPUT_FORMATS = [
   // Video formats
@@ -119,8 +147,40 @@ const OUTPUT_FORMATS = [
     description: "High-quality audio codec",
     icon: "🎧",
   },
+  {
+    value: "flac",
+    label: "FLAC (Audio only)",
+    description: "Lossless, compressed audio",
+    icon: "💿",
+  },
+  {
+    value: "gif",
+    label: "GIF (Animated)",
+    description: "Short loops that play anywhere",
+    icon: "🖼️",
+  },
+  {
+    value: "webp",
+    label: "WebP (Animated)",
+    description: "Smaller, full-color animated loops",
+    icon: "🌀",
+  },
 ];
 
+// Key of the single-file result among the page's stored outputs
+const SINGLE_OUTPUT_ID = "single";
+
+// Animated GIF/WebP options
+const ANIMATED_FPS_OPTIONS = [10, 12, 15, 20, 24, 25, 30] as const;
+const MAX_SIZE_OPTIONS = [320, 480, 640, 800, 1080] as const;
+const LOOP_OPTIONS = [
+  { label: "Forever", value: 0 },
+  { label: "Play once", value: 1 },
+  { label: "Play twice", value: 2 },
+  { label: "Play 3 times", value: 3 },
+] as const;
+const WEBP_QUALITY_OPTIONS = [50, 70, 80, 90, 100] as const;
+
 interface FileMetadata {
   container: string;
   size: number;
@@ -152,13 +212,32 @@ export default function ConvertPage() {
   const [metadata, setMetadata] = useState<FileMetadata | null>(null);
   const [loadingMetadata, setLoadingMetadata] = useState<boolean>(false);
   const [notifyMe, setNotifyMe] = useState<boolean>(false);
+  const [saveToFile, setSaveToFile] = useState<boolean>(false);
+  const [canSaveToFile, setCanSaveToFile] = useState<boolean>(false);
+  const [animatedFps, setAnimatedFps] = useState<number>(15);
+  const [animatedSettings, setAnimatedSettings] =
+    useState<AnimatedImageSettings>({
+      loopCount: 0,
+      maxSize: DEFAULT_ANIMATED_IMAGE_MAX_SIZE,
+      paletteMode: "global",
+      dither: true,
+      quality: 0.8,
+    });
   const [editingState, setEditingState] =
     useState<EditingState>(defaultEditingState);
-  const conversionRef = useRef<Conversion | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchSaveMode, setBatchSaveMode] = useState<BatchSaveMode>("zip");
+  const [canSaveToFolder, setCanSaveToFolder] = useState<boolean>(false);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [isZipping, setIsZipping] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const mediaPlayerRef = useRef<MediaPlayerHandle>(null);
   const notifyMeRef = useRef<boolean>(false);
   const statusRef = useRef<ConversionStatusHandle>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  // Folder chosen for the last batch, reused when single files are retried
+  const batchDirectoryRef = useRef<FileSystemDirectoryHandle | null>(null);
 
   // Ref to track editing state without triggering re-renders in callbacks
   const editingStateRef = useRef(editingState);
@@ -171,6 +250,40 @@ export default function ConvertPage() {
     notifyMeRef.current = notifyMe;
   }, [notifyMe]);
 
+  // Picker support is only known in the browser; outputs abandoned by
+  // earlier sessions are cleared from OPFS at the same time
+  useEffect(() => {
+    setCanSaveToFile(supportsSaveFilePicker());
+    setCanSaveToFolder(supportsDirectoryPicker());
+    void removeStaleOutputs();
+  }, []);
+
+  // OPFS entries of finished outputs, by batch item id or SINGLE_OUTPUT_ID.
+  // Each is deleted once its result is replaced or dropped.
+  const storedOutputsRef = useRef(new Map<string, string>());
+
+  const releaseStoredOutput = useCallback((ownerId: string) => {
+    void removeStoredOutput(storedOutputsRef.current.get(ownerId));
+    storedOutputsRef.current.delete(ownerId);
+  }, []);
+
+  const keepStoredOutput = useCallback(
+    (ownerId: string, storedName: string | null) => {
+      releaseStoredOutput(ownerId);
+      if (storedName) storedOutputsRef.current.set(ownerId, storedName);
+    },
+    [releaseStoredOutput],
+  );
+
+  const releaseAllStoredOutputs = useCallback(() => {
+    for (const storedName of storedOutputsRef.current.values()) {
+      void removeStoredOutput(storedName);
+    }
+    storedOutputsRef.current.clear();
+  }, []);
+
+  useEffect(() => releaseAllStoredOutputs, [releaseAllStoredOutputs]);
+
   // Handle crop toggle - scroll to player when enabled
   const handleCropToggle = useCallback((enabled: boolean) => {
     if (enabled && mediaPlayerRef.current) {
@@ -354,16 +467,26 @@ export default function ConvertPage() {
     }
   }, []);
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
+  // One file converts on its own; several become a batch that shares the
+  // settings made on the first one
+  const loadFiles = useCallback(
+    (files: File[]) => {
+      const mediaFiles = files.filter(isMediaFile);
+      // Keep the running batch's files in place until it finishes
+      if (mediaFiles.length === 0 || batchAbortRef.current) return;
+
+      const [file] = mediaFiles;
+      releaseAllStoredOutputs();
       setSelectedFile(file);
+      setBatchItems(
+        mediaFiles.length > 1 ? mediaFiles.map(createBatchItem) : [],
+      );
       // Auto-detect format from file extension
       const extension = file.name.split(".").pop()?.toLowerCase();
       if (extension) {
         setInputFormat(extension);
       }
-      // Reset conversion state when new file is selected
+      // Reset conversion state when new files are selected
       statusRef.current?.reset();
       setMetadata(null);
       setEditingState(defaultEditingState);
@@ -371,10 +494,16 @@ export default function ConvertPage() {
         clearInterval(statsIntervalRef.current);
         statsIntervalRef.current = null;
       }
-
       // Extract metadata
       extractMetadata(file);
-    }
+    },
+    [extractMetadata, releaseAllStoredOutputs],
+  );
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    loadFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same files again
+    e.target.value = "";
   };
 
   const handleDragEnter = useCallback(
@@ -406,34 +535,13 @@ export default function ConvertPage() {
       e.stopPropagation();
       setIsDragging(false);
 
-      const files = e.dataTransfer.files;
-      if (files && files.length > 0) {
-        const file = files[0];
-        // Check if it's a video or audio file
-        if (file.type.startsWith("video/") || file.type.startsWith("audio/")) {
-          setSelectedFile(file);
-          // Auto-detect format from file extension
-          const extension = file.name.split(".").pop()?.toLowerCase();
-          if (extension) {
-            setInputFormat(extension);
-          }
-          // Reset conversion state when new file is selected
-          statusRef.current?.reset();
-          setMetadata(null);
-          setEditingState(defaultEditingState);
-          if (statsIntervalRef.current) {
-            clearInterval(statsIntervalRef.current);
-            statsIntervalRef.current = null;
-          }
-          // Extract metadata
-          extractMetadata(file);
-        }
-      }
+      getDroppedFiles(e.dataTransfer)
+        .then(loadFiles)
+        .catch((error) =>
+          console.error("Failed to read dropped files:", error),
+        );
     },
-    [
-      // Extract metadata
-      extractMetadata,
-    ],
+    [loadFiles],
   );
 
   // Handle paste event (Ctrl+V) to accept files from clipboard
@@ -442,39 +550,17 @@ export default function ConvertPage() {
       const items = e.clipboardData?.items;
       if (!items) return;
 
+      const files: File[] = [];
       for (const item of items) {
-        if (item.kind === "file") {
-          const file = item.getAsFile();
-          if (
-            file &&
-            (file.type.startsWith("video/") || file.type.startsWith("audio/"))
-          ) {
-            e.preventDefault();
-            setSelectedFile(file);
-            // Auto-detect format from file extension
-            const extension = file.name.split(".").pop()?.toLowerCase();
-            if (extension) {
-              setInputFormat(extension);
-            }
-            // Reset conversion state when new file is selected
-            statusRef.current?.reset();
-            setMetadata(null);
-            setEditingState(defaultEditingState);
-            if (statsIntervalRef.current) {
-              clearInterval(statsIntervalRef.current);
-              statsIntervalRef.current = null;
-            }
-            // Extract metadata
-            extractMetadata(file);
-            break;
-          }
-        }
+        const file = item.kind === "file" ? item.getAsFile() : null;
+        if (file && isMediaFile(file)) files.push(file);
+      }
+      if (files.length > 0) {
+        e.preventDefault();
+        loadFiles(files);
       }
     },
-    [
-      // Extract metadata
-      extractMetadata,
-    ],
+    [loadFiles],
   );
 
   // Add paste event listener
@@ -492,371 +578,391 @@ export default function ConvertPage() {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   }, []);
 
-  const handleConvert = useCallback(async () => {
-    console.log("handleConvert called", { selectedFile, outputFormat });
-
-    if (!selectedFile || !outputFormat) {
-      console.log("Missing file or output format");
-      return;
+  const notifyComplete = useCallback((title: string, body: string) => {
+    // Use ref to get latest value
+    if (
+      notifyMeRef.current &&
+      "Notification" in window &&
+      Notification.permission === "granted"
+    ) {
+      new Notification(title, { body, icon: "/favicon.ico" });
     }
+  }, []);
+
+  const handleConvert = useCallback(async () => {
+    if (!selectedFile || !outputFormat) return;
 
     // Validate output format
-    if (!outputContainers.includes(outputFormat as OutputContainer)) {
-      console.log("Unsupported output format:", outputFormat);
+    if (
+      !outputContainers.includes(outputFormat as OutputContainer) &&
+      !isAnimatedImageFormat(outputFormat)
+    ) {
       statusRef.current?.setError(`Unsupported output format: ${outputFormat}`);
       return;
     }
 
-    statusRef.current?.start();
+    const format = outputFormat as ConvertOutputFormat;
+    const outputFileName = getConvertedFileName(selectedFile, format);
 
-    try {
-      // Use the ref for current editing state to avoid dependency on the state variable
-      const currentEditingState = editingStateRef.current;
-
-      console.log("Starting conversion to", outputFormat);
-
-      // Register MP3 encoder if needed
-      if (outputFormat === "mp3" && !(await canEncodeAudio("mp3"))) {
-        console.log("Registering MP3 encoder");
-        registerMp3Encoder();
+    // The picker needs the click's user activation, so it runs before
+    // anything else is awaited
+    let destination: OutputDestination = getDefaultDestination();
+    if (saveToFile && canSaveToFile) {
+      try {
+        const handle = await pickSaveFile(
+          outputFileName,
+          getConvertedMimeType(format),
+        );
+        if (!handle) return;
+        destination = { type: "file", handle };
+      } catch (error) {
+        console.error("Save file picker failed:", error);
       }
+    }
 
-      // Create input from file
-      console.log("Creating input from file:", selectedFile.name);
-      const input = new MediaInput({
-        source: new BlobSource(selectedFile),
-        formats: ALL_FORMATS,
-      });
-
-      // Create output with the selected format
-      console.log("Creating output with format:", outputFormat);
-      const format = getMediabunnyOutput(outputFormat as OutputContainer);
-      const target = new BufferTarget();
-      const output = new Output({
-        format,
-        target,
-      });
-
-      // Initialize conversion
-      console.log("Initializing conversion...");
-
-      // Build video options including editing features
-      const isAudioOnly = isAudioOnlyFormat(outputFormat as OutputContainer);
-
-      // Start with base video options
-      let videoOptions: ConversionVideoOptions | undefined;
-      if (isAudioOnly) {
-        videoOptions = { discard: true as const };
-      } else {
-        videoOptions = {};
+    statusRef.current?.start();
 
-        // Add codec if not copying
-        if (videoCodec !== "copy") {
-          videoOptions.codec = videoCodec as VideoCodec;
-        }
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    const startTime = Date.now();
+    let currentStats: ConversionStats = {
+      startTime,
+      lastUpdateTime: startTime,
+      elapsedSeconds: 0,
+      estimatedTotalSeconds: null,
+      estimatedRemainingSeconds: null,
+      currentFileSize: 0,
+    };
+    statusRef.current?.updateStats(currentStats);
+
+    // Update elapsed time every 100ms
+    statsIntervalRef.current = setInterval(() => {
+      const now = Date.now();
+      currentStats = {
+        ...currentStats,
+        elapsedSeconds: (now - startTime) / 1000,
+        lastUpdateTime: now,
+      };
+      statusRef.current?.updateStats(currentStats);
+    }, 100);
 
-        // Add rotation if enabled (MediaBunny rotate format: 0 | 90 | 180 | 270)
-        if (
-          currentEditingState.rotate.enabled &&
-          currentEditingState.rotate.degrees !== 0
-        ) {
-          videoOptions.rotate = currentEditingState.rotate.degrees;
-          console.log(
-            "Rotation settings:",
-            videoOptions.rotate,
-            "degrees clockwise",
-          );
-        }
+    try {
+      const { blob, storedName } = await convertFile({
+        file: selectedFile,
+        settings: {
+          format,
+          videoCodec,
+          audioCodec,
+          animatedFps,
+          animatedSettings,
+          // Read from the ref to avoid recreating the callback on every scrub
+          editing: editingStateRef.current,
+        },
+        destination,
+        fileName: outputFileName,
+        onProgress: (p) => {
+          statusRef.current?.updateProgress(Math.round(p * 100));
 
-        // Add crop if enabled (MediaBunny crop format)
-        // Note: Rotation is applied BEFORE crop in MediaBunny's pipeline,
-        // so crop coordinates must be in the rotated coordinate space.
-        if (
-          currentEditingState.crop.enabled &&
-          currentEditingState.crop.rect &&
-          metadata?.dimensions
-        ) {
-          // Determine dimensions after rotation is applied
-          const rotationDegrees = currentEditingState.rotate.enabled
-            ? currentEditingState.rotate.degrees
-            : 0;
-          const isQuarterTurn =
-            rotationDegrees === 90 || rotationDegrees === 270;
-          const rotatedWidth = isQuarterTurn
-            ? metadata.dimensions.height
-            : metadata.dimensions.width;
-          const rotatedHeight = isQuarterTurn
-            ? metadata.dimensions.width
-            : metadata.dimensions.height;
-
-          videoOptions.crop = {
-            left: Math.round(currentEditingState.crop.rect.left * rotatedWidth),
-            top: Math.round(currentEditingState.crop.rect.top * rotatedHeight),
-            width: Math.round(
-              currentEditingState.crop.rect.width * rotatedWidth,
-            ),
-            height: Math.round(
-              currentEditingState.crop.rect.height * rotatedHeight,
-            ),
+          // Only estimate after 1% progress
+          const now = Date.now();
+          const elapsed = (now - startTime) / 1000;
+          const estimatedTotal = p > 0.01 ? elapsed / p : null;
+          currentStats = {
+            ...currentStats,
+            lastUpdateTime: now,
+            elapsedSeconds: elapsed,
+            estimatedTotalSeconds: estimatedTotal,
+            estimatedRemainingSeconds:
+              estimatedTotal !== null ? estimatedTotal - elapsed : null,
           };
-          console.log("Crop settings:", videoOptions.crop);
-        }
-
-        // Add fine-tune filters if enabled
-        if (currentEditingState.fineTune.enabled) {
-          const cssFilter = fineTuneToCSS(currentEditingState.fineTune.filters);
-          if (cssFilter !== "none") {
-            if (!videoOptions) videoOptions = {};
-
-            let ctx: OffscreenCanvasRenderingContext2D | null = null;
-
-            videoOptions.process = (sample) => {
-              if (!ctx) {
-                const canvas = new OffscreenCanvas(
-                  sample.displayWidth,
-                  sample.displayHeight,
-                );
-                const context = canvas.getContext("2d");
-                if (!context) throw new Error("Failed to get 2d context");
-                ctx = context;
-
-                // Apply the CSS filter from fine-tune settings
-                ctx.filter = cssFilter;
-              }
-
-              sample.draw(ctx, 0, 0);
-
-              return ctx.canvas;
-            };
-          }
-        }
+          statusRef.current?.updateStats(currentStats);
+        },
+        onWrite: (bytesWritten) => {
+          currentStats = { ...currentStats, currentFileSize: bytesWritten };
+          statusRef.current?.updateStats(currentStats);
+        },
+        onFinalizing: () => statusRef.current?.setFinalizing(),
+        abortSignal: abortController.signal,
+      });
 
-        // Only set videoOptions if we have something to configure
-        if (videoOptions && Object.keys(videoOptions).length === 0) {
-          videoOptions = undefined;
-        }
+      keepStoredOutput(SINGLE_OUTPUT_ID, storedName);
+      statusRef.current?.setCompleted(
+        blob,
+        destination.type === "file" ? outputFileName : undefined,
+      );
+      notifyComplete(
+        "Conversion Complete!",
+        `Your file has been successfully converted to ${outputFormat.toUpperCase()}.`,
+      );
+    } catch (error) {
+      // A cancelled conversion was already reset by handleCancel
+      if (!(error instanceof DOMException && error.name === "AbortError")) {
+        console.error("Conversion error:", error);
+        statusRef.current?.setError(
+          error instanceof Error ? error.message : "An unknown error occurred",
+        );
       }
-      // Build audio options
-      // If mute is enabled, discard the audio track entirely
-      let audioOptions: ConversionAudioOptions | undefined;
-
-      if (currentEditingState.mute.enabled) {
-        audioOptions = { discard: true };
-        console.log("Audio will be stripped from output");
-      } else if (audioCodec !== "copy") {
-        audioOptions = { codec: audioCodec as AudioCodec };
+    } finally {
+      if (statsIntervalRef.current) {
+        clearInterval(statsIntervalRef.current);
+        statsIntervalRef.current = null;
       }
+      abortRef.current = null;
+    }
+  }, [
+    selectedFile,
+    outputFormat,
+    videoCodec,
+    audioCodec,
+    saveToFile,
+    canSaveToFile,
+    animatedFps,
+    animatedSettings,
+    notifyComplete,
+    keepStoredOutput,
+  ]);
 
-      // Build trim options
-      let trimOptions: { start?: number; end?: number } | undefined;
-      if (
-        currentEditingState.trim.enabled &&
-        (currentEditingState.trim.start > 0 ||
-          (metadata?.duration &&
-            currentEditingState.trim.end < metadata.duration))
-      ) {
-        trimOptions = {};
-        if (currentEditingState.trim.start > 0) {
-          trimOptions.start = currentEditingState.trim.start;
-        }
-        if (
-          metadata?.duration &&
-          currentEditingState.trim.end < metadata.duration
-        ) {
-          trimOptions.end = currentEditingState.trim.end;
-        }
-        console.log("Trim settings:", trimOptions);
-      }
+  const handleCancel = useCallback(() => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    statusRef.current?.reset();
 
-      console.log("Video options:", videoOptions);
-      console.log("Audio options:", audioOptions);
-      console.log("Trim options:", trimOptions);
+    if (statsIntervalRef.current) {
+      clearInterval(statsIntervalRef.current);
+      statsIntervalRef.current = null;
+    }
+  }, []);
 
-      const conversion = await Conversion.init({
-        input,
-        output,
-        video: videoOptions,
-        audio: audioOptions,
-        trim: trimOptions,
-      });
+  const updateBatchItem = useCallback(
+    (itemId: string, update: Partial<BatchItem>) => {
+      setBatchItems((prev) =>
+        prev.map((item) =>
+          item.id === itemId ? { ...item, ...update } : item,
+        ),
+      );
+    },
+    [],
+  );
 
-      conversionRef.current = conversion;
-      console.log("Conversion initialized, isValid:", conversion.isValid);
-      console.log("Discarded tracks:", conversion.discardedTracks);
-      console.log("Utilized tracks:", conversion.utilizedTracks);
-
-      // Check if conversion is valid
-      if (!conversion.isValid) {
-        const reasons = conversion.discardedTracks
-          .map((t) => `${t.track?.type || "unknown"}: ${t.reason}`)
-          .join(", ");
-        throw new Error(`Conversion invalid: ${reasons || "Unknown reason"}`);
-      }
+  // Convert `items` one after another with the current settings
+  const runBatch = useCallback(
+    async (items: BatchItem[], directory: FileSystemDirectoryHandle | null) => {
+      const format = outputFormat as ConvertOutputFormat;
+      const settings: ConvertSettings = {
+        format,
+        videoCodec,
+        audioCodec,
+        animatedFps,
+        animatedSettings,
+        editing: editingStateRef.current,
+      };
+      // Output names must be unique within the ZIP or folder, and stable
+      // across retries
+      const uniqueNames = getUniqueFileNames(
+        batchItems.map((item) => getConvertedFileName(item.file, format)),
+      );
+      const fileNames = new Map(
+        batchItems.map((item, i) => [item.id, uniqueNames[i]]),
+      );
 
-      // Get media duration for time estimation (try video first, then audio)
-      let mediaDuration: number | null = null;
-      try {
-        const videoTrack = await input.getPrimaryVideoTrack();
-        if (videoTrack) {
-          mediaDuration = await videoTrack.computeDuration();
-          console.log("Video duration:", mediaDuration, "seconds");
-        }
-      } catch (e) {
-        console.log("Could not get video duration:", e);
-      }
+      const abortController = new AbortController();
+      batchAbortRef.current = abortController;
+      setIsBatchRunning(true);
+      const runIds = new Set(items.map((item) => item.id));
+      for (const id of runIds) releaseStoredOutput(id);
+      setBatchItems((prev) =>
+        prev.map((item) =>
+          runIds.has(item.id)
+            ? {
+                ...item,
+                status: "queued",
+                progress: 0,
+                error: null,
+                result: null,
+              }
+            : item,
+        ),
+      );
+
+      let convertedCount = 0;
+      for (const item of items) {
+        if (abortController.signal.aborted) break;
+        const fileName =
+          fileNames.get(item.id) ?? getConvertedFileName(item.file, format);
+        updateBatchItem(item.id, { status: "converting" });
 
-      // If no video track, try to get audio duration
-      if (mediaDuration === null) {
         try {
-          const audioTrack = await input.getPrimaryAudioTrack();
-          if (audioTrack) {
-            mediaDuration = await audioTrack.computeDuration();
-            console.log("Audio duration:", mediaDuration, "seconds");
+          const destination: OutputDestination = directory
+            ? {
+                type: "file",
+                handle: await directory.getFileHandle(fileName, {
+                  create: true,
+                }),
+              }
+            : getDefaultDestination();
+          const { blob, storedName } = await convertFile({
+            file: item.file,
+            settings,
+            destination,
+            fileName,
+            onProgress: (progress) => updateBatchItem(item.id, { progress }),
+            abortSignal: abortController.signal,
+          });
+          keepStoredOutput(item.id, storedName);
+          updateBatchItem(item.id, {
+            status: "done",
+            progress: 1,
+            result: { blob, fileName, saved: directory !== null },
+          });
+          convertedCount++;
+        } catch (error) {
+          // Don't leave an empty or partial file behind in the folder
+          await directory?.removeEntry(fileName).catch(() => undefined);
+          if (error instanceof DOMException && error.name === "AbortError") {
+            updateBatchItem(item.id, { status: "cancelled" });
+            continue;
           }
-        } catch (e) {
-          console.log("Could not get audio duration:", e);
+          console.error(`Conversion of ${item.file.name} failed:`, error);
+          updateBatchItem(item.id, {
+            status: "error",
+            error:
+              error instanceof Error
+                ? error.message
+                : "An unknown error occurred",
+          });
         }
       }
 
-      // Initialize stats
-      const startTime = Date.now();
-      let currentStats: ConversionStats = {
-        startTime,
-        lastUpdateTime: startTime,
-        elapsedSeconds: 0,
-        estimatedTotalSeconds: null,
-        estimatedRemainingSeconds: null,
-        currentFileSize: 0,
-      };
-      statusRef.current?.updateStats(currentStats);
-
-      // Track output file size
-      target.onwrite = (_start: number, end: number) => {
-        currentStats = { ...currentStats, currentFileSize: end };
-        statusRef.current?.updateStats(currentStats);
-      };
-
-      // Update elapsed time every 100ms
-      statsIntervalRef.current = setInterval(() => {
-        const now = Date.now();
-        const elapsed = (now - startTime) / 1000;
-        currentStats = {
-          ...currentStats,
-          elapsedSeconds: elapsed,
-          lastUpdateTime: now,
-        };
-        statusRef.current?.updateStats(currentStats);
-      }, 100);
-
-      // Set up progress tracking
-      conversion.onProgress = (p: number) => {
-        console.log("Progress:", p);
-        const progressPercent = Math.round(p * 100);
-        statusRef.current?.updateProgress(progressPercent);
-
-        // Calculate time estimates
-        const now = Date.now();
-        const elapsed = (now - startTime) / 1000;
-
-        let estimatedTotal: number | null = null;
-        let estimatedRemaining: number | null = null;
-
-        if (p > 0.01) {
-          // Only estimate after 1% progress
-          estimatedTotal = elapsed / p;
-          estimatedRemaining = estimatedTotal - elapsed;
-        }
-
-        currentStats = {
-          ...currentStats,
-          lastUpdateTime: now,
-          elapsedSeconds: elapsed,
-          estimatedTotalSeconds: estimatedTotal,
-          estimatedRemainingSeconds: estimatedRemaining,
-        };
-        statusRef.current?.updateStats(currentStats);
-      };
-
-      // Execute conversion
-      console.log("Executing conversion...");
-      await conversion.execute();
-
-      // Show finalizing state
-      console.log("Conversion encoding complete, finalizing file...");
-      statusRef.current?.setFinalizing();
-
-      console.log("Conversion complete!");
-
-      // Get the resulting buffer
-      const buffer = target.buffer;
-      if (!buffer) {
-        throw new Error(
-          "Conversion completed but no output buffer was created",
+      // Files that never started after a cancel
+      setBatchItems((prev) =>
+        prev.map((item) =>
+          item.status === "queued" ? { ...item, status: "cancelled" } : item,
+        ),
+      );
+      batchAbortRef.current = null;
+      setIsBatchRunning(false);
+      if (convertedCount > 0) {
+        notifyComplete(
+          "Batch Conversion Complete!",
+          `${convertedCount} of ${items.length} files were converted to ${outputFormat.toUpperCase()}.`,
         );
       }
+    },
+    [
+      batchItems,
+      outputFormat,
+      videoCodec,
+      audioCodec,
+      animatedFps,
+      animatedSettings,
+      updateBatchItem,
+      notifyComplete,
+      releaseStoredOutput,
+      keepStoredOutput,
+    ],
+  );
 
-      console.log("Buffer size:", buffer.byteLength);
-
-      // Create blob from buffer
-      const mimeType = getMimeType(outputFormat as OutputContainer);
-      const blob = new Blob([buffer], { type: mimeType });
-
-      statusRef.current?.setCompleted(blob);
+  /**
+   * Pick the output folder when saving individually. Like the save picker,
+   * it needs the click's user activation.
+   */
+  const getBatchDirectory = useCallback(
+    async (reuse: boolean) => {
+      if (batchSaveMode !== "folder" || !canSaveToFolder) return null;
+      if (reuse && batchDirectoryRef.current) return batchDirectoryRef.current;
+      const directory = await pickSaveDirectory();
+      if (directory) batchDirectoryRef.current = directory;
+      return directory;
+    },
+    [batchSaveMode, canSaveToFolder],
+  );
 
-      // Clear the stats interval
-      if (statsIntervalRef.current) {
-        clearInterval(statsIntervalRef.current);
-        statsIntervalRef.current = null;
+  const handleConvertAll = useCallback(async () => {
+    if (batchItems.length === 0 || batchAbortRef.current) return;
+    let directory: FileSystemDirectoryHandle | null = null;
+    try {
+      directory = await getBatchDirectory(false);
+    } catch (error) {
+      console.error("Folder picker failed:", error);
+    }
+    if (batchSaveMode === "folder" && canSaveToFolder && !directory) return;
+    await runBatch(batchItems, directory);
+  }, [batchItems, batchSaveMode, canSaveToFolder, getBatchDirectory, runBatch]);
+
+  const handleBatchRetry = useCallback(
+    async (itemId: string) => {
+      const item = batchItems.find((other) => other.id === itemId);
+      if (!item || batchAbortRef.current) return;
+      let directory: FileSystemDirectoryHandle | null = null;
+      try {
+        directory = await getBatchDirectory(true);
+      } catch (error) {
+        console.error("Folder picker failed:", error);
       }
+      if (batchSaveMode === "folder" && canSaveToFolder && !directory) return;
+      await runBatch([item], directory);
+    },
+    [batchItems, batchSaveMode, canSaveToFolder, getBatchDirectory, runBatch],
+  );
 
-      // Send notification if enabled (use ref to get latest value)
-      if (
-        notifyMeRef.current &&
-        "Notification" in window &&
-        Notification.permission === "granted"
-      ) {
-        new Notification("Conversion Complete!", {
-          body: `Your file has been successfully converted to ${outputFormat.toUpperCase()}.`,
-          icon: "/favicon.ico",
-        });
-      }
-    } catch (error) {
-      console.error("Conversion error:", error);
-      statusRef.current?.setError(
-        error instanceof Error ? error.message : "An unknown error occurred",
-      );
+  const handleBatchCancel = useCallback(() => {
+    batchAbortRef.current?.abort();
+  }, []);
 
-      // Clear the stats interval on error
-      if (statsIntervalRef.current) {
-        clearInterval(statsIntervalRef.current);
-        statsIntervalRef.current = null;
+  const handleBatchRemove = useCallback(
+    (itemId: string) => {
+      const remaining = batchItems.filter((item) => item.id !== itemId);
+      releaseStoredOutput(itemId);
+      setBatchItems(remaining);
+      // Keep previewing a file that is still in the batch
+      if (!remaining.some((item) => item.file === selectedFile)) {
+        const [next] = remaining;
+        setSelectedFile(next.file);
+        setMetadata(null);
+        extractMetadata(next.file);
       }
-    } finally {
-      conversionRef.current = null;
-    }
-  }, [
-    selectedFile,
-    outputFormat,
-    videoCodec,
-    audioCodec,
-    // Removed editingState dependencies to prevent recreation on every scrub
-    metadata?.dimensions,
-    metadata?.duration,
-  ]);
+    },
+    [batchItems, selectedFile, extractMetadata, releaseStoredOutput],
+  );
 
-  const handleCancel = useCallback(async () => {
-    if (conversionRef.current) {
-      await conversionRef.current.cancel();
-      statusRef.current?.reset();
+  // Previewing another file keeps the editing settings, which apply to all
+  const handleBatchPreview = useCallback(
+    (itemId: string) => {
+      const item = batchItems.find((other) => other.id === itemId);
+      if (!item) return;
+      setSelectedFile(item.file);
+      setMetadata(null);
+      extractMetadata(item.file);
+    },
+    [batchItems, extractMetadata],
+  );
 
-      if (statsIntervalRef.current) {
-        clearInterval(statsIntervalRef.current);
-        statsIntervalRef.current = null;
+  const handleDownloadZip = useCallback(async () => {
+    setIsZipping(true);
+    try {
+      const zipName = `converted_${outputFormat || "files"}.zip`;
+      const output = await createOutputWriter({
+        destination: { type: "memory" },
+        fileName: zipName,
+      });
+      const zip = createZipWriter(output);
+      for (const item of batchItems) {
+        if (item.result && !item.result.saved) {
+          await zip.addFile(item.result.fileName, item.result.blob);
+        }
       }
+      await zip.finish();
+      downloadBlob(await output.getResult("application/zip"), zipName);
+    } catch (error) {
+      console.error("Failed to build ZIP:", error);
+      alert(error instanceof Error ? error.message : "Failed to build ZIP");
+    } finally {
+      setIsZipping(false);
     }
-  }, []);
+  }, [batchItems, outputFormat]);
 
   const resetConversion = useCallback(() => {
+    releaseStoredOutput(SINGLE_OUTPUT_ID);
     statusRef.current?.reset();
     setNotifyMe(false);
     setEditingState(defaultEditingState);
@@ -865,7 +971,7 @@ export default function ConvertPage() {
       clearInterval(statsIntervalRef.current);
       statsIntervalRef.current = null;
     }
-  }, []);
+  }, [releaseStoredOutput]);
 
   // Memoize the metadata display to prevent re-renders during scrubbing
   const metadataDisplay = useMemo(() => {
@@ -1131,6 +1237,147 @@ export default function ConvertPage() {
     metadata?.isAudioOnly,
   ]);
 
+  // Memoize GIF/WebP options
+  const animationOptions = useMemo(() => {
+    if (!isAnimatedImageFormat(outputFormat)) return null;
+
+    const updateSettings = (update: Partial<AnimatedImageSettings>) =>
+      setAnimatedSettings((prev) => ({ ...prev, ...update }));
+
+    return (
+      <div className="rounded-lg border border-border bg-card p-4">
+        <div className="flex items-center gap-2 mb-4">
+          <h4 className="font-semibold text-sm">Animation Options</h4>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <span className="text-sm font-medium block">Frame Rate</span>
+            <Select
+              value={String(animatedFps)}
+              onValueChange={(v) => setAnimatedFps(Number(v))}
+            >
+              <SelectTrigger className="bg-card shadow-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANIMATED_FPS_OPTIONS.map((fps) => (
+                  <SelectItem key={fps} value={String(fps)}>
+                    {fps} fps
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm font-medium block">Max Size</span>
+            <Select
+              value={String(animatedSettings.maxSize)}
+              onValueChange={(v) => updateSettings({ maxSize: Number(v) })}
+            >
+              <SelectTrigger className="bg-card shadow-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_SIZE_OPTIONS.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}px longest side
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm font-medium block">Loop</span>
+            <Select
+              value={String(animatedSettings.loopCount)}
+              onValueChange={(v) => updateSettings({ loopCount: Number(v) })}
+            >
+              <SelectTrigger className="bg-card shadow-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOOP_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={String(opt.value)}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {outputFormat === "gif" ? (
+            <div className="space-y-2">
+              <span className="text-sm font-medium block">Palette</span>
+              <Select
+                value={animatedSettings.paletteMode}
+                onValueChange={(v) =>
+                  updateSettings({ paletteMode: v as PaletteMode })
+                }
+              >
+                <SelectTrigger className="bg-card shadow-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="global">Global (smaller file)</SelectItem>
+                  <SelectItem value="per-frame">
+                    Per frame (better color)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <span className="text-sm font-medium block">Quality</span>
+              <Select
+                value={String(
+                  Math.round((animatedSettings.quality ?? 0) * 100),
+                )}
+                onValueChange={(v) =>
+                  updateSettings({ quality: Number(v) / 100 })
+                }
+              >
+                <SelectTrigger className="bg-card shadow-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEBP_QUALITY_OPTIONS.map((quality) => (
+                    <SelectItem key={quality} value={String(quality)}>
+                      {quality}%
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {outputFormat === "gif" && (
+          <div className="mt-4 flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="gifDither"
+              checked={animatedSettings.dither}
+              onChange={(e) => updateSettings({ dither: e.target.checked })}
+              className="size-4 cursor-pointer accent-main"
+            />
+            <label
+              htmlFor="gifDither"
+              className="text-sm font-medium cursor-pointer"
+            >
+              Dither colors (smoother gradients, larger file)
+            </label>
+          </div>
+        )}
+      </div>
+    );
+  }, [outputFormat, animatedFps, animatedSettings]);
+
+  const isSupportedOutput =
+    outputContainers.includes(outputFormat as OutputContainer) ||
+    isAnimatedImageFormat(outputFormat);
+
   return (
     <div className="min-h-screen bg-background dark:bg-black p-4 md:p-8">
       {/* Header */}
@@ -1164,6 +1411,7 @@ export default function ConvertPage() {
                 <input
                   type="file"
                   accept="video/*,audio/*"
+                  multiple
                   onChange={handleFileSelect}
                   className="hidden"
                   id="video-upload"
@@ -1188,11 +1436,12 @@ export default function ConvertPage() {
                     <div className="text-center">
                       <p className="font-semibold">
                         {isDragging
-                          ? "Drop your file here"
+                          ? "Drop your files here"
                           : "Click to upload, drag and drop, or paste (Ctrl+V)"}
                       </p>
                       <p className="text-sm text-foreground/60">
-                        MP4, WebM, MKV, MOV, MP3, WAV, AAC and more
+                        MP4, WebM, MKV, MOV, MP3, WAV, AAC and more. Drop
+                        several files or a folder to convert them together
                       </p>
                     </div>
                   </label>
@@ -1236,6 +1485,8 @@ export default function ConvertPage() {
                           </p>
                           <p className="text-sm text-foreground/60">
                             {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                            {batchItems.length > 0 &&
+                              ` · Preview of ${batchItems.length} files`}
                           </p>
                         </div>
                         <Button
@@ -1244,10 +1495,13 @@ export default function ConvertPage() {
                           onClick={() =>
                             document.getElementById("video-upload")?.click()
                           }
+                          disabled={isBatchRunning}
                           className="shadow-sm"
                         >
                           <Upload className="size-4" />
-                          Change File
+                          {batchItems.length > 0
+                            ? "Change Files"
+                            : "Change File"}
                         </Button>
                       </div>
                     </div>
@@ -1301,18 +1555,23 @@ export default function ConvertPage() {
               {/* Codec Selection */}
               <AutoHeight deps={[codecSelection]}>{codecSelection}</AutoHeight>
 
+              {/* GIF/WebP Options */}
+              <AutoHeight deps={[animationOptions]}>
+                {animationOptions}
+              </AutoHeight>
+
               {/* Editing Panel - hidden for audio-only output formats */}
               <AutoHeight
                 deps={[
                   selectedFile,
                   outputFormat,
-                  outputContainers.includes(outputFormat as OutputContainer),
+                  isSupportedOutput,
                   isAudioOnlyFormat(outputFormat as OutputContainer),
                 ]}
               >
                 {selectedFile &&
                   outputFormat &&
-                  outputContainers.includes(outputFormat as OutputContainer) &&
+                  isSupportedOutput &&
                   !isAudioOnlyFormat(outputFormat as OutputContainer) && (
                     <EditingPanel
                       state={editingState}
@@ -1328,80 +1587,110 @@ export default function ConvertPage() {
               </AutoHeight>
 
               {/* Notify Me Option */}
-              <AutoHeight
-                deps={[
-                  outputFormat,
-                  outputContainers.includes(outputFormat as OutputContainer),
-                ]}
-              >
-                {outputFormat &&
-                  outputContainers.includes(
-                    outputFormat as OutputContainer,
-                  ) && (
-                    <div className="rounded-lg border border-border bg-card p-4">
-                      <div className="flex items-center gap-3">
-                        <input
-                          type="checkbox"
-                          id="notifyMe"
-                          checked={notifyMe}
-                          onChange={async (e) => {
-                            console.log(
-                              "Notify me checkbox changed:",
-                              e.target.checked,
-                            );
-                            if (e.target.checked) {
-                              // Request notification permission if not granted
-                              if ("Notification" in window) {
-                                if (Notification.permission === "default") {
-                                  const permission =
-                                    await Notification.requestPermission();
-                                  setNotifyMe(permission === "granted");
-                                } else if (
-                                  Notification.permission === "granted"
-                                ) {
-                                  setNotifyMe(true);
-                                } else {
-                                  // Permission denied
-                                  setNotifyMe(false);
-                                  alert(
-                                    "Notification permission is denied. Please enable it in your browser settings.",
-                                  );
-                                }
+              <AutoHeight deps={[outputFormat, isSupportedOutput]}>
+                {outputFormat && isSupportedOutput && (
+                  <div className="rounded-lg border border-border bg-card p-4">
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="notifyMe"
+                        checked={notifyMe}
+                        onChange={async (e) => {
+                          console.log(
+                            "Notify me checkbox changed:",
+                            e.target.checked,
+                          );
+                          if (e.target.checked) {
+                            // Request notification permission if not granted
+                            if ("Notification" in window) {
+                              if (Notification.permission === "default") {
+                                const permission =
+                                  await Notification.requestPermission();
+                                setNotifyMe(permission === "granted");
+                              } else if (
+                                Notification.permission === "granted"
+                              ) {
+                                setNotifyMe(true);
                               } else {
+                                // Permission denied
+                                setNotifyMe(false);
                                 alert(
-                                  "Notifications are not supported in your browser.",
+                                  "Notification permission is denied. Please enable it in your browser settings.",
                                 );
-                                setNotifyMe(false);
                               }
                             } else {
-                              console.log("Notifications unchecked");
+                              alert(
+                                "Notifications are not supported in your browser.",
+                              );
                               setNotifyMe(false);
                             }
-                          }}
+                          } else {
+                            console.log("Notifications unchecked");
+                            setNotifyMe(false);
+                          }
+                        }}
+                        className="size-4 cursor-pointer accent-main"
+                      />
+                      <label
+                        htmlFor="notifyMe"
+                        className="text-sm font-medium cursor-pointer"
+                      >
+                        Notify me when conversion is complete
+                      </label>
+                    </div>
+                    {canSaveToFile && batchItems.length === 0 && (
+                      <div className="mt-3 flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          id="saveToFile"
+                          checked={saveToFile}
+                          onChange={(e) => setSaveToFile(e.target.checked)}
                           className="size-4 cursor-pointer accent-main"
                         />
                         <label
-                          htmlFor="notifyMe"
+                          htmlFor="saveToFile"
                           className="text-sm font-medium cursor-pointer"
                         >
-                          Notify me when conversion is complete
+                          Save directly to a file (choose where before
+                          converting)
                         </label>
                       </div>
-                    </div>
-                  )}
+                    )}
+                  </div>
+                )}
               </AutoHeight>
 
               {/* Conversion Status Display */}
-              <ConversionStatusDisplay
-                ref={statusRef}
-                selectedFile={selectedFile}
-                inputFormat={inputFormat}
-                outputFormat={outputFormat}
-                metadata={metadata}
-                onConvert={handleConvert}
-                onCancel={handleCancel}
-                onReset={resetConversion}
-              />
+              {batchItems.length > 0 ? (
+                <BatchConversionPanel
+                  items={batchItems}
+                  previewFile={selectedFile}
+                  outputFormat={outputFormat}
+                  canConvert={!!outputFormat && isSupportedOutput}
+                  isRunning={isBatchRunning}
+                  isZipping={isZipping}
+                  saveMode={batchSaveMode}
+                  canSaveToFolder={canSaveToFolder}
+                  onSaveModeChange={setBatchSaveMode}
+                  onConvertAll={handleConvertAll}
+                  onCancel={handleBatchCancel}
+                  onRetry={handleBatchRetry}
+                  onRemove={handleBatchRemove}
+                  onPreview={handleBatchPreview}
+                  onDownloadZip={handleDownloadZip}
+                />
+              ) : (
+                <ConversionStatusDisplay
+                  ref={statusRef}
+                  selectedFile={selectedFile}
+                  inputFormat={inputFormat}
+                  outputFormat={outputFormat}
+                  metadata={metadata}
+                  onConvert={handleConvert}
+                  onCancel={handleCancel}
+                  onReset={resetConversion}
+                />
+              )}
             </div>
             {/* End Right Column */}
           </div>
@@ -0,0 +1,181 @@
+"use client";
+
+import {
+  CheckCircle2,
+  FileWarning,
+  FolderSearch,
+  Loader2,
+  PackageOpen,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { matchMediaFiles, type OpenedProjectFile } from "@/lib/project-file";
+import { cn } from "@/lib/utils";
+
+interface OpenProjectDialogProps {
+  /** The project file being opened; the dialog is shown while it is set */
+  opened: OpenedProjectFile | null;
+  isOpening: boolean;
+  onCancel: () => void;
+  /** Open the project with the media files found so far */
+  onOpen: (files: Map<string, File>) => void;
+}
+
+/**
+ * Lists the media an opened project needs and lets the user point at the
+ * files that didn't come with it. Files are matched by content, so they may
+ * have been renamed.
+ */
+export function OpenProjectDialog({
+  opened,
+  isOpening,
+  onCancel,
+  onOpen,
+}: OpenProjectDialogProps) {
+  const [found, setFound] = useState<Map<string, File>>(new Map());
+  const [isMatching, setIsMatching] = useState(false);
+  const [unmatchedCount, setUnmatchedCount] = useState(0);
+  const [locateError, setLocateError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the bundled files whenever a project file is opened
+  useEffect(() => {
+    setFound(new Map(opened?.files));
+    setUnmatchedCount(0);
+    setLocateError(null);
+  }, [opened]);
+
+  const media = opened?.document.media ?? [];
+  const missing = media.filter((reference) => !found.has(reference.id));
+
+  const handleLocateFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsMatching(true);
+    setLocateError(null);
+    try {
+      const matches = await matchMediaFiles(missing, files);
+      setFound((prev) => new Map([...prev, ...matches]));
+      setUnmatchedCount(files.length - matches.size);
+    } catch (error) {
+      console.error("Failed to match media files:", error);
+      setLocateError(
+        error instanceof Error ? error.message : "Failed to read the files.",
+      );
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  return (
+    <Dialog open={opened !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <PackageOpen className="h-5 w-5" />
+            Open {opened?.document.settings.name}
+          </DialogTitle>
+          <DialogDescription>
+            {missing.length === 0
+              ? "All media for this project was found."
+              : `${missing.length} of ${media.length} media files are missing. Locate them, or open the project and relink them later.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {media.length > 0 && (
+          <ul className="max-h-72 divide-y divide-border overflow-y-auto rounded-md border border-border">
+            {media.map((reference) => {
+              const isFound = found.has(reference.id);
+              return (
+                <li
+                  key={reference.id}
+                  className="flex items-center gap-2 px-3 py-2"
+                >
+                  {isFound ? (
+                    <CheckCircle2 className="size-4 shrink-0 text-primary" />
+                  ) : (
+                    <FileWarning className="size-4 shrink-0 text-amber-500" />
+                  )}
+                  <span
+                    className={cn(
+                      "min-w-0 flex-1 truncate text-sm",
+                      !isFound && "text-foreground/60",
+                    )}
+                  >
+                    {reference.name}
+                  </span>
+                  <span className="shrink-0 text-xs text-foreground/50">
+                    {isFound ? "Found" : "Missing"}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {unmatchedCount > 0 && (
+          <p className="text-xs text-foreground/60">
+            {unmatchedCount} of the chosen files didn&apos;t match any missing
+            media.
+          </p>
+        )}
+
+        {locateError && (
+          <p className="whitespace-pre-line text-xs text-red-700 dark:text-red-300">
+            {locateError}
+          </p>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="video/*,audio/*,image/*"
+          className="hidden"
+          onChange={(e) => {
+            void handleLocateFiles(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+        />
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {missing.length > 0 ? (
+            <Button
+              variant="outline"
+              disabled={isMatching || isOpening}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isMatching ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <FolderSearch className="size-4" />
+              )}
+              Locate Files…
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={isOpening}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isMatching || isOpening}
+              onClick={() => onOpen(found)}
+            >
+              {isOpening && <Loader2 className="size-4 animate-spin" />}
+              {missing.length > 0 ? "Open With Offline Media" : "Open Project"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,18 +1,58 @@
 "use client";
 
-import { Book, FolderArchive, Plus } from "lucide-react";
+import {
+  Book,
+  Copy,
+  Film,
+  FolderArchive,
+  FolderOpen,
+  MoreHorizontal,
+  Plus,
+  Trash2,
+} from "lucide-react";
 import { nanoid } from "nanoid";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { HeroIcon } from "@/components/hero-icon";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
-
-interface RecentProject {
-  id: string;
-  name: string;
-  lastOpened: Date;
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  getProjectFileAssets,
+  type OpenedProjectFile,
+  openProjectFile,
+  PROJECT_BUNDLE_EXTENSION,
+} from "@/lib/project-file";
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  deleteProject,
+  duplicateProject,
+  hydrateTracks,
+  saveProject,
+} from "@/lib/project-store";
+import {
+  getRecentProjects,
+  type RecentProject,
+  removeRecentProject,
+  touchRecentProject,
+  updateRecentProject,
+} from "@/lib/recent-projects";
+import { OpenProjectDialog } from "./open-project-dialog";
 
 function formatRelativeTime(date: Date): string {
   const now = new Date();
@@ -36,69 +76,103 @@ export default function EditorDashboard() {
   const router = useRouter();
   const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
 
+  const [projectToDelete, setProjectToDelete] = useState<RecentProject | null>(
+    null,
+  );
+  const [openedFile, setOpenedFile] = useState<OpenedProjectFile | null>(null);
+  const [isOpeningFile, setIsOpeningFile] = useState(false);
+  const [openFileError, setOpenFileError] = useState<string | null>(null);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+
   // Load recent projects from localStorage
   useEffect(() => {
-    const stored = localStorage.getItem("localcut-recent-projects");
-    if (stored) {
-      try {
-        const projects = JSON.parse(stored) as Array<{
-          id: string;
-          name: string;
-          lastOpened: string;
-        }>;
-        setRecentProjects(
-          projects.map((p) => ({
-            ...p,
-            lastOpened: new Date(p.lastOpened),
-          })),
-        );
-      } catch {
-        // Invalid data, ignore
-      }
-    }
+    setRecentProjects(getRecentProjects());
   }, []);
 
   const handleNewProject = () => {
     const projectId = nanoid(21);
-    // Add to recent projects
-    const newProject: RecentProject = {
-      id: projectId,
-      name: "Untitled Project",
-      lastOpened: new Date(),
-    };
-    const updated = [newProject, ...recentProjects.slice(0, 9)];
-    localStorage.setItem(
-      "localcut-recent-projects",
-      JSON.stringify(
-        updated.map((p) => ({ ...p, lastOpened: p.lastOpened.toISOString() })),
-      ),
-    );
+    touchRecentProject(projectId, DEFAULT_PROJECT_SETTINGS.name);
     router.push(`/projects/${projectId}`);
   };
 
   const handleOpenProject = (projectId: string) => {
-    // Update last opened time
-    const updated = recentProjects.map((p) =>
-      p.id === projectId ? { ...p, lastOpened: new Date() } : p,
+    const project = recentProjects.find((p) => p.id === projectId);
+    touchRecentProject(
+      projectId,
+      project?.name ?? DEFAULT_PROJECT_SETTINGS.name,
     );
-    // Move to front
-    const project = updated.find((p) => p.id === projectId);
-    if (project) {
-      const others = updated.filter((p) => p.id !== projectId);
-      const reordered = [project, ...others];
-      localStorage.setItem(
-        "localcut-recent-projects",
-        JSON.stringify(
-          reordered.map((p) => ({
-            ...p,
-            lastOpened: p.lastOpened.toISOString(),
-          })),
+    router.push(`/projects/${projectId}`);
+  };
+
+  const handleProjectFileSelect = async (file: File) => {
+    setOpenFileError(null);
+    try {
+      setOpenedFile(await openProjectFile(file));
+    } catch (error) {
+      setOpenFileError(
+        error instanceof Error ? error.message : "Failed to open project file.",
+      );
+    }
+  };
+
+  // Store the opened project under a new id; the editor restores its media
+  const handleOpenProjectFile = async (files: Map<string, File>) => {
+    if (!openedFile) return;
+    const { document } = openedFile;
+    const projectId = nanoid(21);
+    const assets = getProjectFileAssets(document, files);
+    setIsOpeningFile(true);
+    try {
+      await saveProject(
+        projectId,
+        hydrateTracks(
+          document.tracks,
+          new Map(assets.map((asset) => [asset.id, asset])),
         ),
+        assets,
+        { masterVolume: document.masterVolume, settings: document.settings },
       );
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      setOpenFileError("Failed to import project. Please try again.");
+      setOpenedFile(null);
+      return;
+    } finally {
+      setIsOpeningFile(false);
     }
+    touchRecentProject(projectId, document.settings.name);
     router.push(`/projects/${projectId}`);
   };
 
+  const handleDuplicateProject = async (project: RecentProject) => {
+    const projectId = nanoid(21);
+    const name = `${project.name} (copy)`;
+    try {
+      // A project that was never saved has nothing to copy but its name
+      await duplicateProject(project.id, projectId, name);
+    } catch (error) {
+      console.error("Failed to duplicate project:", error);
+      return;
+    }
+    touchRecentProject(projectId, name);
+    setRecentProjects(
+      updateRecentProject(projectId, { thumbnail: project.thumbnail }),
+    );
+  };
+
+  const handleDeleteProject = async () => {
+    if (!projectToDelete) return;
+    const { id } = projectToDelete;
+    setProjectToDelete(null);
+    try {
+      await deleteProject(id);
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      return;
+    }
+    setRecentProjects(removeRecentProject(id));
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Main Content */}
@@ -130,6 +204,26 @@ export default function EditorDashboard() {
             <span className="text-sm font-medium">New Project</span>
           </Button>
 
+          <Button
+            variant="outline"
+            className="w-36 h-24 flex flex-col items-start justify-between p-4"
+            onClick={() => projectFileInputRef.current?.click()}
+          >
+            <FolderOpen className="size-5" />
+            <span className="text-sm font-medium">Open Project</span>
+          </Button>
+          <input
+            ref={projectFileInputRef}
+            type="file"
+            accept={`${PROJECT_BUNDLE_EXTENSION},.json,application/json`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleProjectFileSelect(file);
+              e.target.value = "";
+            }}
+          />
+
           <Button
             variant="outline"
             className="w-36 h-24 flex flex-col items-start justify-between p-4"
@@ -151,6 +245,12 @@ export default function EditorDashboard() {
           </Button>
         </div>
 
+        {openFileError && (
+          <p className="mb-6 max-w-md whitespace-pre-line text-sm text-red-700 dark:text-red-300">
+            {openFileError}
+          </p>
+        )}
+
         {/* Recent Projects */}
         <div className="w-full max-w-md">
           <div className="flex items-center justify-between mb-3">
@@ -175,27 +275,98 @@ export default function EditorDashboard() {
           ) : (
             <div className="space-y-1">
               {recentProjects.slice(0, 5).map((project) => (
-                <button
-                  type="button"
+                <div
                   key={project.id}
-                  className="w-full flex items-center justify-between px-3 py-2 rounded-md hover:bg-accent transition-colors text-left"
-                  onClick={() => handleOpenProject(project.id)}
+                  className="group flex items-center gap-1 rounded-md hover:bg-accent transition-colors"
                 >
-                  <span className="text-sm text-foreground">
-                    {project.name}{" "}
-                    <span className="text-foreground/50">
-                      {formatDate(project.lastOpened)}
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 flex items-center gap-3 px-3 py-2 text-left"
+                    onClick={() => handleOpenProject(project.id)}
+                  >
+                    <div className="w-16 aspect-video shrink-0 overflow-hidden rounded bg-muted flex items-center justify-center">
+                      {project.thumbnail ? (
+                        // biome-ignore lint/performance/noImgElement: data URL thumbnail
+                        <img
+                          src={project.thumbnail}
+                          alt=""
+                          className="size-full object-cover"
+                        />
+                      ) : (
+                        <Film className="size-4 text-foreground/30" />
+                      )}
+                    </div>
+                    <span className="flex-1 min-w-0 truncate text-sm text-foreground">
+                      {project.name}{" "}
+                      <span className="text-foreground/50">
+                        {formatDate(project.lastOpened)}
+                      </span>
+                    </span>
+                    <span className="shrink-0 text-xs text-foreground/50">
+                      {formatRelativeTime(project.lastOpened)}
                     </span>
-                  </span>
-                  <span className="text-xs text-foreground/50">
-                    {formatRelativeTime(project.lastOpened)}
-                  </span>
-                </button>
+                  </button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7 mr-1 text-foreground/50 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                        title="Project actions"
+                      >
+                        <MoreHorizontal className="size-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => void handleDuplicateProject(project)}
+                      >
+                        <Copy className="size-4 mr-2" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-red-600 focus:text-red-600"
+                        onClick={() => setProjectToDelete(project)}
+                      >
+                        <Trash2 className="size-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               ))}
             </div>
           )}
         </div>
       </main>
+
+      <OpenProjectDialog
+        opened={openedFile}
+        isOpening={isOpeningFile}
+        onCancel={() => setOpenedFile(null)}
+        onOpen={(files) => void handleOpenProjectFile(files)}
+      />
+
+      <AlertDialog
+        open={projectToDelete !== null}
+        onOpenChange={(open) => !open && setProjectToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{projectToDelete?.name}&quot; and the media stored with it
+              will be removed from this browser. This can&apos;t be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void handleDeleteProject()}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
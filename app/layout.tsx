@@ -5,6 +5,7 @@ import { BrowserWarning } from "@/components/browser-warning";
 import Footer from "@/components/footer";
 import Header from "@/components/header";
 import { ThemeProvider } from "@/components/theme-provider";
+import { ExportQueueProvider } from "@/lib/export-queue";
 import "./globals.css";
 
 const archivo = Archivo({
@@ -39,11 +40,14 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <BrowserWarning />
-          <Header />
-          {children}
-          {/* Footer */}
-          <Footer />
+          {/* Exports keep running while moving between pages */}
+          <ExportQueueProvider>
+            <BrowserWarning />
+            <Header />
+            {children}
+            {/* Footer */}
+            <Footer />
+          </ExportQueueProvider>
         </ThemeProvider>
       </body>
     </html>
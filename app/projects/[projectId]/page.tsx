@@ -1,41 +1,212 @@
 "use client";
 
-import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useParams } from "next/navigation";
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  type AnimatableProperty,
+  type ClipCrop,
   type ClipFilters,
   type ClipProperties,
   type ClipTransform,
+  DEFAULT_CLIP_FILTERS,
+  DEFAULT_SHAPE_CLIP,
+  DEFAULT_TEXT_CLIP,
   EditorHeader,
   type FitMode,
+  type KeyframeEasing,
   MediaLibrary,
   type MediaLibraryTab,
+  ProjectFileMenu,
+  ProjectSettingsDialog,
+  type PropertiesPanelHandlers,
+  RelinkMediaDialog,
+  type ShapeClipData,
+  type ShapePreset,
+  type TextClipData,
+  type TextPreset,
   Timeline,
   type TimelineClipWithAsset,
   TimelinePlayer,
   TimelinePlayerProvider,
   type TimelineTrackData,
+  type TimelineTransition,
+  type TransitionType,
   useTimelinePlayer,
 } from "@/components/editor";
-import { ExportModal } from "@/components/editor/export";
-import type { MediaAsset } from "@/components/editor/panels/media-library";
+import { ExportModal, ExportQueuePanel } from "@/components/editor/export";
+import type {
+  MediaAsset,
+  TransitionTarget,
+} from "@/components/editor/panels/media-library";
+import { Button } from "@/components/ui/button";
 import {
   ResizableHandle,
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
+import { useHistoryState } from "@/hooks/use-history-state";
+import {
+  pasteClipboardClips,
+  readClipboard,
+  writeClipboard,
+} from "@/lib/clip-clipboard";
+import { clampCrop, getClipCrop } from "@/lib/clip-crop";
+import { getClipSpeed, retimeClip } from "@/lib/clip-speed";
+import {
+  clearKeyframes,
+  evaluateKeyframes,
+  findKeyframeAt,
+  getStaticValue,
+  isAnimated,
+  removeKeyframe,
+  setKeyframe,
+  setKeyframeEasing,
+  TRANSFORM_PROPERTIES,
+} from "@/lib/keyframes";
 import {
   type ImportedMediaAsset,
   MediaImportProvider,
   useMediaImport,
 } from "@/lib/media-import";
+import { relinkTracks } from "@/lib/offline-media";
+import {
+  exportProjectBundle,
+  exportProjectJson,
+  PROJECT_BUNDLE_EXTENSION,
+} from "@/lib/project-file";
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  hydrateTracks,
+  loadProject,
+  type ProjectSettings,
+  saveProject,
+} from "@/lib/project-store";
+import {
+  createProjectThumbnail,
+  getRecentProjects,
+  touchRecentProject,
+  updateRecentProject,
+} from "@/lib/recent-projects";
+import { getShapeClipName } from "@/lib/shape-layer";
+import { getTextClipName } from "@/lib/text-layer";
+import { DEFAULT_SNAP_THRESHOLD } from "@/lib/timeline-snap";
+import {
+  DEFAULT_PIXELS_PER_SECOND,
+  zoomIn,
+  zoomOut,
+} from "@/lib/timeline-zoom";
+import {
+  DEFAULT_TRANSITION_DURATION,
+  findTransitionSlot,
+  getMaxTransitionDuration,
+} from "@/lib/transitions";
 
 // Empty initial state for tracks
 const emptyTracks: TimelineTrackData[] = [];
 
+const DEFAULT_CLIP_TRANSFORM: ClipTransform = {
+  x: 0,
+  y: 0,
+  scaleX: 1,
+  scaleY: 1,
+  rotation: 0,
+};
+
+// Map a timeline clip to the properties shown for the current selection
+function getClipProperties(clip: TimelineClipWithAsset): ClipProperties {
+  const transform = clip.transform ?? DEFAULT_CLIP_TRANSFORM;
+  const crop = getClipCrop(clip);
+
+  return {
+    id: clip.id,
+    name: clip.name,
+    type: clip.type,
+    startTime: clip.startTime,
+    positionX: transform.x,
+    positionY: transform.y,
+    scaleX: transform.scaleX,
+    scaleY: transform.scaleY,
+    rotation: transform.rotation,
+    anchorX: transform.anchorX ?? 0.5,
+    anchorY: transform.anchorY ?? 0.5,
+    cropTop: crop.top * 100,
+    cropBottom: crop.bottom * 100,
+    cropLeft: crop.left * 100,
+    cropRight: crop.right * 100,
+    trimStart: clip.trimStart,
+    trimEnd: clip.trimEnd,
+    duration: clip.duration,
+    speed: getClipSpeed(clip),
+    preservePitch: clip.preservePitch ?? true,
+    fitMode: clip.fitMode,
+    text: clip.text,
+    shape: clip.shape,
+    filters: clip.filters,
+    keyframes: clip.keyframes,
+    gain: clip.gain ?? 0,
+    fadeIn: clip.fadeIn ?? 0,
+    fadeOut: clip.fadeOut ?? 0,
+  };
+}
+
+// Set the base value of a transform or filter property
+function withStaticValue(
+  clip: TimelineClipWithAsset,
+  property: AnimatableProperty,
+  value: number,
+): TimelineClipWithAsset {
+  if ((TRANSFORM_PROPERTIES as readonly string[]).includes(property)) {
+    return {
+      ...clip,
+      transform: {
+        ...(clip.transform ?? DEFAULT_CLIP_TRANSFORM),
+        [property]: value,
+      },
+    };
+  }
+  return {
+    ...clip,
+    filters: { ...(clip.filters ?? DEFAULT_CLIP_FILTERS), [property]: value },
+  };
+}
+
+function findClip(
+  tracks: TimelineTrackData[],
+  clipId: string,
+): TimelineClipWithAsset | undefined {
+  for (const track of tracks) {
+    const clip = track.clips.find((c) => c.id === clipId);
+    if (clip) return clip;
+  }
+  return undefined;
+}
+
+// New text and shape clips last this long and use these timeline colors
+const LAYER_CLIP_DURATION = 5;
+const TEXT_CLIP_COLOR = "#16a085";
+const SHAPE_CLIP_COLOR = "#d35400";
+
+// Debounce between the last edit and writing the project to IndexedDB
+const AUTOSAVE_DELAY_MS = 1000;
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 interface TimelineWithTimeProps {
   tracks: TimelineTrackData[];
   duration: number;
   selectedClipId: string | null;
+  markIn: number | null;
+  markOut: number | null;
   onTimeChange: (time: number) => void;
   onClipSelect: (clipId: string, nextTracks?: TimelineTrackData[]) => void;
   onTracksChange: (nextTracks: TimelineTrackData[]) => void;
@@ -43,6 +214,17 @@ interface TimelineWithTimeProps {
   onRemoveTrack: (trackId: string) => void;
   onDeleteClip: (clipId: string) => void;
   onDuplicateClip: (clipId: string) => void;
+  onCopyClip: (clipId: string) => void;
+  onCutClip: (clipId: string) => void;
+  onPaste: () => void;
+  onRelinkMedia: () => void;
+  pixelsPerSecond: number;
+  onPixelsPerSecondChange: (pixelsPerSecond: number) => void;
+  snapEnabled: boolean;
+  onToggleSnap: () => void;
+  snapThreshold: number;
+  onSnapThresholdChange: (snapThreshold: number) => void;
+  frameRate: number;
 }
 
 // Memoized Timeline wrapper to prevent unnecessary re-renders
@@ -51,6 +233,8 @@ const TimelineWithTime = memo(function TimelineWithTime({
   tracks,
   duration,
   selectedClipId,
+  markIn,
+  markOut,
   onTimeChange,
   onClipSelect,
   onTracksChange,
@@ -58,6 +242,17 @@ const TimelineWithTime = memo(function TimelineWithTime({
   onRemoveTrack,
   onDeleteClip,
   onDuplicateClip,
+  onCopyClip,
+  onCutClip,
+  onPaste,
+  onRelinkMedia,
+  pixelsPerSecond,
+  onPixelsPerSecondChange,
+  snapEnabled,
+  onToggleSnap,
+  snapThreshold,
+  onSnapThresholdChange,
+  frameRate,
 }: TimelineWithTimeProps) {
   // Timeline component now subscribes to time internally - no need to pass currentTime
   return (
@@ -66,35 +261,59 @@ const TimelineWithTime = memo(function TimelineWithTime({
       duration={duration}
       onTimeChange={onTimeChange}
       selectedClipId={selectedClipId}
+      markIn={markIn}
+      markOut={markOut}
       onClipSelect={onClipSelect}
       onTracksChange={onTracksChange}
       onAddTrack={onAddTrack}
       onRemoveTrack={onRemoveTrack}
       onDeleteClip={onDeleteClip}
       onDuplicateClip={onDuplicateClip}
+      onCopyClip={onCopyClip}
+      onCutClip={onCutClip}
+      onPaste={onPaste}
+      onRelinkMedia={onRelinkMedia}
+      pixelsPerSecond={pixelsPerSecond}
+      onPixelsPerSecondChange={onPixelsPerSecondChange}
+      snapEnabled={snapEnabled}
+      onToggleSnap={onToggleSnap}
+      snapThreshold={snapThreshold}
+      onSnapThresholdChange={onSnapThresholdChange}
+      frameRate={frameRate}
       className="h-full border-none"
     />
   );
 });
 
 function EditorContent() {
+  const { projectId } = useParams<{ projectId: string }>();
+
   // Media import context
   const {
     state: { assets: importedAssets, isImporting, importError },
-    actions: { openFilePicker, removeAsset, importFiles },
+    actions: {
+      openFilePicker,
+      removeAsset,
+      importFiles,
+      restoreAssets,
+      relinkAsset,
+    },
   } = useMediaImport();
 
   // Timeline player context
   const {
-    state: { fitMode },
+    state: { fitMode, masterVolume },
     actions: {
       setTracks: setPlayerTracks,
+      setMasterVolume: setPlayerMasterVolume,
       seek: playerSeek,
       resize: playerResize,
       setFitMode: setPlayerFitMode,
+      setBackgroundColor: setPlayerBackgroundColor,
       setClipFiltersOverride,
       clearClipFiltersOverride,
       renderFrame,
+      exportFrame,
     },
     meta: { outputSize, getCurrentTime },
   } = useTimelinePlayer();
@@ -123,17 +342,188 @@ function EditorContent() {
     return map;
   }, [importedAssets]);
 
-  // State
-  const [tracks, setTracks] = useState<TimelineTrackData[]>(emptyTracks);
+  // State - tracks carry an undo/redo history; everything else is view state
+  const {
+    state: tracks,
+    set: setTracks,
+    reset: resetTracks,
+    undo: undoTracks,
+    redo: redoTracks,
+    canUndo,
+    canRedo,
+  } = useHistoryState<TimelineTrackData[]>(emptyTracks);
   const [selectedClip, setSelectedClip] = useState<ClipProperties | null>(null);
-  const [, setHasUnsavedChanges] = useState(false);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [isProjectLoaded, setIsProjectLoaded] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showProjectSettings, setShowProjectSettings] = useState(false);
+  const [showRelinkDialog, setShowRelinkDialog] = useState(false);
+  const [timelineZoom, setTimelineZoom] = useState(DEFAULT_PIXELS_PER_SECOND);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [snapThreshold, setSnapThreshold] = useState(DEFAULT_SNAP_THRESHOLD);
+  const [isSavingProjectFile, setIsSavingProjectFile] = useState(false);
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(
+    DEFAULT_PROJECT_SETTINGS,
+  );
+  const [markIn, setMarkIn] = useState<number | null>(null);
+  const [markOut, setMarkOut] = useState<number | null>(null);
   const [isMediaPanelOpen, setIsMediaPanelOpen] = useState(true);
   const [mediaPanelTab, setMediaPanelTab] = useState<MediaLibraryTab>("media");
 
-  // History state for Undo/Redo (placeholder)
-  const [canUndo] = useState(false);
-  const [canRedo] = useState(false);
+  // Assets and master volume the change checks last saw
+  const observedAssetsRef = useRef<ImportedMediaAsset[] | null>(null);
+  const observedMasterVolumeRef = useRef<number | null>(null);
+  // Saves are chained so an older save never lands after a newer one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Restore the saved timeline and media library for this project
+  useEffect(() => {
+    let cancelled = false;
+    setIsProjectLoaded(false);
+
+    const restoreProject = async () => {
+      try {
+        const saved = await loadProject(projectId);
+        if (saved) {
+          const restoredAssets = await restoreAssets(saved.assets);
+          if (cancelled) return;
+          const restoredAssetMap = new Map(
+            restoredAssets.map((asset) => [asset.id, asset]),
+          );
+          resetTracks(hydrateTracks(saved.project.tracks, restoredAssetMap));
+        }
+        if (cancelled) return;
+        // Older projects have no settings; keep the name the dashboard shows
+        const settings = saved?.project.settings ?? {
+          ...DEFAULT_PROJECT_SETTINGS,
+          name:
+            getRecentProjects().find((p) => p.id === projectId)?.name ??
+            DEFAULT_PROJECT_SETTINGS.name,
+        };
+        setProjectSettings(settings);
+        touchRecentProject(projectId, settings.name);
+        setPlayerMasterVolume(saved?.project.masterVolume ?? 1);
+        setIsProjectLoaded(true);
+      } catch (error) {
+        // Leave autosave disabled so a failed load can't overwrite the project
+        console.error("Failed to load project:", error);
+      }
+    };
+
+    void restoreProject();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, restoreAssets, resetTracks, setPlayerMasterVolume]);
+
+  // Importing or removing media is a project change too
+  useEffect(() => {
+    if (!isProjectLoaded || observedAssetsRef.current === importedAssets) {
+      return;
+    }
+    observedAssetsRef.current = importedAssets;
+    setHasUnsavedChanges(true);
+  }, [importedAssets, isProjectLoaded]);
+
+  // So is changing the master volume in the timeline
+  useEffect(() => {
+    if (!isProjectLoaded || observedMasterVolumeRef.current === masterVolume) {
+      return;
+    }
+    observedMasterVolumeRef.current = masterVolume;
+    setHasUnsavedChanges(true);
+  }, [masterVolume, isProjectLoaded]);
+
+  // Keep the player's canvas and background in step with the settings
+  useEffect(() => {
+    if (
+      outputSize.width !== projectSettings.width ||
+      outputSize.height !== projectSettings.height
+    ) {
+      playerResize(projectSettings.width, projectSettings.height);
+    }
+  }, [
+    projectSettings.width,
+    projectSettings.height,
+    outputSize.width,
+    outputSize.height,
+    playerResize,
+  ]);
+
+  useEffect(() => {
+    setPlayerBackgroundColor(projectSettings.backgroundColor);
+  }, [projectSettings.backgroundColor, setPlayerBackgroundColor]);
+
+  const handleProjectSettingsChange = useCallback(
+    (settings: ProjectSettings) => {
+      setProjectSettings(settings);
+      updateRecentProject(projectId, { name: settings.name });
+      setHasUnsavedChanges(true);
+    },
+    [projectId],
+  );
+
+  const offlineAssets = useMemo(
+    () => importedAssets.filter((asset) => asset.offline),
+    [importedAssets],
+  );
+
+  // Relinking swaps the asset for one with a new id, so every clip follows
+  const handleRelinkMedia = useCallback(
+    async (assetId: string, file: File) => {
+      const asset = await relinkAsset(assetId, file);
+      if (!asset) return false;
+      setTracks((prev) => relinkTracks(prev, assetId, asset));
+      setHasUnsavedChanges(true);
+      return true;
+    },
+    [relinkAsset, setTracks],
+  );
+
+  const handleCanvasResize = useCallback(
+    (width: number, height: number) => {
+      handleProjectSettingsChange({ ...projectSettings, width, height });
+    },
+    [handleProjectSettingsChange, projectSettings],
+  );
+
+  // Autosave once edits settle
+  useEffect(() => {
+    if (!isProjectLoaded || !hasUnsavedChanges) return;
+
+    const timeout = window.setTimeout(() => {
+      setHasUnsavedChanges(false);
+      saveQueueRef.current = saveQueueRef.current
+        .then(async () => {
+          await saveProject(projectId, tracks, importedAssets, {
+            masterVolume,
+            settings: projectSettings,
+          });
+          // Refresh the dashboard thumbnail from the frame under the playhead
+          if (!tracks.some((track) => track.clips.length > 0)) return;
+          const frame = await exportFrame(undefined, "jpeg");
+          if (frame) {
+            updateRecentProject(projectId, {
+              thumbnail: await createProjectThumbnail(frame),
+            });
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to save project:", error);
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timeout);
+  }, [
+    hasUnsavedChanges,
+    isProjectLoaded,
+    projectId,
+    tracks,
+    importedAssets,
+    masterVolume,
+    projectSettings,
+    exportFrame,
+  ]);
 
   // Sync tracks to player context whenever they change
   useEffect(() => {
@@ -172,42 +562,48 @@ function EditorContent() {
   );
 
   // Add new track handler
-  const handleAddTrack = useCallback((type: "video" | "audio" | "image") => {
-    setTracks((prev) => {
-      const existingCount = prev.filter((t) => t.type === type).length;
-
-      const getTrackLabel = (
-        trackType: "video" | "audio" | "image",
-        count: number,
-      ) => {
-        switch (trackType) {
-          case "video":
-            return `Video ${count + 1}`;
-          case "image":
-            return `Image ${count + 1}`;
-          case "audio":
-            return `Audio ${count + 1}`;
-        }
-      };
+  const handleAddTrack = useCallback(
+    (type: "video" | "audio" | "image") => {
+      setTracks((prev) => {
+        const existingCount = prev.filter((t) => t.type === type).length;
+
+        const getTrackLabel = (
+          trackType: "video" | "audio" | "image",
+          count: number,
+        ) => {
+          switch (trackType) {
+            case "video":
+              return `Video ${count + 1}`;
+            case "image":
+              return `Image ${count + 1}`;
+            case "audio":
+              return `Audio ${count + 1}`;
+          }
+        };
 
-      const newTrack: TimelineTrackData = {
-        id: `${type}-${Date.now()}`,
-        type,
-        label: getTrackLabel(type, existingCount),
-        hidden: false,
-        muted: false,
-        clips: [],
-      };
-      return [...prev, newTrack];
-    });
-    setHasUnsavedChanges(true);
-  }, []);
+        const newTrack: TimelineTrackData = {
+          id: `${type}-${Date.now()}`,
+          type,
+          label: getTrackLabel(type, existingCount),
+          hidden: false,
+          muted: false,
+          clips: [],
+        };
+        return [...prev, newTrack];
+      });
+      setHasUnsavedChanges(true);
+    },
+    [setTracks],
+  );
 
   // Remove track handler
-  const handleRemoveTrack = useCallback((trackId: string) => {
-    setTracks((prev) => prev.filter((t) => t.id !== trackId));
-    setHasUnsavedChanges(true);
-  }, []);
+  const handleRemoveTrack = useCallback(
+    (trackId: string) => {
+      setTracks((prev) => prev.filter((t) => t.id !== trackId));
+      setHasUnsavedChanges(true);
+    },
+    [setTracks],
+  );
 
   // Delete clip handler
   const handleDeleteClip = useCallback(
@@ -224,32 +620,118 @@ function EditorContent() {
       setSelectedClip((prev) => (prev?.id === clipId ? null : prev));
       setHasUnsavedChanges(true);
     },
-    [pruneEmptyTracks],
+    [pruneEmptyTracks, setTracks],
   );
 
   // Duplicate clip handler
-  const handleDuplicateClip = useCallback((clipId: string) => {
-    setTracks((prev) => {
-      return prev.map((track) => {
-        const clipIndex = track.clips.findIndex((c) => c.id === clipId);
-        if (clipIndex === -1) return track;
-
-        const clip = track.clips[clipIndex];
-        const duplicatedClip = {
-          ...clip,
-          id: `clip-${Date.now()}`,
-          // Position the duplicate right after the original clip
-          startTime: clip.startTime + clip.duration,
-        };
+  const handleDuplicateClip = useCallback(
+    (clipId: string) => {
+      setTracks((prev) => {
+        return prev.map((track) => {
+          const clipIndex = track.clips.findIndex((c) => c.id === clipId);
+          if (clipIndex === -1) return track;
+
+          const clip = track.clips[clipIndex];
+          const duplicatedClip = {
+            ...clip,
+            id: `clip-${Date.now()}`,
+            // Position the duplicate right after the original clip
+            startTime: clip.startTime + clip.duration,
+          };
 
-        // Insert after the original clip
-        const newClips = [...track.clips];
-        newClips.splice(clipIndex + 1, 0, duplicatedClip);
+          // Insert after the original clip
+          const newClips = [...track.clips];
+          newClips.splice(clipIndex + 1, 0, duplicatedClip);
 
-        return { ...track, clips: newClips };
+          return { ...track, clips: newClips };
+        });
       });
-    });
+      setHasUnsavedChanges(true);
+    },
+    [setTracks],
+  );
+
+  // Copy clip handler - the clipboard is shared across projects
+  const handleCopyClip = useCallback(
+    (clipId: string) => {
+      for (const track of tracks) {
+        const clip = track.clips.find((c) => c.id === clipId);
+        if (clip) {
+          writeClipboard([{ clip, trackType: track.type }]);
+          return;
+        }
+      }
+    },
+    [tracks],
+  );
+
+  // Cut clip handler
+  const handleCutClip = useCallback(
+    (clipId: string) => {
+      handleCopyClip(clipId);
+      handleDeleteClip(clipId);
+    },
+    [handleCopyClip, handleDeleteClip],
+  );
+
+  // Paste clipboard clips at the playhead
+  const handlePaste = useCallback(() => {
+    const payload = readClipboard();
+    if (!payload) return;
+
+    const result = pasteClipboardClips(
+      tracks,
+      payload,
+      importedAssets,
+      getCurrentTime(),
+    );
+    if (result.skippedCount > 0) {
+      console.warn(
+        `${result.skippedCount} clip(s) not pasted: their media isn't in this project`,
+      );
+    }
+    if (result.pastedClipIds.length === 0) return;
+
+    setTracks(result.tracks);
+    const pastedClip = findClip(result.tracks, result.pastedClipIds[0]);
+    if (pastedClip) setSelectedClip(getClipProperties(pastedClip));
     setHasUnsavedChanges(true);
+  }, [tracks, importedAssets, getCurrentTime, setTracks]);
+
+  // Undo/redo restore a tracks snapshot; refresh or drop the selection to match
+  const syncSelectionWithTracks = useCallback(
+    (nextTracks: TimelineTrackData[]) => {
+      setSelectedClip((prev) => {
+        if (!prev) return prev;
+        const clip = findClip(nextTracks, prev.id);
+        return clip ? getClipProperties(clip) : null;
+      });
+      setHasUnsavedChanges(true);
+    },
+    [],
+  );
+
+  const handleUndo = useCallback(() => {
+    const restored = undoTracks();
+    if (restored) syncSelectionWithTracks(restored);
+  }, [undoTracks, syncSelectionWithTracks]);
+
+  const handleRedo = useCallback(() => {
+    const restored = redoTracks();
+    if (restored) syncSelectionWithTracks(restored);
+  }, [redoTracks, syncSelectionWithTracks]);
+
+  // Zoom steps; the timeline keeps the centre of its view in place
+  const handleZoomIn = useCallback(() => {
+    setTimelineZoom((zoom) => zoomIn(zoom));
+  }, []);
+
+  const handleZoomOut = useCallback(() => {
+    setTimelineZoom((zoom) => zoomOut(zoom));
+  }, []);
+
+  const handleToggleSnap = useCallback(() => {
+    setSnapEnabled((enabled) => !enabled);
   }, []);
 
   // Keyboard shortcuts for clip operations
@@ -263,6 +745,22 @@ function EditorContent() {
         return;
       }
 
+      // Ctrl/Cmd + Z to undo, Ctrl/Cmd + Shift + Z or Ctrl/Cmd + Y to redo
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "y") {
+        e.preventDefault();
+        handleRedo();
+        return;
+      }
+
       // Delete/Backspace to delete selected clip
       if (e.key === "Delete" || e.key === "Backspace") {
         if (selectedClip) {
@@ -271,6 +769,84 @@ function EditorContent() {
         }
       }
 
+      // Ctrl/Cmd + C / X / V for the clip clipboard, unless the user has
+      // selected text to copy with the browser
+      const hasTextSelection = Boolean(window.getSelection()?.toString());
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        e.key.toLowerCase() === "c" &&
+        !hasTextSelection
+      ) {
+        if (selectedClip) {
+          e.preventDefault();
+          handleCopyClip(selectedClip.id);
+        }
+      }
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        e.key.toLowerCase() === "x" &&
+        !hasTextSelection
+      ) {
+        if (selectedClip) {
+          e.preventDefault();
+          handleCutClip(selectedClip.id);
+        }
+      }
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        e.key.toLowerCase() === "v" &&
+        !hasTextSelection
+      ) {
+        if (readClipboard()) {
+          e.preventDefault();
+          handlePaste();
+        }
+      }
+
+      // I / O set the in and out points at the playhead, Shift clears them
+      if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+        const key = e.key.toLowerCase();
+        const time = getCurrentTime();
+        // A point on the wrong side of the new one is dropped
+        if (key === "i") {
+          e.preventDefault();
+          if (e.shiftKey) {
+            setMarkIn(null);
+          } else {
+            setMarkIn(time);
+            setMarkOut((out) => (out !== null && out <= time ? null : out));
+          }
+        }
+        if (key === "o") {
+          e.preventDefault();
+          if (e.shiftKey) {
+            setMarkOut(null);
+          } else {
+            setMarkOut(time);
+            setMarkIn((point) =>
+              point !== null && point >= time ? null : point,
+            );
+          }
+        }
+      }
+
+      // + / - zoom the timeline; Ctrl/Cmd is left to the browser's zoom
+      if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+        if (e.key === "+" || e.key === "=") {
+          e.preventDefault();
+          handleZoomIn();
+        }
+        if (e.key === "-") {
+          e.preventDefault();
+          handleZoomOut();
+        }
+        // N toggles snapping
+        if (e.key.toLowerCase() === "n" && !e.shiftKey) {
+          e.preventDefault();
+          handleToggleSnap();
+        }
+      }
+
       // Ctrl/Cmd + D to duplicate selected clip
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "d") {
         if (selectedClip) {
@@ -282,7 +858,20 @@ function EditorContent() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedClip, handleDeleteClip, handleDuplicateClip]);
+  }, [
+    selectedClip,
+    handleDeleteClip,
+    handleDuplicateClip,
+    handleCopyClip,
+    handleCutClip,
+    handlePaste,
+    handleUndo,
+    handleRedo,
+    handleZoomIn,
+    handleZoomOut,
+    handleToggleSnap,
+    getCurrentTime,
+  ]);
 
   const handleAssetAdd = useCallback(
     (asset: MediaAsset) => {
@@ -316,18 +905,22 @@ function EditorContent() {
         }
       };
 
+      // Stills have no length of their own; use the project default
+      const clipDuration =
+        asset.type === "image" ? projectSettings.imageDuration : asset.duration;
+
       const timestamp = Date.now();
       const newClip: TimelineClipWithAsset = {
         id: `clip-${timestamp}`,
         name: asset.name,
         type: asset.type,
         startTime: 0,
-        duration: asset.duration,
+        duration: clipDuration,
         color: getClipColor(asset.type),
         asset: fullAsset,
         thumbnails: fullAsset?.thumbnails,
         trimStart: 0,
-        trimEnd: asset.duration,
+        trimEnd: clipDuration,
         fitMode: clipFitMode,
       };
 
@@ -383,36 +976,433 @@ function EditorContent() {
       });
 
       if (asset.type === "video" || asset.type === "image") {
-        setSelectedClip({
-          id: newClip.id,
-          name: newClip.name,
-          type: newClip.type,
-          positionX: 0,
-          positionY: 0,
-          scaleX: 1,
-          scaleY: 1,
-          rotation: 0,
-          cropTop: 0,
-          cropBottom: 0,
-          cropLeft: 0,
-          cropRight: 0,
-          trimStart: newClip.trimStart,
-          trimEnd: newClip.trimEnd,
-          duration: newClip.duration,
-          speed: 1,
-          fitMode: newClip.fitMode,
-        });
+        setSelectedClip(getClipProperties(newClip));
         setMediaPanelTab("media-editor");
       }
 
       setHasUnsavedChanges(true);
     },
-    [assetMap],
+    [assetMap, projectSettings.imageDuration, setTracks],
+  );
+
+  // Add a generated clip (text, shape) on the first visual track with room for it
+  const addLayerClip = useCallback(
+    (newClip: TimelineClipWithAsset) => {
+      const { startTime } = newClip;
+      const endTime = startTime + newClip.duration;
+
+      setTracks((prev) => {
+        const trackIndex = prev.findIndex(
+          (track) =>
+            (track.type === "video" || track.type === "image") &&
+            !track.clips.some(
+              (clip) =>
+                startTime < clip.startTime + clip.duration &&
+                endTime > clip.startTime,
+            ),
+        );
+
+        if (trackIndex === -1) {
+          const existingCount = prev.filter((t) => t.type === "image").length;
+          return [
+            ...prev,
+            {
+              id: `image-${Date.now()}`,
+              type: "image",
+              label: `Image ${existingCount + 1}`,
+              hidden: false,
+              muted: false,
+              clips: [newClip],
+            },
+          ];
+        }
+
+        return prev.map((track, index) =>
+          index === trackIndex
+            ? {
+                ...track,
+                clips: [...track.clips, newClip].sort(
+                  (a, b) => a.startTime - b.startTime,
+                ),
+              }
+            : track,
+        );
+      });
+
+      setSelectedClip(getClipProperties(newClip));
+      setHasUnsavedChanges(true);
+    },
+    [setTracks],
+  );
+
+  const handleTextAdd = useCallback(
+    (preset: TextPreset) => {
+      const text: TextClipData = { ...DEFAULT_TEXT_CLIP, ...preset.text };
+      addLayerClip({
+        id: `clip-${Date.now()}`,
+        name: getTextClipName(text),
+        type: "text",
+        startTime: getCurrentTime(),
+        duration: LAYER_CLIP_DURATION,
+        color: TEXT_CLIP_COLOR,
+        trimStart: 0,
+        trimEnd: LAYER_CLIP_DURATION,
+        text,
+        transform: {
+          ...DEFAULT_CLIP_TRANSFORM,
+          x: Math.round(preset.offset.x * outputSize.width),
+          y: Math.round(preset.offset.y * outputSize.height),
+        },
+      });
+    },
+    [addLayerClip, getCurrentTime, outputSize.width, outputSize.height],
+  );
+
+  const handleShapeAdd = useCallback(
+    (preset: ShapePreset) => {
+      const shape: ShapeClipData = { ...DEFAULT_SHAPE_CLIP, ...preset.shape };
+      addLayerClip({
+        id: `clip-${Date.now()}`,
+        name: getShapeClipName(shape),
+        type: "shape",
+        startTime: getCurrentTime(),
+        duration: LAYER_CLIP_DURATION,
+        color: SHAPE_CLIP_COLOR,
+        trimStart: 0,
+        trimEnd: LAYER_CLIP_DURATION,
+        shape,
+        transform: DEFAULT_CLIP_TRANSFORM,
+      });
+    },
+    [addLayerClip, getCurrentTime],
+  );
+
+  // The selected clip is edited through the properties panel in its tab
+  const selectedClipProperties = useMemo(() => {
+    if (!selectedClip) return null;
+    const clip = findClip(tracks, selectedClip.id);
+    return clip ? getClipProperties(clip) : null;
+  }, [selectedClip, tracks]);
+  const selectedClipId = selectedClipProperties?.id;
+
+  // Apply `update` to the selected clip as one undoable step per `mergeKey`
+  const updateSelectedClip = useCallback(
+    (
+      mergeKey: string,
+      update: (clip: TimelineClipWithAsset) => TimelineClipWithAsset,
+    ) => {
+      if (!selectedClipId) return;
+      setTracks(
+        (prev) =>
+          prev.map((track) => ({
+            ...track,
+            clips: track.clips.map((clip) =>
+              clip.id === selectedClipId ? update(clip) : clip,
+            ),
+          })),
+        { mergeKey: `${mergeKey}:${selectedClipId}` },
+      );
+      setHasUnsavedChanges(true);
+    },
+    [selectedClipId, setTracks],
+  );
+
+  const handleClipPropertiesChange = useCallback(
+    (changes: Partial<ClipProperties>) => {
+      updateSelectedClip("properties", (current) => {
+        const clip =
+          changes.speed !== undefined
+            ? retimeClip(current, changes.speed)
+            : current;
+        const text = changes.text ?? clip.text;
+        const shape = changes.shape ?? clip.shape;
+        const transform = clip.transform ?? DEFAULT_CLIP_TRANSFORM;
+        const crop = getClipCrop(clip);
+        const hasCropChange =
+          changes.cropTop !== undefined ||
+          changes.cropRight !== undefined ||
+          changes.cropBottom !== undefined ||
+          changes.cropLeft !== undefined;
+        return {
+          ...clip,
+          crop: hasCropChange
+            ? clampCrop({
+                top: (changes.cropTop ?? crop.top * 100) / 100,
+                right: (changes.cropRight ?? crop.right * 100) / 100,
+                bottom: (changes.cropBottom ?? crop.bottom * 100) / 100,
+                left: (changes.cropLeft ?? crop.left * 100) / 100,
+              })
+            : clip.crop,
+          transform:
+            changes.anchorX !== undefined || changes.anchorY !== undefined
+              ? {
+                  ...transform,
+                  anchorX: changes.anchorX ?? transform.anchorX,
+                  anchorY: changes.anchorY ?? transform.anchorY,
+                }
+              : clip.transform,
+          name: text
+            ? getTextClipName(text)
+            : shape
+              ? getShapeClipName(shape)
+              : clip.name,
+          text,
+          shape,
+          gain: changes.gain ?? clip.gain,
+          fadeIn: changes.fadeIn ?? clip.fadeIn,
+          fadeOut: changes.fadeOut ?? clip.fadeOut,
+          preservePitch: changes.preservePitch ?? clip.preservePitch,
+        };
+      });
+    },
+    [updateSelectedClip],
+  );
+
+  // Animated properties are edited at the playhead, others change their base value
+  const handleClipAnimatableChange = useCallback(
+    (property: AnimatableProperty, value: number) => {
+      const time = getCurrentTime();
+      updateSelectedClip(`properties:${property}`, (clip) =>
+        isAnimated(clip.keyframes, property)
+          ? {
+              ...clip,
+              keyframes: setKeyframe(
+                clip.keyframes,
+                property,
+                time - clip.startTime,
+                value,
+              ),
+            }
+          : withStaticValue(clip, property, value),
+      );
+    },
+    [getCurrentTime, updateSelectedClip],
+  );
+
+  const handleKeyframeToggle = useCallback(
+    (property: AnimatableProperty) => {
+      const time = getCurrentTime();
+      updateSelectedClip(`keyframes:${property}`, (clip) => {
+        const localTime = time - clip.startTime;
+        const keyframes = clip.keyframes?.[property];
+        if (findKeyframeAt(keyframes, localTime)) {
+          return {
+            ...clip,
+            keyframes: removeKeyframe(clip.keyframes, property, localTime),
+          };
+        }
+        const value =
+          evaluateKeyframes(keyframes, localTime) ??
+          getStaticValue(
+            property,
+            clip.transform ?? DEFAULT_CLIP_TRANSFORM,
+            clip.filters ?? DEFAULT_CLIP_FILTERS,
+          );
+        return {
+          ...clip,
+          keyframes: setKeyframe(clip.keyframes, property, localTime, value),
+        };
+      });
+    },
+    [getCurrentTime, updateSelectedClip],
+  );
+
+  const handleKeyframeEasingChange = useCallback(
+    (property: AnimatableProperty, easing: KeyframeEasing) => {
+      const time = getCurrentTime();
+      updateSelectedClip(`keyframes:${property}`, (clip) => ({
+        ...clip,
+        keyframes: setKeyframeEasing(
+          clip.keyframes,
+          property,
+          time - clip.startTime,
+          easing,
+        ),
+      }));
+    },
+    [getCurrentTime, updateSelectedClip],
+  );
+
+  // Clearing keeps the value at the playhead as the new base value
+  const handleKeyframesClear = useCallback(
+    (property: AnimatableProperty) => {
+      const time = getCurrentTime();
+      updateSelectedClip(`keyframes:${property}`, (clip) => {
+        const value = evaluateKeyframes(
+          clip.keyframes?.[property],
+          time - clip.startTime,
+        );
+        const cleared = {
+          ...clip,
+          keyframes: clearKeyframes(clip.keyframes, property),
+        };
+        return value === undefined
+          ? cleared
+          : withStaticValue(cleared, property, value);
+      });
+    },
+    [getCurrentTime, updateSelectedClip],
+  );
+
+  // Crops are drawn on the preview; leaving the selection ends the session
+  const [croppingClipId, setCroppingClipId] = useState<string | null>(null);
+  const isCropping = !!selectedClip && croppingClipId === selectedClip.id;
+
+  const handleCropStart = useCallback(() => {
+    setCroppingClipId(selectedClipId ?? null);
+  }, [selectedClipId]);
+
+  const handleCropEnd = useCallback(() => {
+    setCroppingClipId(null);
+  }, []);
+
+  const handleClipCropChange = useCallback(
+    (clipId: string, crop: ClipCrop) => {
+      setTracks((prev) =>
+        prev.map((track) => ({
+          ...track,
+          clips: track.clips.map((clip) =>
+            clip.id === clipId ? { ...clip, crop: clampCrop(crop) } : clip,
+          ),
+        })),
+      );
+      setHasUnsavedChanges(true);
+    },
+    [setTracks],
+  );
+
+  const clipPropertiesHandlers = useMemo<PropertiesPanelHandlers>(
+    () => ({
+      onChange: handleClipPropertiesChange,
+      onAnimatableChange: handleClipAnimatableChange,
+      onKeyframeToggle: handleKeyframeToggle,
+      onKeyframeEasingChange: handleKeyframeEasingChange,
+      onKeyframesClear: handleKeyframesClear,
+      onCropStart: handleCropStart,
+    }),
+    [
+      handleCropStart,
+      handleClipPropertiesChange,
+      handleClipAnimatableChange,
+      handleKeyframeToggle,
+      handleKeyframeEasingChange,
+      handleKeyframesClear,
+    ],
+  );
+
+  // The cut next to the selected clip that the transitions tab edits
+  const transitionSlot = useMemo(() => {
+    if (!selectedClip) return null;
+    for (const track of tracks) {
+      if (track.type === "audio") continue;
+      const slot = findTransitionSlot(track, selectedClip.id);
+      if (!slot) continue;
+      return {
+        trackId: track.id,
+        ...slot,
+        transition: track.transitions?.find(
+          (t) => t.fromClipId === slot.from.id && t.toClipId === slot.to.id,
+        ),
+      };
+    }
+    return null;
+  }, [selectedClip, tracks]);
+
+  const transitionTarget = useMemo<TransitionTarget | null>(
+    () =>
+      transitionSlot
+        ? {
+            fromClipName: transitionSlot.from.name,
+            toClipName: transitionSlot.to.name,
+            maxDuration: getMaxTransitionDuration(
+              transitionSlot.from,
+              transitionSlot.to,
+            ),
+            transition: transitionSlot.transition,
+          }
+        : null,
+    [transitionSlot],
   );
 
+  const updateSlotTransitions = useCallback(
+    (
+      update: (transitions: TimelineTransition[]) => TimelineTransition[],
+      mergeKey?: string,
+    ) => {
+      if (!transitionSlot) return;
+      setTracks(
+        (prev) =>
+          prev.map((track) =>
+            track.id === transitionSlot.trackId
+              ? { ...track, transitions: update(track.transitions ?? []) }
+              : track,
+          ),
+        { mergeKey },
+      );
+      setHasUnsavedChanges(true);
+    },
+    [transitionSlot, setTracks],
+  );
+
+  const handleTransitionSet = useCallback(
+    (type: TransitionType) => {
+      if (!transitionSlot) return;
+      const { from, to, transition } = transitionSlot;
+      const nextTransition: TimelineTransition = transition
+        ? { ...transition, type }
+        : {
+            id: `transition-${Date.now()}`,
+            fromClipId: from.id,
+            toClipId: to.id,
+            type,
+            duration: Math.min(
+              DEFAULT_TRANSITION_DURATION,
+              getMaxTransitionDuration(from, to),
+            ),
+            direction: "left",
+          };
+
+      // One transition per cut
+      updateSlotTransitions((transitions) => [
+        ...transitions.filter(
+          (t) => t.fromClipId !== from.id || t.toClipId !== to.id,
+        ),
+        nextTransition,
+      ]);
+    },
+    [transitionSlot, updateSlotTransitions],
+  );
+
+  const handleTransitionChange = useCallback(
+    (changes: Partial<TimelineTransition>) => {
+      const transitionId = transitionSlot?.transition?.id;
+      if (!transitionId) return;
+      updateSlotTransitions(
+        (transitions) =>
+          transitions.map((t) =>
+            t.id === transitionId ? { ...t, ...changes } : t,
+          ),
+        `transition:${transitionId}`,
+      );
+    },
+    [transitionSlot, updateSlotTransitions],
+  );
+
+  const handleTransitionRemove = useCallback(() => {
+    const transitionId = transitionSlot?.transition?.id;
+    if (!transitionId) return;
+    updateSlotTransitions((transitions) =>
+      transitions.filter((t) => t.id !== transitionId),
+    );
+  }, [transitionSlot, updateSlotTransitions]);
+
   const selectedMediaClip = useMemo(() => {
     if (!selectedClip) return null;
-    if (selectedClip.type !== "video" && selectedClip.type !== "image") {
+    if (
+      selectedClip.type !== "video" &&
+      selectedClip.type !== "image" &&
+      selectedClip.type !== "audio"
+    ) {
       return null;
     }
 
@@ -454,7 +1444,7 @@ function EditorContent() {
       );
       setHasUnsavedChanges(true);
     },
-    [],
+    [setTracks],
   );
 
   // Preview filter changes via ref-based override — no React state update, no re-render
@@ -470,58 +1460,40 @@ function EditorContent() {
   const handleClipFiltersChange = useCallback(
     (clipId: string, filters: ClipFilters) => {
       clearClipFiltersOverride(clipId);
-      setTracks((prev) =>
-        prev.map((track) => ({
-          ...track,
-          clips: track.clips.map((clip) =>
-            clip.id === clipId ? { ...clip, filters } : clip,
-          ),
-        })),
+      setTracks(
+        (prev) =>
+          prev.map((track) => ({
+            ...track,
+            clips: track.clips.map((clip) =>
+              clip.id === clipId ? { ...clip, filters } : clip,
+            ),
+          })),
+        { mergeKey: `filters:${clipId}` },
       );
       setHasUnsavedChanges(true);
     },
-    [clearClipFiltersOverride],
+    [clearClipFiltersOverride, setTracks],
   );
 
   const handleClipSelect = useCallback(
     (clipId: string, nextTracks: TimelineTrackData[] = tracks) => {
-      for (const track of nextTracks) {
-        const clip = track.clips.find((c) => c.id === clipId);
-        if (clip) {
-          const transform: ClipTransform = clip.transform ?? {
-            x: 0,
-            y: 0,
-            scaleX: 1,
-            scaleY: 1,
-            rotation: 0,
-          };
-
-          setSelectedClip({
-            id: clip.id,
-            name: clip.name,
-            type: clip.type,
-            positionX: transform.x,
-            positionY: transform.y,
-            scaleX: transform.scaleX,
-            scaleY: transform.scaleY,
-            rotation: transform.rotation,
-            cropTop: 0,
-            cropBottom: 0,
-            cropLeft: 0,
-            cropRight: 0,
-            trimStart: clip.trimStart,
-            trimEnd: clip.trimEnd,
-            duration: clip.duration,
-            speed: 1,
-            fitMode: clip.fitMode,
-          });
-
-          if (clip.type === "video" || clip.type === "image") {
-            setMediaPanelTab("media-editor");
-          }
+      const clip = findClip(nextTracks, clipId);
+      if (clip) {
+        setSelectedClip(getClipProperties(clip));
 
-          return;
+        if (
+          clip.type === "video" ||
+          clip.type === "image" ||
+          clip.type === "audio"
+        ) {
+          setMediaPanelTab("media-editor");
+        } else if (clip.type === "text") {
+          setMediaPanelTab("text");
+        } else if (clip.type === "shape") {
+          setMediaPanelTab("shapes");
         }
+
+        return;
       }
       // Deselect if not found (clicked empty space usually handles this too)
       setSelectedClip(null);
@@ -550,6 +1522,37 @@ function EditorContent() {
     [handleClipSelect, tracks],
   );
 
+  // Hand the project to someone else: with the media, or referencing it
+  const handleSaveProjectFile = useCallback(
+    async (kind: "bundle" | "json") => {
+      setIsSavingProjectFile(true);
+      try {
+        const params = {
+          settings: projectSettings,
+          masterVolume,
+          tracks,
+          assets: importedAssets,
+        };
+        const blob =
+          kind === "bundle"
+            ? await exportProjectBundle(params)
+            : await exportProjectJson(params);
+        const baseName =
+          projectSettings.name.trim().replace(/[\\/:*?"<>|]+/g, "-") ||
+          "project";
+        downloadBlob(
+          blob,
+          `${baseName}${kind === "bundle" ? PROJECT_BUNDLE_EXTENSION : ".json"}`,
+        );
+      } catch (error) {
+        console.error("Failed to save project file:", error);
+      } finally {
+        setIsSavingProjectFile(false);
+      }
+    },
+    [projectSettings, masterVolume, tracks, importedAssets],
+  );
+
   const handleToggleMediaPanel = useCallback(() => {
     setIsMediaPanelOpen((prev) => !prev);
   }, []);
@@ -559,7 +1562,7 @@ function EditorContent() {
       setTracks((prev) => pruneEmptyTracks(prev, nextTracks));
       setHasUnsavedChanges(true);
     },
-    [pruneEmptyTracks],
+    [pruneEmptyTracks, setTracks],
   );
 
   const handleFileDrop = useCallback(
@@ -569,34 +1572,43 @@ function EditorContent() {
     [importFiles],
   );
 
+  // Dragging or rotating an animated property keyframes it at the playhead
   const handleClipTransformChange = useCallback(
-    (clipId: string, transform: { x: number; y: number }) => {
-      setTracks((prev) =>
-        prev.map((track) => ({
-          ...track,
-          clips: track.clips.map((clip) => {
-            if (clip.id !== clipId) return clip;
-            const existing: ClipTransform = clip.transform ?? {
-              x: 0,
-              y: 0,
-              scaleX: 1,
-              scaleY: 1,
-              rotation: 0,
-            };
-            return {
-              ...clip,
-              transform: {
-                ...existing,
-                x: transform.x,
-                y: transform.y,
-              },
-            };
-          }),
-        })),
+    (
+      clipId: string,
+      transform: Partial<Pick<ClipTransform, "x" | "y" | "rotation">>,
+    ) => {
+      const time = getCurrentTime();
+      setTracks(
+        (prev) =>
+          prev.map((track) => ({
+            ...track,
+            clips: track.clips.map((clip) => {
+              if (clip.id !== clipId) return clip;
+              let next = clip;
+              for (const property of ["x", "y", "rotation"] as const) {
+                const value = transform[property];
+                if (value === undefined) continue;
+                next = isAnimated(next.keyframes, property)
+                  ? {
+                      ...next,
+                      keyframes: setKeyframe(
+                        next.keyframes,
+                        property,
+                        time - clip.startTime,
+                        value,
+                      ),
+                    }
+                  : withStaticValue(next, property, value);
+              }
+              return next;
+            }),
+          })),
+        { mergeKey: `transform:${clipId}` },
       );
       setHasUnsavedChanges(true);
     },
-    [],
+    [getCurrentTime, setTracks],
   );
 
   const handleExport = useCallback(() => {
@@ -610,16 +1622,61 @@ function EditorContent() {
         onOpenChange={setShowExportModal}
         tracks={tracks}
         canvasSize={outputSize}
+        frameRate={projectSettings.frameRate}
+        sampleRate={projectSettings.sampleRate}
+        backgroundColor={projectSettings.backgroundColor}
+        projectName={projectSettings.name}
         fitMode={fitMode}
+        masterVolume={masterVolume}
+        markIn={markIn}
+        markOut={markOut}
+        selectedClipIds={selectedClip ? [selectedClip.id] : []}
+      />
+
+      <ProjectSettingsDialog
+        open={showProjectSettings}
+        onOpenChange={setShowProjectSettings}
+        settings={projectSettings}
+        onSave={handleProjectSettingsChange}
+      />
+
+      <RelinkMediaDialog
+        open={showRelinkDialog}
+        onOpenChange={setShowRelinkDialog}
+        assets={offlineAssets}
+        onRelink={handleRelinkMedia}
       />
 
       <EditorHeader
-        projectName="Calm Forest 19 Jan"
-        onUndo={() => console.log("Undo")}
-        onRedo={() => console.log("Redo")}
+        projectName={projectSettings.name}
+        onOpenProjectSettings={() => setShowProjectSettings(true)}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
         canUndo={canUndo}
         canRedo={canRedo}
         onExport={handleExport}
+        exportActions={
+          <>
+            {offlineAssets.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 text-amber-600 hover:text-amber-600 dark:text-amber-400"
+                onClick={() => setShowRelinkDialog(true)}
+                title="Relink offline media"
+              >
+                <AlertTriangle className="h-4 w-4" />
+                {offlineAssets.length} Offline
+              </Button>
+            )}
+            <ProjectFileMenu
+              onSaveBundle={() => void handleSaveProjectFile("bundle")}
+              onSaveJson={() => void handleSaveProjectFile("json")}
+              isSaving={isSavingProjectFile}
+            />
+            <ExportQueuePanel />
+          </>
+        }
         isMediaPanelOpen={isMediaPanelOpen}
         onToggleMediaPanel={handleToggleMediaPanel}
         className="h-16 px-6 bg-background/50 backdrop-blur-sm border-b-0"
@@ -645,7 +1702,7 @@ function EditorContent() {
                           onAssetSelect={handleAssetSelect}
                           onAssetAdd={handleAssetAdd}
                           onAssetRemove={removeAsset}
-                          onResize={playerResize}
+                          onResize={handleCanvasResize}
                           fitMode={fitMode}
                           onFitModeChange={setPlayerFitMode}
                           activeTab={mediaPanelTab}
@@ -654,6 +1711,14 @@ function EditorContent() {
                           onClipFitModeChange={handleClipFitModeChange}
                           onClipFiltersChange={handleClipFiltersChange}
                           onClipFiltersPreview={handleClipFiltersPreview}
+                          onTextAdd={handleTextAdd}
+                          onShapeAdd={handleShapeAdd}
+                          selectedClipProperties={selectedClipProperties}
+                          clipPropertiesHandlers={clipPropertiesHandlers}
+                          transitionTarget={transitionTarget}
+                          onTransitionSet={handleTransitionSet}
+                          onTransitionChange={handleTransitionChange}
+                          onTransitionRemove={handleTransitionRemove}
                           className="h-full border-none"
                         />
                       </aside>
@@ -669,6 +1734,9 @@ function EditorContent() {
                       className="w-full h-full"
                       selectedClipId={selectedClip?.id ?? null}
                       onClipTransformChange={handleClipTransformChange}
+                      isCropping={isCropping}
+                      onClipCropChange={handleClipCropChange}
+                      onCropEnd={handleCropEnd}
                       onFullscreen={() => console.log("Fullscreen")}
                     />
                   </main>
@@ -687,12 +1755,25 @@ function EditorContent() {
                 duration={duration}
                 onTimeChange={handleSeek}
                 selectedClipId={selectedClip?.id ?? null}
+                markIn={markIn}
+                markOut={markOut}
                 onClipSelect={handleClipSelect}
                 onTracksChange={handleTracksChange}
                 onAddTrack={handleAddTrack}
                 onRemoveTrack={handleRemoveTrack}
                 onDeleteClip={handleDeleteClip}
                 onDuplicateClip={handleDuplicateClip}
+                onCopyClip={handleCopyClip}
+                onCutClip={handleCutClip}
+                onPaste={handlePaste}
+                onRelinkMedia={() => setShowRelinkDialog(true)}
+                pixelsPerSecond={timelineZoom}
+                onPixelsPerSecondChange={setTimelineZoom}
+                snapEnabled={snapEnabled}
+                onToggleSnap={handleToggleSnap}
+                snapThreshold={snapThreshold}
+                onSnapThresholdChange={setSnapThreshold}
+                frameRate={projectSettings.frameRate}
               />
             </div>
           </ResizablePanel>
@@ -1,7 +1,8 @@
 "use client";
 
-import { Download, Loader2, X } from "lucide-react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { Download, ListPlus, Loader2, X } from "lucide-react";
+import type { AudioCodec, VideoCodec } from "mediabunny";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type {
   FitMode,
   TimelineTrackData,
@@ -25,11 +26,45 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import {
+  type AnimatedImageSettings,
+  DEFAULT_ANIMATED_IMAGE_MAX_SIZE,
+  estimateAnimatedImageSize,
+  getAnimatedImageMimeType,
+  isAnimatedImageFormat,
+  type PaletteMode,
+} from "@/lib/animated-image";
+import { type QueuedExportOptions, useExportQueue } from "@/lib/export-queue";
+import {
+  type ExportContainer,
   type ExportTimelineOptions,
   exportTimelineToBlob,
+  IMAGE_SEQUENCE_FORMAT,
 } from "@/lib/export-video";
-import type { OutputContainer } from "@/lib/mediabunny";
+import {
+  AUDIO_CODEC_LABELS,
+  estimateAudioBitrate,
+  estimateVideoBitrate,
+  getCommonAudioCodecs,
+  getFileExtension,
+  getMimeType,
+  getSupportedVideoCodecs,
+  isAudioOnlyFormat,
+  isLosslessAudioCodec,
+  QUALITY_PRESET_LABELS,
+  type QualityPreset,
+  qualityPresets,
+  VIDEO_CODEC_LABELS,
+} from "@/lib/mediabunny";
+import {
+  getDefaultDestination,
+  type OutputDestination,
+  pickSaveFile,
+  removeStaleOutputs,
+  removeStoredOutput,
+  supportsSaveFilePicker,
+} from "@/lib/output-target";
 
 // Preset resolutions
 const RESOLUTION_PRESETS = [
@@ -42,33 +77,81 @@ const RESOLUTION_PRESETS = [
 ] as const;
 
 // Frame rate options
-const FPS_OPTIONS = [24, 25, 30, 50, 60] as const;
+const FPS_OPTIONS: readonly number[] = [24, 25, 30, 50, 60];
+const ANIMATED_FPS_OPTIONS: readonly number[] = [10, 12, 15, 20, 24, 25, 30];
 
 // Container format options
-const FORMAT_OPTIONS: { label: string; value: OutputContainer }[] = [
+const FORMAT_OPTIONS: { label: string; value: ExportContainer }[] = [
   { label: "MP4 (H.264)", value: "mp4" },
   { label: "WebM (VP9)", value: "webm" },
   { label: "MKV", value: "mkv" },
   { label: "MOV", value: "mov" },
+  { label: "WAV (audio only)", value: "wav" },
+  { label: "MP3 (audio only)", value: "mp3" },
+  { label: "AAC (audio only)", value: "aac" },
+  { label: "FLAC (audio only)", value: "flac" },
+  { label: "GIF (animated)", value: "gif" },
+  { label: "WebP (animated)", value: "webp" },
+  { label: "PNG sequence (ZIP)", value: IMAGE_SEQUENCE_FORMAT },
 ];
 
+// Audio-only export options
+const SAMPLE_RATE_OPTIONS = [44_100, 48_000] as const;
+const AUDIO_BITRATE_OPTIONS = [128, 192, 256, 320] as const;
+
+// Video encoding options
+const KEY_FRAME_INTERVAL_OPTIONS = [1, 2, 5, 10] as const;
+
+// Animated GIF/WebP options
+const MAX_SIZE_OPTIONS = [320, 480, 640, 800, 1080] as const;
+const LOOP_OPTIONS = [
+  { label: "Forever", value: 0 },
+  { label: "Play once", value: 1 },
+  { label: "Play twice", value: 2 },
+  { label: "Play 3 times", value: 3 },
+] as const;
+const WEBP_QUALITY_OPTIONS = [50, 70, 80, 90, 100] as const;
+
 export interface ExportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   tracks: TimelineTrackData[];
   /** Canvas size from the editor - used as default export resolution */
   canvasSize?: { width: number; height: number };
+  /** Project defaults for the frame rate and audio sample rate */
+  frameRate?: number;
+  sampleRate?: number;
+  backgroundColor?: string;
+  /** Default output filename */
+  projectName?: string;
   fitMode?: FitMode;
+  /** Project master volume */
+  masterVolume?: number;
+  /** Timeline in/out points in seconds */
+  markIn?: number | null;
+  markOut?: number | null;
+  selectedClipIds?: string[];
 }
 
 type ExportState = "idle" | "exporting" | "done" | "error";
 
+// Which part of the timeline is exported
+type ExportScope = "timeline" | "in-out" | "selection" | "custom";
+
 export function ExportModal({
   open,
   onOpenChange,
   tracks,
   canvasSize,
+  frameRate = 30,
+  sampleRate: projectSampleRate = 48_000,
+  backgroundColor,
+  projectName,
   fitMode,
+  masterVolume,
+  markIn = null,
+  markOut = null,
+  selectedClipIds = [],
 }: ExportModalProps) {
   // Compute initial resolution from canvasSize or default to 1920x1080
   const defaultWidth = canvasSize?.width ?? 1920;
@@ -87,8 +170,41 @@ export function ExportModal({
   const [customWidth, setCustomWidth] = useState(defaultWidth);
   const [customHeight, setCustomHeight] = useState(defaultHeight);
   const [fps, setFps] = useState<number>(30);
-  const [format, setFormat] = useState<OutputContainer>("mp4");
+  const [format, setFormat] = useState<ExportContainer>("mp4");
   const [filename, setFilename] = useState("localcut-export");
+  const [sampleRate, setSampleRate] = useState<number>(48_000);
+  const [numberOfChannels, setNumberOfChannels] = useState<1 | 2>(2);
+  const [audioBitrate, setAudioBitrate] = useState<number>(192);
+  const [videoCodec, setVideoCodec] = useState<VideoCodec | "auto">("auto");
+  const [audioCodec, setAudioCodec] = useState<AudioCodec | "auto">("auto");
+  const [quality, setQuality] = useState<QualityPreset | "custom">("high");
+  const [videoBitrate, setVideoBitrate] = useState(8);
+  const [bitrateMode, setBitrateMode] = useState<"variable" | "constant">(
+    "variable",
+  );
+  const [keyFrameInterval, setKeyFrameInterval] = useState<number>(5);
+  const [maxSize, setMaxSize] = useState<number>(
+    DEFAULT_ANIMATED_IMAGE_MAX_SIZE,
+  );
+  const [loopCount, setLoopCount] = useState(0);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>("global");
+  const [dither, setDither] = useState(true);
+  const [webpQuality, setWebpQuality] = useState<number>(80);
+  const [scope, setScope] = useState<ExportScope>("timeline");
+  const [rangeStart, setRangeStart] = useState(0);
+  const [rangeEnd, setRangeEnd] = useState<number | null>(null);
+  const [saveToFile, setSaveToFile] = useState(false);
+  const [canSaveToFile, setCanSaveToFile] = useState(false);
+  const {
+    actions: { enqueue: enqueueExport },
+  } = useExportQueue();
+
+  // Picker support is only known in the browser; outputs abandoned by
+  // earlier sessions are cleared from OPFS at the same time
+  useEffect(() => {
+    setCanSaveToFile(supportsSaveFilePicker());
+    void removeStaleOutputs();
+  }, []);
 
   // Sync resolution when modal opens with updated canvas size
   useEffect(() => {
@@ -104,9 +220,21 @@ export function ExportModal({
     }
   }, [open, canvasSize]);
 
+  // Start from the project's defaults each time the modal opens
+  useEffect(() => {
+    if (!open) return;
+    setFps(frameRate);
+    setSampleRate(projectSampleRate);
+    setFilename(
+      projectName?.trim().replace(/[\\/:*?"<>|]+/g, "-") || "localcut-export",
+    );
+  }, [open, frameRate, projectSampleRate, projectName]);
+
   // Export state
   const [exportState, setExportState] = useState<ExportState>("idle");
   const [progress, setProgress] = useState(0);
+  const [bytesWritten, setBytesWritten] = useState(0);
+  const [savedToFile, setSavedToFile] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [finalElapsedTime, setFinalElapsedTime] = useState(0);
@@ -115,6 +243,12 @@ export function ExportModal({
   const startTimeRef = useRef<number | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // OPFS entry behind `exportedBlob`, deleted once the result is dropped
+  const storedOutputRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    return () => void removeStoredOutput(storedOutputRef.current);
+  }, []);
 
   // Track elapsed time during export
   useEffect(() => {
@@ -148,6 +282,17 @@ export function ExportModal({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  const formatBytes = (bytes: number) => {
+    if (bytes === 0) return "0 B";
+    const k = 1024;
+    const sizes = ["B", "KB", "MB", "GB"];
+    const i = Math.min(
+      Math.floor(Math.log(bytes) / Math.log(k)),
+      sizes.length - 1,
+    );
+    return `${(bytes / k ** i).toFixed(1)} ${sizes[i]}`;
+  };
+
   // Get effective resolution
   const getResolution = useCallback(() => {
     if (resolutionPreset === "custom") {
@@ -167,6 +312,207 @@ export function ExportModal({
 
   const clipCount = tracks.reduce((sum, t) => sum + t.clips.length, 0);
 
+  // Ranges for the scopes besides the whole timeline
+  const inOutRange =
+    markIn !== null || markOut !== null
+      ? {
+          start: markIn ?? 0,
+          end: Math.min(markOut ?? timelineDuration, timelineDuration),
+        }
+      : null;
+  const selectedClips = tracks
+    .flatMap((t) => t.clips)
+    .filter((c) => selectedClipIds.includes(c.id));
+  const selectionRange =
+    selectedClips.length > 0
+      ? {
+          start: Math.min(...selectedClips.map((c) => c.startTime)),
+          end: Math.max(...selectedClips.map((c) => c.startTime + c.duration)),
+        }
+      : null;
+  // Fall back to the whole timeline when a scope's range has gone away
+  const activeScope =
+    (scope === "in-out" && !inOutRange) ||
+    (scope === "selection" && !selectionRange)
+      ? "timeline"
+      : scope;
+  const exportRange =
+    activeScope === "in-out"
+      ? inOutRange
+      : activeScope === "selection"
+        ? selectionRange
+        : activeScope === "custom"
+          ? { start: rangeStart, end: rangeEnd ?? timelineDuration }
+          : null;
+  const exportDuration = exportRange
+    ? Math.max(0, exportRange.end - exportRange.start)
+    : timelineDuration;
+
+  const isAnimated = isAnimatedImageFormat(format);
+  // Formats encoded by mediabunny, as opposed to the image exports
+  const outputContainer =
+    format !== IMAGE_SEQUENCE_FORMAT && !isAnimatedImageFormat(format)
+      ? format
+      : null;
+  const isAudioOnly = !!outputContainer && isAudioOnlyFormat(outputContainer);
+  const isVideoContainer = !!outputContainer && !isAudioOnly;
+  const fpsOptions = isAnimated ? ANIMATED_FPS_OPTIONS : FPS_OPTIONS;
+
+  const videoCodecOptions = isVideoContainer
+    ? getSupportedVideoCodecs(outputContainer)
+    : [];
+  const audioCodecOptions = outputContainer
+    ? getCommonAudioCodecs(outputContainer)
+    : [];
+  // "Auto" is assumed to pick the container's first codec
+  const effectiveVideoCodec =
+    videoCodec === "auto" ? videoCodecOptions[0] : videoCodec;
+  const effectiveAudioCodec =
+    audioCodec === "auto" ? audioCodecOptions[0] : audioCodec;
+  const isLosslessAudio =
+    !!effectiveAudioCodec && isLosslessAudioCodec(effectiveAudioCodec);
+
+  const animatedSettings = useMemo<AnimatedImageSettings>(
+    () => ({
+      loopCount,
+      maxSize,
+      paletteMode,
+      dither,
+      quality: webpQuality / 100,
+    }),
+    [loopCount, maxSize, paletteMode, dither, webpQuality],
+  );
+  const estimatedVideoBitrate = !effectiveVideoCodec
+    ? 0
+    : quality === "custom"
+      ? videoBitrate * 1e6
+      : estimateVideoBitrate(
+          quality,
+          effectiveVideoCodec,
+          getResolution().width,
+          getResolution().height,
+        );
+  const estimatedAudioBitrate = effectiveAudioCodec
+    ? estimateAudioBitrate(effectiveAudioCodec, {
+        sampleRate,
+        numberOfChannels,
+        bitrate: audioBitrate * 1000,
+      })
+    : 0;
+  const estimatedSize = isAnimatedImageFormat(format)
+    ? estimateAnimatedImageSize({
+        format,
+        ...getResolution(),
+        fps,
+        durationSeconds: exportDuration,
+        settings: animatedSettings,
+      })
+    : outputContainer
+      ? ((estimatedVideoBitrate + estimatedAudioBitrate) * exportDuration) / 8
+      : null;
+
+  // Keep the frame rate valid for the format's options
+  const handleFormatChange = (value: ExportContainer) => {
+    setFormat(value);
+    // Codec lists differ per container
+    setVideoCodec("auto");
+    setAudioCodec("auto");
+    const options = isAnimatedImageFormat(value)
+      ? ANIMATED_FPS_OPTIONS
+      : FPS_OPTIONS;
+    if (!options.includes(fps)) {
+      setFps(isAnimatedImageFormat(value) ? 15 : frameRate);
+    }
+  };
+
+  // Ask where to save when writing straight to a file; null when the picker
+  // is dismissed. The picker needs the click's user activation, so callers
+  // run this before anything else is awaited.
+  const pickDestination = useCallback(
+    async (filenameBase: string): Promise<OutputDestination | null> => {
+      if (!saveToFile || !canSaveToFile) return getDefaultDestination();
+      try {
+        const handle =
+          format === IMAGE_SEQUENCE_FORMAT
+            ? await pickSaveFile(`${filenameBase}.zip`, "application/zip")
+            : isAnimatedImageFormat(format)
+              ? await pickSaveFile(
+                  `${filenameBase}.${format}`,
+                  getAnimatedImageMimeType(format),
+                )
+              : await pickSaveFile(
+                  `${filenameBase}.${getFileExtension(format)}`,
+                  getMimeType(format),
+                );
+        return handle ? { type: "file", handle } : null;
+      } catch (error) {
+        console.error("Save file picker failed:", error);
+        return getDefaultDestination();
+      }
+    },
+    [saveToFile, canSaveToFile, format],
+  );
+
+  // Everything the export needs apart from the destination and callbacks
+  const getJobOptions = useCallback(
+    (filenameBase: string): QueuedExportOptions => {
+      const { width, height } = getResolution();
+      return {
+        tracks,
+        width,
+        height,
+        fps,
+        fitMode,
+        masterVolume,
+        backgroundColor,
+        container: format,
+        video: isVideoContainer
+          ? {
+              codec: videoCodec === "auto" ? undefined : videoCodec,
+              quality: quality === "custom" ? undefined : quality,
+              bitrate: quality === "custom" ? videoBitrate * 1e6 : undefined,
+              bitrateMode: quality === "custom" ? bitrateMode : undefined,
+              keyFrameInterval,
+            }
+          : undefined,
+        audio: outputContainer
+          ? {
+              codec: audioCodec === "auto" ? undefined : audioCodec,
+              sampleRate,
+              numberOfChannels,
+              bitrate: audioBitrate * 1000,
+            }
+          : undefined,
+        animated: isAnimated ? animatedSettings : undefined,
+        range: exportRange ?? undefined,
+        filenameBase,
+      };
+    },
+    [
+      tracks,
+      getResolution,
+      fps,
+      format,
+      fitMode,
+      masterVolume,
+      backgroundColor,
+      isVideoContainer,
+      outputContainer,
+      videoCodec,
+      audioCodec,
+      quality,
+      videoBitrate,
+      bitrateMode,
+      keyFrameInterval,
+      sampleRate,
+      numberOfChannels,
+      audioBitrate,
+      isAnimated,
+      animatedSettings,
+      exportRange,
+    ],
+  );
+
   const handleExport = useCallback(async () => {
     if (clipCount === 0) {
       setErrorMessage("Nothing to export: add clips to the timeline first.");
@@ -174,35 +520,38 @@ export function ExportModal({
       return;
     }
 
+    const filenameBase = filename || "localcut-export";
+    const destination = await pickDestination(filenameBase);
+    if (!destination) return;
+
     setElapsedTime(0);
     setExportState("exporting");
     setProgress(0);
+    setBytesWritten(0);
     setErrorMessage(null);
 
     // Create a new AbortController for this export
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
-    const { width, height } = getResolution();
-
     const options: ExportTimelineOptions = {
-      tracks,
-      width,
-      height,
-      fps,
-      fitMode,
-      container: format,
-      filenameBase: filename || "localcut-export",
+      ...getJobOptions(filenameBase),
+      destination,
       onProgress: (p) => setProgress(Math.round(p * 100)),
+      onBytesWritten: setBytesWritten,
       abortSignal: abortController.signal,
     };
 
     try {
-      const { blob, fileName } = await exportTimelineToBlob(options);
+      const { blob, fileName, storedName } =
+        await exportTimelineToBlob(options);
 
       // Store blob for manual download
+      void removeStoredOutput(storedOutputRef.current);
+      storedOutputRef.current = storedName;
       setExportedBlob(blob);
       setExportedFileName(fileName);
+      setSavedToFile(destination.type === "file");
       // Calculate final elapsed time from start time ref
       const finalTime = startTimeRef.current
         ? Math.floor((Date.now() - startTimeRef.current) / 1000)
@@ -224,7 +573,41 @@ export function ExportModal({
     } finally {
       abortControllerRef.current = null;
     }
-  }, [tracks, clipCount, getResolution, fps, format, filename, fitMode]);
+  }, [clipCount, filename, pickDestination, getJobOptions]);
+
+  // Queue the export to run in the background and get back to editing
+  const handleAddToQueue = useCallback(async () => {
+    if (clipCount === 0) {
+      setErrorMessage("Nothing to export: add clips to the timeline first.");
+      setExportState("error");
+      return;
+    }
+
+    const filenameBase = filename || "localcut-export";
+    const destination = await pickDestination(filenameBase);
+    if (!destination) return;
+
+    const { width, height } = getResolution();
+    const formatLabel =
+      FORMAT_OPTIONS.find((option) => option.value === format)?.label ?? format;
+    enqueueExport(
+      isAudioOnly
+        ? `${filenameBase} · ${formatLabel}`
+        : `${filenameBase} · ${formatLabel} · ${width}×${height}`,
+      { ...getJobOptions(filenameBase), destination },
+    );
+    onOpenChange(false);
+  }, [
+    clipCount,
+    filename,
+    pickDestination,
+    getResolution,
+    format,
+    isAudioOnly,
+    enqueueExport,
+    getJobOptions,
+    onOpenChange,
+  ]);
 
   const handleClose = useCallback(() => {
     // If exporting, cancel the export and let the abort handler reset state
@@ -239,8 +622,12 @@ export function ExportModal({
       setExportedBlob(null);
       setExportedFileName(null);
     }
+    void removeStoredOutput(storedOutputRef.current);
+    storedOutputRef.current = null;
     setExportState("idle");
     setProgress(0);
+    setBytesWritten(0);
+    setSavedToFile(false);
     setErrorMessage(null);
     setFinalElapsedTime(0);
     onOpenChange(false);
@@ -263,7 +650,7 @@ export function ExportModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-xl">
             <Download className="h-5 w-5" />
-            Export Video
+            {isAudioOnly ? "Export Audio" : "Export Video"}
           </DialogTitle>
           <DialogDescription>
             Configure your export settings and render the timeline to a video
@@ -280,6 +667,7 @@ export function ExportModal({
             <Progress value={progress} className="h-3" />
             <div className="flex justify-between text-sm text-foreground/60">
               <span>{progress}% complete</span>
+              <span>{formatBytes(bytesWritten)} written</span>
               <span>Elapsed: {formatElapsedTime(elapsedTime)}</span>
             </div>
           </div>
@@ -292,24 +680,32 @@ export function ExportModal({
               <h3 className="text-lg font-semibold">Export Complete!</h3>
               <p className="text-sm text-foreground/60 mt-1">
                 Completed in {formatElapsedTime(finalElapsedTime)}
+                {exportedBlob && ` · ${formatBytes(exportedBlob.size)}`}
               </p>
+              {savedToFile && exportedFileName && (
+                <p className="text-sm text-foreground/60 mt-1">
+                  Saved to {exportedFileName}
+                </p>
+              )}
             </div>
             <div className="flex gap-3 justify-center mt-4">
-              <Button
-                onClick={() => {
-                  if (exportedBlob && exportedFileName) {
-                    const url = URL.createObjectURL(exportedBlob);
-                    const a = document.createElement("a");
-                    a.href = url;
-                    a.download = exportedFileName;
-                    a.click();
-                    URL.revokeObjectURL(url);
-                  }
-                }}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Download
-              </Button>
+              {!savedToFile && (
+                <Button
+                  onClick={() => {
+                    if (exportedBlob && exportedFileName) {
+                      const url = URL.createObjectURL(exportedBlob);
+                      const a = document.createElement("a");
+                      a.href = url;
+                      a.download = exportedFileName;
+                      a.click();
+                      URL.revokeObjectURL(url);
+                    }
+                  }}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+              )}
               <Button onClick={handleClose} variant="outline">
                 Close
               </Button>
@@ -341,13 +737,21 @@ export function ExportModal({
                 <div className="flex justify-between text-sm">
                   <span className="text-foreground/60">Duration:</span>
                   <span className="font-medium">
-                    {timelineDuration.toFixed(1)}s
+                    {exportDuration.toFixed(1)}s
                   </span>
                 </div>
                 <div className="flex justify-between text-sm mt-1">
                   <span className="text-foreground/60">Clips:</span>
                   <span className="font-medium">{clipCount}</span>
                 </div>
+                {estimatedSize !== null && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span className="text-foreground/60">Estimated size:</span>
+                    <span className="font-medium">
+                      ~{formatBytes(estimatedSize)}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Filename */}
@@ -361,12 +765,34 @@ export function ExportModal({
                 />
               </div>
 
+              {/* Destination */}
+              {canSaveToFile && (
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="save-to-file">
+                      Save directly to a file
+                    </Label>
+                    <p className="text-xs text-foreground/60 mt-1">
+                      Choose where to save before exporting; the video is
+                      written to disk as it renders.
+                    </p>
+                  </div>
+                  <Switch
+                    id="save-to-file"
+                    checked={saveToFile}
+                    onCheckedChange={setSaveToFile}
+                  />
+                </div>
+              )}
+
               {/* Format */}
               <div className="space-y-2">
                 <Label>Format</Label>
                 <Select
                   value={format}
-                  onValueChange={(v) => setFormat(v as OutputContainer)}
+                  onValueChange={(v) =>
+                    handleFormatChange(v as ExportContainer)
+                  }
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -381,61 +807,64 @@ export function ExportModal({
                 </Select>
               </div>
 
-              {/* Resolution */}
+              {/* Scope */}
               <div className="space-y-2">
-                <Label>Resolution</Label>
+                <Label>Range</Label>
                 <Select
-                  value={resolutionPreset}
-                  onValueChange={handleResolutionChange}
+                  value={activeScope}
+                  onValueChange={(v) => setScope(v as ExportScope)}
                 >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {RESOLUTION_PRESETS.map((preset) => (
-                      <SelectItem
-                        key={preset.label}
-                        value={
-                          preset.width === 0
-                            ? "custom"
-                            : `${preset.width}x${preset.height}`
-                        }
-                      >
-                        {preset.label}
-                      </SelectItem>
-                    ))}
+                    <SelectItem value="timeline">Whole timeline</SelectItem>
+                    <SelectItem value="in-out" disabled={!inOutRange}>
+                      In to out points
+                    </SelectItem>
+                    <SelectItem value="selection" disabled={!selectionRange}>
+                      Selected clips
+                    </SelectItem>
+                    <SelectItem value="custom">Custom range</SelectItem>
                   </SelectContent>
                 </Select>
+                {!inOutRange && (
+                  <p className="text-xs text-foreground/60">
+                    Press I and O on the timeline to set in and out points.
+                  </p>
+                )}
 
-                {isCustomResolution && (
+                {activeScope === "custom" && (
                   <div className="flex gap-2 mt-2">
                     <div className="flex-1">
-                      <Label htmlFor="custom-width" className="text-xs">
-                        Width
+                      <Label htmlFor="range-start" className="text-xs">
+                        Start
                       </Label>
                       <Input
-                        id="custom-width"
+                        id="range-start"
                         type="number"
-                        min={128}
-                        max={7680}
-                        value={customWidth}
+                        min={0}
+                        max={timelineDuration}
+                        step={0.1}
+                        value={rangeStart}
                         onChange={(e) =>
-                          setCustomWidth(Number(e.target.value) || 1920)
+                          setRangeStart(Math.max(0, Number(e.target.value)))
                         }
                       />
                     </div>
                     <div className="flex-1">
-                      <Label htmlFor="custom-height" className="text-xs">
-                        Height
+                      <Label htmlFor="range-end" className="text-xs">
+                        End
                       </Label>
                       <Input
-                        id="custom-height"
+                        id="range-end"
                         type="number"
-                        min={128}
-                        max={4320}
-                        value={customHeight}
+                        min={0}
+                        max={timelineDuration}
+                        step={0.1}
+                        value={rangeEnd ?? timelineDuration}
                         onChange={(e) =>
-                          setCustomHeight(Number(e.target.value) || 1080)
+                          setRangeEnd(Math.max(0, Number(e.target.value)))
                         }
                       />
                     </div>
@@ -443,31 +872,419 @@ export function ExportModal({
                 )}
               </div>
 
-              {/* Frame Rate */}
-              <div className="space-y-2">
-                <Label>Frame Rate</Label>
-                <Select
-                  value={String(fps)}
-                  onValueChange={(v) => setFps(Number(v))}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {FPS_OPTIONS.map((fpsOpt) => (
-                      <SelectItem key={fpsOpt} value={String(fpsOpt)}>
-                        {fpsOpt} fps
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              {!isAudioOnly && (
+                <>
+                  {/* Resolution */}
+                  <div className="space-y-2">
+                    <Label>Resolution</Label>
+                    <Select
+                      value={resolutionPreset}
+                      onValueChange={handleResolutionChange}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RESOLUTION_PRESETS.map((preset) => (
+                          <SelectItem
+                            key={preset.label}
+                            value={
+                              preset.width === 0
+                                ? "custom"
+                                : `${preset.width}x${preset.height}`
+                            }
+                          >
+                            {preset.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {isCustomResolution && (
+                      <div className="flex gap-2 mt-2">
+                        <div className="flex-1">
+                          <Label htmlFor="custom-width" className="text-xs">
+                            Width
+                          </Label>
+                          <Input
+                            id="custom-width"
+                            type="number"
+                            min={128}
+                            max={7680}
+                            value={customWidth}
+                            onChange={(e) =>
+                              setCustomWidth(Number(e.target.value) || 1920)
+                            }
+                          />
+                        </div>
+                        <div className="flex-1">
+                          <Label htmlFor="custom-height" className="text-xs">
+                            Height
+                          </Label>
+                          <Input
+                            id="custom-height"
+                            type="number"
+                            min={128}
+                            max={4320}
+                            value={customHeight}
+                            onChange={(e) =>
+                              setCustomHeight(Number(e.target.value) || 1080)
+                            }
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Frame Rate */}
+                  <div className="space-y-2">
+                    <Label>Frame Rate</Label>
+                    <Select
+                      value={String(fps)}
+                      onValueChange={(v) => setFps(Number(v))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fpsOptions.map((fpsOpt) => (
+                          <SelectItem key={fpsOpt} value={String(fpsOpt)}>
+                            {fpsOpt} fps
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {isAnimated && (
+                    <>
+                      {/* Max Size */}
+                      <div className="space-y-2">
+                        <Label>Max Size</Label>
+                        <Select
+                          value={String(maxSize)}
+                          onValueChange={(v) => setMaxSize(Number(v))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MAX_SIZE_OPTIONS.map((size) => (
+                              <SelectItem key={size} value={String(size)}>
+                                {size}px longest side
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {/* Loop */}
+                      <div className="space-y-2">
+                        <Label>Loop</Label>
+                        <Select
+                          value={String(loopCount)}
+                          onValueChange={(v) => setLoopCount(Number(v))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {LOOP_OPTIONS.map((opt) => (
+                              <SelectItem
+                                key={opt.value}
+                                value={String(opt.value)}
+                              >
+                                {opt.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {format === "gif" ? (
+                        <>
+                          {/* Palette */}
+                          <div className="space-y-2">
+                            <Label>Palette</Label>
+                            <Select
+                              value={paletteMode}
+                              onValueChange={(v) =>
+                                setPaletteMode(v as PaletteMode)
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="global">
+                                  Global (one palette, smaller file)
+                                </SelectItem>
+                                <SelectItem value="per-frame">
+                                  Per frame (better color)
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          {/* Dithering */}
+                          <div className="flex items-center justify-between gap-4">
+                            <Label htmlFor="gif-dither">Dithering</Label>
+                            <Switch
+                              id="gif-dither"
+                              checked={dither}
+                              onCheckedChange={setDither}
+                            />
+                          </div>
+                        </>
+                      ) : (
+                        /* WebP Quality */
+                        <div className="space-y-2">
+                          <Label>Quality</Label>
+                          <Select
+                            value={String(webpQuality)}
+                            onValueChange={(v) => setWebpQuality(Number(v))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WEBP_QUALITY_OPTIONS.map((quality) => (
+                                <SelectItem
+                                  key={quality}
+                                  value={String(quality)}
+                                >
+                                  {quality}%
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {isVideoContainer && (
+                    <>
+                      {/* Video Codec */}
+                      <div className="space-y-2">
+                        <Label>Video Codec</Label>
+                        <Select
+                          value={videoCodec}
+                          onValueChange={(v) =>
+                            setVideoCodec(v as VideoCodec | "auto")
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Auto</SelectItem>
+                            {videoCodecOptions.map((codec) => (
+                              <SelectItem key={codec} value={codec}>
+                                {VIDEO_CODEC_LABELS[codec]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {/* Quality */}
+                      <div className="space-y-2">
+                        <Label>Quality</Label>
+                        <Select
+                          value={quality}
+                          onValueChange={(v) =>
+                            setQuality(v as QualityPreset | "custom")
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {qualityPresets.map((preset) => (
+                              <SelectItem key={preset} value={preset}>
+                                {QUALITY_PRESET_LABELS[preset]}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="custom">
+                              Custom bitrate
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+
+                        {quality === "custom" && (
+                          <div className="flex gap-2 mt-2">
+                            <div className="flex-1">
+                              <Label
+                                htmlFor="video-bitrate"
+                                className="text-xs"
+                              >
+                                Bitrate (Mbps)
+                              </Label>
+                              <Input
+                                id="video-bitrate"
+                                type="number"
+                                min={0.1}
+                                max={200}
+                                step={0.5}
+                                value={videoBitrate}
+                                onChange={(e) =>
+                                  setVideoBitrate(Number(e.target.value) || 8)
+                                }
+                              />
+                            </div>
+                            <div className="flex-1">
+                              <Label className="text-xs">Rate Control</Label>
+                              <Select
+                                value={bitrateMode}
+                                onValueChange={(v) =>
+                                  setBitrateMode(v as "variable" | "constant")
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="variable">
+                                    Target
+                                  </SelectItem>
+                                  <SelectItem value="constant">
+                                    Constant
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Keyframe Interval */}
+                      <div className="space-y-2">
+                        <Label>Keyframe Interval</Label>
+                        <Select
+                          value={String(keyFrameInterval)}
+                          onValueChange={(v) => setKeyFrameInterval(Number(v))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {KEY_FRAME_INTERVAL_OPTIONS.map((seconds) => (
+                              <SelectItem key={seconds} value={String(seconds)}>
+                                Every {seconds}s
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+
+              {outputContainer && (
+                <>
+                  {/* Audio Codec */}
+                  {audioCodecOptions.length > 1 && (
+                    <div className="space-y-2">
+                      <Label>Audio Codec</Label>
+                      <Select
+                        value={audioCodec}
+                        onValueChange={(v) =>
+                          setAudioCodec(v as AudioCodec | "auto")
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto</SelectItem>
+                          {audioCodecOptions.map((codec) => (
+                            <SelectItem key={codec} value={codec}>
+                              {AUDIO_CODEC_LABELS[codec]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {/* Sample Rate */}
+                  <div className="space-y-2">
+                    <Label>Sample Rate</Label>
+                    <Select
+                      value={String(sampleRate)}
+                      onValueChange={(v) => setSampleRate(Number(v))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SAMPLE_RATE_OPTIONS.map((rate) => (
+                          <SelectItem key={rate} value={String(rate)}>
+                            {(rate / 1000).toFixed(1)} kHz
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Channels */}
+                  <div className="space-y-2">
+                    <Label>Channels</Label>
+                    <Select
+                      value={String(numberOfChannels)}
+                      onValueChange={(v) =>
+                        setNumberOfChannels(v === "1" ? 1 : 2)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="2">Stereo</SelectItem>
+                        <SelectItem value="1">Mono</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Bitrate */}
+                  {!isLosslessAudio && (
+                    <div className="space-y-2">
+                      <Label>Bitrate</Label>
+                      <Select
+                        value={String(audioBitrate)}
+                        onValueChange={(v) => setAudioBitrate(Number(v))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AUDIO_BITRATE_OPTIONS.map((kbps) => (
+                            <SelectItem key={kbps} value={String(kbps)}>
+                              {kbps} kbps
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
 
             <DialogFooter className="gap-2 sm:gap-0">
               <Button variant="outline" onClick={handleClose}>
                 Cancel
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleAddToQueue}
+                disabled={clipCount === 0}
+              >
+                <ListPlus className="h-4 w-4 mr-2" />
+                Add to Queue
+              </Button>
               <Button onClick={handleExport} disabled={clipCount === 0}>
                 <Download className="h-4 w-4 mr-2" />
                 Export
@@ -0,0 +1,174 @@
+"use client";
+
+import { Download, ListVideo, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import {
+  type QueuedExport,
+  type QueuedExportStatus,
+  useExportQueue,
+} from "@/lib/export-queue";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<QueuedExportStatus, string> = {
+  queued: "Waiting",
+  running: "Exporting",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1,
+  );
+  return `${(bytes / k ** i).toFixed(1)} ${sizes[i]}`;
+}
+
+function downloadResult(result: NonNullable<QueuedExport["result"]>) {
+  const url = URL.createObjectURL(result.blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = result.fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function ExportQueueItem({ job }: { job: QueuedExport }) {
+  const {
+    actions: { cancel, retry, remove },
+  } = useExportQueue();
+  const isActive = job.status === "queued" || job.status === "running";
+  const savedToFile = job.options.destination?.type === "file";
+
+  return (
+    <li className="space-y-1.5 py-2">
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-xs font-medium">{job.label}</p>
+          <p
+            className={cn(
+              "truncate text-[11px] text-foreground/60",
+              job.status === "error" && "text-destructive",
+            )}
+          >
+            {job.status === "error"
+              ? job.error
+              : job.status === "running"
+                ? `${Math.round(job.progress * 100)}% · ${formatBytes(job.bytesWritten)} written`
+                : job.status === "done" && job.result
+                  ? `${savedToFile ? "Saved" : STATUS_LABELS.done} · ${formatBytes(job.result.blob.size)}`
+                  : STATUS_LABELS[job.status]}
+          </p>
+        </div>
+
+        {job.status === "done" && job.result && !savedToFile && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Download"
+            onClick={() => job.result && downloadResult(job.result)}
+          >
+            <Download className="h-3.5 w-3.5" />
+          </Button>
+        )}
+        {(job.status === "error" || job.status === "cancelled") && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Retry"
+            onClick={() => retry(job.id)}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+        )}
+        {isActive ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Cancel"
+            onClick={() => cancel(job.id)}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Remove"
+            onClick={() => remove(job.id)}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      {job.status === "running" && (
+        <Progress value={job.progress * 100} className="h-1" />
+      )}
+    </li>
+  );
+}
+
+/** Header button listing queued exports and their finished downloads */
+export function ExportQueuePanel() {
+  const {
+    state: { jobs },
+    actions: { clearFinished },
+  } = useExportQueue();
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(
+    (job) => job.status === "queued" || job.status === "running",
+  ).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-2 text-xs text-muted-foreground hover:text-foreground rounded-md"
+          title="Export Queue"
+        >
+          <ListVideo className="h-4 w-4" />
+          {activeCount > 0 ? `${activeCount} exporting` : "Exports"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold uppercase tracking-wider text-foreground/50">
+            Export Queue
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={clearFinished}
+            disabled={activeCount === jobs.length}
+          >
+            Clear finished
+          </Button>
+        </div>
+        <ul className="max-h-80 divide-y divide-border overflow-y-auto">
+          {jobs.map((job) => (
+            <ExportQueueItem key={job.id} job={job} />
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1 +1,2 @@
 export { ExportModal, type ExportModalProps } from "./export-modal";
+export { ExportQueuePanel } from "./export-queue-panel";
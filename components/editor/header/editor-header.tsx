@@ -1,5 +1,6 @@
-import { ChevronLeft, PanelLeft, Redo2, Undo2 } from "lucide-react";
+import { ChevronLeft, PanelLeft, Redo2, Settings2, Undo2 } from "lucide-react";
 import Link from "next/link";
+import type { ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
@@ -8,6 +9,10 @@ interface EditorHeaderProps {
   onUndo?: () => void;
   onRedo?: () => void;
   onExport?: () => void;
+  /** Makes the project name a button that opens the project settings */
+  onOpenProjectSettings?: () => void;
+  /** Shown next to the Export button, e.g. the export queue */
+  exportActions?: ReactNode;
   canUndo?: boolean;
   canRedo?: boolean;
   onToggleMediaPanel?: () => void;
@@ -20,6 +25,8 @@ export function EditorHeader({
   onUndo,
   onRedo,
   onExport,
+  onOpenProjectSettings,
+  exportActions,
   canUndo = false,
   canRedo = false,
   onToggleMediaPanel,
@@ -41,7 +48,7 @@ export function EditorHeader({
           className="h-8 w-8 text-muted-foreground hover:text-foreground rounded-full hover:bg-muted"
           asChild
         >
-          <Link href="/projects">
+          <Link href="/editor">
             <ChevronLeft className="h-4 w-4" />
           </Link>
         </Button>
@@ -72,9 +79,22 @@ export function EditorHeader({
 
       {/* Center Section: Project Name */}
       <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
-        <span className="text-xs font-medium text-foreground/90">
-          {projectName}
-        </span>
+        {onOpenProjectSettings ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="group h-7 gap-1.5 px-2 text-xs font-medium text-foreground/90"
+            onClick={onOpenProjectSettings}
+            title="Project Settings"
+          >
+            {projectName}
+            <Settings2 className="h-3 w-3 text-muted-foreground group-hover:text-foreground" />
+          </Button>
+        ) : (
+          <span className="text-xs font-medium text-foreground/90">
+            {projectName}
+          </span>
+        )}
       </div>
 
       {/* Right Section: Actions */}
@@ -94,6 +114,7 @@ export function EditorHeader({
 
         <div className="w-px h-4 bg-border mx-2" />
 
+        {exportActions}
         <Button
           size="sm"
           onClick={onExport}
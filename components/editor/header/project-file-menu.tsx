@@ -0,0 +1,67 @@
+"use client";
+
+import { FileJson, Loader2, Package, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ProjectFileMenuProps {
+  onSaveBundle: () => void;
+  onSaveJson: () => void;
+  isSaving?: boolean;
+}
+
+/** Saves the project as a file that can be handed to someone else */
+export function ProjectFileMenu({
+  onSaveBundle,
+  onSaveJson,
+  isSaving = false,
+}: ProjectFileMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-foreground rounded-md"
+          disabled={isSaving}
+          title="Share Project"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Share2 className="h-4 w-4" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Share Project</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={onSaveBundle}>
+          <Package className="size-4 mr-2" />
+          <div className="flex flex-col">
+            <span>Save .localcut Bundle</span>
+            <span className="text-xs text-muted-foreground">
+              Project and media in one file
+            </span>
+          </div>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onSaveJson}>
+          <FileJson className="size-4 mr-2" />
+          <div className="flex flex-col">
+            <span>Save Project JSON</span>
+            <span className="text-xs text-muted-foreground">
+              Media is linked again when opened
+            </span>
+          </div>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
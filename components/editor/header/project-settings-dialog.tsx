@@ -0,0 +1,272 @@
+"use client";
+
+import { Settings2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  type ProjectSettings,
+} from "@/lib/project-store";
+
+const CANVAS_PRESETS = [
+  { label: "Landscape 1080p (1920×1080)", width: 1920, height: 1080 },
+  { label: "Landscape 720p (1280×720)", width: 1280, height: 720 },
+  { label: "Landscape 4K (3840×2160)", width: 3840, height: 2160 },
+  { label: "Portrait (1080×1920)", width: 1080, height: 1920 },
+  { label: "Square (1080×1080)", width: 1080, height: 1080 },
+  { label: "Custom", width: 0, height: 0 },
+] as const;
+
+const FRAME_RATE_OPTIONS = [24, 25, 30, 50, 60] as const;
+const SAMPLE_RATE_OPTIONS = [44_100, 48_000] as const;
+
+export interface ProjectSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: ProjectSettings;
+  onSave: (settings: ProjectSettings) => void;
+}
+
+/** Edits a draft of the project settings; nothing changes until Save */
+export function ProjectSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  onSave,
+}: ProjectSettingsDialogProps) {
+  const [draft, setDraft] = useState(settings);
+  const [isCustomSize, setIsCustomSize] = useState(false);
+
+  // Start from the current settings every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft(settings);
+    setIsCustomSize(false);
+  }, [open, settings]);
+
+  const update = (change: Partial<ProjectSettings>) =>
+    setDraft((prev) => ({ ...prev, ...change }));
+
+  const matchingPreset = CANVAS_PRESETS.find(
+    (p) => p.width === draft.width && p.height === draft.height,
+  );
+  const canvasPreset =
+    matchingPreset && !isCustomSize
+      ? `${matchingPreset.width}x${matchingPreset.height}`
+      : "custom";
+
+  const handleCanvasPresetChange = (value: string) => {
+    setIsCustomSize(value === "custom");
+    if (value !== "custom") {
+      const [width, height] = value.split("x").map(Number);
+      update({ width, height });
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      name: draft.name.trim() || DEFAULT_PROJECT_SETTINGS.name,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Settings2 className="h-5 w-5" />
+            Project Settings
+          </DialogTitle>
+          <DialogDescription>
+            Canvas, frame rate and sample rate are also the defaults for
+            exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4 py-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder={DEFAULT_PROJECT_SETTINGS.name}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Canvas Size</Label>
+            <Select
+              value={canvasPreset}
+              onValueChange={handleCanvasPresetChange}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CANVAS_PRESETS.map((preset) => (
+                  <SelectItem
+                    key={preset.label}
+                    value={
+                      preset.width === 0
+                        ? "custom"
+                        : `${preset.width}x${preset.height}`
+                    }
+                  >
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canvasPreset === "custom" && (
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="canvas-width" className="text-xs">
+                    Width
+                  </Label>
+                  <Input
+                    id="canvas-width"
+                    type="number"
+                    min={128}
+                    max={7680}
+                    value={draft.width}
+                    onChange={(e) =>
+                      update({ width: Number(e.target.value) || 1920 })
+                    }
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label htmlFor="canvas-height" className="text-xs">
+                    Height
+                  </Label>
+                  <Input
+                    id="canvas-height"
+                    type="number"
+                    min={128}
+                    max={4320}
+                    value={draft.height}
+                    onChange={(e) =>
+                      update({ height: Number(e.target.value) || 1080 })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Frame Rate</Label>
+              <Select
+                value={String(draft.frameRate)}
+                onValueChange={(v) => update({ frameRate: Number(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FRAME_RATE_OPTIONS.map((fps) => (
+                    <SelectItem key={fps} value={String(fps)}>
+                      {fps} fps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sample Rate</Label>
+              <Select
+                value={String(draft.sampleRate)}
+                onValueChange={(v) => update({ sampleRate: Number(v) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAMPLE_RATE_OPTIONS.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)}>
+                      {(rate / 1000).toFixed(1)} kHz
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="background-color">Background</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="background-color"
+                  type="color"
+                  value={draft.backgroundColor}
+                  onChange={(e) => update({ backgroundColor: e.target.value })}
+                  className="h-9 w-12 cursor-pointer rounded-md border border-input bg-transparent p-1"
+                />
+                <span className="font-mono text-xs text-foreground/60">
+                  {draft.backgroundColor}
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="image-duration">Image Duration (s)</Label>
+              <Input
+                id="image-duration"
+                type="number"
+                min={0.1}
+                max={3600}
+                step={0.1}
+                value={draft.imageDuration}
+                onChange={(e) =>
+                  update({
+                    imageDuration:
+                      Number(e.target.value) ||
+                      DEFAULT_PROJECT_SETTINGS.imageDuration,
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
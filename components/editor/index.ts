@@ -3,31 +3,53 @@
 
 // Header components
 export { EditorHeader } from "./header/editor-header";
+export { ProjectFileMenu } from "./header/project-file-menu";
+export { ProjectSettingsDialog } from "./header/project-settings-dialog";
 
 // Panel components
 export {
   type MediaAsset,
   MediaLibrary,
   type MediaLibraryTab,
+  SHAPE_PRESETS,
+  type ShapePreset,
+  TEXT_PRESETS,
+  type TextPreset,
+  type TransitionTarget,
 } from "./panels/media-library";
 export {
   type ClipProperties,
   PropertiesPanel,
+  type PropertiesPanelHandlers,
 } from "./panels/properties-panel";
+export { RelinkMediaDialog } from "./panels/relink-media-dialog";
 
 // Preview components - Compositor-based player
 export { TimelinePlayer } from "./preview/timeline-player";
 export {
   type ActiveClip,
+  type AnimatableProperty,
+  type ClipCrop,
   type ClipFilters,
+  type ClipKeyframes,
   type ClipTransform,
   DEFAULT_CLIP_FILTERS,
+  DEFAULT_SHAPE_CLIP,
+  DEFAULT_TEXT_CLIP,
   type FitMode,
+  type Keyframe,
+  type KeyframeEasing,
   type LoadedSource,
+  type ShapeClipData,
+  type TextClipData,
+  type TimelineClipType,
   type TimelineClipWithAsset,
   type TimelinePlaybackState,
   TimelinePlayerProvider,
   type TimelineTrackData,
+  type TimelineTransition,
+  type TransitionDirection,
+  type TransitionType,
   useTimelinePlayer,
   useTimelinePlayerTime,
 } from "./preview/timeline-player-context";
@@ -27,12 +27,26 @@ import {
 import type { ComponentType, SVGProps } from "react";
 import { memo, useCallback, useEffect, useState } from "react";
 import { FilterControls } from "@/components/editor/panels/filter-controls";
-import type { FitMode } from "@/components/editor/preview/timeline-player-context";
+import {
+  type ClipProperties,
+  PropertiesPanel,
+  type PropertiesPanelHandlers,
+} from "@/components/editor/panels/properties-panel";
+import type {
+  FitMode,
+  ShapeClipData,
+  TextClipData,
+  TimelineTransition,
+  TransitionDirection,
+  TransitionType,
+} from "@/components/editor/preview/timeline-player-context";
 import {
   type ClipFilters,
   DEFAULT_CLIP_FILTERS,
+  useTimelinePlayerTime,
 } from "@/components/editor/preview/timeline-player-context";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -43,6 +57,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  isDirectionalTransition,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_TYPES,
+} from "@/lib/transitions";
 import { cn } from "@/lib/utils";
 
 // Canvas resize presets
@@ -179,6 +198,148 @@ const CANVAS_PRESETS: {
   ],
 };
 
+// Text presets - start points for the text tab, styled on top of DEFAULT_TEXT_CLIP
+export interface TextPreset {
+  id: string;
+  label: string;
+  description: string;
+  text: Partial<TextClipData>;
+  // Placement as a fraction of the canvas size, relative to center
+  offset: { x: number; y: number };
+}
+
+export const TEXT_PRESETS: TextPreset[] = [
+  {
+    id: "title",
+    label: "Title",
+    description: "Large centered heading",
+    text: { content: "Title", fontSize: 120, fontWeight: 800 },
+    offset: { x: 0, y: 0 },
+  },
+  {
+    id: "subtitle",
+    label: "Subtitle",
+    description: "Secondary line under a title",
+    text: { content: "Subtitle", fontSize: 64, fontWeight: 500 },
+    offset: { x: 0, y: 0.12 },
+  },
+  {
+    id: "lower-third",
+    label: "Lower third",
+    description: "Name and role on a background box",
+    text: {
+      content: "Name Surname\nRole or company",
+      fontSize: 48,
+      fontWeight: 600,
+      align: "left",
+      lineHeight: 1.3,
+      backgroundOpacity: 80,
+      backgroundColor: "#111827",
+      backgroundPadding: 24,
+      backgroundRadius: 8,
+    },
+    offset: { x: -0.28, y: 0.32 },
+  },
+  {
+    id: "caption",
+    label: "Caption",
+    description: "Readable text near the bottom",
+    text: {
+      content: "Caption text",
+      fontSize: 44,
+      fontWeight: 500,
+      backgroundOpacity: 60,
+      backgroundColor: "#000000",
+      backgroundPadding: 12,
+      backgroundRadius: 6,
+    },
+    offset: { x: 0, y: 0.4 },
+  },
+  {
+    id: "outlined",
+    label: "Outlined",
+    description: "Bold text with an outline and shadow",
+    text: {
+      content: "OUTLINED",
+      fontSize: 110,
+      fontWeight: 900,
+      strokeWidth: 6,
+      strokeColor: "#000000",
+      shadowBlur: 16,
+      shadowOffsetY: 6,
+    },
+    offset: { x: 0, y: 0 },
+  },
+];
+
+// Shape presets - callouts for annotating recordings, on top of DEFAULT_SHAPE_CLIP
+export interface ShapePreset {
+  id: string;
+  label: string;
+  description: string;
+  shape: Partial<ShapeClipData>;
+}
+
+export const SHAPE_PRESETS: ShapePreset[] = [
+  {
+    id: "callout-box",
+    label: "Callout box",
+    description: "Rounded outline to frame an area",
+    shape: { kind: "rectangle" },
+  },
+  {
+    id: "highlight",
+    label: "Highlight",
+    description: "Translucent box over text or controls",
+    shape: {
+      kind: "rectangle",
+      height: 80,
+      fillColor: "#facc15",
+      fillOpacity: 40,
+      strokeWidth: 0,
+      cornerRadius: 4,
+    },
+  },
+  {
+    id: "circle",
+    label: "Circle",
+    description: "Ellipse outline around a point of interest",
+    shape: { kind: "ellipse", width: 240, height: 240 },
+  },
+  {
+    id: "arrow",
+    label: "Arrow",
+    description: "Filled arrow, rotate to point at something",
+    shape: {
+      kind: "arrow",
+      width: 320,
+      height: 120,
+      fillColor: "#ef4444",
+      fillOpacity: 100,
+      strokeWidth: 0,
+    },
+  },
+  {
+    id: "solid-box",
+    label: "Solid box",
+    description: "Opaque panel to cover or back content",
+    shape: {
+      kind: "rectangle",
+      fillColor: "#111827",
+      fillOpacity: 100,
+      strokeWidth: 0,
+    },
+  },
+];
+
+// The cut the transitions tab edits: the selected clip and its touching neighbour
+export interface TransitionTarget {
+  fromClipName: string;
+  toClipName: string;
+  maxDuration: number;
+  transition?: TimelineTransition;
+}
+
 export interface MediaAsset {
   id: string;
   name: string;
@@ -212,13 +373,22 @@ interface MediaLibraryProps {
   selectedClip?: {
     id: string;
     name: string;
-    type: "video" | "image";
+    type: "video" | "image" | "audio";
     fitMode?: FitMode;
     filters?: ClipFilters;
   } | null;
   onClipFitModeChange?: (clipId: string, fitMode: FitMode | "none") => void;
   onClipFiltersChange?: (clipId: string, filters: ClipFilters) => void;
   onClipFiltersPreview?: (clipId: string, filters: ClipFilters) => void;
+  onTextAdd?: (preset: TextPreset) => void;
+  onShapeAdd?: (preset: ShapePreset) => void;
+  // Selected clip, edited in the media editor, text and shapes tabs
+  selectedClipProperties?: ClipProperties | null;
+  clipPropertiesHandlers?: PropertiesPanelHandlers;
+  transitionTarget?: TransitionTarget | null;
+  onTransitionSet?: (type: TransitionType) => void;
+  onTransitionChange?: (changes: Partial<TimelineTransition>) => void;
+  onTransitionRemove?: () => void;
   className?: string;
 }
 
@@ -339,6 +509,67 @@ function MediaThumbnail({
   );
 }
 
+// Preset list item for the text, shapes and transitions tabs
+function LayerPresetButton({
+  icon: Icon,
+  label,
+  description,
+  isActive,
+  disabled,
+  onClick,
+}: {
+  icon: LucideIcon;
+  label: string;
+  description: string;
+  isActive?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "flex items-center gap-3 rounded-xl border border-border/40 bg-muted/20 p-3 text-left transition-all hover:bg-muted/50 hover:ring-2 ring-primary/20 group",
+        "disabled:pointer-events-none disabled:opacity-50",
+        isActive && "ring-2 ring-primary/50 bg-muted/50",
+      )}
+    >
+      <Icon className="w-4 h-4 shrink-0 text-muted-foreground group-hover:text-foreground" />
+      <span className="flex-1 min-w-0">
+        <span className="block text-sm font-medium text-foreground">
+          {label}
+        </span>
+        <span className="block text-[10px] text-muted-foreground truncate">
+          {description}
+        </span>
+      </span>
+      <Plus className="w-4 h-4 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+    </button>
+  );
+}
+
+// Properties panel that follows the playhead, for keyframes
+function SelectedClipPropertiesPanel({
+  clip,
+  handlers,
+}: {
+  clip: ClipProperties;
+  handlers?: PropertiesPanelHandlers;
+}) {
+  const currentTime = useTimelinePlayerTime();
+
+  return (
+    <PropertiesPanel
+      clip={clip}
+      time={currentTime - clip.startTime}
+      {...handlers}
+      className="h-auto"
+    />
+  );
+}
+
 // Context Menu Component
 
 export const MediaLibrary = memo(function MediaLibrary({
@@ -359,6 +590,14 @@ export const MediaLibrary = memo(function MediaLibrary({
   onClipFitModeChange,
   onClipFiltersChange,
   onClipFiltersPreview,
+  onTextAdd,
+  onShapeAdd,
+  selectedClipProperties,
+  clipPropertiesHandlers,
+  transitionTarget,
+  onTransitionSet,
+  onTransitionChange,
+  onTransitionRemove,
   className,
 }: MediaLibraryProps) {
   const [internalTab, setInternalTab] = useState<MediaLibraryTab>("media");
@@ -712,37 +951,48 @@ export const MediaLibrary = memo(function MediaLibrary({
                   </div>
 
                   {/* Filter Controls */}
-                  <FilterControls
-                    filters={selectedClip.filters ?? DEFAULT_CLIP_FILTERS}
-                    onPreview={handleFiltersPreview}
-                    onCommit={handleFiltersCommit}
-                  />
+                  {selectedClip.type !== "audio" && (
+                    <FilterControls
+                      filters={selectedClip.filters ?? DEFAULT_CLIP_FILTERS}
+                      onPreview={handleFiltersPreview}
+                      onCommit={handleFiltersCommit}
+                    />
+                  )}
 
                   {/* Fit Mode - moved below filters */}
-                  <div className="space-y-2 pt-2 border-t border-border/30">
-                    <Label className="text-xs text-foreground/70">
-                      Fit mode
-                    </Label>
-                    <Select
-                      value={selectedClip.fitMode ?? "none"}
-                      onValueChange={(value) =>
-                        onClipFitModeChange?.(
-                          selectedClip.id,
-                          value as FitMode | "none",
-                        )
-                      }
-                    >
-                      <SelectTrigger className="w-full bg-card border-border/50">
-                        <SelectValue placeholder="Select fit mode" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="none">None</SelectItem>
-                        <SelectItem value="contain">Fit (contain)</SelectItem>
-                        <SelectItem value="cover">Cover</SelectItem>
-                        <SelectItem value="fill">Fill</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {selectedClip.type !== "audio" && (
+                    <div className="space-y-2 pt-2 border-t border-border/30">
+                      <Label className="text-xs text-foreground/70">
+                        Fit mode
+                      </Label>
+                      <Select
+                        value={selectedClip.fitMode ?? "none"}
+                        onValueChange={(value) =>
+                          onClipFitModeChange?.(
+                            selectedClip.id,
+                            value as FitMode | "none",
+                          )
+                        }
+                      >
+                        <SelectTrigger className="w-full bg-card border-border/50">
+                          <SelectValue placeholder="Select fit mode" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="contain">Fit (contain)</SelectItem>
+                          <SelectItem value="cover">Cover</SelectItem>
+                          <SelectItem value="fill">Fill</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {selectedClipProperties?.id === selectedClip.id && (
+                    <SelectedClipPropertiesPanel
+                      clip={selectedClipProperties}
+                      handlers={clipPropertiesHandlers}
+                    />
+                  )}
                 </div>
               ) : (
                 <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm text-center py-8">
@@ -753,13 +1003,160 @@ export const MediaLibrary = memo(function MediaLibrary({
           </ScrollArea>
         )}
 
-        {resolvedTab !== "media" &&
-          resolvedTab !== "canvas" &&
-          resolvedTab !== "media-editor" && (
-            <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
-              Coming Soon
+        {resolvedTab === "text" && (
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-2">
+              <div className="grid grid-cols-1 gap-2">
+                {TEXT_PRESETS.map((preset) => (
+                  <LayerPresetButton
+                    key={preset.id}
+                    icon={Type}
+                    label={preset.label}
+                    description={preset.description}
+                    onClick={() => onTextAdd?.(preset)}
+                  />
+                ))}
+              </div>
+
+              {selectedClipProperties?.type === "text" && (
+                <SelectedClipPropertiesPanel
+                  clip={selectedClipProperties}
+                  handlers={clipPropertiesHandlers}
+                />
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        {resolvedTab === "shapes" && (
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-2">
+              <div className="grid grid-cols-1 gap-2">
+                {SHAPE_PRESETS.map((preset) => (
+                  <LayerPresetButton
+                    key={preset.id}
+                    icon={Shapes}
+                    label={preset.label}
+                    description={preset.description}
+                    onClick={() => onShapeAdd?.(preset)}
+                  />
+                ))}
+              </div>
+
+              {selectedClipProperties?.type === "shape" && (
+                <SelectedClipPropertiesPanel
+                  clip={selectedClipProperties}
+                  handlers={clipPropertiesHandlers}
+                />
+              )}
             </div>
-          )}
+          </ScrollArea>
+        )}
+
+        {resolvedTab === "transitions" && (
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-2">
+              {transitionTarget ? (
+                <div className="rounded-lg border border-border/50 bg-muted/40 p-3">
+                  <p className="text-xs text-muted-foreground">Cut between</p>
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {transitionTarget.fromClipName}
+                  </p>
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {transitionTarget.toClipName}
+                  </p>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center text-muted-foreground text-sm text-center py-6 px-2">
+                  Select a clip that touches another clip on its track to add a
+                  transition.
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 gap-2">
+                {TRANSITION_TYPES.map((entry) => (
+                  <LayerPresetButton
+                    key={entry.value}
+                    icon={LayoutGrid}
+                    label={entry.label}
+                    description={entry.description}
+                    isActive={
+                      transitionTarget?.transition?.type === entry.value
+                    }
+                    disabled={!transitionTarget}
+                    onClick={() => onTransitionSet?.(entry.value)}
+                  />
+                ))}
+              </div>
+
+              {transitionTarget?.transition && (
+                <div className="space-y-3 rounded-lg border border-border/50 p-3">
+                  <div className="flex items-center gap-2">
+                    <Label className="w-20 text-xs text-foreground/70 shrink-0">
+                      Duration
+                    </Label>
+                    <Input
+                      type="number"
+                      value={transitionTarget.transition.duration}
+                      min={0.1}
+                      max={transitionTarget.maxDuration}
+                      step={0.1}
+                      onChange={(e) =>
+                        onTransitionChange?.({
+                          duration: Math.min(
+                            transitionTarget.maxDuration,
+                            Math.max(0.1, Number(e.target.value)),
+                          ),
+                        })
+                      }
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                  {isDirectionalTransition(
+                    transitionTarget.transition.type,
+                  ) && (
+                    <div className="flex items-center gap-2">
+                      <Label className="w-20 text-xs text-foreground/70 shrink-0">
+                        Direction
+                      </Label>
+                      <Select
+                        value={transitionTarget.transition.direction ?? "left"}
+                        onValueChange={(value) =>
+                          onTransitionChange?.({
+                            direction: value as TransitionDirection,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-full text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRANSITION_DIRECTIONS.map((direction) => (
+                            <SelectItem
+                              key={direction.value}
+                              value={direction.value}
+                            >
+                              {direction.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full h-7 text-xs"
+                    onClick={onTransitionRemove}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Remove transition
+                  </Button>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
       </div>
     </div>
   );
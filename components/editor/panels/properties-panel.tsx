@@ -1,15 +1,35 @@
 "use client";
 
 import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
   ChevronDown,
   Crop,
+  Diamond,
   Maximize2,
   RefreshCw,
   RotateCw,
+  Shapes,
+  SlidersHorizontal,
+  Type,
+  Volume2,
+  X,
 } from "lucide-react";
 import { useState } from "react";
 import { ScissorsIcon } from "@/components/animate-ui/icons/scissors";
-import type { FitMode } from "@/components/editor/preview/timeline-player-context";
+import {
+  type AnimatableProperty,
+  type ClipFilters,
+  type ClipKeyframes,
+  type ClipTransform,
+  DEFAULT_CLIP_FILTERS,
+  type FitMode,
+  type KeyframeEasing,
+  type ShapeClipData,
+  type TextClipData,
+  type TimelineClipType,
+} from "@/components/editor/preview/timeline-player-context";
 import { Button } from "@/components/ui/button";
 import {
   Collapsible,
@@ -18,13 +38,35 @@ import {
 } from "@/components/ui/collapsible";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { CLIP_GAIN_MAX_DB, CLIP_GAIN_MIN_DB } from "@/lib/audio-mix";
+import { MAX_CLIP_SPEED, MIN_CLIP_SPEED } from "@/lib/clip-speed";
+import {
+  evaluateKeyframes,
+  FILTER_PROPERTIES,
+  findKeyframeAt,
+  getStaticValue,
+  isAnimated,
+  KEYFRAME_EASINGS,
+  KEYFRAME_PROPERTY_LABELS,
+} from "@/lib/keyframes";
+import { SHAPE_KINDS } from "@/lib/shape-layer";
+import { TEXT_FONT_FAMILIES } from "@/lib/text-layer";
 import { cn } from "@/lib/utils";
 
 export interface ClipProperties {
   id: string;
   name: string;
-  type: "video" | "audio" | "image";
+  type: TimelineClipType;
+  startTime: number;
   fitMode?: FitMode;
   // Transform properties
   positionX: number;
@@ -32,6 +74,9 @@ export interface ClipProperties {
   scaleX: number;
   scaleY: number;
   rotation: number;
+  // Rotation pivot, as a fraction of the layer size
+  anchorX: number;
+  anchorY: number;
   // Crop properties
   cropTop: number;
   cropBottom: number;
@@ -41,16 +86,51 @@ export interface ClipProperties {
   trimStart: number;
   trimEnd: number;
   duration: number;
-  // Resample properties
+  // Resample properties; negative speed plays backwards
   speed: number;
+  preservePitch: boolean;
+  // Text layer content and styling
+  text?: TextClipData;
+  // Shape layer geometry and styling
+  shape?: ShapeClipData;
+  // Static filters and per-property keyframes
+  filters?: ClipFilters;
+  keyframes?: ClipKeyframes;
+  // Audio gain (dB) and fade lengths (seconds)
+  gain: number;
+  fadeIn: number;
+  fadeOut: number;
 }
 
-interface PropertiesPanelProps {
+export interface PropertiesPanelProps {
   clip: ClipProperties | null;
+  /** Playhead position relative to the clip start, for keyframes */
+  time?: number;
   onChange?: (properties: Partial<ClipProperties>) => void;
+  /** Transform and filter edits; keyframed at `time` when the property is animated */
+  onAnimatableChange?: (property: AnimatableProperty, value: number) => void;
+  onKeyframeToggle?: (property: AnimatableProperty) => void;
+  onKeyframeEasingChange?: (
+    property: AnimatableProperty,
+    easing: KeyframeEasing,
+  ) => void;
+  onKeyframesClear?: (property: AnimatableProperty) => void;
+  /** Start drawing the crop on the preview */
+  onCropStart?: () => void;
   className?: string;
 }
 
+/** Edit callbacks of the panel, as threaded through parent components */
+export type PropertiesPanelHandlers = Pick<
+  PropertiesPanelProps,
+  | "onChange"
+  | "onAnimatableChange"
+  | "onKeyframeToggle"
+  | "onKeyframeEasingChange"
+  | "onKeyframesClear"
+  | "onCropStart"
+>;
+
 interface PropertySectionProps {
   title: string;
   icon: React.ReactNode;
@@ -100,19 +180,60 @@ function PropertySection({
 interface PropertyRowProps {
   label: string;
   children: React.ReactNode;
+  /** Trailing control, e.g. a keyframe toggle */
+  action?: React.ReactNode;
 }
 
-function PropertyRow({ label, children }: PropertyRowProps) {
+function PropertyRow({ label, children, action }: PropertyRowProps) {
   return (
     <div className="flex items-center gap-2">
       <Label className="w-20 text-xs text-foreground/70 shrink-0">
         {label}
       </Label>
       <div className="flex-1">{children}</div>
+      {action}
     </div>
   );
 }
 
+interface KeyframeToggleProps {
+  label: string;
+  /** Property has keyframes */
+  animated: boolean;
+  /** A keyframe sits at the playhead */
+  active: boolean;
+  onToggle: () => void;
+}
+
+function KeyframeToggle({
+  label,
+  animated,
+  active,
+  onToggle,
+}: KeyframeToggleProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6 shrink-0"
+      aria-label={active ? `Remove ${label} keyframe` : `Add ${label} keyframe`}
+      aria-pressed={active}
+      onClick={onToggle}
+    >
+      <Diamond
+        className={cn(
+          "h-3 w-3",
+          active
+            ? "fill-primary text-primary"
+            : animated
+              ? "text-primary"
+              : "text-foreground/40",
+        )}
+      />
+    </Button>
+  );
+}
+
 interface NumberInputProps {
   value: number;
   onChange: (value: number) => void;
@@ -150,9 +271,365 @@ function NumberInput({
   );
 }
 
+interface ColorInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  label: string;
+}
+
+function ColorInput({ value, onChange, label }: ColorInputProps) {
+  return (
+    <input
+      type="color"
+      aria-label={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-8 w-full cursor-pointer rounded-md border border-input bg-transparent p-0.5"
+    />
+  );
+}
+
+const TEXT_FONT_WEIGHTS = [300, 400, 500, 600, 700, 800, 900];
+
+const TEXT_ALIGN_OPTIONS: {
+  value: TextClipData["align"];
+  label: string;
+  icon: typeof AlignLeft;
+}[] = [
+  { value: "left", label: "Align left", icon: AlignLeft },
+  { value: "center", label: "Align center", icon: AlignCenter },
+  { value: "right", label: "Align right", icon: AlignRight },
+];
+
+interface TextSectionsProps {
+  text: TextClipData;
+  onChange: (text: TextClipData) => void;
+}
+
+// Content, font, outline, shadow and background box of a text clip
+function TextSections({ text, onChange }: TextSectionsProps) {
+  const update = <K extends keyof TextClipData>(
+    key: K,
+    value: TextClipData[K],
+  ) => {
+    onChange({ ...text, [key]: value });
+  };
+
+  return (
+    <>
+      <PropertySection title="Text" icon={<Type className="h-3 w-3" />}>
+        <textarea
+          value={text.content}
+          onChange={(e) => update("content", e.target.value)}
+          rows={3}
+          className="w-full resize-y rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          placeholder="Type your text"
+        />
+        <PropertyRow label="Font">
+          <Select
+            value={text.fontFamily}
+            onValueChange={(value) => update("fontFamily", value)}
+          >
+            <SelectTrigger className="h-8 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEXT_FONT_FAMILIES.map((font) => (
+                <SelectItem
+                  key={font.value}
+                  value={font.value}
+                  style={{ fontFamily: font.value }}
+                >
+                  {font.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </PropertyRow>
+        <PropertyRow label="Size">
+          <NumberInput
+            value={text.fontSize}
+            onChange={(v) => update("fontSize", Math.max(1, v))}
+            min={1}
+            suffix="px"
+          />
+        </PropertyRow>
+        <PropertyRow label="Weight">
+          <Select
+            value={String(text.fontWeight)}
+            onValueChange={(value) => update("fontWeight", Number(value))}
+          >
+            <SelectTrigger className="h-8 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEXT_FONT_WEIGHTS.map((weight) => (
+                <SelectItem key={weight} value={String(weight)}>
+                  {weight}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </PropertyRow>
+        <PropertyRow label="Color">
+          <ColorInput
+            label="Text color"
+            value={text.color}
+            onChange={(v) => update("color", v)}
+          />
+        </PropertyRow>
+        <PropertyRow label="Align">
+          <div className="flex gap-1">
+            {TEXT_ALIGN_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant={text.align === option.value ? "secondary" : "ghost"}
+                size="sm"
+                className="flex-1 h-7"
+                aria-label={option.label}
+                onClick={() => update("align", option.value)}
+              >
+                <option.icon className="h-3 w-3" />
+              </Button>
+            ))}
+          </div>
+        </PropertyRow>
+        <PropertyRow label="Line height">
+          <NumberInput
+            value={text.lineHeight}
+            onChange={(v) => update("lineHeight", Math.max(0.5, v))}
+            min={0.5}
+            max={3}
+            step={0.1}
+          />
+        </PropertyRow>
+      </PropertySection>
+
+      <PropertySection
+        title="Outline & Shadow"
+        icon={<Type className="h-3 w-3" />}
+        defaultOpen={false}
+      >
+        <PropertyRow label="Outline">
+          <NumberInput
+            value={text.strokeWidth}
+            onChange={(v) => update("strokeWidth", Math.max(0, v))}
+            min={0}
+            max={40}
+            suffix="px"
+          />
+        </PropertyRow>
+        <PropertyRow label="Outline color">
+          <ColorInput
+            label="Outline color"
+            value={text.strokeColor}
+            onChange={(v) => update("strokeColor", v)}
+          />
+        </PropertyRow>
+        <PropertyRow label="Shadow">
+          <NumberInput
+            value={text.shadowBlur}
+            onChange={(v) => update("shadowBlur", Math.max(0, v))}
+            min={0}
+            max={100}
+            suffix="px"
+          />
+        </PropertyRow>
+        <PropertyRow label="Shadow color">
+          <ColorInput
+            label="Shadow color"
+            value={text.shadowColor}
+            onChange={(v) => update("shadowColor", v)}
+          />
+        </PropertyRow>
+        <PropertyRow label="Offset X">
+          <NumberInput
+            value={text.shadowOffsetX}
+            onChange={(v) => update("shadowOffsetX", v)}
+            suffix="px"
+          />
+        </PropertyRow>
+        <PropertyRow label="Offset Y">
+          <NumberInput
+            value={text.shadowOffsetY}
+            onChange={(v) => update("shadowOffsetY", v)}
+            suffix="px"
+          />
+        </PropertyRow>
+      </PropertySection>
+
+      <PropertySection
+        title="Background"
+        icon={<Type className="h-3 w-3" />}
+        defaultOpen={false}
+      >
+        <PropertyRow label="Opacity">
+          <div className="flex items-center gap-2">
+            <Slider
+              value={[text.backgroundOpacity]}
+              onValueChange={([v]) => update("backgroundOpacity", v)}
+              min={0}
+              max={100}
+              className="flex-1"
+            />
+            <span className="text-xs w-12 text-right">
+              {Math.round(text.backgroundOpacity)}%
+            </span>
+          </div>
+        </PropertyRow>
+        <PropertyRow label="Color">
+          <ColorInput
+            label="Background color"
+            value={text.backgroundColor}
+            onChange={(v) => update("backgroundColor", v)}
+          />
+        </PropertyRow>
+        <PropertyRow label="Padding">
+          <NumberInput
+            value={text.backgroundPadding}
+            onChange={(v) => update("backgroundPadding", Math.max(0, v))}
+            min={0}
+            suffix="px"
+          />
+        </PropertyRow>
+        <PropertyRow label="Radius">
+          <NumberInput
+            value={text.backgroundRadius}
+            onChange={(v) => update("backgroundRadius", Math.max(0, v))}
+            min={0}
+            suffix="px"
+          />
+        </PropertyRow>
+      </PropertySection>
+    </>
+  );
+}
+
+interface ShapeSectionProps {
+  shape: ShapeClipData;
+  onChange: (shape: ShapeClipData) => void;
+}
+
+// Geometry, fill and outline of a shape clip
+function ShapeSection({ shape, onChange }: ShapeSectionProps) {
+  const update = <K extends keyof ShapeClipData>(
+    key: K,
+    value: ShapeClipData[K],
+  ) => {
+    onChange({ ...shape, [key]: value });
+  };
+
+  return (
+    <PropertySection title="Shape" icon={<Shapes className="h-3 w-3" />}>
+      <PropertyRow label="Kind">
+        <Select
+          value={shape.kind}
+          onValueChange={(value) =>
+            update("kind", value as ShapeClipData["kind"])
+          }
+        >
+          <SelectTrigger className="h-8 w-full text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHAPE_KINDS.map((kind) => (
+              <SelectItem key={kind.value} value={kind.value}>
+                {kind.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </PropertyRow>
+      <PropertyRow label="Width">
+        <NumberInput
+          value={shape.width}
+          onChange={(v) => update("width", Math.max(1, v))}
+          min={1}
+          suffix="px"
+        />
+      </PropertyRow>
+      <PropertyRow label="Height">
+        <NumberInput
+          value={shape.height}
+          onChange={(v) => update("height", Math.max(1, v))}
+          min={1}
+          suffix="px"
+        />
+      </PropertyRow>
+      <PropertyRow label="Fill">
+        <ColorInput
+          label="Fill color"
+          value={shape.fillColor}
+          onChange={(v) => update("fillColor", v)}
+        />
+      </PropertyRow>
+      <PropertyRow label="Fill opacity">
+        <div className="flex items-center gap-2">
+          <Slider
+            value={[shape.fillOpacity]}
+            onValueChange={([v]) => update("fillOpacity", v)}
+            min={0}
+            max={100}
+            className="flex-1"
+          />
+          <span className="text-xs w-12 text-right">
+            {Math.round(shape.fillOpacity)}%
+          </span>
+        </div>
+      </PropertyRow>
+      <PropertyRow label="Outline">
+        <NumberInput
+          value={shape.strokeWidth}
+          onChange={(v) => update("strokeWidth", Math.max(0, v))}
+          min={0}
+          max={100}
+          suffix="px"
+        />
+      </PropertyRow>
+      <PropertyRow label="Outline color">
+        <ColorInput
+          label="Outline color"
+          value={shape.strokeColor}
+          onChange={(v) => update("strokeColor", v)}
+        />
+      </PropertyRow>
+      {shape.kind === "rectangle" && (
+        <PropertyRow label="Corners">
+          <NumberInput
+            value={shape.cornerRadius}
+            onChange={(v) => update("cornerRadius", Math.max(0, v))}
+            min={0}
+            suffix="px"
+          />
+        </PropertyRow>
+      )}
+      <PropertyRow label="Opacity">
+        <div className="flex items-center gap-2">
+          <Slider
+            value={[shape.opacity]}
+            onValueChange={([v]) => update("opacity", v)}
+            min={0}
+            max={100}
+            className="flex-1"
+          />
+          <span className="text-xs w-12 text-right">
+            {Math.round(shape.opacity)}%
+          </span>
+        </div>
+      </PropertyRow>
+    </PropertySection>
+  );
+}
+
 export function PropertiesPanel({
   clip,
+  time = 0,
   onChange,
+  onAnimatableChange,
+  onKeyframeToggle,
+  onKeyframeEasingChange,
+  onKeyframesClear,
+  onCropStart,
   className,
 }: PropertiesPanelProps) {
   if (!clip) {
@@ -181,6 +658,38 @@ export function PropertiesPanel({
     onChange?.({ [key]: value });
   };
 
+  // Animated properties show (and edit) their value at the playhead
+  const staticTransform: ClipTransform = {
+    x: clip.positionX,
+    y: clip.positionY,
+    scaleX: clip.scaleX,
+    scaleY: clip.scaleY,
+    rotation: clip.rotation,
+  };
+  const staticFilters = clip.filters ?? DEFAULT_CLIP_FILTERS;
+  const currentValue = (property: AnimatableProperty) =>
+    evaluateKeyframes(clip.keyframes?.[property], time) ??
+    getStaticValue(property, staticTransform, staticFilters);
+  const keyframeToggle = (property: AnimatableProperty) =>
+    onKeyframeToggle ? (
+      <KeyframeToggle
+        label={KEYFRAME_PROPERTY_LABELS[property]}
+        animated={isAnimated(clip.keyframes, property)}
+        active={!!findKeyframeAt(clip.keyframes?.[property], time)}
+        onToggle={() => onKeyframeToggle(property)}
+      />
+    ) : undefined;
+  const animatedProperties = (
+    Object.keys(KEYFRAME_PROPERTY_LABELS) as AnimatableProperty[]
+  ).filter((property) => isAnimated(clip.keyframes, property));
+
+  const isVisual = clip.type !== "audio";
+  const isMedia = clip.type !== "text" && clip.type !== "shape";
+  const isTimed = clip.type === "video" || clip.type === "audio";
+  const hasAudio = isTimed;
+  const speedMagnitude = Math.abs(clip.speed);
+  const speedSign = clip.speed < 0 ? -1 : 1;
+
   return (
     <div
       className={cn(
@@ -196,7 +705,13 @@ export function PropertiesPanel({
         <span
           className={cn(
             "px-2 py-0.5 rounded text-[10px] font-medium uppercase",
-            clip.type === "video" ? "bg-chart-2" : "bg-chart-3",
+            clip.type === "video"
+              ? "bg-chart-2"
+              : clip.type === "text"
+                ? "bg-chart-4"
+                : clip.type === "shape"
+                  ? "bg-chart-5"
+                  : "bg-chart-3",
           )}
         >
           {clip.type}
@@ -212,85 +727,123 @@ export function PropertiesPanel({
 
       {/* Properties Sections */}
       <div className="flex-1 overflow-y-auto">
-        {/* Transform Section - Video only */}
-        {clip.type === "video" && (
+        {/* Text Sections - Text only */}
+        {clip.text && (
+          <TextSections
+            text={clip.text}
+            onChange={(text) => onChange?.({ text })}
+          />
+        )}
+
+        {/* Shape Section - Shape only */}
+        {clip.shape && (
+          <ShapeSection
+            shape={clip.shape}
+            onChange={(shape) => onChange?.({ shape })}
+          />
+        )}
+
+        {/* Transform Section - Visual clips */}
+        {isVisual && (
           <PropertySection
             title="Transform"
             icon={<Maximize2 className="h-3 w-3" />}
           >
-            <PropertyRow label="Position X">
+            <PropertyRow label="Position X" action={keyframeToggle("x")}>
               <NumberInput
-                value={clip.positionX}
-                onChange={(v) => handleChange("positionX", v)}
+                value={Math.round(currentValue("x"))}
+                onChange={(v) => onAnimatableChange?.("x", v)}
                 suffix="px"
               />
             </PropertyRow>
-            <PropertyRow label="Position Y">
+            <PropertyRow label="Position Y" action={keyframeToggle("y")}>
               <NumberInput
-                value={clip.positionY}
-                onChange={(v) => handleChange("positionY", v)}
+                value={Math.round(currentValue("y"))}
+                onChange={(v) => onAnimatableChange?.("y", v)}
                 suffix="px"
               />
             </PropertyRow>
-            <PropertyRow label="Scale X">
+            <PropertyRow label="Scale X" action={keyframeToggle("scaleX")}>
               <div className="flex items-center gap-2">
                 <Slider
-                  value={[clip.scaleX * 100]}
-                  onValueChange={([v]) => handleChange("scaleX", v / 100)}
+                  value={[currentValue("scaleX") * 100]}
+                  onValueChange={([v]) =>
+                    onAnimatableChange?.("scaleX", v / 100)
+                  }
                   min={10}
                   max={200}
                   className="flex-1"
                 />
                 <span className="text-xs w-12 text-right">
-                  {Math.round(clip.scaleX * 100)}%
+                  {Math.round(currentValue("scaleX") * 100)}%
                 </span>
               </div>
             </PropertyRow>
-            <PropertyRow label="Scale Y">
+            <PropertyRow label="Scale Y" action={keyframeToggle("scaleY")}>
               <div className="flex items-center gap-2">
                 <Slider
-                  value={[clip.scaleY * 100]}
-                  onValueChange={([v]) => handleChange("scaleY", v / 100)}
+                  value={[currentValue("scaleY") * 100]}
+                  onValueChange={([v]) =>
+                    onAnimatableChange?.("scaleY", v / 100)
+                  }
                   min={10}
                   max={200}
                   className="flex-1"
                 />
                 <span className="text-xs w-12 text-right">
-                  {Math.round(clip.scaleY * 100)}%
+                  {Math.round(currentValue("scaleY") * 100)}%
                 </span>
               </div>
             </PropertyRow>
           </PropertySection>
         )}
 
-        {/* Rotation Section - Video only */}
-        {clip.type === "video" && (
+        {/* Rotation Section - Visual clips */}
+        {isVisual && (
           <PropertySection
             title="Rotation"
             icon={<RotateCw className="h-3 w-3" />}
           >
-            <PropertyRow label="Angle">
+            <PropertyRow label="Angle" action={keyframeToggle("rotation")}>
               <div className="flex items-center gap-2">
                 <Slider
-                  value={[clip.rotation]}
-                  onValueChange={([v]) => handleChange("rotation", v)}
+                  value={[currentValue("rotation")]}
+                  onValueChange={([v]) => onAnimatableChange?.("rotation", v)}
                   min={-180}
                   max={180}
                   className="flex-1"
                 />
                 <span className="text-xs w-12 text-right">
-                  {clip.rotation}°
+                  {Math.round(currentValue("rotation"))}°
                 </span>
               </div>
             </PropertyRow>
+            <PropertyRow label="Pivot X">
+              <NumberInput
+                value={Math.round(clip.anchorX * 100)}
+                onChange={(v) => handleChange("anchorX", v / 100)}
+                min={0}
+                max={100}
+                suffix="%"
+              />
+            </PropertyRow>
+            <PropertyRow label="Pivot Y">
+              <NumberInput
+                value={Math.round(clip.anchorY * 100)}
+                onChange={(v) => handleChange("anchorY", v / 100)}
+                min={0}
+                max={100}
+                suffix="%"
+              />
+            </PropertyRow>
             <div className="flex gap-1 mt-2">
-              {[0, 90, 180, 270].map((angle) => (
+              {[-90, 0, 90, 180].map((angle) => (
                 <Button
                   key={angle}
                   variant="ghost"
                   size="sm"
                   className="flex-1 h-7 text-xs"
-                  onClick={() => handleChange("rotation", angle)}
+                  onClick={() => onAnimatableChange?.("rotation", angle)}
                 >
                   {angle}°
                 </Button>
@@ -299,8 +852,96 @@ export function PropertiesPanel({
           </PropertySection>
         )}
 
-        {/* Crop Section - Video only */}
-        {clip.type === "video" && (
+        {/* Opacity & Filters Section - Visual clips */}
+        {isVisual && (
+          <PropertySection
+            title="Opacity & Filters"
+            icon={<SlidersHorizontal className="h-3 w-3" />}
+            defaultOpen={false}
+          >
+            {FILTER_PROPERTIES.map((property) => (
+              <PropertyRow
+                key={property}
+                label={KEYFRAME_PROPERTY_LABELS[property]}
+                action={keyframeToggle(property)}
+              >
+                <NumberInput
+                  value={Math.round(currentValue(property))}
+                  onChange={(v) => onAnimatableChange?.(property, v)}
+                  suffix={
+                    property === "opacity"
+                      ? "%"
+                      : property === "hue"
+                        ? "°"
+                        : undefined
+                  }
+                />
+              </PropertyRow>
+            ))}
+          </PropertySection>
+        )}
+
+        {/* Keyframes Section - Animated properties */}
+        {animatedProperties.length > 0 && (
+          <PropertySection
+            title="Keyframes"
+            icon={<Diamond className="h-3 w-3" />}
+          >
+            {animatedProperties.map((property) => {
+              const keyframe = findKeyframeAt(clip.keyframes?.[property], time);
+              return (
+                <PropertyRow
+                  key={property}
+                  label={KEYFRAME_PROPERTY_LABELS[property]}
+                  action={
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      aria-label={`Clear ${KEYFRAME_PROPERTY_LABELS[property]} keyframes`}
+                      onClick={() => onKeyframesClear?.(property)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  }
+                >
+                  {keyframe ? (
+                    <Select
+                      value={keyframe.easing}
+                      onValueChange={(value) =>
+                        onKeyframeEasingChange?.(
+                          property,
+                          value as KeyframeEasing,
+                        )
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-full text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {KEYFRAME_EASINGS.map((easing) => (
+                          <SelectItem key={easing.value} value={easing.value}>
+                            {easing.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-foreground/50">
+                      {clip.keyframes?.[property]?.length} keyframes
+                    </span>
+                  )}
+                </PropertyRow>
+              );
+            })}
+            <p className="text-[10px] text-foreground/50">
+              Easing applies from the keyframe at the playhead to the next one.
+            </p>
+          </PropertySection>
+        )}
+
+        {/* Crop Section - Video and image clips */}
+        {isVisual && isMedia && (
           <PropertySection title="Crop" icon={<Crop className="h-3 w-3" />}>
             <PropertyRow label="Top">
               <NumberInput
@@ -338,6 +979,17 @@ export function PropertiesPanel({
                 suffix="%"
               />
             </PropertyRow>
+            {onCropStart && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full h-7 text-xs mt-2"
+                onClick={onCropStart}
+              >
+                <Crop className="h-3 w-3 mr-1" />
+                Crop in Preview
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -357,67 +1009,153 @@ export function PropertiesPanel({
           </PropertySection>
         )}
 
-        {/* Trim Section */}
-        <PropertySection title="Trim" icon={<ScissorsIcon animateOnHover />}>
-          <PropertyRow label="Start">
-            <NumberInput
-              value={clip.trimStart}
-              onChange={(v) => handleChange("trimStart", v)}
-              min={0}
-              max={clip.duration}
-              step={0.1}
-              suffix="s"
-            />
-          </PropertyRow>
-          <PropertyRow label="End">
-            <NumberInput
-              value={clip.trimEnd}
-              onChange={(v) => handleChange("trimEnd", v)}
-              min={0}
-              max={clip.duration}
-              step={0.1}
-              suffix="s"
-            />
-          </PropertyRow>
-          <div className="text-xs text-foreground/50 text-center mt-1">
-            Duration: {(clip.trimEnd - clip.trimStart).toFixed(1)}s
-          </div>
-        </PropertySection>
+        {/* Audio Section - Clips with sound */}
+        {hasAudio && (
+          <PropertySection title="Audio" icon={<Volume2 className="h-3 w-3" />}>
+            <PropertyRow label="Gain">
+              <div className="flex items-center gap-2">
+                <Slider
+                  value={[clip.gain]}
+                  onValueChange={([v]) => handleChange("gain", v)}
+                  min={CLIP_GAIN_MIN_DB}
+                  max={CLIP_GAIN_MAX_DB}
+                  step={0.5}
+                  className="flex-1"
+                />
+                <span className="text-xs w-14 text-right">
+                  {clip.gain > 0 ? "+" : ""}
+                  {clip.gain.toFixed(1)} dB
+                </span>
+              </div>
+            </PropertyRow>
+            <PropertyRow label="Fade In">
+              <NumberInput
+                value={clip.fadeIn}
+                onChange={(v) =>
+                  handleChange(
+                    "fadeIn",
+                    Math.min(Math.max(0, v), clip.duration - clip.fadeOut),
+                  )
+                }
+                min={0}
+                max={clip.duration}
+                step={0.1}
+                suffix="s"
+              />
+            </PropertyRow>
+            <PropertyRow label="Fade Out">
+              <NumberInput
+                value={clip.fadeOut}
+                onChange={(v) =>
+                  handleChange(
+                    "fadeOut",
+                    Math.min(Math.max(0, v), clip.duration - clip.fadeIn),
+                  )
+                }
+                min={0}
+                max={clip.duration}
+                step={0.1}
+                suffix="s"
+              />
+            </PropertyRow>
+          </PropertySection>
+        )}
 
-        {/* Speed/Resample Section */}
-        <PropertySection
-          title="Speed"
-          icon={<RefreshCw className="h-3 w-3" />}
-          defaultOpen={false}
-        >
-          <PropertyRow label="Speed">
-            <div className="flex items-center gap-2">
-              <Slider
-                value={[clip.speed * 100]}
-                onValueChange={([v]) => handleChange("speed", v / 100)}
-                min={25}
-                max={400}
-                className="flex-1"
+        {/* Trim Section - Media clips */}
+        {isMedia && (
+          <PropertySection title="Trim" icon={<ScissorsIcon animateOnHover />}>
+            <PropertyRow label="Start">
+              <NumberInput
+                value={clip.trimStart}
+                onChange={(v) => handleChange("trimStart", v)}
+                min={0}
+                max={clip.duration}
+                step={0.1}
+                suffix="s"
+              />
+            </PropertyRow>
+            <PropertyRow label="End">
+              <NumberInput
+                value={clip.trimEnd}
+                onChange={(v) => handleChange("trimEnd", v)}
+                min={0}
+                max={clip.duration}
+                step={0.1}
+                suffix="s"
               />
-              <span className="text-xs w-12 text-right">
-                {Math.round(clip.speed * 100)}%
-              </span>
+            </PropertyRow>
+            <div className="text-xs text-foreground/50 text-center mt-1">
+              Duration: {(clip.trimEnd - clip.trimStart).toFixed(1)}s
             </div>
-          </PropertyRow>
-          <div className="flex gap-1 mt-2">
-            {[0.5, 1, 1.5, 2].map((speed) => (
-              <Button
-                key={speed}
-                variant="ghost"
-                size="sm"
-                className="flex-1 h-7 text-xs"
-                onClick={() => handleChange("speed", speed)}
+          </PropertySection>
+        )}
+
+        {/* Speed/Resample Section - Timed media clips */}
+        {isTimed && (
+          <PropertySection
+            title="Speed"
+            icon={<RefreshCw className="h-3 w-3" />}
+            defaultOpen={false}
+          >
+            <PropertyRow label="Speed">
+              <div className="flex items-center gap-2">
+                <Slider
+                  value={[speedMagnitude * 100]}
+                  onValueChange={([v]) =>
+                    handleChange("speed", (speedSign * v) / 100)
+                  }
+                  min={MIN_CLIP_SPEED * 100}
+                  max={MAX_CLIP_SPEED * 100}
+                  className="flex-1"
+                />
+                <span className="text-xs w-12 text-right">
+                  {Math.round(speedMagnitude * 100)}%
+                </span>
+              </div>
+            </PropertyRow>
+            <div className="flex gap-1 mt-2">
+              {[0.5, 1, 1.5, 2].map((speed) => (
+                <Button
+                  key={speed}
+                  variant="ghost"
+                  size="sm"
+                  className="flex-1 h-7 text-xs"
+                  onClick={() => handleChange("speed", speedSign * speed)}
+                >
+                  {speed}x
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between mt-3">
+              <Label
+                htmlFor="clip-reverse"
+                className="text-xs text-foreground/70"
               >
-                {speed}x
-              </Button>
-            ))}
-          </div>
-        </PropertySection>
+                Reverse
+              </Label>
+              <Switch
+                id="clip-reverse"
+                checked={clip.speed < 0}
+                onCheckedChange={() => handleChange("speed", -clip.speed)}
+              />
+            </div>
+            <div className="flex items-center justify-between mt-2">
+              <Label
+                htmlFor="clip-preserve-pitch"
+                className="text-xs text-foreground/70"
+              >
+                Preserve pitch
+              </Label>
+              <Switch
+                id="clip-preserve-pitch"
+                checked={clip.preservePitch}
+                onCheckedChange={(preservePitch) =>
+                  onChange?.({ preservePitch })
+                }
+              />
+            </div>
+          </PropertySection>
+        )}
       </div>
     </div>
   );
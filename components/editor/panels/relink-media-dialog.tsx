@@ -0,0 +1,275 @@
+"use client";
+
+import {
+  AlertTriangle,
+  Check,
+  FolderSearch,
+  Link2,
+  Loader2,
+  X,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { type ImportedMediaAsset, readMediaFile } from "@/lib/media-import";
+import {
+  getRelinkMatch,
+  getRelinkScore,
+  type RelinkMatch,
+} from "@/lib/offline-media";
+import { cn } from "@/lib/utils";
+
+interface RelinkCandidate {
+  file: File;
+  match: RelinkMatch;
+}
+
+interface RelinkMediaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Offline assets in the library */
+  assets: ImportedMediaAsset[];
+  /** Resolves to false if the file couldn't be read */
+  onRelink: (assetId: string, file: File) => Promise<boolean>;
+}
+
+const MATCH_LABELS: Record<keyof RelinkMatch, string> = {
+  name: "Name",
+  duration: "Duration",
+  resolution: "Resolution",
+  codec: "Codec",
+};
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+function describeAsset(asset: ImportedMediaAsset): string {
+  const parts: string[] = [asset.type];
+  if (asset.type !== "image") parts.push(formatDuration(asset.duration));
+  if (asset.width && asset.height) parts.push(`${asset.width}×${asset.height}`);
+  const codec = asset.videoCodec ?? asset.audioCodec;
+  if (codec) parts.push(codec);
+  return parts.join(" · ");
+}
+
+/**
+ * Finds replacements for offline media among files the user picks. Each
+ * asset gets the candidate that agrees with most of its saved metadata.
+ */
+export function RelinkMediaDialog({
+  open,
+  onOpenChange,
+  assets,
+  onRelink,
+}: RelinkMediaDialogProps) {
+  const [candidates, setCandidates] = useState<Map<string, RelinkCandidate>>(
+    new Map(),
+  );
+  const [isScanning, setIsScanning] = useState(false);
+  const [relinkingIds, setRelinkingIds] = useState<Set<string>>(new Set());
+  const [failedIds, setFailedIds] = useState<Set<string>>(new Set());
+  // Set when the picker is choosing a file for one asset only
+  const [locateAssetId, setLocateAssetId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCandidates(new Map());
+    setFailedIds(new Set());
+  }, [open]);
+
+  const scanFiles = async (files: File[]) => {
+    const targets = locateAssetId
+      ? assets.filter((asset) => asset.id === locateAssetId)
+      : assets;
+    setIsScanning(true);
+    try {
+      const found = new Map<string, RelinkCandidate & { score: number }>();
+      for (const file of files) {
+        const media = await readMediaFile(file).catch(() => null);
+        if (!media) continue;
+        media.input?.dispose();
+
+        for (const asset of targets) {
+          const match = getRelinkMatch(asset, media);
+          if (!match) continue;
+          const score = getRelinkScore(match);
+          const best = found.get(asset.id);
+          if (!best || score > best.score) {
+            found.set(asset.id, { file, match, score });
+          }
+        }
+      }
+      setCandidates((prev) => new Map([...prev, ...found]));
+    } finally {
+      setIsScanning(false);
+      setLocateAssetId(null);
+    }
+  };
+
+  const handleRelink = async (assetIds: string[]) => {
+    setRelinkingIds((prev) => new Set([...prev, ...assetIds]));
+    for (const assetId of assetIds) {
+      const candidate = candidates.get(assetId);
+      if (!candidate) continue;
+      const relinked = await onRelink(assetId, candidate.file);
+      setFailedIds((prev) => {
+        const next = new Set(prev);
+        if (relinked) next.delete(assetId);
+        else next.add(assetId);
+        return next;
+      });
+    }
+    setRelinkingIds(new Set());
+  };
+
+  const pickFiles = (assetId: string | null) => {
+    setLocateAssetId(assetId);
+    fileInputRef.current?.click();
+  };
+
+  const matchedIds = assets
+    .filter((asset) => candidates.has(asset.id))
+    .map((asset) => asset.id);
+  const isBusy = isScanning || relinkingIds.size > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Link2 className="h-5 w-5" />
+            Relink Media
+          </DialogTitle>
+          <DialogDescription>
+            {assets.length === 0
+              ? "All media is online."
+              : `${assets.length} media file${assets.length > 1 ? "s are" : " is"} offline. Choose files to match them by name, duration, resolution and codec.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {assets.length > 0 && (
+          <ul className="max-h-96 divide-y divide-border overflow-y-auto rounded-md border border-border">
+            {assets.map((asset) => {
+              const candidate = candidates.get(asset.id);
+              const isRelinking = relinkingIds.has(asset.id);
+              return (
+                <li key={asset.id} className="space-y-1.5 px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="size-4 shrink-0 text-amber-500" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">
+                        {asset.name}
+                      </p>
+                      <p className="truncate text-xs text-foreground/60">
+                        {describeAsset(asset)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => pickFiles(asset.id)}
+                    >
+                      Locate…
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={!candidate || isBusy}
+                      onClick={() => void handleRelink([asset.id])}
+                    >
+                      {isRelinking && (
+                        <Loader2 className="size-3.5 animate-spin" />
+                      )}
+                      Relink
+                    </Button>
+                  </div>
+                  {candidate && (
+                    <div className="flex flex-wrap items-center gap-1.5 pl-6 text-xs">
+                      <span className="truncate text-foreground/80">
+                        → {candidate.file.name}
+                      </span>
+                      {(Object.keys(MATCH_LABELS) as (keyof RelinkMatch)[]).map(
+                        (key) => (
+                          <span
+                            key={key}
+                            className={cn(
+                              "inline-flex items-center gap-0.5 rounded px-1.5 py-0.5",
+                              candidate.match[key]
+                                ? "bg-primary/10 text-primary"
+                                : "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+                            )}
+                          >
+                            {candidate.match[key] ? (
+                              <Check className="size-3" />
+                            ) : (
+                              <X className="size-3" />
+                            )}
+                            {MATCH_LABELS[key]}
+                          </span>
+                        ),
+                      )}
+                    </div>
+                  )}
+                  {failedIds.has(asset.id) && (
+                    <p className="pl-6 text-xs text-red-700 dark:text-red-300">
+                      That file couldn&apos;t be read.
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="video/*,audio/*,image/*"
+          className="hidden"
+          onChange={(e) => {
+            void scanFiles(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+        />
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="outline"
+            disabled={assets.length === 0 || isBusy}
+            onClick={() => pickFiles(null)}
+          >
+            {isScanning ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <FolderSearch className="size-4" />
+            )}
+            Find Files…
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button
+              disabled={matchedIds.length === 0 || isBusy}
+              onClick={() => void handleRelink(matchedIds)}
+            >
+              Relink {matchedIds.length > 0 ? matchedIds.length : ""} Matched
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
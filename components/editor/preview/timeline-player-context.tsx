@@ -24,7 +24,39 @@ const CompositorWorkerUrl = new URL(
   import.meta.url,
 ).href;
 
+import { getClipMixVolume, getTrackPan } from "@/lib/audio-mix";
+import {
+  type ClipAudioPlayer,
+  createClipAudioPlayer,
+  getStreamedAudioKey,
+  type StreamedAudioLayer,
+} from "@/lib/clip-audio";
+import { getClipCrop, NO_CROP } from "@/lib/clip-crop";
+import {
+  type CanvasLayer,
+  type CanvasLayerRenderer,
+  createCanvasLayerRenderer,
+  getLayerPlacement,
+  needsCanvas,
+} from "@/lib/clip-drawing";
+import { getClipSourceTime } from "@/lib/clip-speed";
+import { getAnimatedFilters, getAnimatedTransform } from "@/lib/keyframes";
 import type { ImportedMediaAsset } from "@/lib/media-import";
+import {
+  getOfflineSourceKey,
+  loadOfflinePlaceholderSource,
+} from "@/lib/offline-media";
+import { getBackgroundShape, loadShapeLayerSource } from "@/lib/shape-layer";
+import { loadTextLayerSource } from "@/lib/text-layer";
+import {
+  getTrackTransitions,
+  getTransitionLayerEffect,
+  getTransitionMatteEffect,
+  getTransitionMatteShape,
+  getTransitionMattes,
+  getTransitionProgress,
+  type TransitionBoundary,
+} from "@/lib/transitions";
 
 // ============================================================================
 // Types
@@ -48,8 +80,20 @@ export interface ClipTransform {
   y: number;
   scaleX: number;
   scaleY: number;
-  /** Degrees. */
+  /** Degrees, clockwise. Any angle is allowed. */
   rotation: number;
+  /** Rotation pivot as a fraction of the layer width (default 0.5). */
+  anchorX?: number;
+  /** Rotation pivot as a fraction of the layer height (default 0.5). */
+  anchorY?: number;
+}
+
+/** Edges cut off a clip's frame, as fractions of its width and height */
+export interface ClipCrop {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
 }
 
 /** Filter settings applied to a clip */
@@ -120,11 +164,180 @@ export function clipFiltersToCSS(filters: ClipFilters): {
   };
 }
 
+/** How a keyframe's value moves toward the next keyframe */
+export type KeyframeEasing = "linear" | "ease" | "hold";
+
+export interface Keyframe {
+  /** Seconds from the clip start */
+  time: number;
+  value: number;
+  easing: KeyframeEasing;
+}
+
+/** Clip properties that can be keyframed: transform fields and filters */
+export type AnimatableProperty =
+  | Exclude<keyof ClipTransform, "anchorX" | "anchorY">
+  | keyof ClipFilters;
+
+/** Keyframes per property, sorted by time */
+export type ClipKeyframes = Partial<Record<AnimatableProperty, Keyframe[]>>;
+
+/** Text layer content and styling. Sizes are in output pixels. */
+export interface TextClipData {
+  content: string;
+  fontFamily: string;
+  fontSize: number;
+  /** CSS font weight 100-900 */
+  fontWeight: number;
+  color: string;
+  align: "left" | "center" | "right";
+  /** Line height as a multiple of fontSize */
+  lineHeight: number;
+  /** Outline width in pixels (0 = no outline) */
+  strokeWidth: number;
+  strokeColor: string;
+  /** Shadow blur in pixels (0 = no shadow) */
+  shadowBlur: number;
+  shadowColor: string;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  /** Background box opacity 0-100 (0 = no box) */
+  backgroundOpacity: number;
+  backgroundColor: string;
+  backgroundPadding: number;
+  backgroundRadius: number;
+}
+
+/** Default text layer values */
+export const DEFAULT_TEXT_CLIP: TextClipData = {
+  content: "Your text here",
+  fontFamily: "Arial, Helvetica, sans-serif",
+  fontSize: 96,
+  fontWeight: 700,
+  color: "#ffffff",
+  align: "center",
+  lineHeight: 1.2,
+  strokeWidth: 0,
+  strokeColor: "#000000",
+  shadowBlur: 0,
+  shadowColor: "#000000",
+  shadowOffsetX: 0,
+  shadowOffsetY: 4,
+  backgroundOpacity: 0,
+  backgroundColor: "#000000",
+  backgroundPadding: 24,
+  backgroundRadius: 12,
+};
+
+/** Vector shape styling. Sizes are in output pixels. */
+export interface ShapeClipData {
+  /** Arrows point right; rotate the clip to aim them */
+  kind: "rectangle" | "ellipse" | "arrow";
+  width: number;
+  height: number;
+  fillColor: string;
+  /** Fill opacity 0-100 (0 = outline only) */
+  fillOpacity: number;
+  strokeColor: string;
+  /** Outline width in pixels (0 = no outline) */
+  strokeWidth: number;
+  /** Rectangles only */
+  cornerRadius: number;
+  /** Opacity of the whole shape 0-100 */
+  opacity: number;
+}
+
+/** Default shape layer values */
+export const DEFAULT_SHAPE_CLIP: ShapeClipData = {
+  kind: "rectangle",
+  width: 480,
+  height: 270,
+  fillColor: "#ffffff",
+  fillOpacity: 0,
+  strokeColor: "#ef4444",
+  strokeWidth: 8,
+  cornerRadius: 16,
+  opacity: 100,
+};
+
+/** Kinds of clips on the timeline */
+export type TimelineClipType = "video" | "audio" | "image" | "text" | "shape";
+
+/** Clip types whose pixels are generated in the editor instead of decoded from an asset */
+export function isGeneratedClipType(type: TimelineClipType): boolean {
+  return type === "text" || type === "shape";
+}
+
+/** Clip types without a natural duration (can be extended freely) */
+export function isStillClipType(type: TimelineClipType): boolean {
+  return type === "image" || isGeneratedClipType(type);
+}
+
+/** Generated clips can sit on any visual track; media clips need a matching track */
+export function canPlaceClipOnTrack(
+  clipType: TimelineClipType,
+  trackType: TimelineTrackData["type"],
+): boolean {
+  if (isGeneratedClipType(clipType)) {
+    return trackType === "video" || trackType === "image";
+  }
+  return clipType === trackType;
+}
+
+/** Source key of a rasterized text layer */
+export function getTextSourceKey(text: TextClipData): string {
+  return `text:${JSON.stringify(text)}`;
+}
+
+/** Source key of a rasterized shape layer */
+export function getShapeSourceKey(shape: ShapeClipData): string {
+  return `shape:${JSON.stringify(shape)}`;
+}
+
+/**
+ * Key of the compositor source a clip draws from: the asset id for media
+ * clips, a content key for generated clips (identical layers share a source).
+ */
+export function getClipSourceKey(
+  clip: TimelineClipWithAsset,
+): string | undefined {
+  if (clip.type === "text") {
+    return clip.text ? getTextSourceKey(clip.text) : undefined;
+  }
+  if (clip.type === "shape") {
+    return clip.shape ? getShapeSourceKey(clip.shape) : undefined;
+  }
+  return clip.asset?.id;
+}
+
+function isGeneratedSourceKey(key: string): boolean {
+  return (
+    key.startsWith("text:") ||
+    key.startsWith("shape:") ||
+    key.startsWith("offline:")
+  );
+}
+
+/** Rasterize a generated clip (text, shape) and load it as an image source */
+export async function loadGeneratedSource(
+  compositor: Compositor,
+  clip: TimelineClipWithAsset,
+  key: string,
+): Promise<LoadedSource | null> {
+  if (clip.type === "text" && clip.text) {
+    return loadTextLayerSource(compositor, clip.text, key);
+  }
+  if (clip.type === "shape" && clip.shape) {
+    return loadShapeLayerSource(compositor, clip.shape, key);
+  }
+  return null;
+}
+
 /** Timeline clip with associated asset reference */
 export interface TimelineClipWithAsset {
   id: string;
   name: string;
-  type: "video" | "audio" | "image";
+  type: TimelineClipType;
   startTime: number;
   duration: number;
   color: string;
@@ -136,6 +349,48 @@ export interface TimelineClipWithAsset {
   transform?: ClipTransform;
   filters?: ClipFilters;
   fitMode?: FitMode;
+  /** Part of the source frame hidden at each edge */
+  crop?: ClipCrop;
+  /** Content and styling, for text clips */
+  text?: TextClipData;
+  /** Geometry and styling, for shape clips */
+  shape?: ShapeClipData;
+  /** Animated transform and filter values; override the static ones */
+  keyframes?: ClipKeyframes;
+  /** Playback rate, 1 when absent; negative plays the source backwards */
+  speed?: number;
+  /** Keep the audio pitch when retimed (default true) */
+  preservePitch?: boolean;
+  /** Audio gain in dB (0 = unchanged) */
+  gain?: number;
+  /** Audio fade lengths in seconds, from the clip edges */
+  fadeIn?: number;
+  fadeOut?: number;
+}
+
+/** Kinds of transitions between two clips */
+export type TransitionType =
+  | "crossfade"
+  | "dip-to-black"
+  | "dip-to-white"
+  | "wipe"
+  | "slide"
+  | "zoom";
+
+/** Direction the picture moves in, for wipes and slides */
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
+/** Transition on the cut between two adjacent clips of a track */
+export interface TimelineTransition {
+  id: string;
+  /** Clip ending at the cut */
+  fromClipId: string;
+  /** Clip starting at the cut */
+  toClipId: string;
+  type: TransitionType;
+  /** Seconds, centered on the cut */
+  duration: number;
+  direction?: TransitionDirection;
 }
 
 /** Track data structure */
@@ -145,7 +400,12 @@ export interface TimelineTrackData {
   label: string;
   hidden?: boolean;
   muted?: boolean;
+  /** Audio volume, 0-1 */
+  volume?: number;
+  /** Stereo position, -1 (left) to 1 (right) */
+  pan?: number;
   clips: TimelineClipWithAsset[];
+  transitions?: TimelineTransition[];
 }
 
 /** Currently active clip during playback */
@@ -175,14 +435,21 @@ export interface TimelinePlaybackState {
   playing: boolean;
   volume: number;
   muted: boolean;
+  /** Project mix level; unlike `volume`, it also applies to exports */
+  masterVolume: number;
   loop: boolean;
   loading: boolean;
   error: Error | null;
   fitMode: FitMode;
+  /** Canvas color behind every track */
+  backgroundColor: string;
 }
 
 export type FitMode = "contain" | "cover" | "fill";
 
+/** Image formats a single frame can be exported as */
+export type FrameImageFormat = "png" | "jpeg" | "webp";
+
 // ============================================================================
 // Context Interface (state/actions/meta pattern for dependency injection)
 // ============================================================================
@@ -194,6 +461,8 @@ export interface TimelinePlayerActions {
   clearClipTransformOverride: (clipId: string) => void;
   setClipFiltersOverride: (clipId: string, filters: ClipFilters) => void;
   clearClipFiltersOverride: (clipId: string) => void;
+  setClipCropOverride: (clipId: string, crop: ClipCrop) => void;
+  clearClipCropOverride: (clipId: string) => void;
   loadSource: (asset: ImportedMediaAsset) => Promise<LoadedSource | null>;
   unloadSource: (assetId: string) => void;
   play: () => Promise<void>;
@@ -202,15 +471,22 @@ export interface TimelinePlayerActions {
   renderFrame: (time: number) => Promise<void>;
   setVolume: (volume: number) => void;
   setMuted: (muted: boolean) => void;
+  setMasterVolume: (volume: number) => void;
   setLoop: (loop: boolean) => void;
-  exportFrame: (time?: number) => Promise<Blob | null>;
+  exportFrame: (
+    time?: number,
+    format?: FrameImageFormat,
+  ) => Promise<Blob | null>;
   resize: (width: number, height: number) => void;
   setFitMode: (fitMode: FitMode) => void;
+  setBackgroundColor: (color: string) => void;
 }
 
 /** Meta information for the timeline player (refs, subscriptions, etc.) */
 export interface TimelinePlayerMeta {
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Stacked over `canvasRef`, for layers the compositor can't draw */
+  overlayCanvasRef: React.RefObject<HTMLCanvasElement | null>;
   canvasKey: number;
   outputSize: { width: number; height: number };
   compositor: Compositor | null;
@@ -256,13 +532,23 @@ export function TimelinePlayerProvider({
   backgroundColor = "#000000",
 }: TimelinePlayerProviderProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasLayerRendererRef = useRef<CanvasLayerRenderer | null>(null);
+  const overlayDrawnRef = useRef(false);
+  const clipAudioPlayerRef = useRef<ClipAudioPlayer | null>(null);
+  const playingRef = useRef(false);
+  const buildCompositionRef = useRef<
+    ((time: number) => TimelineComposition) | null
+  >(null);
   const compositorRef = useRef<Compositor | null>(null);
   const loadedSourcesRef = useRef<Map<string, LoadedSource>>(new Map());
   const transformOverridesRef = useRef<Map<string, ClipTransform>>(new Map());
   const filterOverridesRef = useRef<Map<string, ClipFilters>>(new Map());
+  const cropOverridesRef = useRef<Map<string, ClipCrop>>(new Map());
   const volumeRef = useRef(1);
   const mutedRef = useRef(false);
   const fitModeRef = useRef<FitMode>("contain");
+  const backgroundColorRef = useRef(backgroundColor);
   const currentTimeRef = useRef(0);
   const currentTimeListenersRef = useRef(new Set<() => void>());
   const suppressTimeUpdateRef = useRef(false);
@@ -272,23 +558,36 @@ export function TimelinePlayerProvider({
     width,
     height,
   }));
+  // Size requested before the compositor existed (e.g. a project's canvas)
+  const outputSizeRef = useRef(outputSize);
 
   const [loadedSources, setLoadedSources] = useState<Map<string, LoadedSource>>(
     new Map(),
   );
   const [tracks, setTracksState] = useState<TimelineTrackData[]>([]);
+  const tracksRef = useRef(tracks);
   const [state, setState] = useState<TimelinePlaybackState>({
     currentTime: 0,
     duration: 60,
     playing: false,
     volume: 1,
     muted: false,
+    masterVolume: 1,
     loop: true,
     loading: false,
     error: null,
     fitMode: "contain",
+    backgroundColor,
   });
 
+  // The compositor's own background is fixed when it is created, so other
+  // colors are drawn as a solid layer under every track
+  const getBackgroundLayerShape = useCallback(
+    (color: string) =>
+      color === backgroundColor ? null : getBackgroundShape(color),
+    [backgroundColor],
+  );
+
   // Initialize compositor when canvas is ready
   useEffect(() => {
     let compositor: Compositor | null = null;
@@ -313,6 +612,10 @@ export function TimelinePlayerProvider({
         });
 
         compositor.setFitMode(fitModeRef.current);
+        const size = outputSizeRef.current;
+        if (size.width !== width || size.height !== height) {
+          compositor.resize(size.width, size.height);
+        }
 
         compositorRef.current = compositor;
 
@@ -326,14 +629,19 @@ export function TimelinePlayerProvider({
         });
 
         compositor.on("play", () => {
+          playingRef.current = true;
           setState((prev) => ({ ...prev, playing: true }));
         });
 
         compositor.on("pause", () => {
+          playingRef.current = false;
+          clipAudioPlayerRef.current?.stop();
           setState((prev) => ({ ...prev, playing: false }));
         });
 
         compositor.on("ended", () => {
+          playingRef.current = false;
+          clipAudioPlayerRef.current?.stop();
           setState((prev) => ({ ...prev, playing: false }));
         });
 
@@ -373,14 +681,49 @@ export function TimelinePlayerProvider({
     setState((prev) => ({ ...prev, duration: maxTime }));
   }, [tracks]);
 
+  // Frame readers of canvas layers stay open while the player is mounted
+  useEffect(() => {
+    const renderer = createCanvasLayerRenderer();
+    canvasLayerRendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      canvasLayerRendererRef.current = null;
+    };
+  }, []);
+
+  // Streamed clip audio plays alongside the compositor's own
+  useEffect(() => {
+    const player = createClipAudioPlayer();
+    player.setOutput({ volume: volumeRef.current, muted: mutedRef.current });
+    clipAudioPlayerRef.current = player;
+    return () => {
+      player.dispose();
+      clipAudioPlayerRef.current = null;
+    };
+  }, []);
+
+  // Draw the canvas layers of the frame the compositor is showing
+  const drawCanvasLayers = useCallback((layers: CanvasLayer[]) => {
+    const canvas = overlayCanvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    const renderer = canvasLayerRendererRef.current;
+    if (!canvas || !ctx || !renderer) return;
+    if (layers.length === 0 && !overlayDrawnRef.current) return;
+    overlayDrawnRef.current = layers.length > 0;
+    void renderer.draw(ctx, layers, {
+      width: canvas.width,
+      height: canvas.height,
+      clear: true,
+    });
+  }, []);
+
   // Update preview whenever tracks or loaded sources change
   useEffect(() => {
     const compositor = compositorRef.current;
     if (!compositor) return;
 
-    // Get composition function based on current tracks and sources
-    const getComposition = (time: number) => {
-      return buildCompositorComposition({
+    const buildComposition = (time: number) =>
+      buildCompositorComposition({
         time,
         tracks,
         loadedSources,
@@ -388,7 +731,22 @@ export function TimelinePlayerProvider({
         height: outputSize.height,
         transformOverrides: transformOverridesRef.current,
         filterOverrides: filterOverridesRef.current,
+        cropOverrides: cropOverridesRef.current,
+        masterVolume: state.masterVolume,
+        background: getBackgroundLayerShape(state.backgroundColor),
       });
+    buildCompositionRef.current = buildComposition;
+
+    // The compositor asks for each frame it shows; the canvas layers and
+    // streamed audio follow
+    const getComposition = (time: number) => {
+      const { canvasLayers, streamedAudio, ...composition } =
+        buildComposition(time);
+      drawCanvasLayers(canvasLayers);
+      if (playingRef.current) {
+        clipAudioPlayerRef.current?.sync(time, streamedAudio);
+      }
+      return composition;
     };
 
     // Set up preview
@@ -411,6 +769,10 @@ export function TimelinePlayerProvider({
     state.playing,
     outputSize.width,
     outputSize.height,
+    state.masterVolume,
+    state.backgroundColor,
+    getBackgroundLayerShape,
+    drawCanvasLayers,
   ]);
 
   // Load a media source into the compositor
@@ -421,6 +783,8 @@ export function TimelinePlayerProvider({
         console.error("[TimelinePlayer] Compositor not initialized");
         return null;
       }
+      // Offline files can't be decoded; clips draw a placeholder instead
+      if (asset.offline) return null;
 
       // Check if already loaded
       const existing = loadedSourcesRef.current.get(asset.id);
@@ -479,10 +843,42 @@ export function TimelinePlayerProvider({
     [],
   );
 
+  // Rasterize a generated layer (text, shape, transition matte) and load it as an image source
+  const loadGeneratedLayer = useCallback(
+    async (
+      key: string,
+      label: string,
+      load: (compositor: Compositor) => Promise<LoadedSource | null>,
+    ): Promise<LoadedSource | null> => {
+      const compositor = compositorRef.current;
+      if (!compositor) return null;
+
+      const existing = loadedSourcesRef.current.get(key);
+      if (existing) return existing;
+
+      try {
+        const loadedSource = await load(compositor);
+        if (!loadedSource) return null;
+        loadedSourcesRef.current.set(key, loadedSource);
+        setLoadedSources(new Map(loadedSourcesRef.current));
+        return loadedSource;
+      } catch (error) {
+        console.error(
+          `[TimelinePlayer] Failed to render ${label} layer`,
+          error,
+        );
+        return null;
+      }
+    },
+    [],
+  );
+
   // Unload a source from the compositor
   const unloadSource = useCallback((assetId: string) => {
     const loaded = loadedSourcesRef.current.get(assetId);
     if (loaded) {
+      // Frees the decoder and the object URL the compositor made for the file
+      compositorRef.current?.unloadSource(loaded.source.id);
       loadedSourcesRef.current.delete(assetId);
       setLoadedSources(new Map(loadedSourcesRef.current));
       console.log(`[TimelinePlayer] Unloaded source: ${assetId}`);
@@ -492,18 +888,85 @@ export function TimelinePlayerProvider({
   // Set tracks and auto-load sources for clips
   const setTracks = useCallback(
     async (newTracks: TimelineTrackData[]) => {
+      tracksRef.current = newTracks;
       setTracksState(newTracks);
 
-      // Auto-load sources for any clips with assets
+      const usedKeys = new Set(
+        newTracks.flatMap((track) => track.clips.map(getClipSourceKey)),
+      );
+
+      // Auto-load sources for any clips with assets or generated content
       for (const track of newTracks) {
         for (const clip of track.clips) {
-          if (clip.asset && !loadedSourcesRef.current.has(clip.asset.id)) {
+          const key = getClipSourceKey(clip);
+          const asset = clip.asset;
+          if (isGeneratedClipType(clip.type) && key) {
+            await loadGeneratedLayer(key, clip.type, (compositor) =>
+              loadGeneratedSource(compositor, clip, key),
+            );
+          } else if (asset?.offline) {
+            const offlineKey = getOfflineSourceKey(asset);
+            usedKeys.add(offlineKey);
+            await loadGeneratedLayer(offlineKey, "offline", (compositor) =>
+              loadOfflinePlaceholderSource(compositor, asset, offlineKey),
+            );
+          } else if (
+            clip.asset &&
+            !loadedSourcesRef.current.has(clip.asset.id)
+          ) {
             await loadSource(clip.asset);
           }
         }
       }
+
+      for (const shape of getTransitionMattes(newTracks)) {
+        const key = getShapeSourceKey(shape);
+        usedKeys.add(key);
+        await loadGeneratedLayer(key, "transition", (compositor) =>
+          loadShapeLayerSource(compositor, shape, key),
+        );
+      }
+      const backgroundShape = getBackgroundLayerShape(
+        backgroundColorRef.current,
+      );
+      if (backgroundShape) {
+        const key = getShapeSourceKey(backgroundShape);
+        usedKeys.add(key);
+        await loadGeneratedLayer(key, "background", (compositor) =>
+          loadShapeLayerSource(compositor, backgroundShape, key),
+        );
+      }
+
+      // Drop generated sources nothing renders anymore (e.g. after an edit)
+      let removedStale = false;
+      for (const [key, loaded] of loadedSourcesRef.current) {
+        if (isGeneratedSourceKey(key) && !usedKeys.has(key)) {
+          compositorRef.current?.unloadSource(loaded.source.id);
+          loadedSourcesRef.current.delete(key);
+          removedStale = true;
+        }
+      }
+      if (removedStale) {
+        setLoadedSources(new Map(loadedSourcesRef.current));
+      }
+    },
+    [loadSource, loadGeneratedLayer, getBackgroundLayerShape],
+  );
+
+  const setBackgroundColor = useCallback(
+    (color: string) => {
+      backgroundColorRef.current = color;
+      setState((prev) => ({ ...prev, backgroundColor: color }));
+
+      const shape = getBackgroundLayerShape(color);
+      if (shape) {
+        const key = getShapeSourceKey(shape);
+        void loadGeneratedLayer(key, "background", (compositor) =>
+          loadShapeLayerSource(compositor, shape, key),
+        );
+      }
     },
-    [loadSource],
+    [getBackgroundLayerShape, loadGeneratedLayer],
   );
 
   const setClipTransformOverride = useCallback(
@@ -528,6 +991,14 @@ export function TimelinePlayerProvider({
     filterOverridesRef.current.delete(clipId);
   }, []);
 
+  const setClipCropOverride = useCallback((clipId: string, crop: ClipCrop) => {
+    cropOverridesRef.current.set(clipId, crop);
+  }, []);
+
+  const clearClipCropOverride = useCallback((clipId: string) => {
+    cropOverridesRef.current.delete(clipId);
+  }, []);
+
   // Playback controls
   const play = useCallback(async () => {
     const compositor = compositorRef.current;
@@ -580,6 +1051,10 @@ export function TimelinePlayerProvider({
     if (compositor) {
       compositor.setVolume(clamped);
     }
+    clipAudioPlayerRef.current?.setOutput({
+      volume: clamped,
+      muted: mutedRef.current,
+    });
   }, []);
 
   const setMuted = useCallback((muted: boolean) => {
@@ -590,6 +1065,15 @@ export function TimelinePlayerProvider({
     if (compositor) {
       compositor.setMuted(muted);
     }
+    clipAudioPlayerRef.current?.setOutput({
+      volume: volumeRef.current,
+      muted,
+    });
+  }, []);
+
+  // Picked up by getComposition on the next frame
+  const setMasterVolume = useCallback((masterVolume: number) => {
+    setState((prev) => ({ ...prev, masterVolume: Math.max(0, masterVolume) }));
   }, []);
 
   const setLoop = useCallback((loop: boolean) => {
@@ -614,16 +1098,35 @@ export function TimelinePlayerProvider({
 
   // Export current frame as image
   const exportFrame = useCallback(
-    async (time?: number): Promise<Blob | null> => {
+    async (
+      time?: number,
+      format: FrameImageFormat = "png",
+    ): Promise<Blob | null> => {
       const compositor = compositorRef.current;
       if (!compositor) return null;
 
       try {
         const targetTime = time ?? currentTimeRef.current;
-        const blob = await compositor.exportFrame(targetTime, {
-          format: "png",
+        const blob: Blob | null = await compositor.exportFrame(targetTime, {
+          format,
         });
-        return blob;
+        const canvasLayers =
+          buildCompositionRef.current?.(targetTime).canvasLayers ?? [];
+        if (!blob || canvasLayers.length === 0) return blob;
+
+        // Canvas layers aren't part of the compositor's frame
+        const { width, height } = outputSizeRef.current;
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return blob;
+        ctx.drawImage(await createImageBitmap(blob), 0, 0, width, height);
+        const renderer = createCanvasLayerRenderer();
+        try {
+          await renderer.draw(ctx, canvasLayers, { width, height });
+        } finally {
+          renderer.dispose();
+        }
+        return canvas.convertToBlob({ type: `image/${format}` });
       } catch (error) {
         console.error("[TimelinePlayer] Failed to export frame:", error);
         return null;
@@ -636,6 +1139,7 @@ export function TimelinePlayerProvider({
   const resize = useCallback(
     (newWidth: number, newHeight: number) => {
       const compositor = compositorRef.current;
+      outputSizeRef.current = { width: newWidth, height: newHeight };
       if (!compositor) {
         setOutputSize({ width: newWidth, height: newHeight });
         return;
@@ -658,6 +1162,8 @@ export function TimelinePlayerProvider({
       clearClipTransformOverride,
       setClipFiltersOverride,
       clearClipFiltersOverride,
+      setClipCropOverride,
+      clearClipCropOverride,
       loadSource,
       unloadSource,
       play,
@@ -666,10 +1172,12 @@ export function TimelinePlayerProvider({
       renderFrame,
       setVolume,
       setMuted,
+      setMasterVolume,
       setLoop,
       exportFrame,
       resize,
       setFitMode,
+      setBackgroundColor,
     }),
     [
       setTracks,
@@ -677,6 +1185,8 @@ export function TimelinePlayerProvider({
       clearClipTransformOverride,
       setClipFiltersOverride,
       clearClipFiltersOverride,
+      setClipCropOverride,
+      clearClipCropOverride,
       loadSource,
       unloadSource,
       play,
@@ -685,10 +1195,12 @@ export function TimelinePlayerProvider({
       renderFrame,
       setVolume,
       setMuted,
+      setMasterVolume,
       setLoop,
       exportFrame,
       resize,
       setFitMode,
+      setBackgroundColor,
     ],
   );
 
@@ -706,6 +1218,7 @@ export function TimelinePlayerProvider({
   const meta = useMemo<TimelinePlayerMeta>(
     () => ({
       canvasRef,
+      overlayCanvasRef,
       canvasKey,
       outputSize,
       compositor: compositorRef.current,
@@ -766,6 +1279,42 @@ export function useTimelinePlayerTime(): number {
   );
 }
 
+// The transition a clip is part of at `time`, with its role and progress
+function getActiveTransition(
+  time: number,
+  transitionIn: TransitionBoundary | undefined,
+  transitionOut: TransitionBoundary | undefined,
+): {
+  boundary: TransitionBoundary;
+  role: "from" | "to";
+  progress: number;
+} | null {
+  if (transitionIn) {
+    const progress = getTransitionProgress(transitionIn, time);
+    if (progress !== null) {
+      return { boundary: transitionIn, role: "to", progress };
+    }
+  }
+  if (transitionOut) {
+    const progress = getTransitionProgress(transitionOut, time);
+    if (progress !== null) {
+      return { boundary: transitionOut, role: "from", progress };
+    }
+  }
+  return null;
+}
+
+/** One frame of the timeline, as the compositor and the canvas layers draw it */
+export interface TimelineComposition {
+  time: number;
+  layers: CompositorLayer[];
+  audio?: AudioLayer[];
+  /** Drawn over the compositor's output (see `createCanvasLayerRenderer`) */
+  canvasLayers: CanvasLayer[];
+  /** Clips whose audio the preview streams itself (see `createClipAudioPlayer`) */
+  streamedAudio: StreamedAudioLayer[];
+}
+
 export function buildCompositorComposition(params: {
   time: number;
   tracks: TimelineTrackData[];
@@ -774,87 +1323,287 @@ export function buildCompositorComposition(params: {
   height: number;
   transformOverrides?: Map<string, ClipTransform>;
   filterOverrides?: Map<string, ClipFilters>;
-}): { time: number; layers: CompositorLayer[]; audio?: AudioLayer[] } {
-  const { time, tracks, loadedSources, transformOverrides, filterOverrides } =
-    params;
+  cropOverrides?: Map<string, ClipCrop>;
+  masterVolume?: number;
+  /** Solid shape stretched under every track, if loaded */
+  background?: ShapeClipData | null;
+}): TimelineComposition {
+  const {
+    time,
+    tracks,
+    loadedSources,
+    width,
+    height,
+    transformOverrides,
+    filterOverrides,
+    cropOverrides,
+    masterVolume = 1,
+    background,
+  } = params;
 
   const layers: CompositorLayer[] = [];
   const audio: AudioLayer[] = [];
+  const streamedAudio: StreamedAudioLayer[] = [];
+  // Clip layers and mattes, each as the compositor and a canvas would draw it
+  const visual: {
+    layer: CompositorLayer;
+    canvasLayer: CanvasLayer;
+    needsCanvas: boolean;
+  }[] = [];
+
+  const backgroundSource = background
+    ? loadedSources.get(getShapeSourceKey(background))
+    : undefined;
+  if (backgroundSource) {
+    layers.push({
+      source: backgroundSource.source,
+      sourceTime: 0,
+      transform: { opacity: 1, x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+      fitMode: "fill",
+      zIndex: -1,
+    });
+  }
 
   for (let trackIndex = 0; trackIndex < tracks.length; trackIndex++) {
     const track = tracks[trackIndex];
     if (track.hidden) continue;
 
+    // Transitions extend each clip by half their duration past the cut
+    const boundaries = track.type === "audio" ? [] : getTrackTransitions(track);
+    const transitionsIn = new Map(boundaries.map((b) => [b.to.id, b]));
+    const transitionsOut = new Map(boundaries.map((b) => [b.from.id, b]));
+
     for (const clip of track.clips) {
       const clipEnd = clip.startTime + clip.duration;
-      if (time < clip.startTime || time >= clipEnd) continue;
-
-      const assetId = clip.asset?.id;
-      if (!assetId) continue;
-
-      const loadedSource = loadedSources.get(assetId);
+      const transitionIn = transitionsIn.get(clip.id);
+      const transitionOut = transitionsOut.get(clip.id);
+      const visibleStart =
+        clip.startTime - (transitionIn ? transitionIn.duration / 2 : 0);
+      const visibleEnd =
+        clipEnd + (transitionOut ? transitionOut.duration / 2 : 0);
+      if (time < visibleStart || time >= visibleEnd) continue;
+
+      // Offline media keeps its place in the frame with a placeholder
+      const isOffline = clip.asset?.offline ?? false;
+      const sourceKey =
+        clip.asset && isOffline
+          ? getOfflineSourceKey(clip.asset)
+          : getClipSourceKey(clip);
+      if (!sourceKey) continue;
+
+      const loadedSource = loadedSources.get(sourceKey);
       if (!loadedSource) continue;
 
       const clipLocalTime = time - clip.startTime;
-      const sourceTime = clip.trimStart + clipLocalTime;
+      const sourceTime = getClipSourceTime(clip, clipLocalTime);
 
       if (
         (track.type === "video" || track.type === "image") &&
         loadedSource.source.type !== "audio"
       ) {
-        const clipTransform = transformOverrides?.get(clip.id) ??
+        const animatedTransform = getAnimatedTransform(
           clip.transform ?? {
             x: 0,
             y: 0,
             scaleX: 1,
             scaleY: 1,
             rotation: 0,
-          };
+          },
+          clip.keyframes,
+          clipLocalTime,
+        );
+        // Live overrides (dragging, slider previews) win over keyframes
+        const transformOverride = transformOverrides?.get(clip.id);
+        const clipTransform = transformOverride ?? animatedTransform;
 
         const zIndex = tracks.length - 1 - trackIndex;
 
-        // For images, sourceTime is always 0 since they don't have temporal duration
-        const effectiveSourceTime = track.type === "image" ? 0 : sourceTime;
+        // For images, generated layers and offline placeholders, sourceTime is always 0 since they don't have temporal duration.
+        // Past either end of a clip (inside a transition) the nearest frame is held.
+        const effectiveSourceTime =
+          isStillClipType(clip.type) || isOffline
+            ? 0
+            : Math.max(
+                0,
+                loadedSource.duration > 0
+                  ? Math.min(sourceTime, loadedSource.duration)
+                  : sourceTime,
+              );
 
         // Apply clip filters to get CSS filter string and opacity
         const clipFilters =
-          filterOverrides?.get(clip.id) ?? clip.filters ?? DEFAULT_CLIP_FILTERS;
+          filterOverrides?.get(clip.id) ??
+          getAnimatedFilters(
+            clip.filters ?? DEFAULT_CLIP_FILTERS,
+            clip.keyframes,
+            clipLocalTime,
+          );
         const { filter, opacity } = clipFiltersToCSS(clipFilters);
 
-        layers.push({
-          source: loadedSource.source,
-          sourceTime: effectiveSourceTime,
-          transform: {
-            opacity,
-            x: clipTransform.x,
-            y: clipTransform.y,
-            scaleX: clipTransform.scaleX,
-            scaleY: clipTransform.scaleY,
-            rotation: (Math.round(clipTransform.rotation / 90) * 90) as
-              | 0
-              | 90
-              | 180
-              | 270,
-            filter: filter || undefined,
-          },
+        const transition = getActiveTransition(
+          time,
+          transitionIn,
+          transitionOut,
+        );
+        const effect = transition
+          ? getTransitionLayerEffect({
+              transition: transition.boundary.transition,
+              role: transition.role,
+              progress: transition.progress,
+              width,
+              height,
+            })
+          : null;
+
+        const crop = cropOverrides?.get(clip.id) ?? getClipCrop(clip);
+        const placement = getLayerPlacement({
+          transform: clipTransform,
+          crop,
+          sourceWidth: loadedSource.width,
+          sourceHeight: loadedSource.height,
+          outputWidth: width,
+          outputHeight: height,
           fitMode: clip.fitMode ?? "none",
-          zIndex,
         });
+
+        if (!effect || effect.visible) {
+          const layerOpacity = opacity * (effect?.opacity ?? 1);
+          const layerScale = effect?.scale ?? 1;
+          // The incoming clip of a transition draws over the outgoing one
+          const layerZIndex = transition?.role === "to" ? zIndex + 0.5 : zIndex;
+          visual.push({
+            layer: {
+              source: loadedSource.source,
+              sourceTime: effectiveSourceTime,
+              transform: {
+                opacity: layerOpacity,
+                x: placement.x + (effect?.offsetX ?? 0),
+                y: placement.y + (effect?.offsetY ?? 0),
+                scaleX: placement.scaleX * layerScale,
+                scaleY: placement.scaleY * layerScale,
+                rotation: placement.rotation,
+                filter: filter || undefined,
+              },
+              fitMode: placement.fitMode,
+              zIndex: layerZIndex,
+            },
+            canvasLayer: {
+              key: `${clip.id}:${sourceKey}`,
+              content: { type: "clip", clip },
+              sourceTime: effectiveSourceTime,
+              transform: {
+                ...clipTransform,
+                x: clipTransform.x + (effect?.offsetX ?? 0),
+                y: clipTransform.y + (effect?.offsetY ?? 0),
+                scaleX: clipTransform.scaleX * layerScale,
+                scaleY: clipTransform.scaleY * layerScale,
+              },
+              crop,
+              fitMode: clip.fitMode ?? "none",
+              opacity: layerOpacity,
+              filter: filter || undefined,
+              zIndex: layerZIndex,
+            },
+            needsCanvas: needsCanvas({ transform: clipTransform, crop }),
+          });
+        }
+
+        // Dips and wipes cover the cut with a solid matte over both clips
+        const matteShape =
+          transition?.role === "from"
+            ? getTransitionMatteShape(transition.boundary.transition.type)
+            : null;
+        const matteSource = matteShape
+          ? loadedSources.get(getShapeSourceKey(matteShape))
+          : undefined;
+        if (transition && matteShape && matteSource) {
+          const matte = getTransitionMatteEffect({
+            transition: transition.boundary.transition,
+            progress: transition.progress,
+            width,
+            height,
+          });
+          const matteTransform = {
+            x: matte.x,
+            y: matte.y,
+            scaleX: 1,
+            scaleY: 1,
+            rotation: 0,
+          };
+          visual.push({
+            layer: {
+              source: matteSource.source,
+              sourceTime: 0,
+              transform: { ...matteTransform, opacity: matte.opacity },
+              fitMode: "fill",
+              zIndex: zIndex + 0.75,
+            },
+            canvasLayer: {
+              key: getShapeSourceKey(matteShape),
+              content: { type: "shape", shape: matteShape },
+              sourceTime: 0,
+              transform: matteTransform,
+              crop: NO_CROP,
+              fitMode: "fill",
+              opacity: matte.opacity,
+              zIndex: zIndex + 0.75,
+            },
+            needsCanvas: false,
+          });
+        }
       }
 
+      // Audio keeps hard cuts at the clip edges
+      if (time < clip.startTime || time >= clipEnd) continue;
+
       const isAudioTrack = track.type === "audio";
-      const isVideoWithPossibleAudio = track.type === "video";
+      const isVideoWithPossibleAudio =
+        track.type === "video" && clip.type === "video";
       const isTrackMuted = track.muted ?? false;
       if ((isAudioTrack || isVideoWithPossibleAudio) && !isTrackMuted) {
-        audio.push({
-          source: loadedSource.source,
-          sourceTime,
-          volume: 1,
-          muted: false,
-        });
+        const volume = getClipMixVolume({ clip, track, time, masterVolume });
+        const pan = getTrackPan(track);
+        // Retimed and panned clips are streamed instead of played as is
+        const streamedKey = getStreamedAudioKey(clip, pan);
+        if (streamedKey) {
+          streamedAudio.push({
+            key: streamedKey,
+            clip,
+            clipTime: clipLocalTime,
+            volume,
+            pan,
+          });
+        } else if (!isOffline) {
+          audio.push({
+            source: loadedSource.source,
+            sourceTime,
+            volume,
+            muted: false,
+          });
+        }
       }
     }
   }
 
-  return { time, layers, audio: audio.length > 0 ? audio : undefined };
+  // The lowest layer the compositor can't show, and everything above it,
+  // go on the canvas
+  const canvasFrom = Math.min(
+    ...visual.filter((entry) => entry.needsCanvas).map((e) => e.layer.zIndex),
+  );
+  const canvasLayers: CanvasLayer[] = [];
+  for (const entry of visual) {
+    if (entry.layer.zIndex >= canvasFrom) {
+      canvasLayers.push(entry.canvasLayer);
+    } else {
+      layers.push(entry.layer);
+    }
+  }
+
+  return {
+    time,
+    layers,
+    audio: audio.length > 0 ? audio : undefined,
+    canvasLayers,
+    streamedAudio,
+  };
 }
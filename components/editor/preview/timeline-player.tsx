@@ -1,6 +1,6 @@
 "use client";
 
-import { Play } from "lucide-react";
+import { Check, ImageDown, Play } from "lucide-react";
 import {
   memo,
   useCallback,
@@ -10,9 +10,23 @@ import {
   useState,
   useSyncExternalStore,
 } from "react";
+import { CropOverlay, type CropRect } from "@/components/editing/crop-overlay";
+import { Button } from "@/components/ui/button";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { cropToRect, getClipCrop, NO_CROP, rectToCrop } from "@/lib/clip-crop";
+import { getFittedSize } from "@/lib/clip-drawing";
+import { getAnimatedTransform } from "@/lib/keyframes";
 import { cn } from "@/lib/utils";
 import {
+  type ClipCrop,
   type ClipTransform,
+  type FrameImageFormat,
+  getClipSourceKey,
   type TimelineClipWithAsset,
   useTimelinePlayer,
 } from "./timeline-player-context";
@@ -25,6 +39,12 @@ import {
 // Utilities
 // ============================================================================
 
+const FRAME_EXPORT_OPTIONS: { label: string; format: FrameImageFormat }[] = [
+  { label: "PNG", format: "png" },
+  { label: "JPEG", format: "jpeg" },
+  { label: "WebP", format: "webp" },
+];
+
 function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
@@ -32,33 +52,51 @@ function formatTime(seconds: number): string {
   return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}.${ms.toString().padStart(2, "0")}`;
 }
 
-function getFittedSize(params: {
-  sourceWidth: number;
-  sourceHeight: number;
-  outputWidth: number;
-  outputHeight: number;
-  fitMode: "contain" | "cover" | "fill" | "none";
-}): { width: number; height: number } {
-  const { sourceWidth, sourceHeight, outputWidth, outputHeight, fitMode } =
-    params;
-
-  if (fitMode === "fill") {
-    return { width: outputWidth, height: outputHeight };
-  }
-
-  if (fitMode === "contain" || fitMode === "cover") {
-    const scale =
-      fitMode === "contain"
-        ? Math.min(outputWidth / sourceWidth, outputHeight / sourceHeight)
-        : Math.max(outputWidth / sourceWidth, outputHeight / sourceHeight);
+// Transform of a clip at timeline `time`, including keyframe animation
+function getClipTransformAt(
+  clip: TimelineClipWithAsset,
+  time: number,
+): ClipTransform {
+  return getAnimatedTransform(
+    clip.transform ?? { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+    clip.keyframes,
+    time - clip.startTime,
+  );
+}
 
-    return {
-      width: sourceWidth * scale,
-      height: sourceHeight * scale,
-    };
+// Axis-aligned bounds of a box rotated around its anchor point
+function getRotatedBounds(params: {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  transform: ClipTransform;
+}): { left: number; top: number; width: number; height: number } {
+  const { left, top, width, height, transform } = params;
+  const pivotX = left + (transform.anchorX ?? 0.5) * width;
+  const pivotY = top + (transform.anchorY ?? 0.5) * height;
+  const radians = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [x, y] of [
+    [left, top],
+    [left + width, top],
+    [left, top + height],
+    [left + width, top + height],
+  ]) {
+    xs.push(pivotX + (x - pivotX) * cos - (y - pivotY) * sin);
+    ys.push(pivotY + (x - pivotX) * sin + (y - pivotY) * cos);
   }
 
-  return { width: sourceWidth, height: sourceHeight };
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
 }
 
 // ============================================================================
@@ -96,8 +134,12 @@ interface TimelinePlayerProps {
   selectedClipId?: string | null;
   onClipTransformChange?: (
     clipId: string,
-    transform: { x: number; y: number },
+    transform: Partial<Pick<ClipTransform, "x" | "y" | "rotation">>,
   ) => void;
+  /** Show the crop editor for the selected clip instead of the transform box */
+  isCropping?: boolean;
+  onClipCropChange?: (clipId: string, crop: ClipCrop) => void;
+  onCropEnd?: () => void;
 }
 
 // ============================================================================
@@ -108,6 +150,9 @@ export const TimelinePlayer = memo(function TimelinePlayer({
   className,
   selectedClipId,
   onClipTransformChange,
+  isCropping = false,
+  onClipCropChange,
+  onCropEnd,
 }: TimelinePlayerProps) {
   const {
     state,
@@ -120,12 +165,15 @@ export const TimelinePlayer = memo(function TimelinePlayer({
       renderFrame,
       setClipTransformOverride,
       clearClipTransformOverride,
+      setClipCropOverride,
+      clearClipCropOverride,
       setVolume,
       setMuted,
       exportFrame,
     },
     meta: {
       canvasRef,
+      overlayCanvasRef,
       canvasKey,
       outputSize,
       getCurrentTime,
@@ -143,6 +191,8 @@ export const TimelinePlayer = memo(function TimelinePlayer({
   loadedSourcesRef.current = loadedSources;
   const onClipTransformChangeRef = useRef(onClipTransformChange);
   onClipTransformChangeRef.current = onClipTransformChange;
+  const onClipCropChangeRef = useRef(onClipCropChange);
+  onClipCropChangeRef.current = onClipCropChange;
   const playingRef = useRef(state.playing);
   playingRef.current = state.playing;
 
@@ -157,6 +207,7 @@ export const TimelinePlayer = memo(function TimelinePlayer({
   const containerRef = useRef<HTMLDivElement>(null);
   const videoAreaWrapperRef = useRef<HTMLDivElement>(null);
   const videoAreaRef = useRef<HTMLDivElement>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
   const [stageSize, setStageSize] = useState<{
     width: number;
     height: number;
@@ -213,16 +264,16 @@ export const TimelinePlayer = memo(function TimelinePlayer({
       if (track.type !== "video" && track.type !== "image") continue;
       for (const clip of track.clips) {
         if (clip.id !== selectedClipId) continue;
-        if (!clip.asset) return null;
+        const sourceKey = getClipSourceKey(clip);
+        if (!sourceKey) return null;
 
-        const assetId = clip.asset?.id;
-        const loaded = assetId
-          ? loadedSourcesRef.current.get(assetId)
-          : undefined;
+        // Generated clips (text) only know their size once rasterized
+        const loaded = loadedSourcesRef.current.get(sourceKey);
+        if (!loaded && !clip.asset) return null;
         const width =
-          loaded?.width ?? clip.asset.width ?? clip.asset.height ?? 1920;
+          loaded?.width ?? clip.asset?.width ?? clip.asset?.height ?? 1920;
         const height =
-          loaded?.height ?? clip.asset.height ?? clip.asset.width ?? 1080;
+          loaded?.height ?? clip.asset?.height ?? clip.asset?.width ?? 1080;
 
         return {
           clip,
@@ -262,13 +313,10 @@ export const TimelinePlayer = memo(function TimelinePlayer({
     // Compute where the video is drawn inside the container (object-contain).
     const { scale, offsetX, offsetY, outputWidth, outputHeight } = mapping;
 
-    const transform = clip.transform ?? {
-      x: 0,
-      y: 0,
-      scaleX: 1,
-      scaleY: 1,
-      rotation: 0,
-    };
+    const transform = getClipTransformAt(clip, time);
+    // While cropping, the whole frame is shown upright
+    const crop = isCropping ? NO_CROP : getClipCrop(clip);
+    const rotation = isCropping ? 0 : transform.rotation;
 
     const fitMode = clip.fitMode ?? "none";
     const baseSize = getFittedSize({
@@ -286,12 +334,15 @@ export const TimelinePlayer = memo(function TimelinePlayer({
     const baseY = (outputHeight - baseSize.height) / 2 + transform.y;
 
     return {
-      x: offsetX + baseX * scale,
-      y: offsetY + baseY * scale,
-      width: rectWidth,
-      height: rectHeight,
+      x: offsetX + baseX * scale + crop.left * rectWidth,
+      y: offsetY + baseY * scale + crop.top * rectHeight,
+      width: rectWidth * (1 - crop.left - crop.right),
+      height: rectHeight * (1 - crop.top - crop.bottom),
+      rotation,
+      anchorX: transform.anchorX ?? 0.5,
+      anchorY: transform.anchorY ?? 0.5,
     };
-  }, [findSelectedClip, getDisplayMapping]);
+  }, [findSelectedClip, getDisplayMapping, isCropping]);
 
   useLayoutEffect(() => {
     if (!videoAreaRef.current) return;
@@ -307,7 +358,10 @@ export const TimelinePlayer = memo(function TimelinePlayer({
           prev.x === next.x &&
           prev.y === next.y &&
           prev.width === next.width &&
-          prev.height === next.height)
+          prev.height === next.height &&
+          prev.rotation === next.rotation &&
+          prev.anchorX === next.anchorX &&
+          prev.anchorY === next.anchorY)
       ) {
         return;
       }
@@ -376,13 +430,7 @@ export const TimelinePlayer = memo(function TimelinePlayer({
       const normalizedDx = dx / scale;
       const normalizedDy = dy / scale;
 
-      const current = selected.clip.transform ?? {
-        x: 0,
-        y: 0,
-        scaleX: 1,
-        scaleY: 1,
-        rotation: 0,
-      };
+      const current = getClipTransformAt(selected.clip, currentTimeRef.current);
 
       const baseTransform = pendingTransformRef.current ?? current;
 
@@ -400,63 +448,54 @@ export const TimelinePlayer = memo(function TimelinePlayer({
         fitMode,
       });
 
-      const currentW = baseSize.width * Math.abs(baseTransform.scaleX);
-      const currentH = baseSize.height * Math.abs(baseTransform.scaleY);
-
-      // The compositor centers the source, then adds offset (transform.x/y)
-      // So AbsoluteLeft = (CanvasW - SourceW)/2 + transform.x
-      // Wait: Compositor logic in timeline-player-context usually applies scale from center?
-      // Let's assume standard behavior where visual bounding box is controlled by transform.
-      // If the overlay rect uses:
-      // baseX = (outputWidth - sourceSize.width) / 2 + transform.x;
-      // This confirms transform.x is applied to the top-left of the unscaled source relative to the centered slot.
-      // BUT if scaling is applied, where is the pivot?
-      // The overlayRect calculation suggests scaling happens around the top-left of that positioned box?
-      // rectWidth = sourceSize.width * transform.scaleX
-      // Overlay X = offsetX + baseX * scale
-      // This implies the visual box starts at `baseX`.
-      // So `ActualLeft = (CANVAS_WIDTH - sourceW) / 2 + transform.x`.
-
       const baseX = (outputSize.width - baseSize.width) / 2;
       const baseY = (outputSize.height - baseSize.height) / 2;
 
-      // Calculate Clamped X
-      const proposedLeft = baseX + newX;
-      let clampedLeft = proposedLeft;
+      // Clamp the rotated bounding box of the cropped frame, which is what
+      // is visible
+      const crop = getClipCrop(selected.clip);
+      const fullWidth = baseSize.width * Math.abs(baseTransform.scaleX);
+      const fullHeight = baseSize.height * Math.abs(baseTransform.scaleY);
+      const bounds = getRotatedBounds({
+        left: baseX + newX + crop.left * fullWidth,
+        top: baseY + newY + crop.top * fullHeight,
+        width: fullWidth * (1 - crop.left - crop.right),
+        height: fullHeight * (1 - crop.top - crop.bottom),
+        transform: baseTransform,
+      });
 
-      if (currentW <= outputSize.width) {
-        // Must be fully contained [0, CANVAS_WIDTH - currentW]
+      // Calculate Clamped X
+      let clampedLeft = bounds.left;
+      if (bounds.width <= outputSize.width) {
+        // Must be fully contained [0, CANVAS_WIDTH - width]
         clampedLeft = Math.max(
           0,
-          Math.min(outputSize.width - currentW, proposedLeft),
+          Math.min(outputSize.width - bounds.width, bounds.left),
         );
       } else {
         // Must cover the canvas (no empty space)
         // Left must be <= 0, and Right (Left + W) must be >= CANVAS_WIDTH
-        // So Left must be >= CANVAS_WIDTH - currentW
         clampedLeft = Math.max(
-          outputSize.width - currentW,
-          Math.min(0, proposedLeft),
+          outputSize.width - bounds.width,
+          Math.min(0, bounds.left),
         );
       }
-      newX = clampedLeft - baseX;
+      newX += clampedLeft - bounds.left;
 
       // Calculate Clamped Y
-      const proposedTop = baseY + newY;
-      let clampedTop = proposedTop;
-
-      if (currentH <= outputSize.height) {
+      let clampedTop = bounds.top;
+      if (bounds.height <= outputSize.height) {
         clampedTop = Math.max(
           0,
-          Math.min(outputSize.height - currentH, proposedTop),
+          Math.min(outputSize.height - bounds.height, bounds.top),
         );
       } else {
         clampedTop = Math.max(
-          outputSize.height - currentH,
-          Math.min(0, proposedTop),
+          outputSize.height - bounds.height,
+          Math.min(0, bounds.top),
         );
       }
-      newY = clampedTop - baseY;
+      newY += clampedTop - bounds.top;
 
       const nextTransform: ClipTransform = {
         ...baseTransform,
@@ -482,24 +521,123 @@ export const TimelinePlayer = memo(function TimelinePlayer({
     ],
   );
 
-  const handleOverlayMoveEnd = useCallback(() => {
-    if (!selectedClipId) return;
-    const nextTransform = pendingTransformRef.current;
+  const handleOverlayRotate = useCallback(
+    (rotation: number) => {
+      if (!selectedClipId) return;
+      const selected = findSelectedClip();
+      if (!selected) return;
 
-    if (nextTransform) {
-      onClipTransformChangeRef.current?.(selectedClipId, {
-        x: nextTransform.x,
-        y: nextTransform.y,
-      });
-    }
+      const baseTransform =
+        pendingTransformRef.current ??
+        getClipTransformAt(selected.clip, currentTimeRef.current);
+      const nextTransform: ClipTransform = { ...baseTransform, rotation };
 
-    clearClipTransformOverride(selectedClipId);
-    pendingTransformRef.current = null;
+      pendingTransformRef.current = nextTransform;
+      setClipTransformOverride(selectedClipId, nextTransform);
+
+      if (!playingRef.current) {
+        void renderFrame(currentTimeRef.current);
+      }
+    },
+    [findSelectedClip, renderFrame, selectedClipId, setClipTransformOverride],
+  );
+
+  // Commit only what the gesture changed, so other animated properties
+  // don't pick up a keyframe
+  const commitPendingTransform = useCallback(
+    (properties: readonly ("x" | "y" | "rotation")[]) => {
+      if (!selectedClipId) return;
+      const nextTransform = pendingTransformRef.current;
+
+      if (nextTransform) {
+        const changes: Partial<Pick<ClipTransform, "x" | "y" | "rotation">> =
+          {};
+        for (const property of properties) {
+          changes[property] = nextTransform[property];
+        }
+        onClipTransformChangeRef.current?.(selectedClipId, changes);
+      }
+
+      clearClipTransformOverride(selectedClipId);
+      pendingTransformRef.current = null;
+
+      if (!playingRef.current) {
+        void renderFrame(currentTimeRef.current);
+      }
+    },
+    [clearClipTransformOverride, renderFrame, selectedClipId],
+  );
+
+  const handleOverlayMoveEnd = useCallback(
+    () => commitPendingTransform(["x", "y"]),
+    [commitPendingTransform],
+  );
 
-    if (!playingRef.current) {
-      void renderFrame(currentTimeRef.current);
+  const handleOverlayRotateEnd = useCallback(
+    () => commitPendingTransform(["rotation"]),
+    [commitPendingTransform],
+  );
+
+  // Crop edits stay local until applied, so a crop is a single undo step
+  const cropDraftRef = useRef<ClipCrop | null>(null);
+  const [cropSession, setCropSession] = useState<{
+    initialCrop: CropRect;
+    sourceSize: { width: number; height: number };
+  } | null>(null);
+
+  useEffect(() => {
+    if (!isCropping || !selectedClipId) return;
+    const selected = findSelectedClip();
+    if (!selected) return;
+
+    const clipId = selectedClipId;
+    const crop = getClipCrop(selected.clip);
+    cropDraftRef.current = crop;
+    setCropSession({
+      initialCrop: cropToRect(crop),
+      sourceSize: selected.sourceSize,
+    });
+
+    // Show the whole frame, upright, while the crop is edited
+    if (playingRef.current) pause();
+    setClipCropOverride(clipId, NO_CROP);
+    setClipTransformOverride(clipId, {
+      ...getClipTransformAt(selected.clip, currentTimeRef.current),
+      rotation: 0,
+    });
+    void renderFrame(currentTimeRef.current);
+
+    return () => {
+      clearClipCropOverride(clipId);
+      clearClipTransformOverride(clipId);
+      cropDraftRef.current = null;
+      setCropSession(null);
+      if (!playingRef.current) {
+        void renderFrame(currentTimeRef.current);
+      }
+    };
+  }, [
+    clearClipCropOverride,
+    clearClipTransformOverride,
+    findSelectedClip,
+    isCropping,
+    pause,
+    renderFrame,
+    selectedClipId,
+    setClipCropOverride,
+    setClipTransformOverride,
+  ]);
+
+  const handleCropChange = useCallback((rect: CropRect) => {
+    cropDraftRef.current = rectToCrop(rect);
+  }, []);
+
+  const handleCropApply = useCallback(() => {
+    if (selectedClipId && cropDraftRef.current) {
+      onClipCropChangeRef.current?.(selectedClipId, cropDraftRef.current);
     }
-  }, [clearClipTransformOverride, renderFrame, selectedClipId]);
+    onCropEnd?.();
+  }, [onCropEnd, selectedClipId]);
 
   // Handle play/pause
   const handlePlayPause = useCallback(() => {
@@ -511,17 +649,21 @@ export const TimelinePlayer = memo(function TimelinePlayer({
   }, [state.playing, play, pause]);
 
   // Screenshot
-  const handleScreenshot = useCallback(async () => {
-    const blob = await exportFrame();
-    if (blob) {
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `frame-${currentTimeRef.current.toFixed(2)}s.png`;
-      a.click();
-      URL.revokeObjectURL(url);
-    }
-  }, [exportFrame]);
+  const handleScreenshot = useCallback(
+    async (format: FrameImageFormat = "png") => {
+      const time = currentTimeRef.current;
+      const blob = await exportFrame(time, format);
+      if (blob) {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `frame-${time.toFixed(2)}s.${format === "jpeg" ? "jpg" : format}`;
+        a.click();
+        URL.revokeObjectURL(url);
+      }
+    },
+    [exportFrame],
+  );
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -614,7 +756,24 @@ export const TimelinePlayer = memo(function TimelinePlayer({
         <span className="text-xs font-medium uppercase tracking-wide">
           Preview
         </span>
-        <TimeDisplay />
+        {isCropping ? (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={onCropEnd}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" className="h-6 text-xs" onClick={handleCropApply}>
+              <Check className="h-3 w-3 mr-1" />
+              Apply Crop
+            </Button>
+          </div>
+        ) : (
+          <TimeDisplay />
+        )}
       </div>
 
       {/* Video Canvas Area */}
@@ -622,90 +781,142 @@ export const TimelinePlayer = memo(function TimelinePlayer({
         ref={videoAreaWrapperRef}
         className="relative flex-1 min-h-[300px] flex items-center justify-center"
       >
-        <div
-          ref={videoAreaRef}
-          className="relative bg-black"
-          style={
-            stageSize
-              ? {
-                  width: `${stageSize.width}px`,
-                  height: `${stageSize.height}px`,
-                }
-              : undefined
-          }
-        >
-          {/* Canvas for compositor rendering - key ensures fresh element on remount */}
-          <canvas
-            key={canvasKey}
-            ref={canvasRef}
-            width={1920}
-            height={1080}
-            className={cn("w-full h-full block")}
-          />
-
-          <VideoTransformOverlay
-            containerRef={videoAreaRef}
-            rect={overlayRectState}
-            isActive={!isEmpty && !!selectedClipId}
-            onMove={handleOverlayMove}
-            onMoveEnd={handleOverlayMoveEnd}
-          />
-
-          {/* Empty State Overlay */}
-          {isEmpty && (
-            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-              <div className="text-center text-foreground/30">
-                <div className="text-4xl mb-2">🎬</div>
-                <p className="text-sm font-medium">Video Preview</p>
-                <p className="text-xs">Add media to see preview</p>
-              </div>
-            </div>
-          )}
-
-          {/* Loading Overlay */}
-          {state.loading && (
-            <div className="absolute inset-0 flex items-center justify-center bg-black/50">
-              <div className="text-center text-white">
-                <div className="animate-spin text-4xl mb-2">⏳</div>
-                <p className="text-sm font-medium">Loading...</p>
-              </div>
-            </div>
-          )}
-
-          {/* Error Overlay */}
-          {state.error && (
-            <div className="absolute inset-0 flex items-center justify-center bg-red-900/50">
-              <div className="text-center text-white max-w-md px-4">
-                <div className="text-4xl mb-2">⚠️</div>
-                <p className="text-sm font-medium">Error</p>
-                <p className="text-xs mt-1 opacity-80">{state.error.message}</p>
-              </div>
-            </div>
-          )}
-
-          {/* Center Play Button Overlay (only when paused and has content) */}
-          {!isEmpty && !state.playing && (
-            <button
-              type="button"
-              className={cn(
-                "absolute inset-0 flex items-center justify-center",
-                "bg-black/20 opacity-0 hover:opacity-100 transition-opacity",
-                "cursor-pointer",
-              )}
-              onClick={handlePlayPause}
+        <ContextMenu>
+          <ContextMenuTrigger asChild disabled={isCropping}>
+            <div
+              ref={videoAreaRef}
+              className="relative bg-black"
+              style={
+                stageSize
+                  ? {
+                      width: `${stageSize.width}px`,
+                      height: `${stageSize.height}px`,
+                    }
+                  : undefined
+              }
             >
-              <div
-                className={cn(
-                  "w-16 h-16 rounded-full",
-                  "border-4 border-white bg-black/50",
-                  "flex items-center justify-center",
-                )}
+              {/* Canvas for compositor rendering - key ensures fresh element on remount */}
+              <canvas
+                key={canvasKey}
+                ref={canvasRef}
+                width={1920}
+                height={1080}
+                className={cn("w-full h-full block")}
+              />
+              {/* Layers the compositor can't draw (e.g. freely turned clips) */}
+              <canvas
+                ref={overlayCanvasRef}
+                width={outputSize.width}
+                height={outputSize.height}
+                className="pointer-events-none absolute inset-0 w-full h-full"
+              />
+
+              {isCropping ? (
+                cropSession &&
+                overlayRectState && (
+                  // Sized to the full frame so the crop is relative to the source
+                  <div
+                    ref={cropAreaRef}
+                    className="absolute z-30"
+                    style={{
+                      left: overlayRectState.x,
+                      top: overlayRectState.y,
+                      width: overlayRectState.width,
+                      height: overlayRectState.height,
+                    }}
+                  >
+                    <CropOverlay
+                      containerRef={cropAreaRef}
+                      isActive
+                      initialCrop={cropSession.initialCrop}
+                      onCropChange={handleCropChange}
+                      videoDimensions={cropSession.sourceSize}
+                    />
+                  </div>
+                )
+              ) : (
+                <VideoTransformOverlay
+                  containerRef={videoAreaRef}
+                  rect={overlayRectState}
+                  isActive={!isEmpty && !!selectedClipId}
+                  onMove={handleOverlayMove}
+                  onMoveEnd={handleOverlayMoveEnd}
+                  onRotate={handleOverlayRotate}
+                  onRotateEnd={handleOverlayRotateEnd}
+                />
+              )}
+
+              {/* Empty State Overlay */}
+              {isEmpty && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="text-center text-foreground/30">
+                    <div className="text-4xl mb-2">🎬</div>
+                    <p className="text-sm font-medium">Video Preview</p>
+                    <p className="text-xs">Add media to see preview</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Loading Overlay */}
+              {state.loading && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+                  <div className="text-center text-white">
+                    <div className="animate-spin text-4xl mb-2">⏳</div>
+                    <p className="text-sm font-medium">Loading...</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Error Overlay */}
+              {state.error && (
+                <div className="absolute inset-0 flex items-center justify-center bg-red-900/50">
+                  <div className="text-center text-white max-w-md px-4">
+                    <div className="text-4xl mb-2">⚠️</div>
+                    <p className="text-sm font-medium">Error</p>
+                    <p className="text-xs mt-1 opacity-80">
+                      {state.error.message}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Center Play Button Overlay (only when paused and has content) */}
+              {!isEmpty && !state.playing && !isCropping && (
+                <button
+                  type="button"
+                  className={cn(
+                    "absolute inset-0 flex items-center justify-center",
+                    "bg-black/20 opacity-0 hover:opacity-100 transition-opacity",
+                    "cursor-pointer",
+                  )}
+                  onClick={handlePlayPause}
+                >
+                  <div
+                    className={cn(
+                      "w-16 h-16 rounded-full",
+                      "border-4 border-white bg-black/50",
+                      "flex items-center justify-center",
+                    )}
+                  >
+                    <Play className="h-8 w-8 text-white ml-1" />
+                  </div>
+                </button>
+              )}
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent>
+            {FRAME_EXPORT_OPTIONS.map(({ label, format }) => (
+              <ContextMenuItem
+                key={format}
+                disabled={isEmpty}
+                onClick={() => handleScreenshot(format)}
               >
-                <Play className="h-8 w-8 text-white ml-1" />
-              </div>
-            </button>
-          )}
-        </div>
+                <ImageDown className="h-4 w-4 mr-2" />
+                Export Frame as {label}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuContent>
+        </ContextMenu>
       </div>
     </div>
   );
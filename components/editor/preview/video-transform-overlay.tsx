@@ -1,6 +1,6 @@
 "use client";
 
-import { Move } from "lucide-react";
+import { Move, RotateCw } from "lucide-react";
 import { useCallback, useLayoutEffect, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 
@@ -9,6 +9,11 @@ export interface OverlayRect {
   y: number;
   width: number;
   height: number;
+  /** Degrees, clockwise around the anchor */
+  rotation: number;
+  /** Rotation pivot as a fraction of the width and height */
+  anchorX: number;
+  anchorY: number;
 }
 
 interface VideoTransformOverlayProps {
@@ -17,6 +22,16 @@ interface VideoTransformOverlayProps {
   isActive: boolean;
   onMove?: (delta: { dx: number; dy: number }) => void;
   onMoveEnd?: () => void;
+  onRotate?: (rotation: number) => void;
+  onRotateEnd?: () => void;
+}
+
+// Shift-drag on the rotate handle snaps to this step, in degrees
+const ROTATION_SNAP = 15;
+
+// Wrap an angle into [-180, 180)
+function normalizeAngle(degrees: number): number {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180;
 }
 
 export function VideoTransformOverlay({
@@ -25,6 +40,8 @@ export function VideoTransformOverlay({
   isActive,
   onMove,
   onMoveEnd,
+  onRotate,
+  onRotateEnd,
 }: VideoTransformOverlayProps) {
   const [containerBounds, setContainerBounds] = useState<DOMRect | null>(null);
   const isDraggingRef = useRef(false);
@@ -32,6 +49,11 @@ export function VideoTransformOverlay({
   const dragOffsetRef = useRef({ x: 0, y: 0 });
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const lastPointerRef = useRef({ x: 0, y: 0 });
+  // Pointer angle and clip rotation when a rotate drag started
+  const rotateStartRef = useRef<{ angle: number; rotation: number } | null>(
+    null,
+  );
+  const [dragRotation, setDragRotation] = useState<number | null>(null);
 
   useLayoutEffect(() => {
     if (!isActive || !containerRef.current) return;
@@ -54,10 +76,14 @@ export function VideoTransformOverlay({
   }, [containerRef, isActive]);
 
   // Derive displayed rect synchronously: external rect + drag offset during drag
-  const displayRect =
+  const movedRect =
     rect && isDraggingRef.current
       ? { ...rect, x: rect.x + dragOffset.x, y: rect.y + dragOffset.y }
       : rect;
+  const displayRect =
+    movedRect && dragRotation !== null
+      ? { ...movedRect, rotation: dragRotation }
+      : movedRect;
 
   const handlePointerDown = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
@@ -107,6 +133,83 @@ export function VideoTransformOverlay({
     [onMoveEnd],
   );
 
+  // Angle of the pointer around the rotation pivot, in degrees
+  const getPointerAngle = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!rect || !containerRef.current) return 0;
+      const bounds = containerRef.current.getBoundingClientRect();
+      const pivotX = bounds.left + rect.x + rect.anchorX * rect.width;
+      const pivotY = bounds.top + rect.y + rect.anchorY * rect.height;
+      return (
+        (Math.atan2(e.clientY - pivotY, e.clientX - pivotX) * 180) / Math.PI
+      );
+    },
+    [containerRef, rect],
+  );
+
+  const handleRotatePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      // Keep the region underneath from starting a move
+      e.preventDefault();
+      e.stopPropagation();
+      if (!rect) return;
+
+      e.currentTarget.setPointerCapture(e.pointerId);
+      rotateStartRef.current = {
+        angle: getPointerAngle(e),
+        rotation: rect.rotation,
+      };
+      setDragRotation(rect.rotation);
+    },
+    [getPointerAngle, rect],
+  );
+
+  const handleRotatePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const start = rotateStartRef.current;
+      if (!start) return;
+      e.stopPropagation();
+
+      let rotation = normalizeAngle(
+        start.rotation + getPointerAngle(e) - start.angle,
+      );
+      if (e.shiftKey) {
+        rotation = normalizeAngle(
+          Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP,
+        );
+      }
+      setDragRotation(rotation);
+      onRotate?.(rotation);
+    },
+    [getPointerAngle, onRotate],
+  );
+
+  const handleRotatePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!rotateStartRef.current) return;
+      e.stopPropagation();
+
+      e.currentTarget.releasePointerCapture(e.pointerId);
+      rotateStartRef.current = null;
+      setDragRotation(null);
+      onRotateEnd?.();
+    },
+    [onRotateEnd],
+  );
+
+  const handleRotateKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (!rect || (e.key !== "ArrowLeft" && e.key !== "ArrowRight")) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const step = e.shiftKey ? ROTATION_SNAP : 1;
+      const direction = e.key === "ArrowRight" ? 1 : -1;
+      onRotate?.(normalizeAngle(rect.rotation + direction * step));
+      onRotateEnd?.();
+    },
+    [onRotate, onRotateEnd, rect],
+  );
+
   if (!isActive || !containerBounds || !displayRect) return null;
 
   const handles = ["nw", "n", "ne", "e", "se", "s", "sw", "w"] as const;
@@ -127,6 +230,9 @@ export function VideoTransformOverlay({
           top: displayRect.y,
           width: displayRect.width,
           height: displayRect.height,
+          // Rotating the element itself keeps hit-testing on the rotated box
+          transform: `rotate(${displayRect.rotation}deg)`,
+          transformOrigin: `${displayRect.anchorX * 100}% ${displayRect.anchorY * 100}%`,
         }}
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
@@ -134,10 +240,50 @@ export function VideoTransformOverlay({
         onPointerCancel={handlePointerUp}
       >
         <div className="absolute -top-9 left-0 flex items-center gap-2 px-2 py-1 border border-border bg-background shadow-md rounded-md text-xs font-medium">
-          <Move className="h-3.5 w-3.5" />
-          Drag to move
+          {dragRotation !== null ? (
+            <>
+              <RotateCw className="h-3.5 w-3.5" />
+              {Math.round(dragRotation)}°
+            </>
+          ) : (
+            <>
+              <Move className="h-3.5 w-3.5" />
+              Drag to move
+            </>
+          )}
         </div>
 
+        {/* Rotation pivot */}
+        <div
+          className="absolute size-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-primary bg-background pointer-events-none"
+          style={{
+            left: `${displayRect.anchorX * 100}%`,
+            top: `${displayRect.anchorY * 100}%`,
+          }}
+        />
+
+        {onRotate && (
+          <>
+            <div className="absolute left-1/2 -top-6 h-6 w-0.5 -translate-x-1/2 bg-primary pointer-events-none" />
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-label="Rotation"
+              aria-valuemin={-180}
+              aria-valuemax={180}
+              aria-valuenow={Math.round(displayRect.rotation)}
+              aria-valuetext={`${Math.round(displayRect.rotation)}°`}
+              title="Drag to rotate (Shift snaps to 15°)"
+              className="absolute left-1/2 -top-8 size-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary border-2 border-border cursor-grab"
+              onPointerDown={handleRotatePointerDown}
+              onPointerMove={handleRotatePointerMove}
+              onPointerUp={handleRotatePointerUp}
+              onPointerCancel={handleRotatePointerUp}
+              onKeyDown={handleRotateKeyDown}
+            />
+          </>
+        )}
+
         {handles.map((handle) => (
           <div
             key={handle}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+
+interface ClipFades {
+  fadeIn: number;
+  fadeOut: number;
+}
+
+interface ClipFadeHandlesProps extends ClipFades {
+  duration: number;
+  pixelsPerSecond: number;
+  onChange: (fades: ClipFades) => void;
+}
+
+// Keyboard nudge for the fade handles, in seconds
+const FADE_STEP = 0.1;
+
+/**
+ * Fade ramps drawn over an audio clip, with a handle at the top of each ramp
+ * that is dragged to change the fade length. Changes are committed once the
+ * drag ends.
+ */
+export function ClipFadeHandles({
+  fadeIn,
+  fadeOut,
+  duration,
+  pixelsPerSecond,
+  onChange,
+}: ClipFadeHandlesProps) {
+  const [draft, setDraft] = useState<ClipFades | null>(null);
+  const dragRef = useRef<{
+    edge: keyof ClipFades;
+    startX: number;
+    startValue: number;
+  } | null>(null);
+
+  const current = draft ?? { fadeIn, fadeOut };
+
+  // Fades may meet but never overlap
+  const withFade = (edge: keyof ClipFades, value: number): ClipFades => {
+    const other = edge === "fadeIn" ? current.fadeOut : current.fadeIn;
+    return {
+      ...current,
+      [edge]: Math.min(Math.max(0, value), duration - other),
+    };
+  };
+
+  const handlePointerDown =
+    (edge: keyof ClipFades) => (event: React.PointerEvent<HTMLDivElement>) => {
+      // Keep the timeline from starting a clip drag
+      event.stopPropagation();
+      event.preventDefault();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      dragRef.current = {
+        edge,
+        startX: event.clientX,
+        startValue: current[edge],
+      };
+    };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = (event.clientX - drag.startX) / pixelsPerSecond;
+    // The fade-out handle grows the fade when dragged left
+    const value =
+      drag.edge === "fadeIn"
+        ? drag.startValue + delta
+        : drag.startValue - delta;
+    setDraft(withFade(drag.edge, value));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (draft) onChange(draft);
+    setDraft(null);
+  };
+
+  const handleKeyDown =
+    (edge: keyof ClipFades) => (event: React.KeyboardEvent<HTMLDivElement>) => {
+      if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+      event.preventDefault();
+      event.stopPropagation();
+      const direction = event.key === "ArrowRight" ? 1 : -1;
+      const step = edge === "fadeIn" ? FADE_STEP : -FADE_STEP;
+      onChange(withFade(edge, current[edge] + direction * step));
+    };
+
+  const fadeInWidth = current.fadeIn * pixelsPerSecond;
+  const fadeOutWidth = current.fadeOut * pixelsPerSecond;
+
+  const handleClassName = cn(
+    "absolute top-0.5 z-20 h-2.5 w-2.5 -translate-x-1/2 rounded-full",
+    "border border-background bg-foreground/80 cursor-ew-resize",
+    "opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+  );
+
+  return (
+    <>
+      {fadeInWidth > 0 && (
+        <div
+          className="absolute inset-y-0 left-0 z-[6] bg-background/60 pointer-events-none"
+          style={{
+            width: fadeInWidth,
+            clipPath: "polygon(0 0, 100% 0, 0 100%)",
+          }}
+        />
+      )}
+      {fadeOutWidth > 0 && (
+        <div
+          className="absolute inset-y-0 right-0 z-[6] bg-background/60 pointer-events-none"
+          style={{
+            width: fadeOutWidth,
+            clipPath: "polygon(0 0, 100% 0, 100% 100%)",
+          }}
+        />
+      )}
+      {(["fadeIn", "fadeOut"] as const).map((edge) => (
+        <div
+          key={edge}
+          role="slider"
+          tabIndex={0}
+          aria-label={edge === "fadeIn" ? "Fade in" : "Fade out"}
+          aria-valuemin={0}
+          aria-valuemax={duration}
+          aria-valuenow={current[edge]}
+          aria-valuetext={`${current[edge].toFixed(1)}s`}
+          className={handleClassName}
+          style={{
+            left:
+              edge === "fadeIn"
+                ? fadeInWidth
+                : duration * pixelsPerSecond - fadeOutWidth,
+          }}
+          onPointerDown={handlePointerDown(edge)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onMouseDown={(event) => event.stopPropagation()}
+          onClick={(event) => event.stopPropagation()}
+          onKeyDown={handleKeyDown(edge)}
+        />
+      ))}
+    </>
+  );
+}
@@ -1,7 +1,10 @@
 "use client";
 
 import { Film, Music } from "lucide-react";
-import type { TimelineTrackData } from "@/components/editor/preview/timeline-player-context";
+import {
+  canPlaceClipOnTrack,
+  type TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
 import { cn } from "@/lib/utils";
 import type { DragState } from "./hooks/use-cross-track-drag";
 
@@ -14,6 +17,7 @@ export interface GhostTrackOverlayProps {
   pixelsPerSecond: number;
   labelWidth: number;
   scrollTop: number;
+  scrollLeft: number;
 }
 
 /**
@@ -34,6 +38,7 @@ export function GhostTrackOverlay({
   pixelsPerSecond,
   labelWidth,
   scrollTop,
+  scrollLeft,
 }: GhostTrackOverlayProps) {
   const {
     isDragging,
@@ -69,13 +74,15 @@ export function GhostTrackOverlay({
 
   const targetTrackIndex = tracks.findIndex((t) => t.id === targetTrackId);
   const isNewTrack = sourceTrackId !== targetTrackId;
-  const isTypeMatch = sourceTrackType === targetTrack.type;
+  const isTypeMatch = canPlaceClipOnTrack(draggedClip.type, targetTrack.type);
 
   // Calculate ghost position
   const ghostTop =
     timeAreaHeight + rowOffset + targetTrackIndex * rowHeight - scrollTop;
   const ghostLeft =
-    labelWidth + (dropTime ?? draggedClip.startTime) * pixelsPerSecond;
+    labelWidth +
+    (dropTime ?? draggedClip.startTime) * pixelsPerSecond -
+    scrollLeft;
   const ghostWidth = draggedClip.duration * pixelsPerSecond;
 
   // Determine ghost styling based on validity
@@ -176,7 +183,7 @@ export function GhostTrackOverlay({
           }}
         >
           {!isTypeMatch
-            ? `Can't move ${sourceTrackType} to ${targetTrack.type} track`
+            ? `Can't move ${draggedClip.type} to ${targetTrack.type} track`
             : "Overlaps with existing clip"}
         </div>
       )}
@@ -1,7 +1,10 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import type { TimelineTrackData } from "@/components/editor/preview/timeline-player-context";
+import {
+  canPlaceClipOnTrack,
+  type TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
 
 export interface DragState {
   /** Whether a cross-track drag is currently in progress */
@@ -26,6 +29,9 @@ export interface UseCrossTrackDragOptions {
   pixelsPerSecond: number;
   labelWidth: number;
   scrollTop: number;
+  scrollLeft: number;
+  /** Snap a proposed start time for the dragged clip */
+  snapClipStart?: (clipId: string, start: number) => number;
   onTracksChange?: (tracks: TimelineTrackData[]) => void;
 }
 
@@ -79,6 +85,8 @@ export function useCrossTrackDrag({
   pixelsPerSecond,
   labelWidth,
   scrollTop,
+  scrollLeft,
+  snapClipStart,
   onTracksChange,
 }: UseCrossTrackDragOptions): UseCrossTrackDragResult {
   const [dragState, setDragState] = useState<DragState>(initialDragState);
@@ -116,11 +124,11 @@ export function useCrossTrackDrag({
   const getTimeAtX = useCallback(
     (clientX: number, container: HTMLElement): number => {
       const rect = container.getBoundingClientRect();
-      const relativeX = clientX - rect.left - labelWidth;
+      const relativeX = clientX - rect.left - labelWidth + scrollLeft;
       const time = relativeX / pixelsPerSecond;
       return Math.max(0, time);
     },
-    [labelWidth, pixelsPerSecond],
+    [labelWidth, pixelsPerSecond, scrollLeft],
   );
 
   const handlePointerDown = useCallback(
@@ -201,9 +209,12 @@ export function useCrossTrackDrag({
 
       const targetTrackId = getTrackAtY(e.clientY, timelineContainer);
       const rawTime = getTimeAtX(e.clientX, timelineContainer);
-      const dropTime = Math.max(0, rawTime - dragOffsetTimeRef.current);
 
       if (targetTrackId && dragState.draggedActionId) {
+        const rawStart = Math.max(0, rawTime - dragOffsetTimeRef.current);
+        const dropTime = snapClipStart
+          ? snapClipStart(dragState.draggedActionId, rawStart)
+          : rawStart;
         const isValidDrop = checkDropValidity(
           dragState.draggedActionId,
           targetTrackId,
@@ -223,6 +234,7 @@ export function useCrossTrackDrag({
       dragState.draggedActionId,
       getTrackAtY,
       getTimeAtX,
+      snapClipStart,
       checkDropValidity,
     ],
   );
@@ -261,8 +273,8 @@ export function useCrossTrackDrag({
         return;
       }
 
-      // Validate clip type matches track type
-      if (clipToMove.type !== targetTrack.type) {
+      // Validate the clip can live on the target track
+      if (!canPlaceClipOnTrack(clipToMove.type, targetTrack.type)) {
         setDragState(initialDragState);
         return;
       }
@@ -0,0 +1,76 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+export interface InOutOverlayProps {
+  /** In point in seconds, or null when not set */
+  markIn: number | null;
+  /** Out point in seconds, or null when not set */
+  markOut: number | null;
+  /** Timeline end, used when only the in point is set */
+  duration: number;
+  pixelsPerSecond: number;
+  labelWidth: number;
+  timeAreaHeight: number;
+  scrollLeft: number;
+}
+
+/**
+ * Shades the in/out range across all tracks and flags both points in the
+ * time area. Purely visual; the points are set with the I and O keys.
+ */
+export function InOutOverlay({
+  markIn,
+  markOut,
+  duration,
+  pixelsPerSecond,
+  labelWidth,
+  timeAreaHeight,
+  scrollLeft,
+}: InOutOverlayProps) {
+  if (markIn === null && markOut === null) return null;
+
+  const toX = (time: number) => time * pixelsPerSecond - scrollLeft;
+  const rangeLeft = toX(markIn ?? 0);
+  const rangeRight = toX(markOut ?? duration);
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 overflow-hidden pointer-events-none z-10"
+      style={{ left: labelWidth }}
+      aria-hidden="true"
+    >
+      {/* Range highlight */}
+      <div
+        className="absolute inset-y-0 bg-primary/10 border-x border-primary/50"
+        style={{
+          left: rangeLeft,
+          width: Math.max(0, rangeRight - rangeLeft),
+        }}
+      />
+
+      {/* In/out flags */}
+      {[
+        { time: markIn, label: "I", side: "left" as const },
+        { time: markOut, label: "O", side: "right" as const },
+      ].map(
+        ({ time, label, side }) =>
+          time !== null && (
+            <div
+              key={label}
+              className={cn(
+                "absolute top-0 flex items-center justify-center",
+                "w-4 text-[10px] font-bold text-primary-foreground bg-primary",
+                side === "left"
+                  ? "rounded-r-sm"
+                  : "rounded-l-sm -translate-x-full",
+              )}
+              style={{ left: toX(time), height: timeAreaHeight / 2 }}
+            >
+              {label}
+            </div>
+          ),
+      )}
+    </div>
+  );
+}
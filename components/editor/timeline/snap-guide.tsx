@@ -0,0 +1,32 @@
+"use client";
+
+export interface SnapGuideProps {
+  /** Time the dragged edge snapped to, or null when nothing is snapped */
+  time: number | null;
+  pixelsPerSecond: number;
+  labelWidth: number;
+  scrollLeft: number;
+}
+
+/** Vertical line across all tracks at the point a dragged edge snapped to */
+export function SnapGuide({
+  time,
+  pixelsPerSecond,
+  labelWidth,
+  scrollLeft,
+}: SnapGuideProps) {
+  if (time === null) return null;
+
+  return (
+    <div
+      className="absolute inset-y-0 right-0 overflow-hidden pointer-events-none z-30"
+      style={{ left: labelWidth }}
+      aria-hidden="true"
+    >
+      <div
+        className="absolute inset-y-0 w-px -translate-x-1/2 bg-amber-400 shadow-[0_0_6px_var(--color-amber-400)]"
+        style={{ left: time * pixelsPerSecond - scrollLeft }}
+      />
+    </div>
+  );
+}
@@ -8,10 +8,43 @@ interface TimelineRulerProps {
   className?: string;
 }
 
-function formatTime(seconds: number): string {
+// Seconds between labelled ticks, from a frame-ish tenth up to ten minutes
+const TICK_INTERVALS = [
+  0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600,
+] as const;
+const MIN_LABEL_SPACING = 80;
+const MIN_MINOR_TICK_SPACING = 8;
+
+export interface RulerScale {
+  /** Seconds between labelled ticks */
+  interval: number;
+  /** Minor ticks per interval */
+  subdivisions: number;
+}
+
+/** Pick tick spacing so labels never crowd, whatever the zoom level */
+export function getRulerScale(pixelsPerSecond: number): RulerScale {
+  const interval =
+    TICK_INTERVALS.find(
+      (candidate) => candidate * pixelsPerSecond >= MIN_LABEL_SPACING,
+    ) ?? TICK_INTERVALS[TICK_INTERVALS.length - 1];
+  const intervalWidth = interval * pixelsPerSecond;
+  const subdivisions =
+    [10, 5, 2].find(
+      (count) => intervalWidth / count >= MIN_MINOR_TICK_SPACING,
+    ) ?? 1;
+  return { interval, subdivisions };
+}
+
+/** Ruler label; tenths are shown once ticks are less than a second apart */
+export function formatRulerTime(seconds: number, interval: number): string {
   const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
+  const secs = seconds - mins * 60;
+  const secsLabel =
+    interval < 1
+      ? secs.toFixed(1).padStart(4, "0")
+      : Math.floor(secs).toString().padStart(2, "0");
+  return `${mins}:${secsLabel}`;
 }
 
 export function TimelineRuler({
@@ -19,20 +52,12 @@ export function TimelineRuler({
   pixelsPerSecond,
   className,
 }: TimelineRulerProps) {
-  // Calculate tick interval based on zoom level
-  const getTickInterval = () => {
-    if (pixelsPerSecond >= 100) return 1;
-    if (pixelsPerSecond >= 50) return 2;
-    if (pixelsPerSecond >= 25) return 5;
-    if (pixelsPerSecond >= 10) return 10;
-    return 30;
-  };
-
-  const tickInterval = getTickInterval();
-  const ticks: number[] = [];
+  const { interval, subdivisions } = getRulerScale(pixelsPerSecond);
+  const step = interval / subdivisions;
+  const ticks: { time: number; major: boolean }[] = [];
 
-  for (let i = 0; i <= duration; i += tickInterval) {
-    ticks.push(i);
+  for (let i = 0; i * step <= duration; i++) {
+    ticks.push({ time: i * step, major: i % subdivisions === 0 });
   }
 
   return (
@@ -50,16 +75,18 @@ export function TimelineRuler({
 
       {/* Ruler ticks */}
       <div className="relative flex-1 h-full">
-        {ticks.map((tick) => (
+        {ticks.map(({ time, major }) => (
           <div
-            key={tick}
+            key={time}
             className="absolute bottom-0 flex flex-col items-center"
-            style={{ left: `${tick * pixelsPerSecond}px` }}
+            style={{ left: `${time * pixelsPerSecond}px` }}
           >
-            <span className="text-[10px] font-medium text-foreground mb-1">
-              {formatTime(tick)}
-            </span>
-            <div className="w-0.5 h-2 bg-border" />
+            {major && (
+              <span className="text-[10px] font-medium text-foreground mb-1">
+                {formatRulerTime(time, interval)}
+              </span>
+            )}
+            <div className={cn("w-0.5 bg-border", major ? "h-2" : "h-1")} />
           </div>
         ))}
       </div>
@@ -13,6 +13,8 @@ export interface TimelineClip {
   duration: number;
   color: string;
   thumbnail?: string;
+  /** Its media file is missing; drawn with a warning style */
+  offline?: boolean;
 }
 
 export interface DragData {
@@ -235,7 +237,10 @@ export function TimelineTrack({
               isDragging === clip.id &&
                 "cursor-grabbing opacity-50 ring-2 ring-primary shadow-lg z-50",
               type === "video" ? "bg-chart-2" : "bg-chart-3",
+              clip.offline &&
+                "border-dashed border-amber-500 bg-[repeating-linear-gradient(135deg,rgb(245_158_11/0.35)_0_6px,transparent_6px_12px)]",
             )}
+            title={clip.offline ? `Media offline: ${clip.name}` : undefined}
             style={getClipStyle(clip)}
             onClick={() => onClipSelect?.(clip.id)}
             onDragStart={(e) => handleClipDragStart(e, clip)}
@@ -258,6 +263,7 @@ export function TimelineTrack({
             {/* Clip Content */}
             <span className="flex-1 px-3 overflow-hidden pointer-events-none">
               <span className="text-xs font-medium text-primary-foreground truncate block">
+                {clip.offline && "⚠ "}
                 {clip.name}
               </span>
             </span>
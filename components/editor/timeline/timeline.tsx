@@ -10,12 +10,19 @@ import type {
   TimelineRow,
 } from "@xzdarcy/timeline-engine";
 import {
+  AlertTriangle,
+  ClipboardCopy,
+  ClipboardPaste,
   Copy,
   Eye,
   EyeOff,
   Film,
+  Focus,
   GripVertical,
   Image as ImageIcon,
+  Link2,
+  Magnet,
+  Maximize2,
   Minus,
   Music,
   Pause,
@@ -29,7 +36,15 @@ import {
   Volume2,
   VolumeX,
 } from "lucide-react";
-import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { Button } from "@/components/ui/button";
 import {
   ContextMenu,
@@ -43,23 +58,68 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Slider } from "@/components/ui/slider";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { useControlledState } from "@/hooks/use-controlled-state";
+import { getClipFades, getTrackPan, getTrackVolume } from "@/lib/audio-mix";
+import {
+  getClipSpeed,
+  getMaxClipDuration,
+  getMaxStartTrimmedDuration,
+  getResizedSourceRange,
+  getStartTrimmedSourceRange,
+  isClipReversed,
+  splitClipSourceRange,
+} from "@/lib/clip-speed";
+import { getKeyframeTimes, shiftKeyframes } from "@/lib/keyframes";
+import {
+  DEFAULT_SNAP_THRESHOLD,
+  getSnapTargets,
+  SNAP_THRESHOLD_OPTIONS,
+  snapClipStart,
+  snapTime,
+} from "@/lib/timeline-snap";
+import {
+  clampZoom,
+  DEFAULT_PIXELS_PER_SECOND,
+  getRangeScrollLeft,
+  getWheelZoomFactor,
+  getZoomToRange,
+  zoomIn,
+  zoomOut,
+} from "@/lib/timeline-zoom";
+import {
+  getTrackTransitions,
+  remapSplitTransitions,
+  TRANSITION_TYPES,
+  type TransitionBoundary,
+} from "@/lib/transitions";
 import { cn } from "@/lib/utils";
 import {
+  isGeneratedClipType,
+  isStillClipType,
   type TimelineTrackData,
   useTimelinePlayer,
 } from "../preview/timeline-player-context";
 import { AudioWaveform } from "./audio-waveform";
+import { ClipFadeHandles } from "./clip-fade-handles";
 import { GhostTrackOverlay } from "./ghost-track-overlay";
 import { useCrossTrackDrag } from "./hooks/use-cross-track-drag";
+import { InOutOverlay } from "./in-out-overlay";
+import { SnapGuide } from "./snap-guide";
+import { formatRulerTime, getRulerScale } from "./timeline-ruler";
 import { TrackDragOverlay } from "./track-drag-overlay";
+import { TrackMixControls } from "./track-mix-controls";
 
 interface TimelineProps {
   tracks: TimelineTrackData[];
@@ -67,6 +127,9 @@ interface TimelineProps {
   currentTime?: number;
   duration: number;
   selectedClipId?: string | null;
+  /** In/out points in seconds, set with the I and O keys */
+  markIn?: number | null;
+  markOut?: number | null;
   onTimeChange?: (time: number) => void;
   onClipSelect?: (clipId: string, nextTracks?: TimelineTrackData[]) => void;
   onTracksChange?: (tracks: TimelineTrackData[]) => void;
@@ -74,9 +137,37 @@ interface TimelineProps {
   onRemoveTrack?: (trackId: string) => void;
   onDeleteClip?: (clipId: string) => void;
   onDuplicateClip?: (clipId: string) => void;
+  onCopyClip?: (clipId: string) => void;
+  onCutClip?: (clipId: string) => void;
+  onPaste?: () => void;
+  /** Offered on clips whose media is offline */
+  onRelinkMedia?: () => void;
+  /** Zoom in pixels per second; uncontrolled when omitted */
+  pixelsPerSecond?: number;
+  onPixelsPerSecondChange?: (pixelsPerSecond: number) => void;
+  /** Snap moved and trimmed clips to the playhead, edges, markers and frames */
+  snapEnabled?: boolean;
+  onToggleSnap?: () => void;
+  /** Snap distance in pixels; uncontrolled when omitted */
+  snapThreshold?: number;
+  onSnapThresholdChange?: (snapThreshold: number) => void;
+  /** Frames per second of the sequence, for snapping to whole frames */
+  frameRate?: number;
   className?: string;
 }
 
+/** Where the clip being moved or trimmed lands */
+interface PendingSnap {
+  actionId: string;
+  start: number;
+  end: number;
+  /** Set when the start is trimmed, which moves the source start too */
+  edge?: "start";
+}
+
+// Room kept ahead of the playhead when the view follows it
+const PLAYHEAD_FOLLOW_MARGIN = 48;
+
 function TimelineEmptyOverlay() {
   return (
     <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
@@ -101,11 +192,61 @@ function TimelineEmptyOverlay() {
   );
 }
 
+// Half of a transition region, drawn on the clip edge at the cut
+function TransitionEdge({
+  side,
+  boundary,
+  pixelsPerSecond,
+}: {
+  side: "left" | "right";
+  boundary: TransitionBoundary;
+  pixelsPerSecond: number;
+}) {
+  const label = TRANSITION_TYPES.find(
+    (entry) => entry.value === boundary.transition.type,
+  )?.label;
+
+  return (
+    <div
+      title={`${label} (${boundary.duration.toFixed(1)}s)`}
+      className={cn(
+        "absolute inset-y-0 z-[5] pointer-events-none border-primary/70",
+        "bg-[repeating-linear-gradient(135deg,color-mix(in_oklch,var(--primary),transparent_60%)_0_4px,transparent_4px_8px)]",
+        side === "left" ? "left-0 border-r" : "right-0 border-l",
+      )}
+      style={{ width: (boundary.duration / 2) * pixelsPerSecond }}
+    />
+  );
+}
+
+// Diamonds along the bottom of a clip at its keyframe times
+function KeyframeMarkers({
+  times,
+  pixelsPerSecond,
+}: {
+  times: number[];
+  pixelsPerSecond: number;
+}) {
+  return (
+    <div className="absolute inset-x-0 bottom-0.5 z-[6] h-2 pointer-events-none">
+      {times.map((time) => (
+        <div
+          key={time}
+          className="absolute top-0 h-2 w-2 -translate-x-1/2 rotate-45 border border-background bg-primary"
+          style={{ left: time * pixelsPerSecond }}
+        />
+      ))}
+    </div>
+  );
+}
+
 export const Timeline = memo(function Timeline({
   tracks,
   currentTime,
   duration,
   selectedClipId,
+  markIn = null,
+  markOut = null,
   onTimeChange,
   onClipSelect,
   onTracksChange,
@@ -113,26 +254,152 @@ export const Timeline = memo(function Timeline({
   onRemoveTrack: _onRemoveTrack,
   onDeleteClip,
   onDuplicateClip,
+  onCopyClip,
+  onCutClip,
+  onPaste,
+  onRelinkMedia,
+  pixelsPerSecond: pixelsPerSecondProp,
+  onPixelsPerSecondChange,
+  snapEnabled = true,
+  onToggleSnap,
+  snapThreshold: snapThresholdProp,
+  onSnapThresholdChange,
+  frameRate,
   className,
 }: TimelineProps) {
-  const [pixelsPerSecond, setPixelsPerSecond] = useState(50);
+  const [pixelsPerSecond, setPixelsPerSecond] = useControlledState({
+    value: pixelsPerSecondProp,
+    defaultValue: DEFAULT_PIXELS_PER_SECOND,
+    onChange: onPixelsPerSecondChange,
+  });
+  const [snapThreshold, setSnapThreshold] = useControlledState({
+    value: snapThresholdProp,
+    defaultValue: DEFAULT_SNAP_THRESHOLD,
+    onChange: onSnapThresholdChange,
+  });
   const [rowScrollTop, setRowScrollTop] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
   const [draggedTrackId, setDraggedTrackId] = useState<string | null>(null);
   const timelineRef = useRef<TimelineState>(null);
   const timelineContainerRef = useRef<HTMLDivElement>(null);
 
   const {
     state: playerState,
-    actions: { play, pause, seek, setMuted },
+    actions: { play, pause, seek, setMuted, setMasterVolume },
   } = useTimelinePlayer();
 
-  const labelWidth = 220;
+  const labelWidth = 252;
   const rowHeight = 56;
   const timeAreaHeight = 40;
   const rowOffset = 4;
-  const scale = 1;
-  const minScaleCount = Math.max(20, Math.ceil(duration / scale));
-  const maxScaleCount = Math.max(minScaleCount, 5000);
+  // Ruler ticks adapt to the zoom; one scale unit is one labelled tick
+  const { interval: scale, subdivisions: scaleSplitCount } =
+    getRulerScale(pixelsPerSecond);
+  const minScaleCount = Math.max(20, Math.ceil(duration / scale) + 1);
+  const maxScaleCount = Math.max(minScaleCount, Math.ceil(5000 / scale));
+
+  const clipById = useMemo(() => {
+    const map = new Map<string, TimelineTrackData["clips"][number]>();
+    for (const track of tracks) {
+      for (const clip of track.clips) {
+        map.set(clip.id, clip);
+      }
+    }
+    return map;
+  }, [tracks]);
+
+  // Snapping: a dragged edge jumps to the nearest target within the
+  // threshold, and otherwise to a whole frame
+  const [snapGuideTime, setSnapGuideTime] = useState<number | null>(null);
+  // Snapped position of the clip being moved or trimmed. It is shown while
+  // dragging and applied on drop; `edge` is set when the start is trimmed.
+  const [pendingSnap, setPendingSnapState] = useState<PendingSnap | null>(null);
+  const pendingSnapRef = useRef<PendingSnap | null>(null);
+  const setPendingSnap = useCallback((snap: PendingSnap | null) => {
+    pendingSnapRef.current = snap;
+    setPendingSnapState(snap);
+  }, []);
+
+  const getClipSnapTargets = useCallback(
+    (clipId: string) =>
+      getSnapTargets({
+        tracks,
+        playheadTime: currentTimeRef.current,
+        markIn,
+        markOut,
+        excludeClipId: clipId,
+      }),
+    [tracks, markIn, markOut],
+  );
+
+  const getSnappedClipStart = useCallback(
+    (clipId: string, start: number) => {
+      const clip = clipById.get(clipId);
+      if (!snapEnabled || !clip) {
+        setSnapGuideTime(null);
+        return start;
+      }
+      const result = snapClipStart(
+        start,
+        clip.duration,
+        getClipSnapTargets(clipId),
+        snapThreshold / pixelsPerSecond,
+        frameRate,
+      );
+      setSnapGuideTime(result.target?.time ?? null);
+      return result.time;
+    },
+    [
+      clipById,
+      snapEnabled,
+      getClipSnapTargets,
+      snapThreshold,
+      pixelsPerSecond,
+      frameRate,
+    ],
+  );
+
+  const getSnappedClipEdge = useCallback(
+    (clipId: string, time: number) => {
+      if (!snapEnabled) {
+        setSnapGuideTime(null);
+        return time;
+      }
+      const result = snapTime(
+        time,
+        getClipSnapTargets(clipId),
+        snapThreshold / pixelsPerSecond,
+        frameRate,
+      );
+      setSnapGuideTime(result.target?.time ?? null);
+      return result.time;
+    },
+    [
+      snapEnabled,
+      getClipSnapTargets,
+      snapThreshold,
+      pixelsPerSecond,
+      frameRate,
+    ],
+  );
+
+  // A snap is only taken if the clip stays clear of its neighbours
+  const fitsBetweenNeighbours = useCallback(
+    (clipId: string, start: number, end: number) => {
+      const track = tracks.find((track) =>
+        track.clips.some((clip) => clip.id === clipId),
+      );
+      return (
+        track?.clips.every(
+          (clip) =>
+            clip.id === clipId ||
+            clip.startTime + clip.duration <= start ||
+            clip.startTime >= end,
+        ) ?? true
+      );
+    },
+    [tracks],
+  );
 
   // Cross-track drag and drop hook
   const {
@@ -149,14 +416,157 @@ export const Timeline = memo(function Timeline({
     pixelsPerSecond,
     labelWidth,
     scrollTop: rowScrollTop,
+    scrollLeft,
+    snapClipStart: getSnappedClipStart,
     onTracksChange,
   });
 
-  const clipById = useMemo(() => {
-    const map = new Map<string, TimelineTrackData["clips"][number]>();
+  // Latest view state for handlers that outlive a render
+  const scrollLeftRef = useRef(0);
+  const pixelsPerSecondRef = useRef(pixelsPerSecond);
+  pixelsPerSecondRef.current = pixelsPerSecond;
+  const isPlayingRef = useRef(playerState.playing);
+  isPlayingRef.current = playerState.playing;
+  // Time held in place across a zoom, and where in the view it sits
+  const zoomAnchorRef = useRef<{ time: number; x: number } | null>(null);
+  const previousZoomRef = useRef(pixelsPerSecond);
+
+  // Width of the clip area, right of the track labels
+  const getViewWidth = useCallback(
+    () => (timelineContainerRef.current?.clientWidth ?? 0) - labelWidth,
+    [],
+  );
+
+  const scrollTimelineTo = useCallback((left: number) => {
+    const next = Math.max(0, left);
+    timelineRef.current?.setScrollLeft(next);
+    scrollLeftRef.current = next;
+    setScrollLeft(next);
+  }, []);
+
+  // Zoom around `anchor`, the view's centre by default
+  const zoomTo = useCallback(
+    (next: number, anchor?: { time: number; x: number }) => {
+      const current = pixelsPerSecondRef.current;
+      const x = anchor?.x ?? getViewWidth() / 2;
+      const time = anchor?.time ?? (scrollLeftRef.current + x) / current;
+      const clamped = clampZoom(next);
+      if (clamped === current) {
+        scrollTimelineTo(time * clamped - x);
+        return;
+      }
+      zoomAnchorRef.current = { time, x };
+      setPixelsPerSecond(clamped);
+    },
+    [getViewWidth, scrollTimelineTo, setPixelsPerSecond],
+  );
+
+  // Re-anchor the view after every zoom change, including ones made by the parent
+  useLayoutEffect(() => {
+    const previous = previousZoomRef.current;
+    if (previous === pixelsPerSecond) return;
+    previousZoomRef.current = pixelsPerSecond;
+
+    const x = getViewWidth() / 2;
+    const anchor = zoomAnchorRef.current ?? {
+      time: (scrollLeftRef.current + x) / previous,
+      x,
+    };
+    zoomAnchorRef.current = null;
+    scrollTimelineTo(anchor.time * pixelsPerSecond - anchor.x);
+  }, [pixelsPerSecond, getViewWidth, scrollTimelineTo]);
+
+  const zoomToRange = useCallback(
+    (start: number, end: number) => {
+      const next = getZoomToRange(start, end, getViewWidth());
+      zoomTo(next, {
+        time: start,
+        x: start * next - getRangeScrollLeft(start, next),
+      });
+    },
+    [getViewWidth, zoomTo],
+  );
+
+  const sequenceEnd = useMemo(
+    () =>
+      Math.max(
+        0,
+        ...tracks.flatMap((track) =>
+          track.clips.map((clip) => clip.startTime + clip.duration),
+        ),
+      ),
+    [tracks],
+  );
+
+  const zoomToFit = useCallback(() => {
+    zoomToRange(0, sequenceEnd || duration);
+  }, [duration, sequenceEnd, zoomToRange]);
+
+  const selectedClip = selectedClipId ? clipById.get(selectedClipId) : null;
+  const zoomToSelection = useCallback(() => {
+    if (!selectedClip) return;
+    zoomToRange(
+      selectedClip.startTime,
+      selectedClip.startTime + selectedClip.duration,
+    );
+  }, [selectedClip, zoomToRange]);
+
+  // Ctrl/Cmd + wheel zooms around the pointer
+  useEffect(() => {
+    const container = timelineContainerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const current = pixelsPerSecondRef.current;
+      const x = Math.max(
+        0,
+        e.clientX - container.getBoundingClientRect().left - labelWidth,
+      );
+      zoomTo(current * getWheelZoomFactor(e), {
+        time: (scrollLeftRef.current + x) / current,
+        x,
+      });
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [zoomTo]);
+
+  // While playing, turn the page once the playhead runs off either edge
+  const followPlayhead = useCallback(
+    (time: number) => {
+      if (!isPlayingRef.current) return;
+      const viewWidth = getViewWidth();
+      const x = time * pixelsPerSecondRef.current - scrollLeftRef.current;
+      if (
+        viewWidth <= 0 ||
+        (x >= 0 && x <= viewWidth - PLAYHEAD_FOLLOW_MARGIN)
+      ) {
+        return;
+      }
+      scrollTimelineTo(scrollLeftRef.current + x - PLAYHEAD_FOLLOW_MARGIN);
+    },
+    [getViewWidth, scrollTimelineTo],
+  );
+
+  // Transition halves drawn on each side of a cut
+  const transitionEdges = useMemo(() => {
+    const map = new Map<
+      string,
+      { in?: TransitionBoundary; out?: TransitionBoundary }
+    >();
     for (const track of tracks) {
-      for (const clip of track.clips) {
-        map.set(clip.id, clip);
+      for (const boundary of getTrackTransitions(track)) {
+        map.set(boundary.to.id, {
+          ...map.get(boundary.to.id),
+          in: boundary,
+        });
+        map.set(boundary.from.id, {
+          ...map.get(boundary.from.id),
+          out: boundary,
+        });
       }
     }
     return map;
@@ -174,25 +584,29 @@ export const Timeline = memo(function Timeline({
             ? "lc-timeline-row-image"
             : "lc-timeline-row-audio",
       ],
-      actions: (track.hidden ? [] : track.clips).map<TimelineAction>(
-        (clip) => ({
+      actions: (track.hidden ? [] : track.clips).map<TimelineAction>((clip) => {
+        // The clip being dragged sits where it snapped
+        const snap = pendingSnap?.actionId === clip.id ? pendingSnap : null;
+        return {
           id: clip.id,
-          start: clip.startTime,
-          end: clip.startTime + clip.duration,
+          start: snap?.start ?? clip.startTime,
+          end: snap?.end ?? clip.startTime + clip.duration,
           effectId: clip.type,
           movable: true,
           flexible: true,
           selected: clip.id === selectedClipId,
-        }),
-      ),
+        };
+      }),
     }));
-  }, [selectedClipId, tracks]);
+  }, [selectedClipId, tracks, pendingSnap]);
 
   const effects = useMemo<Record<string, TimelineEffect>>(
     () => ({
       video: { id: "video", name: "Video" },
       audio: { id: "audio", name: "Audio" },
       image: { id: "image", name: "Image" },
+      text: { id: "text", name: "Text" },
+      shape: { id: "shape", name: "Shape" },
     }),
     [],
   );
@@ -237,22 +651,24 @@ export const Timeline = memo(function Timeline({
     const { clip } = target;
     const splitPoint = playheadTime - clip.startTime;
     const timestamp = Date.now();
+    const [firstRange, secondRange] = splitClipSourceRange(clip, splitPoint);
 
     // First part: from clip start to playhead
     const firstPart: TimelineTrackData["clips"][number] = {
       ...clip,
+      ...firstRange,
       id: `${clip.id}-part1-${timestamp}`,
       duration: splitPoint,
-      trimEnd: clip.trimStart + splitPoint,
     };
 
     // Second part: from playhead to clip end
     const secondPart: TimelineTrackData["clips"][number] = {
       ...clip,
+      ...secondRange,
       id: `${clip.id}-part2-${timestamp}`,
       startTime: playheadTime,
       duration: clip.duration - splitPoint,
-      trimStart: clip.trimStart + splitPoint,
+      keyframes: shiftKeyframes(clip.keyframes, -splitPoint),
     };
 
     // Create new tracks with split clip
@@ -263,6 +679,12 @@ export const Timeline = memo(function Timeline({
         clips: track.clips.flatMap((c) =>
           c.id === clip.id ? [firstPart, secondPart] : [c],
         ),
+        transitions: remapSplitTransitions(
+          track.transitions,
+          clip.id,
+          firstPart.id,
+          secondPart.id,
+        ),
       };
     });
 
@@ -286,11 +708,17 @@ export const Timeline = memo(function Timeline({
         e.preventDefault();
         splitClipAtPlayhead();
       }
+
+      // Backslash zooms to fit the whole sequence
+      if (e.key === "\\" && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault();
+        zoomToFit();
+      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [splitClipAtPlayhead]);
+  }, [splitClipAtPlayhead, zoomToFit]);
 
   // Handle global mouse events for cross-track drag
   useEffect(() => {
@@ -327,11 +755,12 @@ export const Timeline = memo(function Timeline({
       const time = meta.getCurrentTime();
       currentTimeRef.current = time;
       timelineRef.current?.setTime(time);
+      followPlayhead(time);
     });
     // Sync initial time
     timelineRef.current?.setTime(meta.getCurrentTime());
     return unsubscribe;
-  }, [meta]);
+  }, [meta, followPlayhead]);
 
   // Also handle external currentTime prop if provided (for backwards compatibility)
   useEffect(() => {
@@ -379,6 +808,33 @@ export const Timeline = memo(function Timeline({
     [onTracksChange, tracks],
   );
 
+  const updateTrackMix = useCallback(
+    (trackId: string, mix: { volume: number; pan: number }) => {
+      if (!onTracksChange) return;
+      onTracksChange(
+        tracks.map((track) =>
+          track.id === trackId ? { ...track, ...mix } : track,
+        ),
+      );
+    },
+    [onTracksChange, tracks],
+  );
+
+  const updateClipFades = useCallback(
+    (clipId: string, fades: { fadeIn: number; fadeOut: number }) => {
+      if (!onTracksChange) return;
+      onTracksChange(
+        tracks.map((track) => ({
+          ...track,
+          clips: track.clips.map((clip) =>
+            clip.id === clipId ? { ...clip, ...fades } : clip,
+          ),
+        })),
+      );
+    },
+    [onTracksChange, tracks],
+  );
+
   const removeTrack = useCallback(
     (trackId: string) => {
       _onRemoveTrack?.(trackId);
@@ -517,14 +973,78 @@ export const Timeline = memo(function Timeline({
             </Tooltip>
           </TooltipProvider>
 
+          {/* Master Volume - part of the mix, applies to exports too */}
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Master</span>
+            <Slider
+              value={[playerState.masterVolume * 100]}
+              onValueChange={([v]) => setMasterVolume(v / 100)}
+              min={0}
+              max={100}
+              step={1}
+              className="w-20"
+              aria-label="Master volume"
+            />
+            <span className="text-xs font-medium w-9 text-right">
+              {Math.round(playerState.masterVolume * 100)}%
+            </span>
+          </div>
+
           <div className="h-4 w-px bg-border/50 mx-1" />
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn(
+                    "h-7 w-7 rounded-full hover:bg-background/80",
+                    snapEnabled && "bg-primary/20 text-primary",
+                  )}
+                  onClick={onToggleSnap}
+                  aria-pressed={snapEnabled}
+                >
+                  <Magnet className="h-3 w-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Toggle Snap (N)</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 rounded-full px-2 text-xs text-muted-foreground hover:bg-background/80"
+                aria-label="Snap distance"
+              >
+                {snapThreshold}px
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">
+                Snap distance
+              </DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={String(snapThreshold)}
+                onValueChange={(value) => setSnapThreshold(Number(value))}
+              >
+                {SNAP_THRESHOLD_OPTIONS.map((threshold) => (
+                  <DropdownMenuRadioItem
+                    key={threshold}
+                    value={String(threshold)}
+                  >
+                    {threshold}px
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button
             variant="ghost"
             size="icon"
             className="h-7 w-7 rounded-full hover:bg-background/80"
-            onClick={() =>
-              setPixelsPerSecond((prev) => Math.max(prev / 1.5, 10))
-            }
+            onClick={() => zoomTo(zoomOut(pixelsPerSecond))}
           >
             <Minus className="h-3 w-3" />
           </Button>
@@ -535,12 +1055,39 @@ export const Timeline = memo(function Timeline({
             variant="ghost"
             size="icon"
             className="h-7 w-7 rounded-full hover:bg-background/80"
-            onClick={() =>
-              setPixelsPerSecond((prev) => Math.min(prev * 1.5, 200))
-            }
+            onClick={() => zoomTo(zoomIn(pixelsPerSecond))}
           >
             <Plus className="h-3 w-3" />
           </Button>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 rounded-full hover:bg-background/80"
+                  onClick={zoomToFit}
+                >
+                  <Maximize2 className="h-3 w-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Zoom to Fit (\)</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 rounded-full hover:bg-background/80"
+                  onClick={zoomToSelection}
+                  disabled={!selectedClip}
+                >
+                  <Focus className="h-3 w-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Zoom to Selection</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
         </div>
       </div>
 
@@ -573,41 +1120,91 @@ export const Timeline = memo(function Timeline({
           editorData={editorData}
           effects={effects}
           scale={scale}
-          scaleWidth={pixelsPerSecond}
-          scaleSplitCount={10}
+          scaleWidth={scale * pixelsPerSecond}
+          scaleSplitCount={scaleSplitCount}
+          getScaleRender={(time) => formatRulerTime(time, scale)}
           startLeft={labelWidth}
           rowHeight={rowHeight}
           minScaleCount={minScaleCount}
           maxScaleCount={maxScaleCount}
-          dragLine={true}
+          dragLine={snapEnabled}
           autoScroll
-          onScroll={({ scrollTop }) => setRowScrollTop(scrollTop)}
+          onScroll={({ scrollTop, scrollLeft }) => {
+            setRowScrollTop(scrollTop);
+            setScrollLeft(scrollLeft);
+            scrollLeftRef.current = scrollLeft;
+          }}
           onActionMoveStart={({ action, row }) => {
+            setPendingSnap(null);
             // Start tracking for potential cross-track drag
             handleDragStart(action.id, row.id);
           }}
+          onActionMoving={({ action, start, end }) => {
+            const snappedStart = getSnappedClipStart(action.id, start);
+            const snappedEnd = snappedStart + (end - start);
+            const fits = fitsBetweenNeighbours(
+              action.id,
+              snappedStart,
+              snappedEnd,
+            );
+            setPendingSnap({
+              actionId: action.id,
+              start: fits ? snappedStart : start,
+              end: fits ? snappedEnd : end,
+            });
+          }}
+          onActionResizeStart={() => {
+            setPendingSnap(null);
+          }}
           onActionResizing={({ action, start, end, dir }) => {
             const clip = clipById.get(action.id);
             if (!clip) return;
-            if (dir === "left") {
-              return false;
-            }
 
-            // Images can be extended freely (no natural duration limit)
-            if (clip.type === "image") {
-              return;
-            }
-
-            const maxDuration = Math.max(
-              0,
-              (clip.asset?.duration ?? clip.trimEnd) - clip.trimStart,
-            );
+            // Images and generated layers can be extended freely (no natural duration limit)
+            const isStill = isStillClipType(clip.type);
+            const maxDuration = isStill
+              ? Number.POSITIVE_INFINITY
+              : dir === "left"
+                ? getMaxStartTrimmedDuration(clip)
+                : getMaxClipDuration(clip);
             const nextDuration = Math.max(0, end - start);
             if (nextDuration > maxDuration) {
               return false;
             }
+
+            // A snap that would outrun the source or overlap a neighbour is ignored
+            if (dir === "left") {
+              const snappedStart = getSnappedClipEdge(action.id, start);
+              const takeSnap =
+                snappedStart < end &&
+                end - snappedStart <= maxDuration &&
+                fitsBetweenNeighbours(action.id, snappedStart, end);
+              setPendingSnap({
+                actionId: action.id,
+                start: takeSnap ? snappedStart : start,
+                end,
+                edge: "start",
+              });
+              return;
+            }
+            const snappedEnd = getSnappedClipEdge(action.id, end);
+            const takeSnap =
+              snappedEnd > start &&
+              snappedEnd - start <= maxDuration &&
+              fitsBetweenNeighbours(action.id, start, snappedEnd);
+            setPendingSnap({
+              actionId: action.id,
+              start,
+              end: takeSnap ? snappedEnd : end,
+            });
+          }}
+          onActionResizeEnd={() => {
+            setSnapGuideTime(null);
+            setPendingSnap(null);
           }}
           onActionMoveEnd={() => {
+            setSnapGuideTime(null);
+            setPendingSnap(null);
             // End cross-track drag - if we're targeting a different track,
             // the hook will handle moving the clip
             if (
@@ -634,6 +1231,9 @@ export const Timeline = memo(function Timeline({
 
             const trackMap = new Map(tracks.map((track) => [track.id, track]));
 
+            // Land the dragged clip where it snapped
+            const snap = pendingSnapRef.current;
+
             const nextTracks = nextData.map((row) => {
               const baseTrack = trackMap.get(row.id);
               const type = baseTrack?.type ?? "video";
@@ -642,6 +1242,7 @@ export const Timeline = memo(function Timeline({
               const muted = baseTrack?.muted ?? false;
 
               return {
+                ...baseTrack,
                 id: row.id,
                 type,
                 label,
@@ -649,28 +1250,53 @@ export const Timeline = memo(function Timeline({
                 muted,
                 clips: row.actions.map((action) => {
                   const existing = clipById.get(action.id);
-                  const start = Math.max(0, action.start);
-                  const end = Math.max(start, action.end);
+                  const snapped = snap?.actionId === action.id ? snap : action;
+                  const start = Math.max(0, snapped.start);
+                  const end = Math.max(start, snapped.end);
                   const duration = end - start;
 
-                  // Images can be extended freely (no natural duration limit)
-                  const isImage = existing?.type === "image";
+                  // Images and generated layers can be extended freely (no natural duration limit)
+                  const isStill = existing
+                    ? isStillClipType(existing.type)
+                    : false;
                   const maxDuration =
-                    existing && !isImage
-                      ? Math.max(
-                          0,
-                          (existing.asset?.duration ?? existing.trimEnd) -
-                            existing.trimStart,
-                        )
+                    existing && !isStill
+                      ? getMaxClipDuration(existing)
                       : duration;
                   const clampedDuration = Math.min(duration, maxDuration);
 
+                  // A trimmed start keeps the end in place and moves the source start
+                  if (existing && snap?.actionId === action.id && snap.edge) {
+                    const trimmedDuration = isStill
+                      ? duration
+                      : Math.min(
+                          duration,
+                          getMaxStartTrimmedDuration(existing),
+                        );
+                    const startTime = end - trimmedDuration;
+                    return {
+                      ...existing,
+                      ...(isStill
+                        ? getResizedSourceRange(existing, trimmedDuration)
+                        : getStartTrimmedSourceRange(
+                            existing,
+                            trimmedDuration,
+                          )),
+                      startTime,
+                      duration: trimmedDuration,
+                      keyframes: shiftKeyframes(
+                        existing.keyframes,
+                        existing.startTime - startTime,
+                      ),
+                    };
+                  }
+
                   if (existing) {
                     return {
                       ...existing,
+                      ...getResizedSourceRange(existing, clampedDuration),
                       startTime: start,
                       duration: clampedDuration,
-                      trimEnd: existing.trimStart + clampedDuration,
                     };
                   }
 
@@ -711,8 +1337,12 @@ export const Timeline = memo(function Timeline({
             const clipType = clip?.type ?? "video";
             const isVideo = clipType === "video";
             const isImage = clipType === "image";
-            const isVisual = isVideo || isImage;
+            const isGenerated = isGeneratedClipType(clipType);
+            const isVisual = isVideo || isImage || isGenerated;
+            const hasAudio = isVideo || clipType === "audio";
             const thumbnails = clip?.thumbnails ?? [];
+            const edges = transitionEdges.get(action.id);
+            const isOffline = clip?.asset?.offline ?? false;
 
             // Calculate clip's visual pixel width on the timeline
             const clipDuration = action.end - action.start;
@@ -766,11 +1396,17 @@ export const Timeline = memo(function Timeline({
                   <button
                     type="button"
                     className={cn(
-                      "relative h-full w-full rounded-md border border-border/50",
+                      "group relative h-full w-full rounded-md border border-border/50",
                       "shadow-sm overflow-hidden",
                       "text-[11px] font-medium",
+                      isOffline && "border-amber-500/80 border-dashed",
                       action.selected && "ring-2 ring-primary ring-offset-1",
                     )}
+                    title={
+                      isOffline
+                        ? `Media offline: ${clip?.asset?.name}`
+                        : undefined
+                    }
                     onMouseDown={(event) =>
                       handlePointerDown(
                         action.id,
@@ -785,7 +1421,9 @@ export const Timeline = memo(function Timeline({
                         : "color-mix(in oklch, var(--background), transparent 10%)",
                     }}
                   >
-                    {isVisual ? (
+                    {isOffline ? (
+                      <div className="absolute inset-0 bg-[repeating-linear-gradient(135deg,rgb(245_158_11/0.25)_0_6px,transparent_6px_12px)]" />
+                    ) : isVisual ? (
                       filmstrip.length > 0 ? (
                         <div
                           className="absolute inset-0 opacity-90"
@@ -800,19 +1438,60 @@ export const Timeline = memo(function Timeline({
                         <div className="absolute inset-0 bg-gradient-to-r from-card/80 via-card/60 to-card/80" />
                       )
                     ) : clip?.asset ? (
-                      <AudioWaveform
-                        asset={clip.asset}
-                        trimStart={clip.trimStart}
-                        pixelsPerSecond={pixelsPerSecond}
-                        height={rowHeight}
-                        color="rgb(255, 223, 181)"
-                      />
+                      // Retimed clips stretch the waveform; reversed ones mirror it
+                      <div
+                        className={cn(
+                          "absolute inset-0",
+                          isClipReversed(clip) && "-scale-x-100",
+                        )}
+                      >
+                        <AudioWaveform
+                          asset={clip.asset}
+                          trimStart={clip.trimStart}
+                          pixelsPerSecond={
+                            pixelsPerSecond / Math.abs(getClipSpeed(clip))
+                          }
+                          height={rowHeight}
+                          color="rgb(255, 223, 181)"
+                        />
+                      </div>
                     ) : (
                       <div className="absolute inset-0 bg-gradient-to-r from-muted/80 via-muted/60 to-muted/80" />
                     )}
 
                     <div className="absolute inset-0 bg-gradient-to-r from-background/70 via-transparent to-background/70 pointer-events-none" />
-                    <div className="relative z-10 flex items-center h-full px-2 pointer-events-none">
+                    {edges?.in && (
+                      <TransitionEdge
+                        side="left"
+                        boundary={edges.in}
+                        pixelsPerSecond={pixelsPerSecond}
+                      />
+                    )}
+                    {edges?.out && (
+                      <TransitionEdge
+                        side="right"
+                        boundary={edges.out}
+                        pixelsPerSecond={pixelsPerSecond}
+                      />
+                    )}
+                    {clip && hasAudio && (
+                      <ClipFadeHandles
+                        {...getClipFades(clip)}
+                        duration={clip.duration}
+                        pixelsPerSecond={pixelsPerSecond}
+                        onChange={(fades) => updateClipFades(clip.id, fades)}
+                      />
+                    )}
+                    {clip?.keyframes && (
+                      <KeyframeMarkers
+                        times={getKeyframeTimes(clip.keyframes)}
+                        pixelsPerSecond={pixelsPerSecond}
+                      />
+                    )}
+                    <div className="relative z-10 flex items-center gap-1 h-full px-2 pointer-events-none">
+                      {isOffline && (
+                        <AlertTriangle className="h-3 w-3 shrink-0 text-amber-500" />
+                      )}
                       <span className="text-foreground truncate shadow-sm">
                         {clip?.name ?? action.id}
                       </span>
@@ -820,6 +1499,31 @@ export const Timeline = memo(function Timeline({
                   </button>
                 </ContextMenuTrigger>
                 <ContextMenuContent>
+                  {isOffline && onRelinkMedia && (
+                    <>
+                      <ContextMenuItem onClick={onRelinkMedia}>
+                        <Link2 className="h-4 w-4 mr-2" />
+                        Relink Media…
+                      </ContextMenuItem>
+                      <ContextMenuSeparator />
+                    </>
+                  )}
+                  <ContextMenuItem onClick={() => onCutClip?.(action.id)}>
+                    <Scissors className="h-4 w-4 mr-2" />
+                    Cut
+                    <ContextMenuShortcut>Ctrl+X</ContextMenuShortcut>
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onCopyClip?.(action.id)}>
+                    <ClipboardCopy className="h-4 w-4 mr-2" />
+                    Copy
+                    <ContextMenuShortcut>Ctrl+C</ContextMenuShortcut>
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onPaste?.()}>
+                    <ClipboardPaste className="h-4 w-4 mr-2" />
+                    Paste at Playhead
+                    <ContextMenuShortcut>Ctrl+V</ContextMenuShortcut>
+                  </ContextMenuItem>
+                  <ContextMenuSeparator />
                   <ContextMenuItem onClick={() => onDuplicateClip?.(action.id)}>
                     <Copy className="h-4 w-4 mr-2" />
                     Duplicate
@@ -956,6 +1660,21 @@ export const Timeline = memo(function Timeline({
                     )}
                   </button>
 
+                  {track.type !== "image" && (
+                    <TrackMixControls
+                      label={track.label}
+                      volume={getTrackVolume(track)}
+                      pan={getTrackPan(track)}
+                      onChange={(mix) => updateTrackMix(track.id, mix)}
+                      className={cn(
+                        "h-7 w-7 rounded-md border border-border/40",
+                        "bg-background/60 text-foreground/70",
+                        "hover:bg-background hover:text-foreground",
+                        "flex items-center justify-center",
+                      )}
+                    />
+                  )}
+
                   <button
                     type="button"
                     className={cn(
@@ -980,6 +1699,15 @@ export const Timeline = memo(function Timeline({
         )}
 
         {/* Ghost overlay for cross-track drag feedback */}
+        <InOutOverlay
+          markIn={markIn}
+          markOut={markOut}
+          duration={duration}
+          pixelsPerSecond={pixelsPerSecond}
+          labelWidth={labelWidth}
+          timeAreaHeight={timeAreaHeight}
+          scrollLeft={scrollLeft}
+        />
         <GhostTrackOverlay
           dragState={dragState}
           tracks={tracks}
@@ -989,6 +1717,13 @@ export const Timeline = memo(function Timeline({
           pixelsPerSecond={pixelsPerSecond}
           labelWidth={labelWidth}
           scrollTop={rowScrollTop}
+          scrollLeft={scrollLeft}
+        />
+        <SnapGuide
+          time={snapGuideTime}
+          pixelsPerSecond={pixelsPerSecond}
+          labelWidth={labelWidth}
+          scrollLeft={scrollLeft}
         />
         <TrackDragOverlay
           track={tracks.find((t) => t.id === draggedTrackId) || null}
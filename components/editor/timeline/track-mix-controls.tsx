@@ -0,0 +1,99 @@
+"use client";
+
+import { SlidersHorizontal } from "lucide-react";
+import { useState } from "react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+
+interface TrackMix {
+  volume: number;
+  pan: number;
+}
+
+interface TrackMixControlsProps extends TrackMix {
+  label: string;
+  onChange: (mix: TrackMix) => void;
+  className?: string;
+}
+
+function formatPan(pan: number): string {
+  const amount = Math.round(Math.abs(pan) * 100);
+  if (amount === 0) return "Center";
+  return `${pan < 0 ? "L" : "R"} ${amount}`;
+}
+
+/** Track volume and pan, committed when a slider is released */
+export function TrackMixControls({
+  label,
+  volume,
+  pan,
+  onChange,
+  className,
+}: TrackMixControlsProps) {
+  const [draft, setDraft] = useState<TrackMix | null>(null);
+  const current = draft ?? { volume, pan };
+
+  const commit = (mix: TrackMix) => {
+    setDraft(null);
+    onChange(mix);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={className}
+          aria-label={`${label} volume and pan`}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="start" className="w-56 space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-foreground/70">Volume</span>
+            <span>{Math.round(current.volume * 100)}%</span>
+          </div>
+          <Slider
+            value={[current.volume * 100]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([v]) => setDraft({ ...current, volume: v / 100 })}
+            onValueCommit={([v]) => commit({ ...current, volume: v / 100 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-foreground/70">Pan</span>
+            <button
+              type="button"
+              className={cn(
+                "text-xs hover:text-primary",
+                current.pan === 0 && "pointer-events-none",
+              )}
+              title="Reset to center"
+              onClick={() => commit({ ...current, pan: 0 })}
+            >
+              {formatPan(current.pan)}
+            </button>
+          </div>
+          <Slider
+            value={[current.pan * 100]}
+            min={-100}
+            max={100}
+            step={1}
+            onValueChange={([v]) => setDraft({ ...current, pan: v / 100 })}
+            onValueCommit={([v]) => commit({ ...current, pan: v / 100 })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { ExportQueuePanel } from "@/components/editor/export/export-queue-panel";
 import { ClapIcon } from "@/components/ui/clap";
 
 export default function Header() {
@@ -23,7 +24,8 @@ export default function Header() {
           <ClapIcon size={25} className="text-primary" />
           <span className="text-xl font-semibold">LocalCut</span>
         </Link>
-        <nav className="flex gap-2">
+        <nav className="flex items-center gap-2">
+          <ExportQueuePanel />
           <Link
             prefetch={true}
             href="/convert"
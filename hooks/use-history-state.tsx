@@ -0,0 +1,121 @@
+import * as React from "react";
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface HistoryUpdateOptions {
+  /**
+   * Consecutive updates sharing a merge key (within a short window) collapse
+   * into a single undo step, e.g. nudging a value repeatedly.
+   */
+  mergeKey?: string;
+}
+
+export type HistoryUpdate<T> = T | ((prev: T) => T);
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const MERGE_WINDOW_MS = 1000;
+
+/**
+ * useState with an undo/redo stack of snapshots.
+ *
+ * History lives in a ref as well as in state so undo/redo can return the
+ * restored value synchronously and several updates in one tick stack correctly.
+ */
+export function useHistoryState<T>(
+  initialState: T,
+  limit = DEFAULT_HISTORY_LIMIT,
+) {
+  const [history, setHistory] = React.useState<HistoryState<T>>({
+    past: [],
+    present: initialState,
+    future: [],
+  });
+  const historyRef = React.useRef(history);
+  const lastMergeRef = React.useRef<{ key: string; at: number } | null>(null);
+
+  const commit = React.useCallback((next: HistoryState<T>) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const set = React.useCallback(
+    (update: HistoryUpdate<T>, options?: HistoryUpdateOptions) => {
+      const current = historyRef.current;
+      const nextPresent =
+        typeof update === "function"
+          ? (update as (prev: T) => T)(current.present)
+          : update;
+      if (Object.is(nextPresent, current.present)) return;
+
+      const now = Date.now();
+      const mergeKey = options?.mergeKey;
+      const lastMerge = lastMergeRef.current;
+      const shouldMerge =
+        mergeKey !== undefined &&
+        lastMerge?.key === mergeKey &&
+        now - lastMerge.at < MERGE_WINDOW_MS &&
+        current.past.length > 0;
+      lastMergeRef.current = mergeKey ? { key: mergeKey, at: now } : null;
+
+      commit({
+        past: shouldMerge
+          ? current.past
+          : [...current.past, current.present].slice(-limit),
+        present: nextPresent,
+        future: [],
+      });
+    },
+    [commit, limit],
+  );
+
+  /** Replace the value and drop all history (e.g. after loading a document) */
+  const reset = React.useCallback(
+    (next: T) => {
+      lastMergeRef.current = null;
+      commit({ past: [], present: next, future: [] });
+    },
+    [commit],
+  );
+
+  const undo = React.useCallback((): T | undefined => {
+    const current = historyRef.current;
+    if (current.past.length === 0) return undefined;
+
+    const previous = current.past[current.past.length - 1];
+    lastMergeRef.current = null;
+    commit({
+      past: current.past.slice(0, -1),
+      present: previous,
+      future: [current.present, ...current.future],
+    });
+    return previous;
+  }, [commit]);
+
+  const redo = React.useCallback((): T | undefined => {
+    const current = historyRef.current;
+    if (current.future.length === 0) return undefined;
+
+    const next = current.future[0];
+    lastMergeRef.current = null;
+    commit({
+      past: [...current.past, current.present].slice(-limit),
+      present: next,
+      future: current.future.slice(1),
+    });
+    return next;
+  }, [commit, limit]);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  } as const;
+}
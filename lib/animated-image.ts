@@ -0,0 +1,787 @@
+import type { OutputWriter } from "@/lib/output-target";
+
+// ============================================================================
+// Formats and settings
+// ============================================================================
+
+export const animatedImageFormats = ["gif", "webp"] as const;
+
+export type AnimatedImageFormat = (typeof animatedImageFormats)[number];
+
+export const isAnimatedImageFormat = (
+  value: string,
+): value is AnimatedImageFormat =>
+  (animatedImageFormats as readonly string[]).includes(value);
+
+export const getAnimatedImageMimeType = (format: AnimatedImageFormat) =>
+  format === "gif" ? "image/gif" : "image/webp";
+
+/** Whether GIF frames share one palette or each get their own */
+export type PaletteMode = "global" | "per-frame";
+
+export interface AnimatedImageSettings {
+  /** 0 loops forever; otherwise how many times the animation plays */
+  loopCount?: number;
+  /** Longest side in pixels; larger frames are scaled down to fit */
+  maxSize?: number;
+  /** GIF only */
+  paletteMode?: PaletteMode;
+  /** GIF only: Floyd–Steinberg dithering against the palette */
+  dither?: boolean;
+  /** WebP only: 0-1 */
+  quality?: number;
+}
+
+// GIF delays are whole centiseconds and most viewers clamp anything under 2
+export const ANIMATED_IMAGE_MAX_FPS = 50;
+export const DEFAULT_ANIMATED_IMAGE_MAX_SIZE = 480;
+const DEFAULT_WEBP_QUALITY = 0.8;
+
+/** Size of a `width` x `height` frame scaled down to fit `maxSize` */
+export function fitAnimatedImageSize(
+  width: number,
+  height: number,
+  maxSize = DEFAULT_ANIMATED_IMAGE_MAX_SIZE,
+): { width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Rough output size in bytes, for showing before an export starts. Real
+ * sizes depend heavily on content: flat motion graphics compress far better
+ * than camera footage.
+ */
+export function estimateAnimatedImageSize(params: {
+  format: AnimatedImageFormat;
+  width: number;
+  height: number;
+  fps: number;
+  durationSeconds: number;
+  settings?: AnimatedImageSettings;
+}): number {
+  const { format, fps, durationSeconds, settings } = params;
+  const { width, height } = fitAnimatedImageSize(
+    params.width,
+    params.height,
+    settings?.maxSize,
+  );
+  const frameCount = Math.ceil(
+    durationSeconds * Math.min(fps, ANIMATED_IMAGE_MAX_FPS),
+  );
+  const pixels = width * height;
+
+  if (format === "webp") {
+    const quality = settings?.quality ?? DEFAULT_WEBP_QUALITY;
+    return Math.round(frameCount * pixels * (0.05 + 0.15 * quality));
+  }
+  const bytesPerPixel = settings?.dither ? 0.45 : 0.3;
+  const paletteBytes = settings?.paletteMode === "per-frame" ? 768 : 0;
+  return Math.round(frameCount * (pixels * bytesPerPixel + paletteBytes));
+}
+
+// ============================================================================
+// Palette quantization (median cut over a 5-bit-per-channel histogram)
+// ============================================================================
+
+const HISTOGRAM_SIZE = 1 << 15;
+// Only every Nth pixel feeds the histogram
+const HISTOGRAM_STRIDE = 2;
+const MAX_PALETTE_COLORS = 256;
+
+interface ColorHistogram {
+  counts: Uint32Array;
+  sums: Float64Array;
+}
+
+function createHistogram(): ColorHistogram {
+  return {
+    counts: new Uint32Array(HISTOGRAM_SIZE),
+    sums: new Float64Array(HISTOGRAM_SIZE * 3),
+  };
+}
+
+const colorKey = (r: number, g: number, b: number) =>
+  ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+function addToHistogram(histogram: ColorHistogram, pixels: Uint8ClampedArray) {
+  const step = 4 * HISTOGRAM_STRIDE;
+  for (let i = 0; i < pixels.length; i += step) {
+    const key = colorKey(pixels[i], pixels[i + 1], pixels[i + 2]);
+    histogram.counts[key]++;
+    histogram.sums[key * 3] += pixels[i];
+    histogram.sums[key * 3 + 1] += pixels[i + 1];
+    histogram.sums[key * 3 + 2] += pixels[i + 2];
+  }
+}
+
+const keyChannel = (key: number, channel: number) =>
+  (key >> (10 - channel * 5)) & 31;
+
+/** Up to 256 RGB colors (3 bytes each) that best cover the histogram */
+function buildPalette(histogram: ColorHistogram): Uint8Array {
+  const keys: number[] = [];
+  for (let key = 0; key < HISTOGRAM_SIZE; key++) {
+    if (histogram.counts[key] > 0) keys.push(key);
+  }
+  if (keys.length === 0) return new Uint8Array(3);
+
+  // Each box covers keys[start..end) and knows its widest channel
+  type Box = {
+    start: number;
+    end: number;
+    count: number;
+    longest: number;
+    axis: number;
+  };
+  const createBox = (start: number, end: number, count: number): Box => {
+    let longest = 0;
+    let axis = 0;
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 31;
+      let max = 0;
+      for (let i = start; i < end; i++) {
+        const value = keyChannel(keys[i], channel);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > longest) {
+        longest = max - min;
+        axis = channel;
+      }
+    }
+    return { start, end, count, longest, axis };
+  };
+
+  let total = 0;
+  for (const key of keys) total += histogram.counts[key];
+  const boxes: Box[] = [createBox(0, keys.length, total)];
+
+  while (boxes.length < MAX_PALETTE_COLORS) {
+    // Split the box that covers the most pixels over the widest range
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.count * box.longest;
+      if (box.end - box.start > 1 && score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const sorted = keys
+      .slice(box.start, box.end)
+      .sort((a, b) => keyChannel(a, box.axis) - keyChannel(b, box.axis));
+    sorted.forEach((key, i) => {
+      keys[box.start + i] = key;
+    });
+
+    // Split at the median pixel, keeping at least one bin on each side
+    let running = 0;
+    let split = box.start + 1;
+    for (let i = box.start; i < box.end - 1; i++) {
+      running += histogram.counts[keys[i]];
+      split = i + 1;
+      if (running >= box.count / 2) break;
+    }
+    boxes.splice(
+      target,
+      1,
+      createBox(box.start, split, running),
+      createBox(split, box.end, box.count - running),
+    );
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let count = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (let i = box.start; i < box.end; i++) {
+      const key = keys[i];
+      count += histogram.counts[key];
+      r += histogram.sums[key * 3];
+      g += histogram.sums[key * 3 + 1];
+      b += histogram.sums[key * 3 + 2];
+    }
+    palette[index * 3] = Math.round(r / count);
+    palette[index * 3 + 1] = Math.round(g / count);
+    palette[index * 3 + 2] = Math.round(b / count);
+  });
+  return palette;
+}
+
+/** Nearest palette entry, cached per 5-bit color */
+function createColorMatcher(palette: Uint8Array) {
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+  const colorCount = palette.length / 3;
+  return (r: number, g: number, b: number) => {
+    const key = colorKey(r, g, b);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < colorCount; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+}
+
+/** Palette index per pixel, optionally with Floyd–Steinberg dithering */
+function mapToPalette(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  match: (r: number, g: number, b: number) => number,
+  dither: boolean,
+): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  if (!dither) {
+    for (let p = 0; p < indices.length; p++) {
+      indices[p] = match(pixels[p * 4], pixels[p * 4 + 1], pixels[p * 4 + 2]);
+    }
+    return indices;
+  }
+
+  // Error carried into the current and next rows, per channel
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+  const clamp = (value: number) => Math.max(0, Math.min(255, value));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const e = (x + 1) * 3;
+      const r = clamp(pixels[p * 4] + current[e]);
+      const g = clamp(pixels[p * 4 + 1] + current[e + 1]);
+      const b = clamp(pixels[p * 4 + 2] + current[e + 2]);
+      const index = match(r, g, b);
+      indices[p] = index;
+
+      const errors = [
+        r - palette[index * 3],
+        g - palette[index * 3 + 1],
+        b - palette[index * 3 + 2],
+      ];
+      for (let c = 0; c < 3; c++) {
+        current[e + 3 + c] += (errors[c] * 7) / 16;
+        next[e - 3 + c] += (errors[c] * 3) / 16;
+        next[e + c] += (errors[c] * 5) / 16;
+        next[e + 3 + c] += errors[c] / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return indices;
+}
+
+// ============================================================================
+// GIF encoding
+// ============================================================================
+
+/** Growable byte buffer for building file parts in memory */
+interface ByteWriter {
+  readonly length: number;
+  byte: (value: number) => void;
+  bytes: (values: ArrayLike<number>) => void;
+  uint16: (value: number) => void;
+  uint24: (value: number) => void;
+  uint32: (value: number) => void;
+  ascii: (text: string) => void;
+  /** The bytes written so far; the writer starts over empty */
+  take: () => Uint8Array<ArrayBuffer>;
+}
+
+function createByteWriter(): ByteWriter {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const reserve = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length * 2;
+    while (size < length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+
+  const writer: ByteWriter = {
+    get length() {
+      return length;
+    },
+    byte: (value) => {
+      reserve(1);
+      buffer[length++] = value;
+    },
+    bytes: (values) => {
+      reserve(values.length);
+      buffer.set(values, length);
+      length += values.length;
+    },
+    uint16: (value) => {
+      writer.byte(value & 0xff);
+      writer.byte((value >> 8) & 0xff);
+    },
+    uint24: (value) => {
+      writer.uint16(value & 0xffff);
+      writer.byte((value >> 16) & 0xff);
+    },
+    uint32: (value) => {
+      writer.uint16(value & 0xffff);
+      writer.uint16((value >>> 16) & 0xffff);
+    },
+    ascii: (text) => {
+      for (let i = 0; i < text.length; i++) writer.byte(text.charCodeAt(i));
+    },
+    take: () => {
+      const bytes = buffer.slice(0, length);
+      length = 0;
+      return bytes;
+    },
+  };
+  return writer;
+}
+
+const LZW_MAX_CODE = 4096;
+const LZW_HASH_SIZE = 5003;
+
+/** LZW-compress palette indices into GIF image data sub-blocks */
+function writeLzwData(
+  writer: ByteWriter,
+  indices: Uint8Array,
+  minCodeSize: number,
+) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const hashKeys = new Int32Array(LZW_HASH_SIZE).fill(-1);
+  const hashCodes = new Int32Array(LZW_HASH_SIZE);
+
+  let codeSize = minCodeSize + 1;
+  let maxCode = (1 << codeSize) - 1;
+  let nextCode = endCode + 1;
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  const pushByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) {
+      writer.byte(blockLength);
+      writer.bytes(block);
+      blockLength = 0;
+    }
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      pushByte(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+    // Widen codes once the next table entry no longer fits
+    if (nextCode > maxCode && codeSize < 12) {
+      codeSize++;
+      maxCode = codeSize === 12 ? LZW_MAX_CODE : (1 << codeSize) - 1;
+    }
+  };
+
+  writer.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    let slot = ((value << 4) ^ prefix) % LZW_HASH_SIZE;
+    let found = -1;
+    while (hashKeys[slot] !== -1) {
+      if (hashKeys[slot] === key) {
+        found = hashCodes[slot];
+        break;
+      }
+      slot = (slot + 1) % LZW_HASH_SIZE;
+    }
+    if (found !== -1) {
+      prefix = found;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < LZW_MAX_CODE) {
+      hashKeys[slot] = key;
+      hashCodes[slot] = nextCode++;
+    } else {
+      emit(clearCode);
+      hashKeys.fill(-1);
+      codeSize = minCodeSize + 1;
+      maxCode = (1 << codeSize) - 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) pushByte(bits & 0xff);
+  if (blockLength > 0) {
+    writer.byte(blockLength);
+    writer.bytes(block.subarray(0, blockLength));
+  }
+  writer.byte(0);
+}
+
+/** Color table padded to a power of two, with its size as GIF flag bits */
+function toColorTable(palette: Uint8Array): {
+  table: Uint8Array;
+  sizeBits: number;
+} {
+  const colorCount = palette.length / 3;
+  let sizeBits = 1;
+  while (1 << sizeBits < colorCount) sizeBits++;
+  const table = new Uint8Array((1 << sizeBits) * 3);
+  table.set(palette);
+  return { table, sizeBits };
+}
+
+interface GifPalette {
+  colors: Uint8Array;
+  table: ReturnType<typeof toColorTable>;
+  match: ReturnType<typeof createColorMatcher>;
+}
+
+function createGifPalette(histogram: ColorHistogram): GifPalette {
+  const colors = buildPalette(histogram);
+  return {
+    colors,
+    table: toColorTable(colors),
+    match: createColorMatcher(colors),
+  };
+}
+
+function writeGifHeader(
+  writer: ByteWriter,
+  width: number,
+  height: number,
+  loopCount: number,
+  globalTable: ReturnType<typeof toColorTable> | null,
+) {
+  writer.ascii("GIF89a");
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.byte(globalTable ? 0x80 | 0x70 | (globalTable.sizeBits - 1) : 0x70);
+  writer.byte(0); // background color index
+  writer.byte(0); // pixel aspect ratio
+  if (globalTable) writer.bytes(globalTable.table);
+
+  // A single play needs no NETSCAPE block; otherwise it counts repeats
+  if (loopCount !== 1) {
+    writer.byte(0x21);
+    writer.byte(0xff);
+    writer.byte(11);
+    writer.ascii("NETSCAPE2.0");
+    writer.byte(3);
+    writer.byte(1);
+    writer.uint16(loopCount === 0 ? 0 : loopCount - 1);
+    writer.byte(0);
+  }
+}
+
+function writeGifFrame(
+  writer: ByteWriter,
+  params: {
+    width: number;
+    height: number;
+    indices: Uint8Array;
+    delay: number;
+    localTable: ReturnType<typeof toColorTable> | null;
+    sizeBits: number;
+  },
+) {
+  const { width, height, indices, delay, localTable, sizeBits } = params;
+
+  // Graphic control extension: frame delay in centiseconds
+  writer.byte(0x21);
+  writer.byte(0xf9);
+  writer.byte(4);
+  writer.byte(0);
+  writer.uint16(delay);
+  writer.byte(0);
+  writer.byte(0);
+
+  // Image descriptor
+  writer.byte(0x2c);
+  writer.uint16(0);
+  writer.uint16(0);
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.byte(localTable ? 0x80 | (localTable.sizeBits - 1) : 0);
+  if (localTable) writer.bytes(localTable.table);
+
+  writeLzwData(writer, indices, Math.max(2, sizeBits));
+}
+
+/** Display time of frame `index`, rounded so the total doesn't drift */
+function getFrameDuration(
+  index: number,
+  fps: number,
+  unitsPerSecond: number,
+  minimum: number,
+): number {
+  return Math.max(
+    minimum,
+    Math.round(((index + 1) * unitsPerSecond) / fps) -
+      Math.round((index * unitsPerSecond) / fps),
+  );
+}
+
+// ============================================================================
+// Animated WebP muxing
+// ============================================================================
+
+/** The image chunks (ALPH, VP8, VP8L) of a still WebP file */
+function readWebpImageChunks(file: Uint8Array): {
+  chunks: Uint8Array;
+  hasAlpha: boolean;
+} {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const fourCC = (offset: number) =>
+    String.fromCharCode(...file.subarray(offset, offset + 4));
+  if (fourCC(0) !== "RIFF" || fourCC(8) !== "WEBP") {
+    throw new Error("Encoded frame is not a WebP image.");
+  }
+
+  const parts: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const type = fourCC(offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (type === "ALPH" || type === "VP8 " || type === "VP8L") {
+      parts.push(file.subarray(offset, Math.min(end, file.length)));
+      if (type !== "VP8 ") hasAlpha = true;
+    }
+    offset = end;
+  }
+
+  const writer = createByteWriter();
+  for (const part of parts) writer.bytes(part);
+  return { chunks: writer.take(), hasAlpha };
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+// Frames the global GIF palette is built from, spread over the animation
+const PALETTE_SAMPLE_FRAMES = 16;
+
+export interface AnimatedImageEncoder {
+  /**
+   * How many frames, spread over the whole animation, to pass to
+   * `addPaletteSample` before the first `addFrame`; 0 if none are needed
+   */
+  paletteSampleCount: number;
+  /** Add a frame's colors to the shared GIF palette without encoding it */
+  addPaletteSample: (source: CanvasImageSource) => void;
+  /** Scale `source` to the output size and write it as the next frame */
+  addFrame: (source: CanvasImageSource) => Promise<void>;
+  /** Write the end of the file; the caller then closes `output` */
+  finalize: () => Promise<void>;
+}
+
+/**
+ * Encode frames into an animated GIF or WebP, writing each one to `output`
+ * as soon as it is encoded. Frames are drawn onto a scratch canvas, so any
+ * canvas (including one with a WebGL context) can be passed in.
+ */
+export function createAnimatedImageEncoder(params: {
+  format: AnimatedImageFormat;
+  width: number;
+  height: number;
+  fps: number;
+  settings?: AnimatedImageSettings;
+  output: OutputWriter;
+}): AnimatedImageEncoder {
+  const { format, fps, settings, output } = params;
+  const { width, height } = fitAnimatedImageSize(
+    params.width,
+    params.height,
+    settings?.maxSize,
+  );
+  const loopCount = Math.max(0, Math.round(settings?.loopCount ?? 0));
+  const frameRate = Math.min(fps, ANIMATED_IMAGE_MAX_FPS);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Failed to get 2d context");
+
+  const drawFrame = (source: CanvasImageSource) => {
+    context.clearRect(0, 0, width, height);
+    context.drawImage(source, 0, 0, width, height);
+  };
+
+  const writer = createByteWriter();
+  const flush = () => output.write(writer.take());
+  let frameCount = 0;
+
+  if (format === "webp") {
+    const quality = settings?.quality ?? DEFAULT_WEBP_QUALITY;
+    // The RIFF size and the alpha flag are only known at the end
+    let fileSize = 0;
+    let hasAlpha = false;
+
+    const writeHeader = () => {
+      writer.ascii("RIFF");
+      writer.uint32(0);
+      writer.ascii("WEBP");
+      writer.ascii("VP8X");
+      writer.uint32(10);
+      writer.byte(0x02);
+      writer.uint24(0);
+      writer.uint24(width - 1);
+      writer.uint24(height - 1);
+      writer.ascii("ANIM");
+      writer.uint32(6);
+      writer.uint32(0); // background color
+      writer.uint16(loopCount);
+      fileSize += writer.length;
+      return flush();
+    };
+
+    return {
+      paletteSampleCount: 0,
+      addPaletteSample: () => undefined,
+      addFrame: async (source) => {
+        if (fileSize === 0) await writeHeader();
+        drawFrame(source);
+        const blob = await canvas.convertToBlob({
+          type: "image/webp",
+          quality,
+        });
+        if (blob.type !== "image/webp") {
+          throw new Error("This browser can't encode WebP images.");
+        }
+        const image = readWebpImageChunks(
+          new Uint8Array(await blob.arrayBuffer()),
+        );
+        hasAlpha ||= image.hasAlpha;
+
+        writer.ascii("ANMF");
+        writer.uint32(16 + image.chunks.length);
+        writer.uint24(0);
+        writer.uint24(0);
+        writer.uint24(width - 1);
+        writer.uint24(height - 1);
+        writer.uint24(getFrameDuration(frameCount++, frameRate, 1000, 1));
+        writer.byte(0x02); // no blending, keep the frame
+        writer.bytes(image.chunks);
+        fileSize += writer.length;
+        await flush();
+      },
+      finalize: async () => {
+        if (fileSize === 0) await writeHeader();
+        writer.uint32(fileSize - 8);
+        await output.write(writer.take(), 4);
+        writer.byte(0x02 | (hasAlpha ? 0x10 : 0));
+        await output.write(writer.take(), 20);
+      },
+    };
+  }
+
+  // GIF: per-frame palettes encode each frame on its own. A global palette
+  // is built from sampled frames (or the first frame, if none were sampled)
+  // before the header goes out, so no frame has to wait for the rest.
+  const paletteMode = settings?.paletteMode ?? "global";
+  const dither = settings?.dither ?? false;
+  const globalHistogram = paletteMode === "global" ? createHistogram() : null;
+  let globalPalette: GifPalette | null = null;
+  let sampled = false;
+  let started = false;
+
+  const writeHeader = () => {
+    started = true;
+    if (globalHistogram) globalPalette = createGifPalette(globalHistogram);
+    writeGifHeader(
+      writer,
+      width,
+      height,
+      loopCount,
+      globalPalette?.table ?? null,
+    );
+    return flush();
+  };
+
+  return {
+    paletteSampleCount: globalHistogram ? PALETTE_SAMPLE_FRAMES : 0,
+    addPaletteSample: (source) => {
+      if (!globalHistogram || started) return;
+      drawFrame(source);
+      addToHistogram(
+        globalHistogram,
+        context.getImageData(0, 0, width, height).data,
+      );
+      sampled = true;
+    },
+    addFrame: async (source) => {
+      drawFrame(source);
+      const pixels = context.getImageData(0, 0, width, height).data;
+      const delay = getFrameDuration(frameCount++, frameRate, 100, 2);
+
+      if (!started) {
+        if (globalHistogram && !sampled)
+          addToHistogram(globalHistogram, pixels);
+        await writeHeader();
+      }
+
+      let palette = globalPalette;
+      if (!palette) {
+        const histogram = createHistogram();
+        addToHistogram(histogram, pixels);
+        palette = createGifPalette(histogram);
+      }
+      writeGifFrame(writer, {
+        width,
+        height,
+        indices: mapToPalette(
+          pixels,
+          width,
+          height,
+          palette.colors,
+          palette.match,
+          dither,
+        ),
+        delay,
+        localTable: globalPalette ? null : palette.table,
+        sizeBits: palette.table.sizeBits,
+      });
+      await flush();
+    },
+    finalize: async () => {
+      if (!started) await writeHeader();
+      writer.byte(0x3b);
+      await flush();
+    },
+  };
+}
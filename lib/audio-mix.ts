@@ -0,0 +1,108 @@
+import type {
+  TimelineClipWithAsset,
+  TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
+
+// ============================================================================
+// Levels
+// ============================================================================
+
+/** Clip gain range, in dB */
+export const CLIP_GAIN_MIN_DB = -24;
+export const CLIP_GAIN_MAX_DB = 12;
+
+export function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+/** Linear gain of a clip before fades */
+export function getClipGain(clip: TimelineClipWithAsset): number {
+  return dbToGain(clip.gain ?? 0);
+}
+
+export function getTrackVolume(track: TimelineTrackData): number {
+  return track.volume ?? 1;
+}
+
+export function getTrackPan(track: TimelineTrackData): number {
+  return track.pan ?? 0;
+}
+
+// ============================================================================
+// Fades
+// ============================================================================
+
+/** Fade lengths clamped to the clip, with the fade-in taking precedence */
+export function getClipFades(clip: TimelineClipWithAsset): {
+  fadeIn: number;
+  fadeOut: number;
+} {
+  const fadeIn = Math.min(Math.max(0, clip.fadeIn ?? 0), clip.duration);
+  const fadeOut = Math.min(
+    Math.max(0, clip.fadeOut ?? 0),
+    clip.duration - fadeIn,
+  );
+  return { fadeIn, fadeOut };
+}
+
+/** 0-1 fade envelope at clip-local `time` (linear ramps) */
+export function getFadeLevel(
+  clip: TimelineClipWithAsset,
+  time: number,
+): number {
+  const { fadeIn, fadeOut } = getClipFades(clip);
+  let level = 1;
+  if (fadeIn > 0 && time < fadeIn) {
+    level = Math.max(0, time / fadeIn);
+  }
+  const remaining = clip.duration - time;
+  if (fadeOut > 0 && remaining < fadeOut) {
+    level = Math.min(level, Math.max(0, remaining / fadeOut));
+  }
+  return level;
+}
+
+// ============================================================================
+// Mix
+// ============================================================================
+
+/**
+ * Volume of a clip at timeline `time`: clip gain, fade, track volume and
+ * master volume combined. Preview applies it per frame; export schedules the
+ * same curve on Web Audio gain nodes.
+ */
+export function getClipMixVolume(params: {
+  clip: TimelineClipWithAsset;
+  track: TimelineTrackData;
+  time: number;
+  masterVolume: number;
+}): number {
+  const { clip, track, time, masterVolume } = params;
+  return (
+    getClipGain(clip) *
+    getFadeLevel(clip, time - clip.startTime) *
+    getTrackVolume(track) *
+    masterVolume
+  );
+}
+
+/**
+ * Equal-power pan gains per input channel into left and right, matching
+ * Web Audio's StereoPannerNode, which pans the preview's streamed clips.
+ * Export mixes with them.
+ */
+export function getPanGains(
+  pan: number,
+  inputChannels: number,
+): { left: [number, number]; right: [number, number] } {
+  if (inputChannels === 1) {
+    const x = ((pan + 1) / 2) * (Math.PI / 2);
+    return { left: [Math.cos(x), 0], right: [Math.sin(x), 0] };
+  }
+  if (pan <= 0) {
+    const x = (pan + 1) * (Math.PI / 2);
+    return { left: [1, Math.cos(x)], right: [0, Math.sin(x)] };
+  }
+  const x = pan * (Math.PI / 2);
+  return { left: [Math.cos(x), 0], right: [Math.sin(x), 1] };
+}
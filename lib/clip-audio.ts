@@ -0,0 +1,370 @@
+"use client";
+
+import { type AudioSample, AudioSampleSink } from "mediabunny";
+import type { TimelineClipWithAsset } from "@/components/editor/preview/timeline-player-context";
+import {
+  getClipSpeed,
+  getResizedSourceRange,
+  isClipRetimed,
+  isClipReversed,
+} from "@/lib/clip-speed";
+import { timeStretch } from "@/lib/time-stretch";
+
+// ============================================================================
+// Clip audio (plain sample arrays – Web Audio is unavailable in workers)
+// ============================================================================
+
+/** Planar sample data, one array per channel */
+export type AudioChannels = Float32Array<ArrayBuffer>[];
+
+/** Decode `start`-`end` of a source into planar channels at its own rate */
+async function decodeSourceRange(
+  sink: AudioSampleSink,
+  start: number,
+  end: number,
+): Promise<{ channels: AudioChannels; sampleRate: number } | null> {
+  let channels: AudioChannels | null = null;
+  let sampleRate = 0;
+
+  for await (const sample of sink.samples(start, end)) {
+    if (!channels) {
+      sampleRate = sample.sampleRate;
+      const length = Math.ceil((end - start) * sampleRate);
+      if (length <= 0) {
+        sample.close();
+        return null;
+      }
+      channels = Array.from(
+        { length: sample.numberOfChannels },
+        () => new Float32Array(length),
+      );
+    }
+
+    // Lay the samples out by timestamp, cropped to the range
+    const length = channels[0].length;
+    const offset = Math.round((sample.timestamp - start) * sampleRate);
+    const from = Math.max(0, -offset);
+    const to = Math.min(sample.numberOfFrames, length - offset);
+    if (to > from) {
+      for (let c = 0; c < channels.length; c++) {
+        channels[c].set(
+          copySamplePlane(
+            sample,
+            Math.min(c, sample.numberOfChannels - 1),
+          ).subarray(from, to),
+          offset + from,
+        );
+      }
+    }
+    sample.close();
+  }
+
+  return channels ? { channels, sampleRate } : null;
+}
+
+function copySamplePlane(sample: AudioSample, planeIndex: number) {
+  const data = new Float32Array(sample.numberOfFrames);
+  sample.copyTo(data, { planeIndex, format: "f32-planar" });
+  return data;
+}
+
+/** Linear resampling; `ratio` is input samples per output sample */
+function resample(channels: AudioChannels, ratio: number): AudioChannels {
+  if (ratio === 1) return channels;
+  return channels.map((input) => {
+    const output = new Float32Array(Math.floor(input.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, input.length - 1);
+      const fraction = position - index;
+      output[i] = input[index] * (1 - fraction) + input[next] * fraction;
+    }
+    return output;
+  });
+}
+
+/** Audio rendered either side of part of a clip, so stretching it doesn't fade its edges */
+const RANGE_PADDING = 0.05;
+
+/**
+ * A clip's audio as it plays on the timeline, at `sampleRate`: reversed and
+ * time-stretched as needed. Without pitch preservation retimed clips are
+ * resampled instead, which also shifts the pitch. `range` limits it to part
+ * of the clip, in clip-local seconds.
+ */
+export async function renderClipAudio(
+  sink: AudioSampleSink,
+  clip: TimelineClipWithAsset,
+  sampleRate: number,
+  range: { from: number; to: number } = { from: 0, to: clip.duration },
+): Promise<AudioChannels | null> {
+  const from = Math.max(0, range.from - RANGE_PADDING);
+  const to = Math.min(clip.duration, range.to + RANGE_PADDING);
+  const speed = Math.abs(getClipSpeed(clip));
+  const { trimStart, trimEnd } = getResizedSourceRange(clip, clip.duration);
+  const reversed = isClipReversed(clip);
+  const decoded = reversed
+    ? await decodeSourceRange(
+        sink,
+        trimEnd - to * speed,
+        trimEnd - from * speed,
+      )
+    : await decodeSourceRange(
+        sink,
+        trimStart + from * speed,
+        trimStart + to * speed,
+      );
+  if (!decoded) return null;
+
+  const { channels, sampleRate: sourceRate } = decoded;
+  if (reversed) {
+    for (const data of channels) data.reverse();
+  }
+
+  const rendered =
+    isClipRetimed(clip) && (clip.preservePitch ?? true)
+      ? resample(
+          timeStretch(channels, speed, sourceRate),
+          sourceRate / sampleRate,
+        )
+      : resample(channels, (speed * sourceRate) / sampleRate);
+  if (from === range.from && to === range.to) return rendered;
+
+  const offset = Math.round((range.from - from) * sampleRate);
+  const length = Math.round((range.to - range.from) * sampleRate);
+  if (length <= 0) return null;
+  return rendered.map((data) => data.slice(offset, offset + length));
+}
+
+// ============================================================================
+// Preview audio
+// ============================================================================
+
+// The compositor plays audio forwards at normal rate with only a volume, so
+// retimed and panned clips play through Web Audio instead. Their audio is
+// rendered as for export, a chunk at a time just ahead of the playhead, and
+// panned live like any other level.
+
+/** Clip audio rendered at a time, in seconds */
+const CHUNK_SECONDS = 1;
+/** How far past the playhead chunks are rendered */
+const RENDER_AHEAD = 2;
+/** Clock difference at which playback counts as having jumped (a seek or a loop) */
+const MAX_DRIFT = 0.15;
+
+/**
+ * Key of a clip's streamed audio; undefined for clips the compositor plays
+ * as is at track `pan` or that have no audio. The clip's audio restarts when
+ * it changes, which pan and volume changes don't do.
+ */
+export function getStreamedAudioKey(
+  clip: TimelineClipWithAsset,
+  pan: number,
+): string | undefined {
+  const asset = clip.asset;
+  if (!asset || asset.offline) return;
+  if (!isClipRetimed(clip) && pan === 0) return;
+  // Only video files with an audio track have a sample rate
+  if (asset.type !== "audio" && asset.sampleRate === undefined) return;
+  const { trimStart, trimEnd } = getResizedSourceRange(clip, clip.duration);
+  const pitch = (clip.preservePitch ?? true) ? "pitch" : "resample";
+  return `${clip.id}:${asset.id}:${trimStart}:${trimEnd}:${getClipSpeed(clip)}:${pitch}`;
+}
+
+/** A clip whose audio is streamed, as of one frame */
+export interface StreamedAudioLayer {
+  /** See `getStreamedAudioKey` */
+  key: string;
+  clip: TimelineClipWithAsset;
+  /** Clip-local time of the frame */
+  clipTime: number;
+  volume: number;
+  /** Track pan, -1 (left) to 1 (right) */
+  pan: number;
+}
+
+export interface ClipAudioPlayer {
+  /**
+   * Play `layers` in step with the frame at timeline `time`. Clips missing
+   * from a call stop.
+   */
+  sync: (time: number, layers: StreamedAudioLayer[]) => void;
+  /** Stop everything (e.g. on pause); the next `sync` starts afresh */
+  stop: () => void;
+  setOutput: (output: { volume: number; muted: boolean }) => void;
+  dispose: () => void;
+}
+
+interface StreamedClip {
+  sink: Promise<AudioSampleSink | null>;
+  gain: GainNode;
+  panner: StereoPannerNode;
+  nodes: Set<AudioBufferSourceNode>;
+  /** Clip-local time chunks are rendered up to */
+  renderedUntil: number;
+  rendering: boolean;
+}
+
+async function openAudioSink(
+  clip: TimelineClipWithAsset,
+): Promise<AudioSampleSink | null> {
+  const track = await clip.asset?.input?.getPrimaryAudioTrack();
+  return track && (await track.canDecode()) ? new AudioSampleSink(track) : null;
+}
+
+/**
+ * Streams the audio of retimed and panned clips while the preview plays,
+ * rendering one chunk per clip at a time on the timeline's clock.
+ */
+export function createClipAudioPlayer(): ClipAudioPlayer {
+  let context: AudioContext | null = null;
+  let output: GainNode | null = null;
+  let level = { volume: 1, muted: false };
+  const clips = new Map<string, StreamedClip>();
+  // Timeline `time` plays at `contextTime` on the audio clock
+  let anchor: { time: number; contextTime: number } | null = null;
+
+  const stopClip = (streamed: StreamedClip) => {
+    for (const node of streamed.nodes) {
+      node.stop();
+      node.disconnect();
+    }
+    streamed.nodes.clear();
+    streamed.gain.disconnect();
+    streamed.panner.disconnect();
+  };
+
+  const stop = () => {
+    for (const streamed of clips.values()) stopClip(streamed);
+    clips.clear();
+    anchor = null;
+  };
+
+  const renderNext = async (
+    audio: AudioContext,
+    layer: StreamedAudioLayer,
+    streamed: StreamedClip,
+  ) => {
+    const { clip } = layer;
+    const from = streamed.renderedUntil;
+    const to = Math.min(from + CHUNK_SECONDS, clip.duration);
+    streamed.renderedUntil = to;
+    streamed.rendering = true;
+    try {
+      const sink = await streamed.sink;
+      const channels = sink
+        ? await renderClipAudio(sink, clip, audio.sampleRate, { from, to })
+        : null;
+      // Stopped, or moved on to another take of the clip, while rendering
+      if (!channels || !anchor || clips.get(layer.key) !== streamed) return;
+
+      const buffer = audio.createBuffer(
+        channels.length,
+        channels[0].length,
+        audio.sampleRate,
+      );
+      channels.forEach((data, channel) => {
+        buffer.copyToChannel(data, channel);
+      });
+      const node = audio.createBufferSource();
+      node.buffer = buffer;
+      node.connect(streamed.gain);
+      node.onended = () => {
+        streamed.nodes.delete(node);
+        node.disconnect();
+      };
+
+      // A chunk that is late starts part way in
+      const when = anchor.contextTime + clip.startTime + from - anchor.time;
+      const late = audio.currentTime - when;
+      if (late >= buffer.duration) return;
+      node.start(Math.max(when, audio.currentTime), Math.max(0, late));
+      streamed.nodes.add(node);
+    } catch (error) {
+      console.error("[ClipAudio] Failed to render clip audio", error);
+    } finally {
+      streamed.rendering = false;
+    }
+  };
+
+  return {
+    sync: (time, layers) => {
+      if (layers.length === 0) {
+        stop();
+        return;
+      }
+
+      if (!context) {
+        context = new AudioContext();
+        output = context.createGain();
+        output.gain.value = level.muted ? 0 : level.volume;
+        output.connect(context.destination);
+      }
+      if (context.state === "suspended") void context.resume();
+      const audio = context;
+      const now = audio.currentTime;
+
+      const expected = anchor && anchor.time + now - anchor.contextTime;
+      if (expected === null || Math.abs(expected - time) > MAX_DRIFT) {
+        stop();
+        anchor = { time, contextTime: now };
+      }
+
+      const keys = new Set(layers.map((layer) => layer.key));
+      for (const [key, streamed] of clips) {
+        if (keys.has(key)) continue;
+        stopClip(streamed);
+        clips.delete(key);
+      }
+
+      for (const layer of layers) {
+        let streamed = clips.get(layer.key);
+        if (!streamed) {
+          const gain = audio.createGain();
+          gain.gain.value = layer.volume;
+          const panner = audio.createStereoPanner();
+          panner.pan.value = layer.pan;
+          gain.connect(panner);
+          if (output) panner.connect(output);
+          streamed = {
+            sink: openAudioSink(layer.clip),
+            gain,
+            panner,
+            nodes: new Set(),
+            renderedUntil: Math.max(0, layer.clipTime),
+            rendering: false,
+          };
+          clips.set(layer.key, streamed);
+        }
+
+        streamed.gain.gain.setTargetAtTime(layer.volume, now, 0.01);
+        streamed.panner.pan.setTargetAtTime(layer.pan, now, 0.01);
+        const renderTo = Math.min(
+          layer.clipTime + RENDER_AHEAD,
+          layer.clip.duration,
+        );
+        if (!streamed.rendering && streamed.renderedUntil < renderTo) {
+          void renderNext(audio, layer, streamed);
+        }
+      }
+    },
+    stop,
+    setOutput: (next) => {
+      level = next;
+      if (context && output) {
+        output.gain.setTargetAtTime(
+          next.muted ? 0 : next.volume,
+          context.currentTime,
+          0.01,
+        );
+      }
+    },
+    dispose: () => {
+      stop();
+      void context?.close();
+      context = null;
+      output = null;
+    },
+  };
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import type {
+  TimelineClipWithAsset,
+  TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
+import type { ImportedMediaAsset } from "@/lib/media-import";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Enough of an asset to find the same media again, even in another project */
+export interface ClipboardAssetRef {
+  id: string;
+  name: string;
+  size: number;
+  type: ImportedMediaAsset["type"];
+}
+
+/** A copied clip: everything but the live asset and its cached thumbnails */
+export interface ClipboardClip {
+  clip: Omit<TimelineClipWithAsset, "asset" | "thumbnails">;
+  trackType: TimelineTrackData["type"];
+  asset?: ClipboardAssetRef;
+}
+
+export interface ClipboardPayload {
+  version: typeof CLIPBOARD_VERSION;
+  clips: ClipboardClip[];
+}
+
+export interface PasteResult {
+  tracks: TimelineTrackData[];
+  pastedClipIds: string[];
+  /** Clips whose media isn't in this project */
+  skippedCount: number;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+// localStorage so the clipboard survives navigation between projects
+const CLIPBOARD_STORAGE_KEY = "localcut-clip-clipboard";
+const CLIPBOARD_VERSION = 1;
+
+/** Copy clips (with the type of the track they sit on) to the clip clipboard */
+export function writeClipboard(
+  entries: {
+    clip: TimelineClipWithAsset;
+    trackType: TimelineTrackData["type"];
+  }[],
+): void {
+  if (entries.length === 0) return;
+
+  const payload: ClipboardPayload = {
+    version: CLIPBOARD_VERSION,
+    clips: entries.map(({ clip, trackType }) => {
+      const { asset, thumbnails: _thumbnails, ...rest } = clip;
+      return {
+        clip: rest,
+        trackType,
+        asset: asset
+          ? {
+              id: asset.id,
+              name: asset.name,
+              size: asset.file.size,
+              type: asset.type,
+            }
+          : undefined,
+      };
+    }),
+  };
+
+  try {
+    localStorage.setItem(CLIPBOARD_STORAGE_KEY, JSON.stringify(payload));
+  } catch (error) {
+    console.error("Failed to write clip clipboard:", error);
+  }
+}
+
+/** Read the clip clipboard, or null if it is empty or from an older format */
+export function readClipboard(): ClipboardPayload | null {
+  try {
+    const stored = localStorage.getItem(CLIPBOARD_STORAGE_KEY);
+    if (!stored) return null;
+    const payload = JSON.parse(stored) as ClipboardPayload;
+    if (
+      payload.version !== CLIPBOARD_VERSION ||
+      !Array.isArray(payload.clips)
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Paste
+// ============================================================================
+
+/** Same asset id first (same project), then same file name and size */
+export function resolveClipboardAsset(
+  ref: ClipboardAssetRef,
+  assets: ImportedMediaAsset[],
+): ImportedMediaAsset | undefined {
+  return (
+    assets.find((asset) => asset.id === ref.id) ??
+    assets.find(
+      (asset) =>
+        asset.type === ref.type &&
+        asset.name === ref.name &&
+        asset.file.size === ref.size,
+    )
+  );
+}
+
+function overlapsAny(
+  clips: TimelineClipWithAsset[],
+  startTime: number,
+  duration: number,
+): boolean {
+  const endTime = startTime + duration;
+  return clips.some(
+    (clip) =>
+      startTime < clip.startTime + clip.duration && endTime > clip.startTime,
+  );
+}
+
+function getTrackLabel(type: TimelineTrackData["type"], count: number) {
+  switch (type) {
+    case "video":
+      return `Video ${count + 1}`;
+    case "image":
+      return `Image ${count + 1}`;
+    case "audio":
+      return `Audio ${count + 1}`;
+  }
+}
+
+/**
+ * Place clipboard clips at `time`, keeping their relative offsets.
+ *
+ * Each clip goes on the first track of the same type with a free gap,
+ * otherwise on a new track.
+ */
+export function pasteClipboardClips(
+  tracks: TimelineTrackData[],
+  payload: ClipboardPayload,
+  assets: ImportedMediaAsset[],
+  time: number,
+): PasteResult {
+  const earliestStart = Math.min(
+    ...payload.clips.map((entry) => entry.clip.startTime),
+  );
+  const timestamp = Date.now();
+  const nextTracks = [...tracks];
+  const pastedClipIds: string[] = [];
+  let skippedCount = 0;
+
+  payload.clips.forEach((entry, index) => {
+    const asset = entry.asset
+      ? resolveClipboardAsset(entry.asset, assets)
+      : undefined;
+    if (entry.asset && !asset) {
+      skippedCount++;
+      return;
+    }
+
+    const clip: TimelineClipWithAsset = {
+      ...entry.clip,
+      id: `clip-${timestamp}-${index}`,
+      startTime: Math.max(0, time + entry.clip.startTime - earliestStart),
+      asset,
+      thumbnails: entry.clip.type === "audio" ? undefined : asset?.thumbnails,
+    };
+
+    const trackIndex = nextTracks.findIndex(
+      (track) =>
+        track.type === entry.trackType &&
+        !overlapsAny(track.clips, clip.startTime, clip.duration),
+    );
+
+    if (trackIndex === -1) {
+      const existingCount = nextTracks.filter(
+        (track) => track.type === entry.trackType,
+      ).length;
+      nextTracks.push({
+        id: `${entry.trackType}-${timestamp}-${index}`,
+        type: entry.trackType,
+        label: getTrackLabel(entry.trackType, existingCount),
+        hidden: false,
+        muted: false,
+        clips: [clip],
+      });
+    } else {
+      const track = nextTracks[trackIndex];
+      nextTracks[trackIndex] = {
+        ...track,
+        clips: [...track.clips, clip].sort((a, b) => a.startTime - b.startTime),
+      };
+    }
+
+    pastedClipIds.push(clip.id);
+  });
+
+  return { tracks: nextTracks, pastedClipIds, skippedCount };
+}
@@ -0,0 +1,71 @@
+import type { CropRect } from "@/components/editing/crop-overlay";
+import type {
+  ClipCrop,
+  TimelineClipWithAsset,
+} from "@/components/editor/preview/timeline-player-context";
+
+// ============================================================================
+// Crop
+// ============================================================================
+
+export const NO_CROP: ClipCrop = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// Smallest share of the frame a crop keeps on each axis
+const MIN_CROP_SIZE = 0.05;
+
+export function getClipCrop(clip: TimelineClipWithAsset): ClipCrop {
+  return clip.crop ?? NO_CROP;
+}
+
+export function hasCrop(crop: ClipCrop): boolean {
+  return crop.top > 0 || crop.right > 0 || crop.bottom > 0 || crop.left > 0;
+}
+
+/** Crop with each edge in 0-1 and at least a sliver of the frame left */
+export function clampCrop(crop: ClipCrop): ClipCrop {
+  const clamp = (value: number, other: number) =>
+    Math.min(Math.max(0, value), 1 - MIN_CROP_SIZE - Math.max(0, other));
+  return {
+    top: clamp(crop.top, crop.bottom),
+    right: clamp(crop.right, crop.left),
+    bottom: clamp(crop.bottom, crop.top),
+    left: clamp(crop.left, crop.right),
+  };
+}
+
+/** Region of a `width` x `height` frame that the crop keeps, in pixels */
+export function getCropRect(
+  crop: ClipCrop,
+  width: number,
+  height: number,
+): { x: number; y: number; width: number; height: number } {
+  return {
+    x: crop.left * width,
+    y: crop.top * height,
+    width: (1 - crop.left - crop.right) * width,
+    height: (1 - crop.top - crop.bottom) * height,
+  };
+}
+
+// ============================================================================
+// CropOverlay
+// ============================================================================
+
+/** Crop as the normalized rectangle `CropOverlay` edits */
+export function cropToRect(crop: ClipCrop): CropRect {
+  return {
+    left: crop.left,
+    top: crop.top,
+    width: 1 - crop.left - crop.right,
+    height: 1 - crop.top - crop.bottom,
+  };
+}
+
+export function rectToCrop(rect: CropRect): ClipCrop {
+  return clampCrop({
+    top: rect.top,
+    right: 1 - rect.left - rect.width,
+    bottom: 1 - rect.top - rect.height,
+    left: rect.left,
+  });
+}
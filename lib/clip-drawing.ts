@@ -0,0 +1,406 @@
+"use client";
+
+import {
+  CanvasSink,
+  type InputVideoTrack,
+  type WrappedCanvas,
+} from "mediabunny";
+import type {
+  ClipCrop,
+  ClipTransform,
+  ShapeClipData,
+  TimelineClipWithAsset,
+} from "@/components/editor/preview/timeline-player-context";
+import { getCropRect, hasCrop } from "@/lib/clip-crop";
+import {
+  getPlaceholderSize,
+  rasterizeOfflinePlaceholder,
+} from "@/lib/offline-media";
+import { rasterizeShape } from "@/lib/shape-layer";
+import { rasterizeText } from "@/lib/text-layer";
+
+// ============================================================================
+// Placement
+// ============================================================================
+
+// The compositor is only relied on for what it has always done: placing a
+// frame, scaling it and turning it by quarter turns around its center.
+// Pivots are worked out here; crops and other angles are drawn here.
+
+export type LayerFitMode = "contain" | "cover" | "fill" | "none";
+
+/** Size a source is drawn at in the output before the clip's own scale */
+export function getFittedSize(params: {
+  sourceWidth: number;
+  sourceHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+  fitMode: LayerFitMode;
+}): { width: number; height: number } {
+  const { sourceWidth, sourceHeight, outputWidth, outputHeight, fitMode } =
+    params;
+
+  if (fitMode === "fill") {
+    return { width: outputWidth, height: outputHeight };
+  }
+
+  if (fitMode === "contain" || fitMode === "cover") {
+    const scale =
+      fitMode === "contain"
+        ? Math.min(outputWidth / sourceWidth, outputHeight / sourceHeight)
+        : Math.max(outputWidth / sourceWidth, outputHeight / sourceHeight);
+
+    return {
+      width: sourceWidth * scale,
+      height: sourceHeight * scale,
+    };
+  }
+
+  return { width: sourceWidth, height: sourceHeight };
+}
+
+function isQuarterTurn(rotation: number): boolean {
+  return rotation % 90 === 0;
+}
+
+/** Part of a clip's frame that is kept, in output pixels before rotation */
+interface ClipRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** Point the clip turns around */
+  pivotX: number;
+  pivotY: number;
+}
+
+interface ClipGeometry {
+  transform: ClipTransform;
+  crop: ClipCrop;
+  sourceWidth: number;
+  sourceHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+  fitMode: LayerFitMode;
+}
+
+function getClipRegion(params: ClipGeometry): ClipRegion {
+  const { transform, crop } = params;
+  const fitted = getFittedSize(params);
+  const boxWidth = fitted.width * Math.abs(transform.scaleX);
+  const boxHeight = fitted.height * Math.abs(transform.scaleY);
+
+  const left =
+    (params.outputWidth - fitted.width) / 2 +
+    transform.x +
+    crop.left * boxWidth;
+  const top =
+    (params.outputHeight - fitted.height) / 2 +
+    transform.y +
+    crop.top * boxHeight;
+  const width = boxWidth * (1 - crop.left - crop.right);
+  const height = boxHeight * (1 - crop.top - crop.bottom);
+  return {
+    left,
+    top,
+    width,
+    height,
+    pivotX: left + (transform.anchorX ?? 0.5) * width,
+    pivotY: top + (transform.anchorY ?? 0.5) * height,
+  };
+}
+
+/** Compositor transform and fit of one clip layer */
+export interface LayerPlacement {
+  x: number;
+  y: number;
+  scaleX: number;
+  scaleY: number;
+  rotation: number;
+  fitMode: LayerFitMode;
+}
+
+/**
+ * Where the compositor puts a clip's frame: at the nearest quarter turn,
+ * shifted so it still turns around its anchor
+ */
+export function getLayerPlacement(params: ClipGeometry): LayerPlacement {
+  const { transform } = params;
+
+  const rotation = Math.round(transform.rotation / 90) * 90;
+  const fitted = getFittedSize(params);
+  // Turning around the anchor instead of the center only moves the frame
+  const dx =
+    ((transform.anchorX ?? 0.5) - 0.5) *
+    fitted.width *
+    Math.abs(transform.scaleX);
+  const dy =
+    ((transform.anchorY ?? 0.5) - 0.5) *
+    fitted.height *
+    Math.abs(transform.scaleY);
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: transform.x + dx - (dx * cos - dy * sin),
+    y: transform.y + dy - (dx * sin + dy * cos),
+    scaleX: transform.scaleX,
+    scaleY: transform.scaleY,
+    rotation,
+    fitMode: params.fitMode,
+  };
+}
+
+// ============================================================================
+// Canvas layers
+// ============================================================================
+
+// Clips the compositor can't show (cropped, or turned by other than a
+// quarter turn) are drawn frame by frame onto a canvas over its output, together with every
+// layer above them so the stacking order holds.
+
+/** What a canvas layer shows: a clip's own frames, or a solid shape */
+export type CanvasLayerContent =
+  | { type: "clip"; clip: TimelineClipWithAsset }
+  | { type: "shape"; shape: ShapeClipData };
+
+/** One layer drawn onto a canvas instead of by the compositor */
+export interface CanvasLayer {
+  /** Identifies the frames: layers with the same key read the same ones */
+  key: string;
+  content: CanvasLayerContent;
+  sourceTime: number;
+  transform: ClipTransform;
+  crop: ClipCrop;
+  fitMode: LayerFitMode;
+  opacity: number;
+  filter?: string;
+  zIndex: number;
+}
+
+/** Whether a layer with `transform` and `crop` has to be drawn on a canvas */
+export function needsCanvas(params: {
+  transform: ClipTransform;
+  crop: ClipCrop;
+}): boolean {
+  return !isQuarterTurn(params.transform.rotation) || hasCrop(params.crop);
+}
+
+/** Frames of a canvas layer's content, by source time */
+interface FrameReader {
+  width: number;
+  height: number;
+  read: (time: number) => Promise<CanvasImageSource | null>;
+  close: () => void;
+}
+
+/** Furthest a read may skip ahead and still decode on from the last one */
+const MAX_READ_AHEAD = 2;
+
+async function openStillReader(file: Blob): Promise<FrameReader> {
+  const image = await createImageBitmap(file);
+  return {
+    width: image.width,
+    height: image.height,
+    read: async () => image,
+    close: () => image.close(),
+  };
+}
+
+function openVideoReader(track: InputVideoTrack): FrameReader {
+  const sink = new CanvasSink(track, { alpha: true });
+  let frames: AsyncGenerator<WrappedCanvas, void> | null = null;
+  let current: WrappedCanvas | null = null;
+  let next: WrappedCanvas | null = null;
+  const advance = async () => {
+    const result = await frames?.next();
+    return result && !result.done ? result.value : null;
+  };
+
+  return {
+    width: track.displayWidth,
+    height: track.displayHeight,
+    read: async (time) => {
+      // Playback and export read forwards; anything else decodes from `time`
+      if (
+        !current ||
+        time < current.timestamp ||
+        time > current.timestamp + MAX_READ_AHEAD
+      ) {
+        await frames?.return();
+        frames = sink.canvases(time);
+        current = await advance();
+        next = await advance();
+      }
+      while (next && next.timestamp <= time) {
+        current = next;
+        next = await advance();
+      }
+      return current?.canvas ?? null;
+    },
+    close: () => void frames?.return(),
+  };
+}
+
+async function openFrameReader(
+  content: CanvasLayerContent,
+): Promise<FrameReader | null> {
+  if (content.type === "shape") {
+    return openStillReader((await rasterizeShape(content.shape)).file);
+  }
+
+  const { clip } = content;
+  const asset = clip.asset;
+  if (asset?.offline) {
+    const { width, height } = getPlaceholderSize(asset);
+    return openStillReader(await rasterizeOfflinePlaceholder(width, height));
+  }
+  if (clip.type === "text") {
+    return clip.text
+      ? openStillReader((await rasterizeText(clip.text)).file)
+      : null;
+  }
+  if (clip.type === "shape") {
+    return clip.shape
+      ? openStillReader((await rasterizeShape(clip.shape)).file)
+      : null;
+  }
+
+  if (!asset) return null;
+  if (asset.type === "image") return openStillReader(asset.file);
+  const track = await asset.input?.getPrimaryVideoTrack();
+  return track ? openVideoReader(track) : null;
+}
+
+/** Draw the kept part of one frame of a layer, turned around its pivot */
+function drawLayerFrame(
+  ctx: CanvasLayerContext,
+  image: CanvasImageSource,
+  reader: FrameReader,
+  layer: CanvasLayer,
+  size: { width: number; height: number },
+) {
+  const { transform, crop } = layer;
+  const region = getClipRegion({
+    transform,
+    crop,
+    sourceWidth: reader.width,
+    sourceHeight: reader.height,
+    outputWidth: size.width,
+    outputHeight: size.height,
+    fitMode: layer.fitMode,
+  });
+
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.filter = layer.filter ?? "none";
+  ctx.translate(region.pivotX, region.pivotY);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.translate(
+    region.left + region.width / 2 - region.pivotX,
+    region.top + region.height / 2 - region.pivotY,
+  );
+  // Negative scales mirror the frame in place
+  ctx.scale(Math.sign(transform.scaleX) || 1, Math.sign(transform.scaleY) || 1);
+  const source = getCropRect(crop, reader.width, reader.height);
+  ctx.drawImage(
+    image,
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+    -region.width / 2,
+    -region.height / 2,
+    region.width,
+    region.height,
+  );
+  ctx.restore();
+}
+
+type CanvasLayerContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+export interface CanvasLayerRenderer {
+  /**
+   * Draw `layers` at output `size` onto `ctx`, over what is there or onto a
+   * cleared canvas. Draws run one at a time; one that is still waiting when
+   * another is asked for is skipped.
+   */
+  draw: (
+    ctx: CanvasLayerContext,
+    layers: CanvasLayer[],
+    options: { width: number; height: number; clear?: boolean },
+  ) => Promise<void>;
+  dispose: () => void;
+}
+
+/**
+ * Draws canvas layers, keeping a frame reader open per layer for as long as
+ * consecutive draws use it.
+ */
+export function createCanvasLayerRenderer(): CanvasLayerRenderer {
+  const readers = new Map<string, Promise<FrameReader | null>>();
+  let queue = Promise.resolve();
+  let latest = 0;
+  let disposed = false;
+
+  const getReader = (layer: CanvasLayer) => {
+    let reader = readers.get(layer.key);
+    if (!reader) {
+      reader = openFrameReader(layer.content).catch((error) => {
+        console.error("[CanvasLayers] Failed to open frames", error);
+        return null;
+      });
+      readers.set(layer.key, reader);
+    }
+    return reader;
+  };
+
+  const closeReaders = async (keep: Set<string>) => {
+    for (const [key, reader] of readers) {
+      if (keep.has(key)) continue;
+      readers.delete(key);
+      (await reader)?.close();
+    }
+  };
+
+  const drawNow: CanvasLayerRenderer["draw"] = async (ctx, layers, options) => {
+    const sorted = [...layers].sort((a, b) => a.zIndex - b.zIndex);
+    await closeReaders(new Set(sorted.map((layer) => layer.key)));
+
+    // Every frame is read before any is drawn, so the canvas never shows half
+    const frames = [];
+    for (const layer of sorted) {
+      const reader = await getReader(layer);
+      const image = await reader?.read(layer.sourceTime);
+      if (reader && image) frames.push({ layer, reader, image });
+    }
+    if (disposed) return;
+
+    if (options.clear) ctx.clearRect(0, 0, options.width, options.height);
+    for (const { layer, reader, image } of frames) {
+      drawLayerFrame(ctx, image, reader, layer, options);
+    }
+  };
+
+  return {
+    draw: (ctx, layers, options) => {
+      const id = ++latest;
+      queue = queue
+        .then(() =>
+          id === latest && !disposed
+            ? drawNow(ctx, layers, options)
+            : undefined,
+        )
+        .catch((error) => {
+          console.error("[CanvasLayers] Failed to draw layers", error);
+        });
+      return queue;
+    },
+    dispose: () => {
+      disposed = true;
+      void queue.then(() => closeReaders(new Set()));
+    },
+  };
+}
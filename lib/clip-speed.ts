@@ -0,0 +1,136 @@
+import type { TimelineClipWithAsset } from "@/components/editor/preview/timeline-player-context";
+import { scaleKeyframes } from "@/lib/keyframes";
+
+// ============================================================================
+// Speed
+// ============================================================================
+
+/** Playback rate range, as a magnitude (the sign only sets the direction) */
+export const MIN_CLIP_SPEED = 0.25;
+export const MAX_CLIP_SPEED = 4;
+
+/** Playback rate of a clip; negative plays the source backwards */
+export function getClipSpeed(clip: TimelineClipWithAsset): number {
+  return clip.speed ?? 1;
+}
+
+export function isClipReversed(clip: TimelineClipWithAsset): boolean {
+  return getClipSpeed(clip) < 0;
+}
+
+export function isClipRetimed(clip: TimelineClipWithAsset): boolean {
+  return getClipSpeed(clip) !== 1;
+}
+
+/**
+ * Source time shown at clip-local `time`.
+ *
+ * `trimStart`-`trimEnd` is always the source range in source order; reversed
+ * clips play it from `trimEnd` down to `trimStart`.
+ */
+export function getClipSourceTime(
+  clip: TimelineClipWithAsset,
+  time: number,
+): number {
+  const speed = getClipSpeed(clip);
+  return speed < 0
+    ? clip.trimEnd + time * speed
+    : clip.trimStart + time * speed;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+type SourceRange = Pick<TimelineClipWithAsset, "trimStart" | "trimEnd">;
+
+/** Longest timeline duration the source allows at the clip's speed */
+export function getMaxClipDuration(clip: TimelineClipWithAsset): number {
+  const speed = Math.abs(getClipSpeed(clip));
+  const available = isClipReversed(clip)
+    ? clip.trimEnd
+    : (clip.asset?.duration ?? clip.trimEnd) - clip.trimStart;
+  return Math.max(0, available / speed);
+}
+
+/**
+ * Source range after the clip end moves to give `duration`. The source end
+ * moves for forward clips, the source start for reversed ones.
+ */
+export function getResizedSourceRange(
+  clip: TimelineClipWithAsset,
+  duration: number,
+): SourceRange {
+  const span = duration * Math.abs(getClipSpeed(clip));
+  return isClipReversed(clip)
+    ? { trimStart: clip.trimEnd - span, trimEnd: clip.trimEnd }
+    : { trimStart: clip.trimStart, trimEnd: clip.trimStart + span };
+}
+
+/** Longest timeline duration the source allows when the clip start moves */
+export function getMaxStartTrimmedDuration(
+  clip: TimelineClipWithAsset,
+): number {
+  const speed = Math.abs(getClipSpeed(clip));
+  const available = isClipReversed(clip)
+    ? (clip.asset?.duration ?? clip.trimEnd) - clip.trimStart
+    : clip.trimEnd;
+  return Math.max(0, available / speed);
+}
+
+/**
+ * Source range after the clip start moves to give `duration`, with the clip
+ * end held in place. The source start moves for forward clips, the source end
+ * for reversed ones.
+ */
+export function getStartTrimmedSourceRange(
+  clip: TimelineClipWithAsset,
+  duration: number,
+): SourceRange {
+  const span = duration * Math.abs(getClipSpeed(clip));
+  return isClipReversed(clip)
+    ? { trimStart: clip.trimStart, trimEnd: clip.trimStart + span }
+    : { trimStart: clip.trimEnd - span, trimEnd: clip.trimEnd };
+}
+
+/** Source ranges of the two halves of a clip split `splitPoint` seconds in */
+export function splitClipSourceRange(
+  clip: TimelineClipWithAsset,
+  splitPoint: number,
+): [SourceRange, SourceRange] {
+  const span = splitPoint * Math.abs(getClipSpeed(clip));
+  if (isClipReversed(clip)) {
+    const cut = clip.trimEnd - span;
+    return [
+      { trimStart: cut, trimEnd: clip.trimEnd },
+      { trimStart: clip.trimStart, trimEnd: cut },
+    ];
+  }
+  const cut = clip.trimStart + span;
+  return [
+    { trimStart: clip.trimStart, trimEnd: cut },
+    { trimStart: cut, trimEnd: clip.trimEnd },
+  ];
+}
+
+/** Play the same source range at `speed`; the timeline duration follows */
+export function retimeClip(
+  clip: TimelineClipWithAsset,
+  speed: number,
+): TimelineClipWithAsset {
+  const magnitude = Math.min(
+    Math.max(Math.abs(speed), MIN_CLIP_SPEED),
+    MAX_CLIP_SPEED,
+  );
+  const span = clip.duration * Math.abs(getClipSpeed(clip));
+  return {
+    ...clip,
+    speed: speed < 0 ? -magnitude : magnitude,
+    duration: span / magnitude,
+    // Keyframes keep their place relative to the clip length
+    keyframes: scaleKeyframes(
+      clip.keyframes,
+      Math.abs(getClipSpeed(clip)) / magnitude,
+    ),
+  };
+}
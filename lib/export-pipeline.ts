@@ -0,0 +1,1097 @@
+import { registerMp3Encoder } from "@mediabunny/mp3-encoder";
+import type { Compositor } from "@mediafox/core";
+import {
+  type AudioCodec,
+  AudioSample,
+  AudioSampleSink,
+  AudioSampleSource,
+  CanvasSource,
+  canEncodeAudio,
+  getFirstEncodableAudioCodec,
+  getFirstEncodableVideoCodec,
+  Output,
+  type VideoCodec,
+} from "mediabunny";
+
+import {
+  buildCompositorComposition,
+  type FitMode,
+  getClipSourceKey,
+  getShapeSourceKey,
+  isGeneratedClipType,
+  type LoadedSource,
+  loadGeneratedSource,
+  type TimelineClipWithAsset,
+  type TimelineComposition,
+  type TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
+import {
+  ANIMATED_IMAGE_MAX_FPS,
+  type AnimatedImageFormat,
+  type AnimatedImageSettings,
+  createAnimatedImageEncoder,
+  getAnimatedImageMimeType,
+  isAnimatedImageFormat,
+} from "@/lib/animated-image";
+import {
+  getClipGain,
+  getFadeLevel,
+  getPanGains,
+  getTrackPan,
+  getTrackVolume,
+} from "@/lib/audio-mix";
+import { type AudioChannels, renderClipAudio } from "@/lib/clip-audio";
+import { createCanvasLayerRenderer } from "@/lib/clip-drawing";
+import type { ImportedMediaAsset } from "@/lib/media-import";
+import type { OutputContainer } from "@/lib/mediabunny";
+import {
+  AUDIO_CODEC_LABELS,
+  getFileExtension,
+  getMediabunnyOutput,
+  getQuality,
+  isAudioOnlyFormat,
+  type QualityPreset,
+  VIDEO_CODEC_LABELS,
+} from "@/lib/mediabunny";
+import {
+  createOutputTarget,
+  createOutputWriter,
+  getDefaultDestination,
+  type OutputDestination,
+  type OutputTargetHandle,
+  type OutputWriter,
+} from "@/lib/output-target";
+import { loadShapeLayerSource } from "@/lib/shape-layer";
+import { getTransitionMattes } from "@/lib/transitions";
+import { createZipWriter } from "@/lib/zip";
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+/** What the export worker renders: everything but the main-thread callbacks */
+export type ExportJob = Omit<
+  ExportTimelineOptions,
+  "onProgress" | "abortSignal"
+>;
+
+/**
+ * A finished export. `storedName` is its OPFS entry, if any, to be removed
+ * with `removeStoredOutput` once it is saved or dropped.
+ */
+export type ExportResult = {
+  blob: Blob;
+  fileName: string;
+  storedName: string | null;
+};
+
+/** Numbered PNG frames packed in a ZIP archive */
+export const IMAGE_SEQUENCE_FORMAT = "png-sequence";
+
+/** Anything the timeline can be exported to */
+export type ExportContainer =
+  | OutputContainer
+  | AnimatedImageFormat
+  | typeof IMAGE_SEQUENCE_FORMAT;
+
+/** Encoding settings for the composited video track */
+export type ExportVideoSettings = {
+  /** First codec the browser can encode for the container when not given */
+  codec?: VideoCodec;
+  quality?: QualityPreset;
+  /** Target bits per second; takes precedence over `quality` */
+  bitrate?: number;
+  bitrateMode?: "constant" | "variable";
+  /** Seconds between key frames */
+  keyFrameInterval?: number;
+};
+
+/** Encoding settings for the mixed audio track */
+export type ExportAudioSettings = {
+  /** First codec the browser can encode for the container when not given */
+  codec?: AudioCodec;
+  sampleRate?: number;
+  numberOfChannels?: 1 | 2;
+  /** Bits per second; ignored by lossless codecs */
+  bitrate?: number;
+};
+
+export type ExportTimelineOptions = {
+  tracks: TimelineTrackData[];
+  width?: number;
+  height?: number;
+  fps?: number;
+  backgroundColor?: string;
+  fitMode?: FitMode;
+  /** Project master volume */
+  masterVolume?: number;
+  /**
+   * Audio-only containers (wav, mp3, ...) skip the compositor entirely;
+   * GIF and WebP render the same frames without audio
+   */
+  container?: ExportContainer;
+  video?: ExportVideoSettings;
+  audio?: ExportAudioSettings;
+  animated?: AnimatedImageSettings;
+  /** Part of the timeline to render, in seconds; all of it when not given */
+  range?: { start: number; end: number };
+  filenameBase?: string;
+  /** Where the file is written; OPFS (or memory) when not given */
+  destination?: OutputDestination;
+  onProgress?: (progress: number) => void;
+  /** Size of the output written so far, in bytes */
+  onBytesWritten?: (bytes: number) => void;
+  abortSignal?: AbortSignal;
+};
+
+// ---------------------------------------------------------------------------
+// Scheduling helpers – background-resilient
+// ---------------------------------------------------------------------------
+
+/**
+ * Yield to the event loop using MessageChannel.
+ *
+ * Unlike `setTimeout(fn, 0)` — which browsers clamp to ≥1 s in background
+ * tabs — MessageChannel port callbacks are dispatched at full speed regardless
+ * of tab visibility.  This keeps the render loop, progress reporting, and
+ * abort-signal checks responsive even when the user switches away.
+ */
+function yieldFrame(): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const ch = new MessageChannel();
+    ch.port1.onmessage = () => resolve();
+    ch.port2.postMessage(undefined);
+  });
+}
+
+/**
+ * Number of video frames between event-loop yields.
+ *
+ * Yielding every few frames lets the browser run GC, handle abort signals,
+ * and dispatch progress callbacks without meaningfully slowing encoding.
+ */
+const YIELD_INTERVAL = 4;
+
+// ---------------------------------------------------------------------------
+// Timeline helpers
+// ---------------------------------------------------------------------------
+
+function getExportFileName(
+  options: ExportTimelineOptions,
+  container: ExportContainer,
+): string {
+  const base = options.filenameBase ?? "localcut-export";
+  const extension =
+    container === IMAGE_SEQUENCE_FORMAT
+      ? "zip"
+      : isAnimatedImageFormat(container)
+        ? container
+        : getFileExtension(container);
+  return `${base}.${extension}`;
+}
+
+function getTimelineDurationSeconds(tracks: TimelineTrackData[]): number {
+  return Math.max(
+    ...tracks.flatMap((t) =>
+      t.hidden || t.clips.length === 0
+        ? [0]
+        : t.clips.map((c) => c.startTime + c.duration),
+    ),
+    0,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Audio rendering (plain sample arrays – Web Audio is unavailable in workers)
+// ---------------------------------------------------------------------------
+
+const EXPORT_SAMPLE_RATE = 48_000;
+const EXPORT_CHANNELS = 2;
+
+// Length of each mixed chunk handed to the encoder
+const AUDIO_CHUNK_SECONDS = 1;
+
+/** Average the channels into one */
+function downmixToMono(channels: AudioChannels): AudioChannels {
+  const mono = new Float32Array(channels[0].length);
+  for (const data of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[i] / channels.length;
+    }
+  }
+  return [mono];
+}
+
+/**
+ * Mix every audible clip into one stereo timeline: clip gain and fades,
+ * track volume and pan, then master volume – the same chain as
+ * `getClipMixVolume` in the preview. Mono output is downmixed after panning.
+ */
+async function renderMixedAudio(
+  tracks: TimelineTrackData[],
+  durationSeconds: number,
+  options?: {
+    /** Timeline time the mix starts at */
+    startTime?: number;
+    sampleRate?: number;
+    numberOfChannels?: number;
+    masterVolume?: number;
+    abortSignal?: AbortSignal;
+  },
+): Promise<AudioChannels | null> {
+  if (durationSeconds <= 0) return null;
+
+  const sampleRate = options?.sampleRate ?? EXPORT_SAMPLE_RATE;
+  const frameCount = Math.ceil(durationSeconds * sampleRate);
+  const masterVolume = options?.masterVolume ?? 1;
+  const startTime = options?.startTime ?? 0;
+  let mix: AudioChannels | null = null;
+
+  for (const track of tracks) {
+    if (track.hidden || track.muted) continue;
+
+    const trackVolume = getTrackVolume(track) * masterVolume;
+    const trackPan = getTrackPan(track);
+
+    for (const clip of track.clips) {
+      if (options?.abortSignal?.aborted) {
+        throw new DOMException("Export cancelled", "AbortError");
+      }
+
+      const asset = clip.asset;
+      if (!asset || !asset.input) continue;
+      if (
+        clip.startTime >= startTime + durationSeconds ||
+        clip.startTime + clip.duration <= startTime
+      ) {
+        continue;
+      }
+
+      // Match preview behavior: audio can come from video clips and audio clips.
+      const audioTrack = await asset.input.getPrimaryAudioTrack();
+      if (!audioTrack) continue;
+
+      const canDecode = await audioTrack.canDecode();
+      if (!canDecode) continue;
+
+      const channels = await renderClipAudio(
+        new AudioSampleSink(audioTrack),
+        clip,
+        sampleRate,
+      );
+      if (!channels) continue;
+
+      mix ??= Array.from(
+        { length: EXPORT_CHANNELS },
+        () => new Float32Array(frameCount),
+      );
+      const [left, right] = mix;
+      const pan = getPanGains(trackPan, channels.length);
+      const first = channels[0];
+      const second = channels[1] ?? first;
+      const clipGain = getClipGain(clip) * trackVolume;
+      const startFrame = Math.round((clip.startTime - startTime) * sampleRate);
+      const length = Math.min(
+        first.length,
+        Math.round(clip.duration * sampleRate),
+        frameCount - startFrame,
+      );
+
+      for (let i = Math.max(0, -startFrame); i < length; i++) {
+        const gain = clipGain * getFadeLevel(clip, i / sampleRate);
+        const a = first[i] * gain;
+        const b = second[i] * gain;
+        left[startFrame + i] += a * pan.left[0] + b * pan.left[1];
+        right[startFrame + i] += a * pan.right[0] + b * pan.right[1];
+      }
+    }
+  }
+
+  if (mix && options?.numberOfChannels === 1) return downmixToMono(mix);
+  return mix;
+}
+
+/**
+ * Hand the mix to the encoder in chunks, as planar 32-bit samples.
+ * `onProgress` receives the share of the mix encoded so far.
+ */
+async function addMixedAudio(
+  source: AudioSampleSource,
+  mix: AudioChannels,
+  options?: {
+    sampleRate?: number;
+    onProgress?: (progress: number) => void;
+    abortSignal?: AbortSignal;
+  },
+): Promise<void> {
+  const sampleRate = options?.sampleRate ?? EXPORT_SAMPLE_RATE;
+  const chunkFrames = AUDIO_CHUNK_SECONDS * sampleRate;
+  for (let start = 0; start < mix[0].length; start += chunkFrames) {
+    if (options?.abortSignal?.aborted) {
+      throw new DOMException("Export cancelled", "AbortError");
+    }
+
+    const frames = Math.min(chunkFrames, mix[0].length - start);
+    const data = new Float32Array(frames * mix.length);
+    mix.forEach((channel, c) => {
+      data.set(channel.subarray(start, start + frames), c * frames);
+    });
+    const sample = new AudioSample({
+      data,
+      format: "f32-planar",
+      numberOfChannels: mix.length,
+      sampleRate,
+      timestamp: start / sampleRate,
+    });
+    await source.add(sample);
+    sample.close();
+    options?.onProgress?.((start + frames) / mix[0].length);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Compositor setup – OffscreenCanvas for background resilience
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an export-only Compositor backed by an **OffscreenCanvas**.
+ *
+ * A regular `HTMLCanvasElement` is coupled to the document's visibility
+ * lifecycle — browsers may defer compositing and pixel readback when the tab
+ * is blurred, minimised, or the screen is locked.  `OffscreenCanvas`, by
+ * contrast, is decoupled from the DOM and continues rendering at full speed
+ * in any visibility state.
+ *
+ * Worker mode is intentionally **disabled** here because the Compositor's
+ * worker option internally calls `canvas.transferControlToOffscreen()`,
+ * which only exists on `HTMLCanvasElement`.  Passing a raw
+ * `OffscreenCanvas` with `worker: true` would crash at runtime.  The whole
+ * pipeline already runs in the export worker, so the compositor renders
+ * directly on the `OffscreenCanvas` there.
+ */
+async function createExportCompositor(params: {
+  width: number;
+  height: number;
+  backgroundColor: string;
+  fitMode?: FitMode;
+}): Promise<{
+  compositor: Compositor;
+  /** Finished frames: the compositor's output with canvas layers over it */
+  canvas: OffscreenCanvas;
+  /** Draw one composition onto `canvas` */
+  renderFrame: (composition: TimelineComposition) => Promise<void>;
+  dispose: () => void;
+}> {
+  const { width, height, backgroundColor, fitMode } = params;
+
+  const compositorCanvas = new OffscreenCanvas(width, height);
+
+  const { Compositor: CompositorClass } = await import("@mediafox/core");
+  const compositor = new CompositorClass({
+    canvas: compositorCanvas,
+    width,
+    height,
+    backgroundColor,
+    worker: false,
+  });
+
+  if (fitMode) {
+    compositor.setFitMode(fitMode);
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get 2D context for export canvas");
+  const canvasLayers = createCanvasLayerRenderer();
+
+  return {
+    compositor,
+    canvas,
+    renderFrame: async (composition) => {
+      await compositor.render({
+        time: composition.time,
+        layers: composition.layers,
+      });
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(compositorCanvas, 0, 0);
+      if (composition.canvasLayers.length > 0) {
+        await canvasLayers.draw(ctx, composition.canvasLayers, {
+          width,
+          height,
+        });
+      }
+    },
+    dispose: () => {
+      canvasLayers.dispose();
+      compositor.dispose();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Source loading
+// ---------------------------------------------------------------------------
+
+async function loadExportSources(params: {
+  compositor: Compositor;
+  tracks: TimelineTrackData[];
+}): Promise<Map<string, LoadedSource>> {
+  const { compositor, tracks } = params;
+
+  const assetsToLoad = new Map<string, ImportedMediaAsset>();
+  const layersToLoad = new Map<string, TimelineClipWithAsset>();
+  for (const track of tracks) {
+    if (track.hidden) continue;
+    for (const clip of track.clips) {
+      if (track.type !== "video" && track.type !== "image") continue;
+      if (isGeneratedClipType(clip.type)) {
+        const key = getClipSourceKey(clip);
+        if (key) layersToLoad.set(key, clip);
+        continue;
+      }
+      const asset = clip.asset;
+      // Offline media renders nothing until it is relinked
+      if (!asset || asset.offline) continue;
+      if (asset.type !== "video" && asset.type !== "image") continue;
+      assetsToLoad.set(asset.id, asset);
+    }
+  }
+
+  const loaded = new Map<string, LoadedSource>();
+  for (const asset of assetsToLoad.values()) {
+    const source =
+      asset.type === "image"
+        ? await compositor.loadImage(asset.file)
+        : await compositor.loadSource(asset.file);
+    loaded.set(asset.id, {
+      id: `source-${asset.id}`,
+      source,
+      assetId: asset.id,
+      duration: asset.type === "image" ? asset.duration : source.duration,
+      width: source.width ?? 1920,
+      height: source.height ?? 1080,
+    });
+  }
+
+  for (const [key, clip] of layersToLoad) {
+    const source = await loadGeneratedSource(compositor, clip, key);
+    if (source) loaded.set(key, source);
+  }
+
+  for (const shape of getTransitionMattes(tracks)) {
+    const key = getShapeSourceKey(shape);
+    if (loaded.has(key)) continue;
+    loaded.set(key, await loadShapeLayerSource(compositor, shape, key));
+  }
+
+  return loaded;
+}
+
+// ---------------------------------------------------------------------------
+// Frame rendering (background-resilient)
+//
+// Key techniques that keep this running at full speed in background:
+//  • OffscreenCanvas (Phase 3)  – rendering is never deferred
+//  • MessageChannel yield       – not clamped like setTimeout in bg
+//  • encoder backpressure       – awaiting `onFrame` throttles naturally
+// ---------------------------------------------------------------------------
+
+/**
+ * Render every frame of the timeline with `renderFrame`, calling `onFrame`
+ * once each one is on the canvas.
+ */
+async function renderCompositionFrames(params: {
+  renderFrame: (composition: TimelineComposition) => Promise<void>;
+  tracks: TimelineTrackData[];
+  loadedSources: Map<string, LoadedSource>;
+  width: number;
+  height: number;
+  fps: number;
+  /** Timeline time of the first frame */
+  startTime?: number;
+  durationSeconds: number;
+  onFrame: (time: number, index: number) => Promise<void>;
+  onProgress?: (progress: number) => void;
+  abortSignal?: AbortSignal;
+}): Promise<void> {
+  const { renderFrame, tracks, loadedSources, width, height, fps } = params;
+  const frameCount = Math.ceil(params.durationSeconds * fps);
+
+  for (let i = 0; i < frameCount; i++) {
+    if (params.abortSignal?.aborted) {
+      throw new DOMException("Export cancelled", "AbortError");
+    }
+
+    const t = (params.startTime ?? 0) + i / fps;
+
+    const composition = buildCompositorComposition({
+      time: t,
+      tracks,
+      loadedSources,
+      width,
+      height,
+    });
+
+    // Render to OffscreenCanvas (un-throttled)
+    await renderFrame(composition);
+
+    await params.onFrame(t, i);
+
+    params.onProgress?.(i / frameCount);
+
+    // Yield periodically via MessageChannel so the worker can run GC,
+    // receive cancel messages, and post progress.
+    // MessageChannel is NOT clamped in background tabs (setTimeout is).
+    if (i % YIELD_INTERVAL === 0) {
+      await yieldFrame();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Codec selection
+// ---------------------------------------------------------------------------
+
+/** Export settings with defaults filled in; codec and bitrate stay optional */
+type ResolvedVideoSettings = Required<
+  Omit<ExportVideoSettings, "codec" | "bitrate">
+> &
+  Pick<ExportVideoSettings, "codec" | "bitrate">;
+type ResolvedAudioSettings = Required<Omit<ExportAudioSettings, "codec">> &
+  Pick<ExportAudioSettings, "codec">;
+
+// Only the requested codec when there is one, if the container takes it
+function getCodecCandidates<T>(supported: T[], requested?: T): T[] {
+  return requested
+    ? supported.filter((codec) => codec === requested)
+    : supported;
+}
+
+async function pickExportCodecs(params: {
+  containerPreference?: OutputContainer;
+  width: number;
+  height: number;
+  needsAudio: boolean;
+  video: ResolvedVideoSettings;
+  audio: ResolvedAudioSettings;
+}): Promise<{
+  container: OutputContainer;
+  videoCodec: VideoCodec;
+  audioCodec: AudioCodec | null;
+}> {
+  const { containerPreference, width, height, needsAudio, video, audio } =
+    params;
+
+  const candidates: OutputContainer[] = containerPreference
+    ? [containerPreference]
+    : ["mp4", "webm"];
+  const findVideoCodec = (container: OutputContainer) =>
+    getFirstEncodableVideoCodec(
+      getCodecCandidates(
+        getMediabunnyOutput(container).getSupportedVideoCodecs(),
+        video.codec,
+      ),
+      { width, height, bitrate: video.bitrate ?? 8e6 },
+    );
+
+  // First pass: require audio if needed.
+  for (const container of candidates) {
+    const format = getMediabunnyOutput(container);
+
+    const videoCodec = await findVideoCodec(container);
+    if (!videoCodec) continue;
+
+    const audioCodec = needsAudio
+      ? await getFirstEncodableAudioCodec(
+          getCodecCandidates(format.getSupportedAudioCodecs(), audio.codec),
+          {
+            numberOfChannels: audio.numberOfChannels,
+            sampleRate: audio.sampleRate,
+            bitrate: audio.bitrate,
+          },
+        )
+      : null;
+
+    if (needsAudio && !audioCodec) {
+      // Dropping the audio is only acceptable when no codec was asked for
+      if (audio.codec) {
+        throw new Error(
+          `${AUDIO_CODEC_LABELS[audio.codec]} audio can't be encoded in ${container.toUpperCase()} by this browser.`,
+        );
+      }
+      continue;
+    }
+
+    return { container, videoCodec, audioCodec };
+  }
+
+  // Second pass: video-only.
+  for (const container of candidates) {
+    const videoCodec = await findVideoCodec(container);
+    if (!videoCodec) continue;
+    return { container, videoCodec, audioCodec: null };
+  }
+
+  if (video.codec) {
+    throw new Error(
+      `${VIDEO_CODEC_LABELS[video.codec]} can't be encoded in ${candidates.join("/").toUpperCase()} at ${width}×${height} by this browser.`,
+    );
+  }
+  throw new Error(
+    "No encodable video codec found for the requested containers (mp4/webm).",
+  );
+}
+
+async function pickExportAudioCodec(
+  container: OutputContainer,
+  audio: ResolvedAudioSettings,
+): Promise<AudioCodec> {
+  // Browsers can't encode MP3 natively; fall back to the WASM encoder
+  if (container === "mp3" && !(await canEncodeAudio("mp3"))) {
+    registerMp3Encoder();
+  }
+
+  const audioCodec = await getFirstEncodableAudioCodec(
+    getCodecCandidates(
+      getMediabunnyOutput(container).getSupportedAudioCodecs(),
+      audio.codec,
+    ),
+    {
+      numberOfChannels: audio.numberOfChannels,
+      sampleRate: audio.sampleRate,
+      bitrate: audio.bitrate,
+    },
+  );
+  if (!audioCodec) {
+    throw new Error(
+      audio.codec
+        ? `${AUDIO_CODEC_LABELS[audio.codec]} audio can't be encoded in ${container.toUpperCase()} at ${audio.sampleRate} Hz by this browser.`
+        : `No encodable audio codec found for ${container.toUpperCase()} at ${audio.sampleRate} Hz.`,
+    );
+  }
+  return audioCodec;
+}
+
+// ---------------------------------------------------------------------------
+// Audio-only export – the mix goes straight to the encoder, no compositor
+// ---------------------------------------------------------------------------
+
+async function renderAudioExport(params: {
+  options: ExportTimelineOptions;
+  container: OutputContainer;
+  mix: AudioChannels;
+  audio: ResolvedAudioSettings;
+}): Promise<ExportResult> {
+  const { options, container, mix, audio } = params;
+
+  const audioCodec = await pickExportAudioCodec(container, audio);
+  const fileName = getExportFileName(options, container);
+  let outputTarget: OutputTargetHandle | null = null;
+
+  try {
+    outputTarget = await createOutputTarget({
+      destination: options.destination ?? getDefaultDestination(),
+      fileName,
+      onWrite: options.onBytesWritten,
+    });
+    const output = new Output({
+      format: getMediabunnyOutput(container),
+      target: outputTarget.target,
+    });
+
+    const audioSource = new AudioSampleSource({
+      codec: audioCodec,
+      bitrate: audio.bitrate,
+    });
+    output.addAudioTrack(audioSource);
+    await output.start();
+
+    await addMixedAudio(audioSource, mix, {
+      sampleRate: audio.sampleRate,
+      onProgress: options.onProgress,
+      abortSignal: options.abortSignal,
+    });
+    audioSource.close();
+    await output.finalize();
+
+    const mimeType = await output
+      .getMimeType()
+      .catch(() => output.format.mimeType);
+    const blob = await outputTarget.getResult(mimeType);
+
+    options.onProgress?.(1);
+    return { blob, fileName, storedName: outputTarget.storedName };
+  } catch (error) {
+    await outputTarget?.discard();
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Animated GIF / WebP export – compositor frames, no audio
+// ---------------------------------------------------------------------------
+
+async function renderAnimatedImageExport(params: {
+  options: ExportTimelineOptions;
+  format: AnimatedImageFormat;
+  width: number;
+  height: number;
+  startTime: number;
+  durationSeconds: number;
+}): Promise<ExportResult> {
+  const { options, format, width, height, startTime, durationSeconds } = params;
+  const fps = Math.min(options.fps ?? 15, ANIMATED_IMAGE_MAX_FPS);
+
+  const { compositor, canvas, renderFrame, dispose } =
+    await createExportCompositor({
+      width,
+      height,
+      backgroundColor: options.backgroundColor ?? "#000000",
+      fitMode: options.fitMode,
+    });
+  let output: OutputWriter | null = null;
+
+  try {
+    const loadedSources = await loadExportSources({
+      compositor,
+      tracks: options.tracks,
+    });
+
+    const fileName = getExportFileName(options, format);
+    output = await createOutputWriter({
+      destination: options.destination ?? getDefaultDestination(),
+      fileName,
+      onWrite: options.onBytesWritten,
+    });
+    const encoder = createAnimatedImageEncoder({
+      format,
+      width,
+      height,
+      fps,
+      settings: options.animated,
+      output,
+    });
+
+    // A shared GIF palette comes from a handful of frames across the range
+    if (encoder.paletteSampleCount > 0) {
+      await renderCompositionFrames({
+        renderFrame,
+        tracks: options.tracks,
+        loadedSources,
+        width,
+        height,
+        fps: encoder.paletteSampleCount / durationSeconds,
+        startTime,
+        durationSeconds,
+        onFrame: async () => encoder.addPaletteSample(canvas),
+        abortSignal: options.abortSignal,
+      });
+    }
+
+    await renderCompositionFrames({
+      renderFrame,
+      tracks: options.tracks,
+      loadedSources,
+      width,
+      height,
+      fps,
+      startTime,
+      durationSeconds,
+      onFrame: () => encoder.addFrame(canvas),
+      onProgress: options.onProgress,
+      abortSignal: options.abortSignal,
+    });
+
+    await encoder.finalize();
+    const blob = await output.getResult(getAnimatedImageMimeType(format));
+
+    options.onProgress?.(1);
+    return { blob, fileName, storedName: output.storedName };
+  } catch (error) {
+    await output?.discard();
+    throw error;
+  } finally {
+    dispose();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PNG sequence export – one lossless image per frame, zipped
+// ---------------------------------------------------------------------------
+
+async function renderImageSequenceExport(params: {
+  options: ExportTimelineOptions;
+  width: number;
+  height: number;
+  startTime: number;
+  durationSeconds: number;
+}): Promise<ExportResult> {
+  const { options, width, height, startTime, durationSeconds } = params;
+  const fps = options.fps ?? 30;
+
+  const { compositor, canvas, renderFrame, dispose } =
+    await createExportCompositor({
+      width,
+      height,
+      backgroundColor: options.backgroundColor ?? "#000000",
+      fitMode: options.fitMode,
+    });
+  let output: OutputWriter | null = null;
+
+  try {
+    const loadedSources = await loadExportSources({
+      compositor,
+      tracks: options.tracks,
+    });
+
+    const base = options.filenameBase ?? "localcut-export";
+    const frameCount = Math.ceil(durationSeconds * fps);
+    const digits = Math.max(4, String(frameCount).length);
+    const fileName = getExportFileName(options, IMAGE_SEQUENCE_FORMAT);
+    output = await createOutputWriter({
+      destination: options.destination ?? getDefaultDestination(),
+      fileName,
+      onWrite: options.onBytesWritten,
+    });
+    const zip = createZipWriter(output);
+
+    await renderCompositionFrames({
+      renderFrame,
+      tracks: options.tracks,
+      loadedSources,
+      width,
+      height,
+      fps,
+      startTime,
+      durationSeconds,
+      onFrame: async (_t, i) => {
+        const frame = await canvas.convertToBlob({ type: "image/png" });
+        const number = String(i + 1).padStart(digits, "0");
+        await zip.addFile(`${base}_${number}.png`, frame);
+      },
+      onProgress: options.onProgress,
+      abortSignal: options.abortSignal,
+    });
+
+    await zip.finish();
+    const blob = await output.getResult("application/zip");
+
+    options.onProgress?.(1);
+    return { blob, fileName, storedName: output.storedName };
+  } catch (error) {
+    await output?.discard();
+    throw error;
+  } finally {
+    dispose();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline entry point (runs inside the export worker)
+// ---------------------------------------------------------------------------
+
+export async function renderTimelineExport(
+  options: ExportTimelineOptions,
+): Promise<ExportResult> {
+  const width = options.width ?? 1920;
+  const height = options.height ?? 1080;
+  const fps = options.fps ?? 30;
+  const backgroundColor = options.backgroundColor ?? "#000000";
+
+  const timelineDuration = getTimelineDurationSeconds(options.tracks);
+  if (timelineDuration <= 0) {
+    throw new Error("Nothing to export: timeline duration is 0 seconds.");
+  }
+
+  // Everything below renders timeline time `startTime` as output time 0
+  const startTime = Math.max(0, options.range?.start ?? 0);
+  const endTime = Math.min(
+    timelineDuration,
+    options.range?.end ?? timelineDuration,
+  );
+  if (endTime <= startTime) {
+    throw new Error("Nothing to export: the selected range is empty.");
+  }
+  const durationSeconds = endTime - startTime;
+
+  const requestedContainer = options.container;
+  if (requestedContainer === IMAGE_SEQUENCE_FORMAT) {
+    return renderImageSequenceExport({
+      options,
+      width,
+      height,
+      startTime,
+      durationSeconds,
+    });
+  }
+  if (requestedContainer && isAnimatedImageFormat(requestedContainer)) {
+    return renderAnimatedImageExport({
+      options,
+      format: requestedContainer,
+      width,
+      height,
+      startTime,
+      durationSeconds,
+    });
+  }
+
+  const video: ResolvedVideoSettings = {
+    codec: options.video?.codec,
+    quality: options.video?.quality ?? "high",
+    bitrate: options.video?.bitrate,
+    bitrateMode: options.video?.bitrateMode ?? "variable",
+    keyFrameInterval: options.video?.keyFrameInterval ?? 5,
+  };
+  const audio: ResolvedAudioSettings = {
+    codec: options.audio?.codec,
+    sampleRate: options.audio?.sampleRate ?? EXPORT_SAMPLE_RATE,
+    numberOfChannels: options.audio?.numberOfChannels ?? EXPORT_CHANNELS,
+    bitrate: options.audio?.bitrate ?? 192e3,
+  };
+
+  // -----------------------------------------------------------------------
+  // Phase 1 – Mix audio
+  // -----------------------------------------------------------------------
+  const mixedAudio = await renderMixedAudio(options.tracks, durationSeconds, {
+    startTime,
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.numberOfChannels,
+    masterVolume: options.masterVolume,
+    abortSignal: options.abortSignal,
+  });
+  const needsAudio = mixedAudio !== null;
+
+  if (requestedContainer && isAudioOnlyFormat(requestedContainer)) {
+    if (!mixedAudio) {
+      throw new Error("Nothing to export: the timeline has no audible clips.");
+    }
+    return renderAudioExport({
+      options,
+      container: requestedContainer,
+      mix: mixedAudio,
+      audio,
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Phase 2 – Select codecs & container
+  // -----------------------------------------------------------------------
+  const { container, videoCodec, audioCodec } = await pickExportCodecs({
+    containerPreference: requestedContainer,
+    width,
+    height,
+    needsAudio,
+    video,
+    audio,
+  });
+
+  // -----------------------------------------------------------------------
+  // Phase 3 – Create OffscreenCanvas-backed compositor
+  // OffscreenCanvas is not coupled to the DOM visibility lifecycle, so
+  // compositor.render() + CanvasSource readback run unthrottled even when
+  // the tab is blurred, minimised, or the screen is locked.
+  // -----------------------------------------------------------------------
+  const { compositor, canvas, renderFrame, dispose } =
+    await createExportCompositor({
+      width,
+      height,
+      backgroundColor,
+      fitMode: options.fitMode,
+    });
+
+  const fileName = getExportFileName(options, container);
+  let outputTarget: OutputTargetHandle | null = null;
+
+  try {
+    const loadedSources = await loadExportSources({
+      compositor,
+      tracks: options.tracks,
+    });
+
+    // -------------------------------------------------------------------
+    // Phase 4 – Set up mediabunny output pipeline
+    // Chunks stream to disk as they are muxed, so long exports never hold
+    // the whole file in memory (unless no disk destination is available).
+    // -------------------------------------------------------------------
+    outputTarget = await createOutputTarget({
+      destination: options.destination ?? getDefaultDestination(),
+      fileName,
+      onWrite: options.onBytesWritten,
+    });
+    const output = new Output({
+      format: getMediabunnyOutput(container),
+      target: outputTarget.target,
+    });
+
+    const videoSource = new CanvasSource(canvas, {
+      codec: videoCodec,
+      bitrate: video.bitrate ?? getQuality(video.quality),
+      bitrateMode: video.bitrateMode,
+    });
+    output.addVideoTrack(videoSource, { frameRate: fps });
+
+    let audioSource: AudioSampleSource | null = null;
+    if (mixedAudio && audioCodec) {
+      audioSource = new AudioSampleSource({
+        codec: audioCodec,
+        bitrate: audio.bitrate,
+      });
+      output.addAudioTrack(audioSource);
+    }
+
+    await output.start();
+
+    // Feed audio first (smaller memory footprint) and close the source
+    // immediately so the output knows the audio track is complete and can
+    // flush audio packets without waiting for more data.
+    if (audioSource && mixedAudio) {
+      await addMixedAudio(audioSource, mixedAudio, {
+        sampleRate: audio.sampleRate,
+      });
+      audioSource.close();
+    }
+
+    // -------------------------------------------------------------------
+    // Phase 5 – Video render loop (see renderCompositionFrames)
+    // -------------------------------------------------------------------
+    const frameDuration = 1 / fps;
+    const keyFrameEvery = Math.max(1, Math.round(fps * video.keyFrameInterval));
+
+    await renderCompositionFrames({
+      renderFrame,
+      tracks: options.tracks,
+      loadedSources,
+      width,
+      height,
+      fps,
+      startTime,
+      durationSeconds,
+      // Encode the frame – awaiting respects encoder backpressure
+      onFrame: (_t, i) =>
+        videoSource.add(i * frameDuration, frameDuration, {
+          keyFrame: i % keyFrameEvery === 0,
+        }),
+      onProgress: options.onProgress,
+      abortSignal: options.abortSignal,
+    });
+
+    videoSource.close();
+    await output.finalize();
+
+    // -------------------------------------------------------------------
+    // Phase 6 – Produce result
+    // -------------------------------------------------------------------
+    const mimeType = await output
+      .getMimeType()
+      .catch(() => output.format.mimeType);
+    const blob = await outputTarget.getResult(mimeType);
+
+    options.onProgress?.(1);
+    return { blob, fileName, storedName: outputTarget.storedName };
+  } catch (error) {
+    await outputTarget?.discard();
+    throw error;
+  } finally {
+    dispose();
+  }
+}
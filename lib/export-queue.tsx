@@ -0,0 +1,266 @@
+"use client";
+
+import {
+  createContext,
+  type ReactNode,
+  use,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  type ExportResult,
+  type ExportTimelineOptions,
+  exportTimelineToBlob,
+} from "@/lib/export-video";
+import { removeStoredOutput } from "@/lib/output-target";
+
+// Everything a queued export needs; progress and cancellation are the queue's
+export type QueuedExportOptions = Omit<
+  ExportTimelineOptions,
+  "onProgress" | "onBytesWritten" | "abortSignal"
+>;
+
+export type QueuedExportStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface QueuedExport {
+  id: string;
+  label: string;
+  /**
+   * Tracks are immutable history snapshots, so the job keeps rendering the
+   * timeline as it was when queued while editing continues
+   */
+  options: QueuedExportOptions;
+  status: QueuedExportStatus;
+  progress: number;
+  bytesWritten: number;
+  error: string | null;
+  result: ExportResult | null;
+}
+
+// ============================================================================
+// Context Interface (state/actions pattern for dependency injection)
+// ============================================================================
+
+/** State for the export queue context */
+export interface ExportQueueState {
+  jobs: QueuedExport[];
+}
+
+/** Actions for the export queue context */
+export interface ExportQueueActions {
+  /** Add a job to the end of the queue and return its id */
+  enqueue: (label: string, options: QueuedExportOptions) => string;
+  /** Abort a running job or skip a queued one */
+  cancel: (jobId: string) => void;
+  /** Queue a failed or cancelled job again */
+  retry: (jobId: string) => void;
+  remove: (jobId: string) => void;
+  /** Drop every job that is no longer queued or running */
+  clearFinished: () => void;
+}
+
+/** Context value following state/actions pattern */
+export interface ExportQueueContextValue {
+  state: ExportQueueState;
+  actions: ExportQueueActions;
+}
+
+const ExportQueueContext = createContext<ExportQueueContextValue | null>(null);
+
+function isFinished(job: QueuedExport): boolean {
+  return job.status !== "queued" && job.status !== "running";
+}
+
+interface ExportQueueProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Runs queued exports one at a time in the export worker. Jobs only hold
+ * their own snapshot of the timeline, so the editor stays usable meanwhile.
+ * Mounted in the root layout, so jobs outlive the page that queued them.
+ */
+export function ExportQueueProvider({ children }: ExportQueueProviderProps) {
+  const [jobs, setJobs] = useState<QueuedExport[]>([]);
+  // Abort controllers of running jobs; set before the job's state updates
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Latest jobs, for dropping their outputs from outside a state update
+  const jobsRef = useRef(jobs);
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  const updateJob = useCallback(
+    (jobId: string, update: Partial<QueuedExport>) => {
+      setJobs((prev) =>
+        prev.map((job) => (job.id === jobId ? { ...job, ...update } : job)),
+      );
+    },
+    [],
+  );
+
+  const runJob = useCallback(
+    async (job: QueuedExport) => {
+      const controller = new AbortController();
+      controllersRef.current.set(job.id, controller);
+      updateJob(job.id, { status: "running", progress: 0, bytesWritten: 0 });
+
+      try {
+        const result = await exportTimelineToBlob({
+          ...job.options,
+          onProgress: (progress) => updateJob(job.id, { progress }),
+          onBytesWritten: (bytesWritten) => updateJob(job.id, { bytesWritten }),
+          abortSignal: controller.signal,
+        });
+        updateJob(job.id, { status: "done", progress: 1, result });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          updateJob(job.id, { status: "cancelled" });
+          return;
+        }
+        console.error("Queued export failed:", error);
+        updateJob(job.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Export failed",
+        });
+      } finally {
+        controllersRef.current.delete(job.id);
+      }
+    },
+    [updateJob],
+  );
+
+  // Start the next queued job whenever nothing is running
+  useEffect(() => {
+    if (controllersRef.current.size > 0) return;
+    const next = jobs.find((job) => job.status === "queued");
+    if (next) void runJob(next);
+  }, [jobs, runJob]);
+
+  // Closing or reloading the page would lose active jobs, so ask first
+  const hasActiveJobs = jobs.some((job) => !isFinished(job));
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasActiveJobs]);
+
+  // Stop the worker if the app goes away mid-export, and drop finished
+  // outputs nobody can download any more
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      for (const controller of controllers.values()) controller.abort();
+      for (const job of jobsRef.current) {
+        void removeStoredOutput(job.result?.storedName);
+      }
+    };
+  }, []);
+
+  // Delete the stored outputs of jobs that are removed or cleared
+  const releaseResults = useCallback(
+    (match: (job: QueuedExport) => boolean) => {
+      for (const job of jobsRef.current) {
+        if (match(job)) void removeStoredOutput(job.result?.storedName);
+      }
+    },
+    [],
+  );
+
+  const enqueue = useCallback((label: string, options: QueuedExportOptions) => {
+    const id = `export-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    setJobs((prev) => [
+      ...prev,
+      {
+        id,
+        label,
+        options,
+        status: "queued",
+        progress: 0,
+        bytesWritten: 0,
+        error: null,
+        result: null,
+      },
+    ]);
+    return id;
+  }, []);
+
+  const cancel = useCallback((jobId: string) => {
+    const controller = controllersRef.current.get(jobId);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setJobs((prev) =>
+      prev.map((job) =>
+        job.id === jobId && job.status === "queued"
+          ? { ...job, status: "cancelled" }
+          : job,
+      ),
+    );
+  }, []);
+
+  const retry = useCallback((jobId: string) => {
+    setJobs((prev) =>
+      prev.map((job) =>
+        job.id === jobId &&
+        (job.status === "error" || job.status === "cancelled")
+          ? {
+              ...job,
+              status: "queued",
+              progress: 0,
+              bytesWritten: 0,
+              error: null,
+            }
+          : job,
+      ),
+    );
+  }, []);
+
+  const remove = useCallback(
+    (jobId: string) => {
+      controllersRef.current.get(jobId)?.abort();
+      releaseResults((job) => job.id === jobId);
+      setJobs((prev) => prev.filter((job) => job.id !== jobId));
+    },
+    [releaseResults],
+  );
+
+  const clearFinished = useCallback(() => {
+    releaseResults(isFinished);
+    setJobs((prev) => prev.filter((job) => !isFinished(job)));
+  }, [releaseResults]);
+
+  // Build context value following state/actions pattern
+  const value: ExportQueueContextValue = {
+    state: { jobs },
+    actions: { enqueue, cancel, retry, remove, clearFinished },
+  };
+
+  return <ExportQueueContext value={value}>{children}</ExportQueueContext>;
+}
+
+// ============================================================================
+// Hooks - React 19 use() API
+// ============================================================================
+
+/** Hook to access the full export queue context */
+export function useExportQueue(): ExportQueueContextValue {
+  const context = use(ExportQueueContext);
+  if (!context) {
+    throw new Error(
+      "useExportQueue must be used within an ExportQueueProvider",
+    );
+  }
+  return context;
+}
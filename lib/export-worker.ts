@@ -0,0 +1,102 @@
+import { ALL_FORMATS, BlobSource, Input } from "mediabunny";
+import type { TimelineTrackData } from "@/components/editor/preview/timeline-player-context";
+import {
+  type ExportJob,
+  type ExportResult,
+  renderTimelineExport,
+} from "@/lib/export-pipeline";
+import type { ImportedMediaAsset } from "@/lib/media-import";
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export type ExportWorkerRequest =
+  | { type: "start"; job: ExportJob }
+  | { type: "cancel" };
+
+export type ExportWorkerResponse =
+  | { type: "progress"; progress: number; bytesWritten: number }
+  | ({ type: "done" } & ExportResult)
+  | { type: "error"; message: string; cancelled: boolean };
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+let abortController: AbortController | null = null;
+
+function post(message: ExportWorkerResponse) {
+  self.postMessage(message);
+}
+
+/**
+ * Give each asset a mediabunny `Input` again. Inputs can't be cloned across
+ * threads, so the main thread only sends the `File`.
+ */
+function hydrateAssets(tracks: TimelineTrackData[]): TimelineTrackData[] {
+  const assets = new Map<string, ImportedMediaAsset>();
+  const hydrate = (asset: ImportedMediaAsset) => {
+    let hydrated = assets.get(asset.id);
+    if (!hydrated) {
+      hydrated =
+        asset.type === "image" || asset.offline
+          ? asset
+          : {
+              ...asset,
+              input: new Input({
+                formats: ALL_FORMATS,
+                source: new BlobSource(asset.file),
+              }),
+            };
+      assets.set(asset.id, hydrated);
+    }
+    return hydrated;
+  };
+
+  return tracks.map((track) => ({
+    ...track,
+    clips: track.clips.map((clip) =>
+      clip.asset ? { ...clip, asset: hydrate(clip.asset) } : clip,
+    ),
+  }));
+}
+
+async function runExport(job: ExportJob) {
+  abortController = new AbortController();
+  // Writes are reported with the next frame's progress, not one message each
+  let bytesWritten = 0;
+  try {
+    const result = await renderTimelineExport({
+      ...job,
+      tracks: hydrateAssets(job.tracks),
+      onProgress: (progress) =>
+        post({ type: "progress", progress, bytesWritten }),
+      onBytesWritten: (bytes) => {
+        bytesWritten = bytes;
+      },
+      abortSignal: abortController.signal,
+    });
+    post({ type: "done", ...result });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Export failed",
+      cancelled: error instanceof DOMException && error.name === "AbortError",
+    });
+  } finally {
+    abortController = null;
+  }
+}
+
+self.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "start":
+      void runExport(message.job);
+      break;
+    case "cancel":
+      abortController?.abort();
+      break;
+  }
+};
@@ -0,0 +1,281 @@
+import type {
+  AnimatableProperty,
+  ClipFilters,
+  ClipKeyframes,
+  ClipTransform,
+  Keyframe,
+  KeyframeEasing,
+} from "@/components/editor/preview/timeline-player-context";
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export const TRANSFORM_PROPERTIES = [
+  "x",
+  "y",
+  "scaleX",
+  "scaleY",
+  "rotation",
+] as const satisfies readonly (keyof ClipTransform)[];
+
+export const FILTER_PROPERTIES = [
+  "opacity",
+  "brightness",
+  "contrast",
+  "saturation",
+  "hue",
+  "blur",
+] as const satisfies readonly (keyof ClipFilters)[];
+
+export const KEYFRAME_PROPERTY_LABELS: Record<AnimatableProperty, string> = {
+  x: "Position X",
+  y: "Position Y",
+  scaleX: "Scale X",
+  scaleY: "Scale Y",
+  rotation: "Rotation",
+  opacity: "Opacity",
+  brightness: "Brightness",
+  contrast: "Contrast",
+  saturation: "Saturation",
+  hue: "Hue",
+  blur: "Blur",
+};
+
+export const KEYFRAME_EASINGS: { value: KeyframeEasing; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "ease", label: "Ease" },
+  { value: "hold", label: "Hold" },
+];
+
+function isTransformProperty(
+  property: AnimatableProperty,
+): property is (typeof TRANSFORM_PROPERTIES)[number] {
+  return (TRANSFORM_PROPERTIES as readonly string[]).includes(property);
+}
+
+// Keyframes closer than this (about half a frame at 30fps) are the same keyframe
+const KEYFRAME_TIME_TOLERANCE = 1 / 60;
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function applyEasing(easing: KeyframeEasing, t: number): number {
+  switch (easing) {
+    case "hold":
+      return 0;
+    case "ease":
+      // Ease in-out (cubic)
+      return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+    default:
+      return t;
+  }
+}
+
+/** Value of a keyframed property at clip-local `time`, or undefined if not animated */
+export function evaluateKeyframes(
+  keyframes: Keyframe[] | undefined,
+  time: number,
+): number | undefined {
+  if (!keyframes || keyframes.length === 0) return undefined;
+
+  const first = keyframes[0];
+  if (time <= first.time) return first.value;
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) return last.value;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (time < from.time || time >= to.time) continue;
+    const t = applyEasing(
+      from.easing,
+      (time - from.time) / (to.time - from.time),
+    );
+    return from.value + (to.value - from.value) * t;
+  }
+
+  return last.value;
+}
+
+/** Base value of a property before keyframes */
+export function getStaticValue(
+  property: AnimatableProperty,
+  transform: ClipTransform,
+  filters: ClipFilters,
+): number {
+  return isTransformProperty(property)
+    ? transform[property]
+    : filters[property];
+}
+
+export function getAnimatedTransform(
+  transform: ClipTransform,
+  keyframes: ClipKeyframes | undefined,
+  time: number,
+): ClipTransform {
+  if (!keyframes) return transform;
+  const animated = { ...transform };
+  for (const property of TRANSFORM_PROPERTIES) {
+    const value = evaluateKeyframes(keyframes[property], time);
+    if (value !== undefined) animated[property] = value;
+  }
+  return animated;
+}
+
+export function getAnimatedFilters(
+  filters: ClipFilters,
+  keyframes: ClipKeyframes | undefined,
+  time: number,
+): ClipFilters {
+  if (!keyframes) return filters;
+  const animated = { ...filters };
+  for (const property of FILTER_PROPERTIES) {
+    const value = evaluateKeyframes(keyframes[property], time);
+    if (value !== undefined) animated[property] = value;
+  }
+  return animated;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+export function isAnimated(
+  keyframes: ClipKeyframes | undefined,
+  property: AnimatableProperty,
+): boolean {
+  return (keyframes?.[property]?.length ?? 0) > 0;
+}
+
+export function findKeyframeAt(
+  keyframes: Keyframe[] | undefined,
+  time: number,
+): Keyframe | undefined {
+  return keyframes?.find(
+    (keyframe) => Math.abs(keyframe.time - time) < KEYFRAME_TIME_TOLERANCE,
+  );
+}
+
+function withProperty(
+  keyframes: ClipKeyframes | undefined,
+  property: AnimatableProperty,
+  next: Keyframe[],
+): ClipKeyframes | undefined {
+  const { [property]: _previous, ...rest } = keyframes ?? {};
+  const result: ClipKeyframes =
+    next.length > 0 ? { ...rest, [property]: next } : rest;
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/** Add a keyframe, or update the value of the one already at `time` */
+export function setKeyframe(
+  keyframes: ClipKeyframes | undefined,
+  property: AnimatableProperty,
+  time: number,
+  value: number,
+): ClipKeyframes | undefined {
+  const current = keyframes?.[property] ?? [];
+  const existing = findKeyframeAt(current, time);
+  const next = existing
+    ? current.map((keyframe) =>
+        keyframe === existing ? { ...keyframe, value } : keyframe,
+      )
+    : [...current, { time, value, easing: "linear" as const }].sort(
+        (a, b) => a.time - b.time,
+      );
+  return withProperty(keyframes, property, next);
+}
+
+export function removeKeyframe(
+  keyframes: ClipKeyframes | undefined,
+  property: AnimatableProperty,
+  time: number,
+): ClipKeyframes | undefined {
+  const current = keyframes?.[property] ?? [];
+  const existing = findKeyframeAt(current, time);
+  if (!existing) return keyframes;
+  return withProperty(
+    keyframes,
+    property,
+    current.filter((keyframe) => keyframe !== existing),
+  );
+}
+
+export function setKeyframeEasing(
+  keyframes: ClipKeyframes | undefined,
+  property: AnimatableProperty,
+  time: number,
+  easing: KeyframeEasing,
+): ClipKeyframes | undefined {
+  const current = keyframes?.[property] ?? [];
+  const existing = findKeyframeAt(current, time);
+  if (!existing) return keyframes;
+  return withProperty(
+    keyframes,
+    property,
+    current.map((keyframe) =>
+      keyframe === existing ? { ...keyframe, easing } : keyframe,
+    ),
+  );
+}
+
+export function clearKeyframes(
+  keyframes: ClipKeyframes | undefined,
+  property: AnimatableProperty,
+): ClipKeyframes | undefined {
+  return withProperty(keyframes, property, []);
+}
+
+/** Move all keyframes by `offset` seconds (e.g. for the second half of a split) */
+export function shiftKeyframes(
+  keyframes: ClipKeyframes | undefined,
+  offset: number,
+): ClipKeyframes | undefined {
+  if (!keyframes) return keyframes;
+  const shifted: ClipKeyframes = {};
+  for (const [property, list] of Object.entries(keyframes)) {
+    shifted[property as AnimatableProperty] = list.map((keyframe) => ({
+      ...keyframe,
+      time: keyframe.time + offset,
+    }));
+  }
+  return shifted;
+}
+
+/** Multiply all keyframe times by `factor` (e.g. when a clip is retimed) */
+export function scaleKeyframes(
+  keyframes: ClipKeyframes | undefined,
+  factor: number,
+): ClipKeyframes | undefined {
+  if (!keyframes || factor === 1) return keyframes;
+  const scaled: ClipKeyframes = {};
+  for (const [property, list] of Object.entries(keyframes)) {
+    scaled[property as AnimatableProperty] = list.map((keyframe) => ({
+      ...keyframe,
+      time: keyframe.time * factor,
+    }));
+  }
+  return scaled;
+}
+
+/** Distinct keyframe times across all properties, for timeline markers */
+export function getKeyframeTimes(
+  keyframes: ClipKeyframes | undefined,
+): number[] {
+  if (!keyframes) return [];
+  const times: number[] = [];
+  for (const list of Object.values(keyframes)) {
+    for (const keyframe of list) {
+      if (
+        !times.some(
+          (time) => Math.abs(time - keyframe.time) < KEYFRAME_TIME_TOLERANCE,
+        )
+      ) {
+        times.push(keyframe.time);
+      }
+    }
+  }
+  return times.sort((a, b) => a - b);
+}
@@ -29,8 +29,26 @@ export interface ImportedMediaAsset {
   audioCodec?: string;
   // MediaBunny Input reference for further processing (not used for images)
   input?: Input;
+  /** The file can't be read; clips keep their place until it is relinked */
+  offline?: boolean;
+  /**
+   * Offline only: the missing file as it was recorded, for when `file` is
+   * just an empty stand-in (e.g. media a project file referenced but no
+   * file was found for)
+   */
+  missingFile?: { size: number; hash: string; mimeType: string };
 }
 
+/**
+ * Previously imported asset to bring back with its original id (e.g. from a
+ * saved project). Its saved metadata describes it if the file is unreadable.
+ */
+export type RestorableMediaAsset = Pick<
+  ImportedMediaAsset,
+  "id" | "file" | "thumbnails"
+> &
+  Partial<Omit<ImportedMediaAsset, "input" | "offline">>;
+
 // ============================================================================
 // Context Interface (state/actions/meta pattern for dependency injection)
 // ============================================================================
@@ -46,7 +64,15 @@ export interface MediaImportState {
 /** Actions for media import context */
 export interface MediaImportActions {
   importFiles: (files: FileList | File[]) => Promise<void>;
+  restoreAssets: (
+    entries: RestorableMediaAsset[],
+  ) => Promise<ImportedMediaAsset[]>;
   removeAsset: (assetId: string) => void;
+  /** Replace an asset's file; the asset gets a new id, null if unreadable */
+  relinkAsset: (
+    assetId: string,
+    file: File,
+  ) => Promise<ImportedMediaAsset | null>;
   clearAllAssets: () => void;
   openFilePicker: () => void;
 }
@@ -206,6 +232,87 @@ async function generateImageThumbnail(file: File): Promise<string> {
   });
 }
 
+/**
+ * Read a file's type and metadata. Video and audio get a MediaBunny Input,
+ * which the caller owns. Null for unsupported files; throws if unreadable.
+ */
+export async function readMediaFile(
+  file: File,
+): Promise<Omit<ImportedMediaAsset, "id" | "thumbnails"> | null> {
+  const mediaType = getMediaType(file);
+  if (!mediaType) return null;
+
+  // Handle images separately (no MediaBunny needed)
+  if (mediaType === "image") {
+    const { width, height } = await getImageDimensions(file);
+    return {
+      name: file.name,
+      type: "image",
+      file,
+      duration: 5, // Default 5 seconds for images on timeline
+      width,
+      height,
+    };
+  }
+
+  // Create MediaBunny Input from file for video/audio
+  const input = new Input({
+    formats: ALL_FORMATS,
+    source: new BlobSource(file),
+  });
+
+  try {
+    // Get duration
+    const duration = await input.computeDuration();
+
+    // Build base asset
+    const media: Omit<ImportedMediaAsset, "id" | "thumbnails"> = {
+      name: file.name,
+      type: mediaType,
+      file,
+      duration,
+      input,
+    };
+
+    // Get track-specific metadata (fast - just reading container metadata)
+    if (mediaType === "video") {
+      const videoTrack = await input.getPrimaryVideoTrack();
+      if (videoTrack) {
+        media.width = videoTrack.displayWidth;
+        media.height = videoTrack.displayHeight;
+        media.videoCodec = videoTrack.codec ?? undefined;
+      }
+    }
+
+    // Video files can carry audio too
+    const audioTrack = await input.getPrimaryAudioTrack();
+    if (audioTrack) {
+      media.sampleRate = audioTrack.sampleRate;
+      media.channels = audioTrack.numberOfChannels;
+      media.audioCodec = audioTrack.codec ?? undefined;
+    }
+
+    return media;
+  } catch (error) {
+    input.dispose();
+    throw error;
+  }
+}
+
+// Asset whose file can't be read anymore, described by its saved metadata
+function getOfflineAsset(
+  restored: RestorableMediaAsset,
+): ImportedMediaAsset | null {
+  if (!restored.type) return null;
+  return {
+    ...restored,
+    name: restored.name ?? restored.file.name,
+    type: restored.type,
+    duration: restored.duration ?? 0,
+    offline: true,
+  };
+}
+
 interface MediaImportProviderProps {
   children: ReactNode;
 }
@@ -277,85 +384,58 @@ export function MediaImportProvider({ children }: MediaImportProviderProps) {
     [],
   );
 
-  // Process a single file and extract metadata using MediaBunny (fast - no thumbnails)
-  const processFile = useCallback(
-    async (file: File): Promise<ImportedMediaAsset | null> => {
-      const mediaType = getMediaType(file);
-      if (!mediaType) {
-        console.warn(`Unsupported file type: ${file.type} (${file.name})`);
-        return null;
+  // Kick off background thumbnail generation for video assets that need it
+  const startThumbnailGeneration = useCallback(
+    (importedAssets: ImportedMediaAsset[]) => {
+      const videoAssets = importedAssets.filter(
+        (asset) => asset.type === "video" && asset.input && !asset.thumbnails,
+      );
+      if (videoAssets.length === 0) return;
+
+      setLoadingThumbnails((prev) => {
+        const next = new Set(prev);
+        for (const asset of videoAssets) {
+          next.add(asset.id);
+        }
+        return next;
+      });
+
+      // Fire and forget - thumbnails will be generated in background
+      for (const asset of videoAssets) {
+        if (asset.input) {
+          generateThumbnails(asset.id, asset.input, asset.duration);
+        }
       }
+    },
+    [generateThumbnails],
+  );
 
+  // Process a single file and extract metadata using MediaBunny (fast - no thumbnails)
+  // When restoring, the original id and cached thumbnails are reused, and an
+  // unreadable file comes back as an offline asset
+  const processFile = useCallback(
+    async (
+      file: File,
+      restored?: RestorableMediaAsset,
+    ): Promise<ImportedMediaAsset | null> => {
       try {
-        // Handle images separately (no MediaBunny needed)
-        if (mediaType === "image") {
-          const { width, height } = await getImageDimensions(file);
-          const thumbnail = await generateImageThumbnail(file);
-
-          const asset: ImportedMediaAsset = {
-            id: generateId(),
-            name: file.name,
-            type: "image",
-            file,
-            duration: 5, // Default 5 seconds for images on timeline
-            width,
-            height,
-            thumbnails: [thumbnail],
-          };
-
-          return asset;
+        const media = await readMediaFile(file);
+        if (!media) {
+          console.warn(`Unsupported file type: ${file.type} (${file.name})`);
+          return restored ? getOfflineAsset(restored) : null;
         }
 
-        // Create MediaBunny Input from file for video/audio
-        const input = new Input({
-          formats: ALL_FORMATS,
-          source: new BlobSource(file),
-        });
-
-        // Get duration
-        const duration = await input.computeDuration();
-
-        // Build base asset
-        const asset: ImportedMediaAsset = {
-          id: generateId(),
-          name: file.name,
-          type: mediaType,
-          file,
-          duration,
-          input,
-        };
-
-        // Get track-specific metadata (fast - just reading container metadata)
-        if (mediaType === "video") {
-          const videoTrack = await input.getPrimaryVideoTrack();
-          if (videoTrack) {
-            asset.width = videoTrack.displayWidth;
-            asset.height = videoTrack.displayHeight;
-            asset.videoCodec = videoTrack.codec ?? undefined;
-          }
-
-          // Also check for audio track in video files
-          const audioTrack = await input.getPrimaryAudioTrack();
-          if (audioTrack) {
-            asset.sampleRate = audioTrack.sampleRate;
-            asset.channels = audioTrack.numberOfChannels;
-            asset.audioCodec = audioTrack.codec ?? undefined;
-          }
-
-          // Note: Thumbnails are generated in the background after import
-        } else {
-          const audioTrack = await input.getPrimaryAudioTrack();
-          if (audioTrack) {
-            asset.sampleRate = audioTrack.sampleRate;
-            asset.channels = audioTrack.numberOfChannels;
-            asset.audioCodec = audioTrack.codec ?? undefined;
-          }
-        }
+        // Video thumbnails are generated in the background after import
+        const thumbnails =
+          restored?.thumbnails ??
+          (media.type === "image"
+            ? [await generateImageThumbnail(file)]
+            : undefined);
 
-        return asset;
+        return { ...media, id: restored?.id ?? generateId(), thumbnails };
       } catch (error) {
         console.error(`Failed to process file ${file.name}:`, error);
-        return null;
+        return restored ? getOfflineAsset(restored) : null;
       }
     },
     [],
@@ -387,25 +467,7 @@ export function MediaImportProvider({ children }: MediaImportProviderProps) {
           setAssets((prev) => [...prev, ...successfulImports]);
 
           // Start generating thumbnails in background for video assets
-          const videoAssets = successfulImports.filter(
-            (asset) => asset.type === "video" && asset.input,
-          );
-          if (videoAssets.length > 0) {
-            setLoadingThumbnails((prev) => {
-              const next = new Set(prev);
-              for (const asset of videoAssets) {
-                next.add(asset.id);
-              }
-              return next;
-            });
-
-            // Fire and forget - thumbnails will be generated in background
-            for (const asset of videoAssets) {
-              if (asset.input) {
-                generateThumbnails(asset.id, asset.input, asset.duration);
-              }
-            }
-          }
+          startThumbnailGeneration(successfulImports);
 
           if (successfulImports.length < fileArray.length) {
             const skipped = fileArray.length - successfulImports.length;
@@ -419,7 +481,48 @@ export function MediaImportProvider({ children }: MediaImportProviderProps) {
         setIsImporting(false);
       }
     },
-    [processFile, generateThumbnails],
+    [processFile, startThumbnailGeneration],
+  );
+
+  // Restore previously imported assets, keeping their ids so clips can reference them
+  const restoreAssets = useCallback(
+    async (entries: RestorableMediaAsset[]) => {
+      if (entries.length === 0) return [];
+
+      setIsImporting(true);
+      setImportError(null);
+
+      try {
+        const results = await Promise.all(
+          entries.map((entry) => processFile(entry.file, entry)),
+        );
+
+        const restoredAssets = results.filter(
+          (asset): asset is ImportedMediaAsset => asset !== null,
+        );
+        const restoredIds = new Set(restoredAssets.map((asset) => asset.id));
+
+        setAssets((prev) => [
+          ...prev.filter((asset) => !restoredIds.has(asset.id)),
+          ...restoredAssets,
+        ]);
+        startThumbnailGeneration(restoredAssets);
+
+        if (restoredAssets.length < entries.length) {
+          const skipped = entries.length - restoredAssets.length;
+          console.warn(`${skipped} file(s) could not be restored`);
+        }
+
+        return restoredAssets;
+      } catch (error) {
+        console.error("Restore failed:", error);
+        setImportError("Failed to restore project media.");
+        return [];
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [processFile, startThumbnailGeneration],
   );
 
   // Remove a single asset
@@ -434,6 +537,25 @@ export function MediaImportProvider({ children }: MediaImportProviderProps) {
     });
   }, []);
 
+  // Swap in a new file for an asset, keeping its place in the library
+  const relinkAsset = useCallback(
+    async (assetId: string, file: File) => {
+      const relinked = await processFile(file);
+      if (!relinked) return null;
+
+      setAssets((prev) =>
+        prev.map((asset) => {
+          if (asset.id !== assetId) return asset;
+          asset.input?.dispose();
+          return relinked;
+        }),
+      );
+      startThumbnailGeneration([relinked]);
+      return relinked;
+    },
+    [processFile, startThumbnailGeneration],
+  );
+
   // Clear all assets
   const clearAllAssets = useCallback(() => {
     // Dispose all MediaBunny Inputs
@@ -471,7 +593,9 @@ export function MediaImportProvider({ children }: MediaImportProviderProps) {
     },
     actions: {
       importFiles,
+      restoreAssets,
       removeAsset,
+      relinkAsset,
       clearAllAssets,
       openFilePicker,
     },
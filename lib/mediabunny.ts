@@ -1,11 +1,19 @@
 import {
   AdtsOutputFormat,
   type AudioCodec,
+  FlacOutputFormat,
   MkvOutputFormat,
   MovOutputFormat,
   Mp3OutputFormat,
   Mp4OutputFormat,
   type OutputFormat,
+  PCM_AUDIO_CODECS,
+  QUALITY_HIGH,
+  QUALITY_LOW,
+  QUALITY_MEDIUM,
+  QUALITY_VERY_HIGH,
+  QUALITY_VERY_LOW,
+  type Quality,
   type VideoCodec,
   WavOutputFormat,
   WebMOutputFormat,
@@ -79,6 +87,13 @@ export const getCommonAudioCodecs = (
   return COMMON_AUDIO_CODECS.filter((codec) => supported.includes(codec));
 };
 
+// Codecs that ignore the bitrate setting
+export const isLosslessAudioCodec = (codec: AudioCodec): boolean => {
+  return (
+    codec === "flac" || (PCM_AUDIO_CODECS as readonly string[]).includes(codec)
+  );
+};
+
 export const inputContainers = ["mp4", "webm", "mov", "mkv"] as const;
 export const outputContainers = [
   "mp4",
@@ -88,6 +103,7 @@ export const outputContainers = [
   "mkv",
   "aac",
   "mp3",
+  "flac",
 ] as const;
 
 export type InputContainer = (typeof inputContainers)[number];
@@ -124,11 +140,15 @@ export const getMediabunnyOutput = (
     return new Mp3OutputFormat();
   }
 
+  if (container === "flac") {
+    return new FlacOutputFormat();
+  }
+
   throw new Error(`Unsupported container type: ${container satisfies never}`);
 };
 
 export const isAudioOnlyFormat = (container: OutputContainer): boolean => {
-  return ["wav", "aac", "mp3"].includes(container);
+  return ["wav", "aac", "mp3", "flac"].includes(container);
 };
 
 export const getMimeType = (container: OutputContainer): string => {
@@ -140,6 +160,7 @@ export const getMimeType = (container: OutputContainer): string => {
     wav: "audio/wav",
     aac: "audio/aac",
     mp3: "audio/mpeg",
+    flac: "audio/flac",
   };
   return mimeTypes[container];
 };
@@ -147,3 +168,80 @@ export const getMimeType = (container: OutputContainer): string => {
 export const getFileExtension = (container: OutputContainer): string => {
   return container;
 };
+
+// Subjective quality presets for video encoding, lowest first
+export const qualityPresets = [
+  "very-low",
+  "low",
+  "medium",
+  "high",
+  "very-high",
+] as const;
+
+export type QualityPreset = (typeof qualityPresets)[number];
+
+export const QUALITY_PRESET_LABELS: Record<QualityPreset, string> = {
+  "very-low": "Very low",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  "very-high": "Very high",
+};
+
+export const getQuality = (preset: QualityPreset): Quality => {
+  const qualities: Record<QualityPreset, Quality> = {
+    "very-low": QUALITY_VERY_LOW,
+    low: QUALITY_LOW,
+    medium: QUALITY_MEDIUM,
+    high: QUALITY_HIGH,
+    "very-high": QUALITY_VERY_HIGH,
+  };
+  return qualities[preset];
+};
+
+// Approximate bits per second mediabunny targets for a quality preset
+// (mirrors its internal formula, which isn't exported)
+export const estimateVideoBitrate = (
+  preset: QualityPreset,
+  codec: VideoCodec,
+  width: number,
+  height: number,
+): number => {
+  const factors: Record<QualityPreset, number> = {
+    "very-low": 0.3,
+    low: 0.6,
+    medium: 1,
+    high: 2,
+    "very-high": 4,
+  };
+  const codecEfficiency: Record<VideoCodec, number> = {
+    avc: 1,
+    hevc: 0.6,
+    vp9: 0.6,
+    av1: 0.4,
+    vp8: 1.2,
+  };
+  const scale = ((width * height) / (1920 * 1080)) ** 0.95;
+  return 3e6 * scale * codecEfficiency[codec] * factors[preset];
+};
+
+// Approximate bits per second of an audio track; lossless codecs ignore
+// `bitrate` and depend on the sample format instead
+export const estimateAudioBitrate = (
+  codec: AudioCodec,
+  options: { sampleRate: number; numberOfChannels: number; bitrate: number },
+): number => {
+  const { sampleRate, numberOfChannels, bitrate } = options;
+  if (codec === "flac") {
+    // Typical compression ratio for mixed program audio
+    return sampleRate * numberOfChannels * 16 * 0.6;
+  }
+  const pcmBits = codec.match(/^pcm-[suf](\d+)/)?.[1];
+  if (pcmBits) {
+    return sampleRate * numberOfChannels * Number(pcmBits);
+  }
+  if (codec === "ulaw" || codec === "alaw") {
+    return sampleRate * numberOfChannels * 8;
+  }
+  return bitrate;
+};
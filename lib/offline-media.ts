@@ -0,0 +1,144 @@
+"use client";
+
+import type { Compositor } from "@mediafox/core";
+import type {
+  LoadedSource,
+  TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
+import type { ImportedMediaAsset } from "@/lib/media-import";
+
+// ============================================================================
+// Placeholder
+// ============================================================================
+
+const DEFAULT_PLACEHOLDER_SIZE = { width: 1920, height: 1080 };
+
+/** Source key of the placeholder drawn in place of an offline asset */
+export function getOfflineSourceKey(asset: ImportedMediaAsset): string {
+  const { width, height } = getPlaceholderSize(asset);
+  return `offline:${width}x${height}`;
+}
+
+// Placeholders take the asset's size so transforms and crops still line up
+export function getPlaceholderSize(asset: ImportedMediaAsset) {
+  return asset.width && asset.height
+    ? { width: asset.width, height: asset.height }
+    : DEFAULT_PLACEHOLDER_SIZE;
+}
+
+/** Draw the striped "Media Offline" card shown for missing media */
+export async function rasterizeOfflinePlaceholder(
+  width: number,
+  height: number,
+): Promise<File> {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+
+  ctx.fillStyle = "#1c1917";
+  ctx.fillRect(0, 0, width, height);
+
+  // Warning stripes
+  const stripe = Math.max(24, Math.round(Math.min(width, height) / 12));
+  ctx.strokeStyle = "rgba(245, 158, 11, 0.18)";
+  ctx.lineWidth = stripe / 2;
+  ctx.beginPath();
+  for (let x = -height; x < width; x += stripe) {
+    ctx.moveTo(x, height);
+    ctx.lineTo(x + height, 0);
+  }
+  ctx.stroke();
+
+  const fontSize = Math.max(16, Math.round(Math.min(width, height) / 10));
+  ctx.font = `700 ${fontSize}px Arial, Helvetica, sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#f59e0b";
+  ctx.fillText("Media Offline", width / 2, height / 2);
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return new File([blob], "offline-media.png", { type: "image/png" });
+}
+
+/** Rasterize the offline placeholder and load it as an image source */
+export async function loadOfflinePlaceholderSource(
+  compositor: Compositor,
+  asset: ImportedMediaAsset,
+  key: string,
+): Promise<LoadedSource> {
+  const { width, height } = getPlaceholderSize(asset);
+  const source = await compositor.loadImage(
+    await rasterizeOfflinePlaceholder(width, height),
+  );
+
+  return {
+    id: `source-${key}`,
+    source,
+    assetId: key,
+    duration: 0,
+    width,
+    height,
+  };
+}
+
+// ============================================================================
+// Relinking
+// ============================================================================
+
+/** Point every clip of `assetId` at the relinked asset */
+export function relinkTracks(
+  tracks: TimelineTrackData[],
+  assetId: string,
+  asset: ImportedMediaAsset,
+): TimelineTrackData[] {
+  return tracks.map((track) =>
+    track.clips.some((clip) => clip.asset?.id === assetId)
+      ? {
+          ...track,
+          clips: track.clips.map((clip) =>
+            clip.asset?.id === assetId ? { ...clip, asset } : clip,
+          ),
+        }
+      : track,
+  );
+}
+
+/** What a candidate file has in common with the asset it may replace */
+export interface RelinkMatch {
+  name: boolean;
+  duration: boolean;
+  resolution: boolean;
+  codec: boolean;
+}
+
+// Containers round durations differently
+const DURATION_TOLERANCE = 0.1;
+
+export function getRelinkMatch(
+  asset: ImportedMediaAsset,
+  candidate: Omit<ImportedMediaAsset, "id" | "thumbnails">,
+): RelinkMatch | null {
+  if (candidate.type !== asset.type) return null;
+  return {
+    name: candidate.name === asset.name,
+    duration:
+      asset.type === "image" ||
+      Math.abs(candidate.duration - asset.duration) <= DURATION_TOLERANCE,
+    resolution:
+      asset.type === "audio" ||
+      (candidate.width === asset.width && candidate.height === asset.height),
+    codec:
+      candidate.videoCodec === asset.videoCodec &&
+      candidate.audioCodec === asset.audioCodec,
+  };
+}
+
+/** Higher is a better match; the name counts for less than the contents */
+export function getRelinkScore(match: RelinkMatch): number {
+  return (
+    Number(match.name) +
+    Number(match.duration) * 2 +
+    Number(match.resolution) * 2 +
+    Number(match.codec)
+  );
+}
@@ -0,0 +1,388 @@
+import {
+  BufferTarget,
+  StreamTarget,
+  type StreamTargetChunk,
+  type Target,
+} from "mediabunny";
+
+// ============================================================================
+// Destinations
+// ============================================================================
+
+/**
+ * Where an output is written while it is encoded. Files and OPFS stream to
+ * disk chunk by chunk; memory keeps the whole output in a buffer.
+ */
+export type OutputDestination =
+  | { type: "file"; handle: FileSystemFileHandle }
+  | { type: "opfs" }
+  | { type: "memory" };
+
+// Not in the DOM typings yet (Chromium only)
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: {
+    suggestedName?: string;
+    types?: { description?: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+  showDirectoryPicker?: (options?: {
+    mode?: "read" | "readwrite";
+  }) => Promise<FileSystemDirectoryHandle>;
+};
+
+// OPFS directory that holds in-progress and finished outputs
+const OPFS_DIRECTORY = "outputs";
+
+export function supportsSaveFilePicker(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof (window as SaveFilePickerWindow).showSaveFilePicker === "function"
+  );
+}
+
+export function supportsDirectoryPicker(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof (window as SaveFilePickerWindow).showDirectoryPicker === "function"
+  );
+}
+
+function supportsOpfs(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    typeof navigator.storage?.getDirectory === "function" &&
+    typeof FileSystemFileHandle !== "undefined" &&
+    "createWritable" in FileSystemFileHandle.prototype
+  );
+}
+
+/**
+ * Ask the user where to save `fileName`. Must run inside a user gesture,
+ * before any other `await`. Resolves to null if the picker is dismissed.
+ */
+export async function pickSaveFile(
+  fileName: string,
+  mimeType: string,
+): Promise<FileSystemFileHandle | null> {
+  const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+  if (!picker) return null;
+
+  const extension = fileName.slice(fileName.lastIndexOf("."));
+  try {
+    return await picker({
+      suggestedName: fileName,
+      types: [{ accept: { [mimeType]: [extension] } }],
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Ask the user for a folder to save several outputs into. Same gesture rules
+ * as `pickSaveFile`; resolves to null if the picker is dismissed.
+ */
+export async function pickSaveDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as SaveFilePickerWindow).showDirectoryPicker;
+  if (!picker) return null;
+
+  try {
+    return await picker({ mode: "readwrite" });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Stream to OPFS where available, otherwise fall back to memory */
+export function getDefaultDestination(): OutputDestination {
+  return supportsOpfs() ? { type: "opfs" } : { type: "memory" };
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+export interface OutputTargetHandle {
+  target: Target;
+  /** The finished output; files on disk are returned without reading them */
+  getResult: (mimeType: string) => Promise<Blob>;
+  /** Throw away a partially written output */
+  discard: () => Promise<void>;
+  /** OPFS entry holding the output; pass to `removeStoredOutput` when done */
+  storedName: string | null;
+}
+
+/** Stream chunks into a file, discarding them instead if the output is dropped */
+function createFileTarget(writable: FileSystemWritableFileStream): {
+  target: StreamTarget;
+  discard: () => Promise<void>;
+} {
+  let discarded = false;
+  const stream = new WritableStream<StreamTargetChunk>({
+    write: (chunk) =>
+      writable.write({
+        type: "write",
+        position: chunk.position,
+        data: chunk.data,
+      }),
+    close: () => (discarded ? writable.abort() : writable.close()),
+    abort: (reason) => writable.abort(reason),
+  });
+  return {
+    target: new StreamTarget(stream, { chunked: true }),
+    discard: async () => {
+      discarded = true;
+      await writable.abort().catch(() => undefined);
+    },
+  };
+}
+
+async function getOpfsDirectory(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+}
+
+/** Open the file an output streams into: the user's, or a new one in OPFS */
+async function openOutputFile(
+  destination: Exclude<OutputDestination, { type: "memory" }>,
+  fileName: string,
+): Promise<{
+  fileHandle: FileSystemFileHandle;
+  writable: FileSystemWritableFileStream;
+  storedName: string | null;
+}> {
+  if (destination.type === "file") {
+    const fileHandle = destination.handle;
+    return {
+      fileHandle,
+      writable: await fileHandle.createWritable(),
+      storedName: null,
+    };
+  }
+  // OPFS names are made unique so parallel outputs don't collide
+  const storedName = `${Date.now()}-${fileName}`;
+  const directory = await getOpfsDirectory();
+  const fileHandle = await directory.getFileHandle(storedName, {
+    create: true,
+  });
+  return {
+    fileHandle,
+    writable: await fileHandle.createWritable(),
+    storedName,
+  };
+}
+
+/**
+ * Create the mediabunny target for `destination`. `onWrite` receives the
+ * number of bytes written so far.
+ */
+export async function createOutputTarget(params: {
+  destination: OutputDestination;
+  fileName: string;
+  onWrite?: (bytesWritten: number) => void;
+}): Promise<OutputTargetHandle> {
+  const { destination, fileName, onWrite } = params;
+
+  let handle: OutputTargetHandle;
+  if (destination.type === "memory") {
+    const target = new BufferTarget();
+    handle = {
+      target,
+      getResult: async (mimeType) => {
+        if (!target.buffer) throw new Error("Output buffer is empty.");
+        return new Blob([target.buffer], { type: mimeType });
+      },
+      discard: async () => undefined,
+      storedName: null,
+    };
+  } else {
+    const { fileHandle, writable, storedName } = await openOutputFile(
+      destination,
+      fileName,
+    );
+    const file = createFileTarget(writable);
+    handle = {
+      target: file.target,
+      getResult: async (mimeType) => {
+        const written = await fileHandle.getFile();
+        return new File([written], fileName, { type: mimeType });
+      },
+      discard: async () => {
+        await file.discard();
+        await removeStoredOutput(storedName);
+      },
+      storedName,
+    };
+  }
+
+  let bytesWritten = 0;
+  handle.target.onwrite = (_start, end) => {
+    if (end <= bytesWritten) return;
+    bytesWritten = end;
+    onWrite?.(bytesWritten);
+  };
+  return handle;
+}
+
+// ============================================================================
+// Writers
+// ============================================================================
+
+/** Bytes for an `OutputWriter`; blobs are copied over without being read */
+export type OutputData = Uint8Array<ArrayBuffer> | Blob;
+
+/** Like a target, for outputs we write ourselves rather than mediabunny */
+export interface OutputWriter {
+  /**
+   * Write `data` at `position`, or append it when no position is given.
+   * Rewriting earlier bytes only works for bytes written as arrays.
+   */
+  write: (data: OutputData, position?: number) => Promise<void>;
+  /** Close the output and return it; files are not read back */
+  getResult: (mimeType: string) => Promise<Blob>;
+  /** Throw away a partially written output */
+  discard: () => Promise<void>;
+  /** OPFS entry holding the output; pass to `removeStoredOutput` when done */
+  storedName: string | null;
+}
+
+const getDataSize = (data: OutputData) =>
+  data instanceof Blob ? data.size : data.byteLength;
+
+/** Keep the written parts as they are, patching earlier ones in place */
+function createMemoryWriter(): Pick<OutputWriter, "write" | "getResult"> {
+  const parts: OutputData[] = [];
+  let length = 0;
+
+  return {
+    write: async (data, position = length) => {
+      if (position === length) {
+        parts.push(data instanceof Blob ? data : data.slice());
+        length += getDataSize(data);
+        return;
+      }
+      if (data instanceof Blob || position + data.length > length) {
+        throw new Error("Only bytes already written can be rewritten.");
+      }
+      let offset = 0;
+      for (const part of parts) {
+        const size = getDataSize(part);
+        const start = Math.max(position, offset);
+        const end = Math.min(position + data.length, offset + size);
+        if (start < end) {
+          if (part instanceof Blob) {
+            throw new Error("Only bytes written as arrays can be rewritten.");
+          }
+          part.set(
+            data.subarray(start - position, end - position),
+            start - offset,
+          );
+        }
+        offset += size;
+      }
+    },
+    getResult: async (mimeType) => new Blob(parts, { type: mimeType }),
+  };
+}
+
+/**
+ * Open `destination` for an output we encode ourselves (GIF, WebP, ZIP).
+ * Like `createOutputTarget`, files stream to disk as they are written.
+ */
+export async function createOutputWriter(params: {
+  destination: OutputDestination;
+  fileName: string;
+  onWrite?: (bytesWritten: number) => void;
+}): Promise<OutputWriter> {
+  const { destination, fileName, onWrite } = params;
+
+  let bytesWritten = 0;
+  const reportWrite = (position: number, data: OutputData) => {
+    const end = position + getDataSize(data);
+    if (end <= bytesWritten) return;
+    bytesWritten = end;
+    onWrite?.(bytesWritten);
+  };
+
+  if (destination.type === "memory") {
+    const memory = createMemoryWriter();
+    return {
+      write: async (data, position = bytesWritten) => {
+        await memory.write(data, position);
+        reportWrite(position, data);
+      },
+      getResult: memory.getResult,
+      discard: async () => undefined,
+      storedName: null,
+    };
+  }
+
+  const { fileHandle, writable, storedName } = await openOutputFile(
+    destination,
+    fileName,
+  );
+  return {
+    write: async (data, position = bytesWritten) => {
+      await writable.write({ type: "write", position, data });
+      reportWrite(position, data);
+    },
+    getResult: async (mimeType) => {
+      await writable.close();
+      const written = await fileHandle.getFile();
+      return new File([written], fileName, { type: mimeType });
+    },
+    discard: async () => {
+      await writable.abort().catch(() => undefined);
+      await removeStoredOutput(storedName);
+    },
+    storedName,
+  };
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+// Outputs older than this were left behind by a closed tab or a crash
+const STALE_OUTPUT_AGE = 24 * 60 * 60 * 1000;
+
+// Directory iteration isn't in the DOM typings yet
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  entries: () => AsyncIterableIterator<[string, FileSystemHandle]>;
+};
+
+/**
+ * Delete one finished output from OPFS once it has been saved or dropped.
+ * Blobs read from it stop working afterwards.
+ */
+export async function removeStoredOutput(
+  storedName: string | null | undefined,
+): Promise<void> {
+  if (!storedName || !supportsOpfs()) return;
+  const directory = await getOpfsDirectory();
+  await directory.removeEntry(storedName).catch(() => undefined);
+}
+
+/**
+ * Remove outputs left in OPFS by earlier sessions. Only stale files go, so
+ * exports still running or waiting for download in other tabs survive.
+ */
+export async function removeStaleOutputs(): Promise<void> {
+  if (!supportsOpfs()) return;
+  const directory = (await getOpfsDirectory()) as IterableDirectoryHandle;
+  const cutoff = Date.now() - STALE_OUTPUT_AGE;
+  for await (const [name, entry] of directory.entries()) {
+    if (entry.kind !== "file") continue;
+    const file = await (entry as FileSystemFileHandle)
+      .getFile()
+      .catch(() => null);
+    if (file && file.lastModified < cutoff) {
+      await directory.removeEntry(name).catch(() => undefined);
+    }
+  }
+}
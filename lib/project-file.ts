@@ -0,0 +1,440 @@
+import { z } from "zod";
+import type { TimelineTrackData } from "@/components/editor/preview/timeline-player-context";
+import { FILTER_PROPERTIES, TRANSFORM_PROPERTIES } from "@/lib/keyframes";
+import type { ImportedMediaAsset } from "@/lib/media-import";
+import { createOutputWriter } from "@/lib/output-target";
+import {
+  type ProjectSettings,
+  type StoredAsset,
+  type StoredClip,
+  type StoredTrack,
+  serializeTracks,
+} from "@/lib/project-store";
+import { createSha256 } from "@/lib/sha256";
+import { createZipWriter, readZipEntries } from "@/lib/zip";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/** Bumped whenever the document changes shape */
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_BUNDLE_EXTENSION = ".localcut";
+
+const DOCUMENT_ENTRY = "project.json";
+const MEDIA_FOLDER = "media/";
+
+const projectSettingsSchema = z.object({
+  name: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  frameRate: z.number().positive(),
+  backgroundColor: z.string(),
+  imageDuration: z.number().positive(),
+  sampleRate: z.number().int().positive(),
+}) satisfies z.ZodType<ProjectSettings>;
+
+const clipTransformSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  scaleX: z.number(),
+  scaleY: z.number(),
+  rotation: z.number(),
+  anchorX: z.number().optional(),
+  anchorY: z.number().optional(),
+});
+
+const clipFiltersSchema = z.object({
+  opacity: z.number(),
+  brightness: z.number(),
+  contrast: z.number(),
+  saturation: z.number(),
+  hue: z.number(),
+  blur: z.number(),
+});
+
+const keyframeSchema = z.object({
+  time: z.number(),
+  value: z.number(),
+  easing: z.enum(["linear", "ease", "hold"]),
+});
+
+const textSchema = z.object({
+  content: z.string(),
+  fontFamily: z.string(),
+  fontSize: z.number(),
+  fontWeight: z.number(),
+  color: z.string(),
+  align: z.enum(["left", "center", "right"]),
+  lineHeight: z.number(),
+  strokeWidth: z.number(),
+  strokeColor: z.string(),
+  shadowBlur: z.number(),
+  shadowColor: z.string(),
+  shadowOffsetX: z.number(),
+  shadowOffsetY: z.number(),
+  backgroundOpacity: z.number(),
+  backgroundColor: z.string(),
+  backgroundPadding: z.number(),
+  backgroundRadius: z.number(),
+});
+
+const shapeSchema = z.object({
+  kind: z.enum(["rectangle", "ellipse", "arrow"]),
+  width: z.number(),
+  height: z.number(),
+  fillColor: z.string(),
+  fillOpacity: z.number(),
+  strokeColor: z.string(),
+  strokeWidth: z.number(),
+  cornerRadius: z.number(),
+  opacity: z.number(),
+});
+
+const clipSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(["video", "audio", "image", "text", "shape"]),
+  startTime: z.number().nonnegative(),
+  duration: z.number().nonnegative(),
+  color: z.string(),
+  thumbnail: z.string().optional(),
+  thumbnails: z.array(z.string()).optional(),
+  /** Id of an entry in the document's `media` */
+  assetId: z.string().optional(),
+  trimStart: z.number(),
+  trimEnd: z.number(),
+  transform: clipTransformSchema.optional(),
+  filters: clipFiltersSchema.optional(),
+  fitMode: z.enum(["contain", "cover", "fill"]).optional(),
+  crop: z
+    .object({
+      top: z.number(),
+      right: z.number(),
+      bottom: z.number(),
+      left: z.number(),
+    })
+    .optional(),
+  text: textSchema.optional(),
+  shape: shapeSchema.optional(),
+  keyframes: z
+    .partialRecord(
+      z.enum([...TRANSFORM_PROPERTIES, ...FILTER_PROPERTIES]),
+      z.array(keyframeSchema),
+    )
+    .optional(),
+  speed: z.number().optional(),
+  preservePitch: z.boolean().optional(),
+  gain: z.number().optional(),
+  fadeIn: z.number().optional(),
+  fadeOut: z.number().optional(),
+}) satisfies z.ZodType<StoredClip>;
+
+const trackSchema = z.object({
+  id: z.string(),
+  type: z.enum(["video", "audio", "image"]),
+  label: z.string(),
+  hidden: z.boolean().optional(),
+  muted: z.boolean().optional(),
+  volume: z.number().optional(),
+  pan: z.number().optional(),
+  clips: z.array(clipSchema),
+  transitions: z
+    .array(
+      z.object({
+        id: z.string(),
+        fromClipId: z.string(),
+        toClipId: z.string(),
+        type: z.enum([
+          "crossfade",
+          "dip-to-black",
+          "dip-to-white",
+          "wipe",
+          "slide",
+          "zoom",
+        ]),
+        duration: z.number().nonnegative(),
+        direction: z.enum(["left", "right", "up", "down"]).optional(),
+      }),
+    )
+    .optional(),
+}) satisfies z.ZodType<StoredTrack>;
+
+/** A media file the project uses, identified so it can be found again */
+const mediaReferenceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(["video", "audio", "image"]),
+  mimeType: z.string(),
+  size: z.number().int().nonnegative(),
+  /** SHA-256 of the file contents, hex encoded */
+  hash: z.string(),
+  duration: z.number(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  frameRate: z.number().optional(),
+  videoCodec: z.string().optional(),
+  sampleRate: z.number().optional(),
+  channels: z.number().optional(),
+  audioCodec: z.string().optional(),
+  /** Entry holding the file inside a `.localcut` bundle */
+  path: z.string().optional(),
+});
+
+const projectDocumentSchema = z.object({
+  format: z.literal("localcut-project"),
+  version: z.literal(PROJECT_FILE_VERSION),
+  exportedAt: z.string(),
+  settings: projectSettingsSchema,
+  masterVolume: z.number().min(0),
+  media: z.array(mediaReferenceSchema),
+  tracks: z.array(trackSchema),
+});
+
+export type MediaReference = z.infer<typeof mediaReferenceSchema>;
+export type ProjectDocument = z.infer<typeof projectDocumentSchema>;
+
+/** A project file read back in; `files` maps media ids to the files found */
+export interface OpenedProjectFile {
+  document: ProjectDocument;
+  files: Map<string, File>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Media is hashed a slice at a time, so it is never read into memory whole
+const HASH_CHUNK_SIZE = 8 * 1024 * 1024;
+
+async function hashFile(file: Blob): Promise<string> {
+  const hash = createSha256();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = file.slice(offset, offset + HASH_CHUNK_SIZE);
+    hash.update(new Uint8Array(await chunk.arrayBuffer()));
+  }
+  return Array.from(hash.digest(), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function getMediaPath(asset: ImportedMediaAsset): string {
+  // The id keeps two files with the same name apart
+  return `${MEDIA_FOLDER}${asset.id}/${asset.name}`;
+}
+
+function toMediaFile(reference: MediaReference, blob: Blob): File {
+  return new File([blob], reference.name, { type: reference.mimeType });
+}
+
+/** Check the document against the schema and describe what is wrong */
+function parseProjectDocument(json: unknown): ProjectDocument {
+  const version =
+    typeof json === "object" && json !== null && "version" in json
+      ? json.version
+      : undefined;
+  if (typeof version === "number" && version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      "This project was saved by a newer version of LocalCut. Update the app to open it.",
+    );
+  }
+
+  const result = projectDocumentSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `Not a valid LocalCut project file.\n${z.prettifyError(result.error)}`,
+    );
+  }
+  return result.data;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** Describe a project, including a content hash of every media file */
+export async function createProjectDocument(params: {
+  settings: ProjectSettings;
+  masterVolume: number;
+  tracks: TimelineTrackData[];
+  assets: ImportedMediaAsset[];
+  /** Record where each file is stored inside a bundle */
+  embedMedia?: boolean;
+}): Promise<ProjectDocument> {
+  const media: MediaReference[] = [];
+  for (const asset of params.assets) {
+    // Offline media keeps describing the file it stands in for
+    const missingFile = asset.offline ? asset.missingFile : undefined;
+    media.push({
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      mimeType: missingFile?.mimeType ?? asset.file.type,
+      size: missingFile?.size ?? asset.file.size,
+      hash: missingFile?.hash ?? (await hashFile(asset.file)),
+      duration: asset.duration,
+      width: asset.width,
+      height: asset.height,
+      frameRate: asset.frameRate,
+      videoCodec: asset.videoCodec,
+      sampleRate: asset.sampleRate,
+      channels: asset.channels,
+      audioCodec: asset.audioCodec,
+      path:
+        params.embedMedia && !asset.offline ? getMediaPath(asset) : undefined,
+    });
+  }
+
+  return {
+    format: "localcut-project",
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: params.settings,
+    masterVolume: params.masterVolume,
+    media,
+    tracks: serializeTracks(params.tracks),
+  };
+}
+
+/** Lightweight project file; media is referenced by name, size and hash */
+export async function exportProjectJson(
+  params: Omit<Parameters<typeof createProjectDocument>[0], "embedMedia">,
+): Promise<Blob> {
+  const document = await createProjectDocument(params);
+  return new Blob([JSON.stringify(document, null, 2)], {
+    type: "application/json",
+  });
+}
+
+/** `.localcut` bundle: a ZIP of the project document and every media file */
+export async function exportProjectBundle(
+  params: Omit<Parameters<typeof createProjectDocument>[0], "embedMedia">,
+): Promise<Blob> {
+  const document = await createProjectDocument({
+    ...params,
+    embedMedia: true,
+  });
+  const output = await createOutputWriter({
+    destination: { type: "memory" },
+    fileName: `project${PROJECT_BUNDLE_EXTENSION}`,
+  });
+  const zip = createZipWriter(output);
+  await zip.addFile(
+    DOCUMENT_ENTRY,
+    new Blob([JSON.stringify(document, null, 2)], {
+      type: "application/json",
+    }),
+  );
+  // Offline media has no file to embed; it stays offline when reopened
+  for (const asset of params.assets) {
+    if (asset.offline) continue;
+    await zip.addFile(getMediaPath(asset), asset.file);
+  }
+  await zip.finish();
+  return output.getResult("application/zip");
+}
+
+/**
+ * Read a `.localcut` bundle or a project JSON. Bundled media is returned in
+ * `files`; media that only a JSON references has to be found with
+ * `matchMediaFiles`.
+ */
+export async function openProjectFile(file: File): Promise<OpenedProjectFile> {
+  const magic = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isZip =
+    magic[0] === 0x50 &&
+    magic[1] === 0x4b &&
+    magic[2] === 0x03 &&
+    magic[3] === 0x04;
+
+  if (!isZip) {
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      throw new Error("Not a LocalCut project file.");
+    }
+    return { document: parseProjectDocument(json), files: new Map() };
+  }
+
+  const entries = await readZipEntries(file);
+  const documentEntry = entries.get(DOCUMENT_ENTRY);
+  if (!documentEntry) {
+    throw new Error(`The bundle has no ${DOCUMENT_ENTRY}.`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await documentEntry.text());
+  } catch {
+    throw new Error(`The bundle's ${DOCUMENT_ENTRY} is not valid JSON.`);
+  }
+  const document = parseProjectDocument(json);
+
+  const files = new Map<string, File>();
+  for (const reference of document.media) {
+    const blob = reference.path ? entries.get(reference.path) : undefined;
+    if (blob) files.set(reference.id, toMediaFile(reference, blob));
+  }
+  return { document, files };
+}
+
+/**
+ * Pick the file for each reference from `candidates`. Name and size narrow
+ * the choice; the content hash confirms it, so renamed copies are found too.
+ */
+export async function matchMediaFiles(
+  references: MediaReference[],
+  candidates: File[],
+): Promise<Map<string, File>> {
+  const hashes = new Map<File, Promise<string>>();
+  const getHash = (file: File) => {
+    let hash = hashes.get(file);
+    if (!hash) {
+      hash = hashFile(file);
+      hashes.set(file, hash);
+    }
+    return hash;
+  };
+
+  const matches = new Map<string, File>();
+  for (const reference of references) {
+    // Same-size files are the only ones that can have the same contents
+    const sameSize = candidates
+      .filter((file) => file.size === reference.size)
+      .sort(
+        (a, b) =>
+          Number(b.name === reference.name) - Number(a.name === reference.name),
+      );
+    for (const file of sameSize) {
+      if ((await getHash(file)) === reference.hash) {
+        matches.set(reference.id, toMediaFile(reference, file));
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Assets for `saveProject`, made from the document's metadata and the files
+ * found. Media without a file is kept as an empty file, so it opens offline
+ * and can be relinked later; its size, hash and type are kept alongside so
+ * the project still describes the real file when it is exported again.
+ */
+export function getProjectFileAssets(
+  document: ProjectDocument,
+  files: Map<string, File>,
+): StoredAsset[] {
+  return document.media.map(
+    ({ hash, path: _path, mimeType, size, ...metadata }) => {
+      const file = files.get(metadata.id);
+      return file
+        ? { ...metadata, file }
+        : {
+            ...metadata,
+            file: new File([], metadata.name, { type: mimeType }),
+            missingFile: { size, hash, mimeType },
+          };
+    },
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import type {
+  TimelineClipWithAsset,
+  TimelineTrackData,
+} from "@/components/editor/preview/timeline-player-context";
+import type { ImportedMediaAsset } from "@/lib/media-import";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Clip as persisted: the live asset (with its MediaBunny Input) becomes an id. */
+export type StoredClip = Omit<TimelineClipWithAsset, "asset"> & {
+  assetId?: string;
+};
+
+/** Track as persisted */
+export type StoredTrack = Omit<TimelineTrackData, "clips"> & {
+  clips: StoredClip[];
+};
+
+/** Asset metadata plus its source File, minus the live MediaBunny Input */
+export type StoredAsset = Omit<ImportedMediaAsset, "input">;
+
+/** Project-wide settings, edited from the editor header */
+export interface ProjectSettings {
+  name: string;
+  /** Canvas size in pixels; also the default export resolution */
+  width: number;
+  height: number;
+  /** Default export frame rate */
+  frameRate: number;
+  backgroundColor: string;
+  /** Length of image clips when they are added to the timeline, in seconds */
+  imageDuration: number;
+  /** Default export sample rate */
+  sampleRate: number;
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  name: "Untitled Project",
+  width: 1920,
+  height: 1080,
+  frameRate: 30,
+  backgroundColor: "#000000",
+  imageDuration: 5,
+  sampleRate: 48_000,
+};
+
+/** Project document stored per projectId */
+export interface StoredProject {
+  id: string;
+  tracks: StoredTrack[];
+  assetIds: string[];
+  /** Mix level applied on top of the track volumes; 1 when absent */
+  masterVolume?: number;
+  /** Absent for projects saved before settings existed */
+  settings?: ProjectSettings;
+  updatedAt: string;
+}
+
+/** Everything needed to rehydrate a project */
+export interface LoadedProject {
+  project: StoredProject;
+  assets: StoredAsset[];
+}
+
+interface StoredAssetRecord {
+  /** `${projectId}:${assetId}` */
+  key: string;
+  projectId: string;
+  asset: StoredAsset;
+}
+
+// ============================================================================
+// IndexedDB plumbing
+// ============================================================================
+
+const DB_NAME = "localcut";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+const ASSETS_STORE = "assets";
+const ASSETS_BY_PROJECT_INDEX = "projectId";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+  });
+}
+
+function openProjectDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+        const assets = db.createObjectStore(ASSETS_STORE, { keyPath: "key" });
+        assets.createIndex(ASSETS_BY_PROJECT_INDEX, "projectId");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error("Failed to open project database"));
+    };
+  });
+
+  return dbPromise;
+}
+
+function getAssetKey(projectId: string, assetId: string): string {
+  return `${projectId}:${assetId}`;
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/** Strip live objects from tracks so they can be structured-cloned */
+export function serializeTracks(tracks: TimelineTrackData[]): StoredTrack[] {
+  return tracks.map((track) => ({
+    ...track,
+    clips: track.clips.map(({ asset, ...clip }) => ({
+      ...clip,
+      assetId: asset?.id,
+    })),
+  }));
+}
+
+/** Re-attach restored assets to persisted clips */
+export function hydrateTracks(
+  tracks: StoredTrack[],
+  assets: Map<string, ImportedMediaAsset>,
+): TimelineTrackData[] {
+  return tracks.map((track) => ({
+    ...track,
+    clips: track.clips.map(({ assetId, ...clip }) => ({
+      ...clip,
+      asset: assetId ? assets.get(assetId) : undefined,
+    })),
+  }));
+}
+
+function toStoredAsset({
+  input: _input,
+  ...asset
+}: ImportedMediaAsset): StoredAsset {
+  return asset;
+}
+
+function haveSameThumbnails(a: StoredAsset, b: ImportedMediaAsset): boolean {
+  const before = a.thumbnails ?? [];
+  const after = b.thumbnails ?? [];
+  return (
+    before.length === after.length &&
+    before.every((thumbnail, index) => thumbnail === after[index])
+  );
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** Load a project and its asset files, or null if it was never saved */
+export async function loadProject(
+  projectId: string,
+): Promise<LoadedProject | null> {
+  const db = await openProjectDatabase();
+  const transaction = db.transaction(
+    [PROJECTS_STORE, ASSETS_STORE],
+    "readonly",
+  );
+
+  const [project, records] = await Promise.all([
+    requestToPromise<StoredProject | undefined>(
+      transaction.objectStore(PROJECTS_STORE).get(projectId),
+    ),
+    requestToPromise<StoredAssetRecord[]>(
+      transaction
+        .objectStore(ASSETS_STORE)
+        .index(ASSETS_BY_PROJECT_INDEX)
+        .getAll(projectId),
+    ),
+  ]);
+  if (!project) return null;
+
+  // Keep the library order the user saw when the project was saved
+  const order = new Map(project.assetIds.map((id, index) => [id, index]));
+  const assets = records
+    .map((record) => record.asset)
+    .filter((asset) => order.has(asset.id))
+    .sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+  return { project, assets };
+}
+
+/**
+ * Save the timeline and media library of a project.
+ *
+ * Asset files are only written the first time they are seen, or again when
+ * their thumbnails change (video thumbnails arrive after import); assets that
+ * are no longer in the library are deleted so the database doesn't keep
+ * growing.
+ */
+export async function saveProject(
+  projectId: string,
+  tracks: TimelineTrackData[],
+  assets: ImportedMediaAsset[],
+  details: Pick<StoredProject, "masterVolume" | "settings"> = {},
+): Promise<void> {
+  const db = await openProjectDatabase();
+
+  const existingRecords = await requestToPromise<StoredAssetRecord[]>(
+    db
+      .transaction(ASSETS_STORE, "readonly")
+      .objectStore(ASSETS_STORE)
+      .index(ASSETS_BY_PROJECT_INDEX)
+      .getAll(projectId),
+  );
+  const existing = new Map(
+    existingRecords.map((record) => [record.key, record.asset]),
+  );
+  const staleKeys = new Set(existing.keys());
+
+  const transaction = db.transaction(
+    [PROJECTS_STORE, ASSETS_STORE],
+    "readwrite",
+  );
+  const assetStore = transaction.objectStore(ASSETS_STORE);
+
+  for (const asset of assets) {
+    const key = getAssetKey(projectId, asset.id);
+    staleKeys.delete(key);
+    const stored = existing.get(key);
+    if (stored && haveSameThumbnails(stored, asset)) continue;
+    const record: StoredAssetRecord = {
+      key,
+      projectId,
+      asset: toStoredAsset(asset),
+    };
+    assetStore.put(record);
+  }
+
+  for (const key of staleKeys) {
+    assetStore.delete(key);
+  }
+
+  const project: StoredProject = {
+    id: projectId,
+    tracks: serializeTracks(tracks),
+    assetIds: assets.map((asset) => asset.id),
+    masterVolume: details.masterVolume ?? 1,
+    settings: details.settings,
+    updatedAt: new Date().toISOString(),
+  };
+  transaction.objectStore(PROJECTS_STORE).put(project);
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Copy a saved project and its asset files to `targetId` under a new name.
+ * Resolves to false if the source was never saved.
+ */
+export async function duplicateProject(
+  sourceId: string,
+  targetId: string,
+  name: string,
+): Promise<boolean> {
+  const saved = await loadProject(sourceId);
+  if (!saved) return false;
+
+  const db = await openProjectDatabase();
+  const transaction = db.transaction(
+    [PROJECTS_STORE, ASSETS_STORE],
+    "readwrite",
+  );
+  const assetStore = transaction.objectStore(ASSETS_STORE);
+  for (const asset of saved.assets) {
+    const record: StoredAssetRecord = {
+      key: getAssetKey(targetId, asset.id),
+      projectId: targetId,
+      asset,
+    };
+    assetStore.put(record);
+  }
+
+  const project: StoredProject = {
+    ...saved.project,
+    id: targetId,
+    settings: { ...(saved.project.settings ?? DEFAULT_PROJECT_SETTINGS), name },
+    updatedAt: new Date().toISOString(),
+  };
+  transaction.objectStore(PROJECTS_STORE).put(project);
+
+  await transactionDone(transaction);
+  return true;
+}
+
+/** Delete a project and every asset file stored for it */
+export async function deleteProject(projectId: string): Promise<void> {
+  const db = await openProjectDatabase();
+  const assetKeys = await requestToPromise<IDBValidKey[]>(
+    db
+      .transaction(ASSETS_STORE, "readonly")
+      .objectStore(ASSETS_STORE)
+      .index(ASSETS_BY_PROJECT_INDEX)
+      .getAllKeys(projectId),
+  );
+
+  const transaction = db.transaction(
+    [PROJECTS_STORE, ASSETS_STORE],
+    "readwrite",
+  );
+  const assetStore = transaction.objectStore(ASSETS_STORE);
+  for (const key of assetKeys) {
+    assetStore.delete(key);
+  }
+  transaction.objectStore(PROJECTS_STORE).delete(projectId);
+
+  await transactionDone(transaction);
+}
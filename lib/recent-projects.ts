@@ -0,0 +1,99 @@
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Dashboard entry for a project, kept in localStorage */
+export interface RecentProject {
+  id: string;
+  name: string;
+  lastOpened: Date;
+  /** Small JPEG data URL of the last saved frame */
+  thumbnail?: string;
+}
+
+type StoredRecentProject = Omit<RecentProject, "lastOpened"> & {
+  lastOpened: string;
+};
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const RECENT_PROJECTS_KEY = "localcut-recent-projects";
+const MAX_RECENT_PROJECTS = 10;
+const THUMBNAIL_WIDTH = 320;
+
+export function getRecentProjects(): RecentProject[] {
+  const stored = localStorage.getItem(RECENT_PROJECTS_KEY);
+  if (!stored) return [];
+  try {
+    const projects = JSON.parse(stored) as StoredRecentProject[];
+    return projects.map((p) => ({ ...p, lastOpened: new Date(p.lastOpened) }));
+  } catch {
+    // Invalid data, ignore
+    return [];
+  }
+}
+
+function writeRecentProjects(projects: RecentProject[]): RecentProject[] {
+  const kept = projects.slice(0, MAX_RECENT_PROJECTS);
+  try {
+    localStorage.setItem(
+      RECENT_PROJECTS_KEY,
+      JSON.stringify(
+        kept.map((p) => ({ ...p, lastOpened: p.lastOpened.toISOString() })),
+      ),
+    );
+  } catch (error) {
+    // Quota exceeded: the list is a convenience, the projects are safe
+    console.error("Failed to save recent projects:", error);
+  }
+  return kept;
+}
+
+/** Move a project to the front of the list, adding it if it isn't there */
+export function touchRecentProject(
+  projectId: string,
+  name: string,
+): RecentProject[] {
+  const projects = getRecentProjects();
+  const existing = projects.find((p) => p.id === projectId);
+  return writeRecentProjects([
+    { ...existing, id: projectId, name, lastOpened: new Date() },
+    ...projects.filter((p) => p.id !== projectId),
+  ]);
+}
+
+/** Update a listed project in place, keeping its position */
+export function updateRecentProject(
+  projectId: string,
+  update: Partial<Pick<RecentProject, "name" | "thumbnail">>,
+): RecentProject[] {
+  return writeRecentProjects(
+    getRecentProjects().map((p) =>
+      p.id === projectId ? { ...p, ...update } : p,
+    ),
+  );
+}
+
+export function removeRecentProject(projectId: string): RecentProject[] {
+  return writeRecentProjects(
+    getRecentProjects().filter((p) => p.id !== projectId),
+  );
+}
+
+/** Scale a rendered frame down to a thumbnail small enough for localStorage */
+export async function createProjectThumbnail(frame: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(frame);
+  const canvas = document.createElement("canvas");
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.max(
+    1,
+    Math.round((bitmap.height / bitmap.width) * THUMBNAIL_WIDTH),
+  );
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get 2d context");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
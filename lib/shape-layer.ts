@@ -0,0 +1,163 @@
+"use client";
+
+import type { Compositor } from "@mediafox/core";
+import type {
+  LoadedSource,
+  ShapeClipData,
+} from "@/components/editor/preview/timeline-player-context";
+
+// ============================================================================
+// Rasterization
+// ============================================================================
+
+/** Shape kinds offered for shape layers */
+export const SHAPE_KINDS: { label: string; value: ShapeClipData["kind"] }[] = [
+  { label: "Rectangle", value: "rectangle" },
+  { label: "Ellipse", value: "ellipse" },
+  { label: "Arrow", value: "arrow" },
+];
+
+function getContext2D(canvas: OffscreenCanvas) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+  return ctx;
+}
+
+// Right-pointing arrow filling the box: shaft on the left, head on the right
+function traceArrow(
+  ctx: OffscreenCanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) {
+  const headLength = Math.min(width * 0.4, height);
+  const shaftHeight = height * 0.4;
+  const centerY = y + height / 2;
+  const shaftEnd = x + width - headLength;
+
+  ctx.beginPath();
+  ctx.moveTo(x, centerY - shaftHeight / 2);
+  ctx.lineTo(shaftEnd, centerY - shaftHeight / 2);
+  ctx.lineTo(shaftEnd, y);
+  ctx.lineTo(x + width, centerY);
+  ctx.lineTo(shaftEnd, y + height);
+  ctx.lineTo(shaftEnd, centerY + shaftHeight / 2);
+  ctx.lineTo(x, centerY + shaftHeight / 2);
+  ctx.closePath();
+}
+
+/**
+ * Draw a shape layer onto a transparent canvas.
+ *
+ * The stroke is centered on the outline, so the canvas grows by half the
+ * stroke width on each side to keep it from being clipped.
+ */
+export async function rasterizeShape(
+  shape: ShapeClipData,
+): Promise<{ file: File; width: number; height: number }> {
+  const shapeWidth = Math.max(1, shape.width);
+  const shapeHeight = Math.max(1, shape.height);
+  const margin = Math.ceil(shape.strokeWidth / 2);
+  const width = Math.ceil(shapeWidth + margin * 2);
+  const height = Math.ceil(shapeHeight + margin * 2);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  ctx.globalAlpha = shape.opacity / 100;
+  ctx.lineJoin = "round";
+
+  switch (shape.kind) {
+    case "rectangle": {
+      const radius = Math.min(
+        shape.cornerRadius,
+        shapeWidth / 2,
+        shapeHeight / 2,
+      );
+      ctx.beginPath();
+      ctx.roundRect(margin, margin, shapeWidth, shapeHeight, radius);
+      break;
+    }
+    case "ellipse":
+      ctx.beginPath();
+      ctx.ellipse(
+        width / 2,
+        height / 2,
+        shapeWidth / 2,
+        shapeHeight / 2,
+        0,
+        0,
+        Math.PI * 2,
+      );
+      break;
+    case "arrow":
+      traceArrow(ctx, margin, margin, shapeWidth, shapeHeight);
+      break;
+  }
+
+  if (shape.fillOpacity > 0) {
+    ctx.save();
+    ctx.globalAlpha *= shape.fillOpacity / 100;
+    ctx.fillStyle = shape.fillColor;
+    ctx.fill();
+    ctx.restore();
+  }
+
+  if (shape.strokeWidth > 0) {
+    ctx.strokeStyle = shape.strokeColor;
+    ctx.lineWidth = shape.strokeWidth;
+    ctx.stroke();
+  }
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return {
+    file: new File([blob], "shape-layer.png", { type: "image/png" }),
+    width,
+    height,
+  };
+}
+
+// ============================================================================
+// Compositor loading
+// ============================================================================
+
+/** Rasterize a shape layer and load it into a compositor as an image source */
+export async function loadShapeLayerSource(
+  compositor: Compositor,
+  shape: ShapeClipData,
+  key: string,
+): Promise<LoadedSource> {
+  const { file, width, height } = await rasterizeShape(shape);
+  const source = await compositor.loadImage(file);
+
+  return {
+    id: `source-${key}`,
+    source,
+    assetId: key,
+    duration: 0,
+    width,
+    height,
+  };
+}
+
+/** Solid canvas background drawn under every track; stretched when rendered */
+export function getBackgroundShape(color: string): ShapeClipData {
+  return {
+    kind: "rectangle",
+    width: 16,
+    height: 16,
+    fillColor: color,
+    fillOpacity: 100,
+    strokeColor: color,
+    strokeWidth: 0,
+    cornerRadius: 0,
+    opacity: 100,
+  };
+}
+
+/** Clip label for a shape layer: its kind */
+export function getShapeClipName(shape: ShapeClipData): string {
+  return (
+    SHAPE_KINDS.find((kind) => kind.value === shape.kind)?.label ?? "Shape"
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import type { Compositor } from "@mediafox/core";
+import type {
+  LoadedSource,
+  TextClipData,
+} from "@/components/editor/preview/timeline-player-context";
+
+// ============================================================================
+// Rasterization
+// ============================================================================
+
+/** Fonts offered for text layers (available without loading web fonts) */
+export const TEXT_FONT_FAMILIES = [
+  { label: "Arial", value: "Arial, Helvetica, sans-serif" },
+  { label: "Verdana", value: "Verdana, Geneva, sans-serif" },
+  { label: "Trebuchet", value: "'Trebuchet MS', sans-serif" },
+  { label: "Georgia", value: "Georgia, serif" },
+  { label: "Times", value: "'Times New Roman', Times, serif" },
+  { label: "Courier", value: "'Courier New', Courier, monospace" },
+  { label: "Impact", value: "Impact, 'Arial Black', sans-serif" },
+];
+
+function getCanvasFont(text: TextClipData): string {
+  return `${text.fontWeight} ${text.fontSize}px ${text.fontFamily}`;
+}
+
+function getContext2D(canvas: OffscreenCanvas) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+  return ctx;
+}
+
+/**
+ * Draw a text layer onto a transparent canvas sized to its content.
+ *
+ * The canvas includes room for the outline, shadow and background box, so the
+ * compositor can position it like any other image layer.
+ */
+export async function rasterizeText(
+  text: TextClipData,
+): Promise<{ file: File; width: number; height: number }> {
+  const font = getCanvasFont(text);
+  if (typeof document !== "undefined" && document.fonts) {
+    await document.fonts.load(font).catch(() => undefined);
+  }
+
+  const lines = text.content.split("\n");
+  const measureCtx = getContext2D(new OffscreenCanvas(1, 1));
+  measureCtx.font = font;
+  const textWidth = Math.max(
+    1,
+    ...lines.map((line) => measureCtx.measureText(line).width),
+  );
+  const lineHeightPx = text.fontSize * text.lineHeight;
+  const textHeight = Math.max(1, lines.length) * lineHeightPx;
+
+  const hasBackground = text.backgroundOpacity > 0;
+  const padding = hasBackground ? text.backgroundPadding : 0;
+  const shadowExtent =
+    text.shadowBlur > 0
+      ? text.shadowBlur * 2 +
+        Math.max(Math.abs(text.shadowOffsetX), Math.abs(text.shadowOffsetY))
+      : 0;
+  const margin = Math.ceil(text.strokeWidth + shadowExtent);
+
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = textHeight + padding * 2;
+  const width = Math.ceil(boxWidth + margin * 2);
+  const height = Math.ceil(boxHeight + margin * 2);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = getContext2D(canvas);
+
+  if (hasBackground) {
+    ctx.save();
+    ctx.globalAlpha = text.backgroundOpacity / 100;
+    ctx.fillStyle = text.backgroundColor;
+    ctx.beginPath();
+    ctx.roundRect(margin, margin, boxWidth, boxHeight, text.backgroundRadius);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.font = font;
+  ctx.textAlign = text.align;
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+
+  const textLeft = margin + padding;
+  const anchorX =
+    text.align === "left"
+      ? textLeft
+      : text.align === "right"
+        ? textLeft + textWidth
+        : textLeft + textWidth / 2;
+
+  if (text.shadowBlur > 0) {
+    ctx.shadowColor = text.shadowColor;
+    ctx.shadowBlur = text.shadowBlur;
+    ctx.shadowOffsetX = text.shadowOffsetX;
+    ctx.shadowOffsetY = text.shadowOffsetY;
+  }
+
+  lines.forEach((line, index) => {
+    const y = margin + padding + lineHeightPx * (index + 0.5);
+    if (text.strokeWidth > 0) {
+      ctx.strokeStyle = text.strokeColor;
+      // Stroke is centered on the glyph edge; double it so the visible outline matches strokeWidth
+      ctx.lineWidth = text.strokeWidth * 2;
+      ctx.strokeText(line, anchorX, y);
+    }
+    ctx.fillStyle = text.color;
+    ctx.fillText(line, anchorX, y);
+  });
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return {
+    file: new File([blob], "text-layer.png", { type: "image/png" }),
+    width,
+    height,
+  };
+}
+
+// ============================================================================
+// Compositor loading
+// ============================================================================
+
+/** Rasterize a text layer and load it into a compositor as an image source */
+export async function loadTextLayerSource(
+  compositor: Compositor,
+  text: TextClipData,
+  key: string,
+): Promise<LoadedSource> {
+  const { file, width, height } = await rasterizeText(text);
+  const source = await compositor.loadImage(file);
+
+  return {
+    id: `source-${key}`,
+    source,
+    assetId: key,
+    duration: 0,
+    width,
+    height,
+  };
+}
+
+/** Clip label for a text layer: its first non-empty line */
+export function getTextClipName(text: TextClipData): string {
+  const firstLine = text.content
+    .split("\n")
+    .find((line) => line.trim().length > 0);
+  return firstLine?.trim().slice(0, 40) || "Text";
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// WSOLA time stretching
+// ============================================================================
+
+// Frame length and how far a frame may shift to line up with the previous one
+const FRAME_SECONDS = 0.04;
+const SEARCH_SECONDS = 0.005;
+// Only every Nth sample is compared when searching, to keep long clips fast
+const SEARCH_STRIDE = 4;
+
+function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+// Similarity of `length` samples starting at `a` and `b` (channels summed)
+function correlate(
+  channels: Float32Array[],
+  a: number,
+  b: number,
+  length: number,
+): number {
+  let sum = 0;
+  for (const data of channels) {
+    for (let i = 0; i < length; i += SEARCH_STRIDE) {
+      sum += data[a + i] * data[b + i];
+    }
+  }
+  return sum;
+}
+
+/**
+ * Play audio `rate` times faster without changing its pitch.
+ *
+ * Windowed frames are read from the input every `rate` hops and overlap-added
+ * at a fixed hop; each frame is nudged to where it best continues the
+ * previous one (WSOLA), which avoids the phasing of plain overlap-add.
+ */
+export function timeStretch(
+  channels: Float32Array<ArrayBuffer>[],
+  rate: number,
+  sampleRate: number,
+): Float32Array<ArrayBuffer>[] {
+  const inputLength = channels[0]?.length ?? 0;
+  if (rate === 1 || inputLength === 0) return channels;
+
+  const frameSize = 2 * Math.round((FRAME_SECONDS * sampleRate) / 2);
+  const hop = frameSize / 2;
+  const search = Math.round(SEARCH_SECONDS * sampleRate);
+  const window = hannWindow(frameSize);
+  const outputLength = Math.ceil(inputLength / rate);
+  const output = channels.map(() => new Float32Array(outputLength + frameSize));
+
+  // Last input position a whole frame can be read from
+  const lastStart = Math.max(0, inputLength - frameSize);
+  let previous = 0;
+
+  for (let k = 0; k * hop < outputLength; k++) {
+    const nominal = Math.min(Math.round(k * hop * rate), lastStart);
+    let start = nominal;
+
+    if (k > 0) {
+      // Where the previous frame would naturally have continued
+      const natural = previous + hop;
+      if (natural + hop <= inputLength) {
+        let bestScore = Number.NEGATIVE_INFINITY;
+        const from = Math.max(0, nominal - search);
+        const to = Math.min(lastStart, nominal + search);
+        for (let candidate = from; candidate <= to; candidate++) {
+          const score = correlate(channels, natural, candidate, hop);
+          if (score > bestScore) {
+            bestScore = score;
+            start = candidate;
+          }
+        }
+      }
+    }
+
+    const outputStart = k * hop;
+    for (let c = 0; c < channels.length; c++) {
+      const input = channels[c];
+      const target = output[c];
+      for (let i = 0; i < frameSize && start + i < inputLength; i++) {
+        target[outputStart + i] += input[start + i] * window[i];
+      }
+    }
+    previous = start;
+  }
+
+  return output.map((data) => data.subarray(0, outputLength));
+}
@@ -0,0 +1,126 @@
+import type { TimelineTrackData } from "@/components/editor/preview/timeline-player-context";
+import { getKeyframeTimes } from "@/lib/keyframes";
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/** How close, in pixels, an edge has to come before it snaps */
+export const DEFAULT_SNAP_THRESHOLD = 8;
+
+/** Snap distances offered in the timeline header */
+export const SNAP_THRESHOLD_OPTIONS = [4, 8, 12, 16, 24];
+
+export type SnapTargetKind = "playhead" | "clip" | "marker" | "in" | "out";
+
+export interface SnapTarget {
+  time: number;
+  kind: SnapTargetKind;
+}
+
+/** Everything a dragged clip can snap to, leaving out the clip itself */
+export function getSnapTargets(params: {
+  tracks: TimelineTrackData[];
+  playheadTime: number;
+  markIn: number | null;
+  markOut: number | null;
+  excludeClipId?: string | null;
+}): SnapTarget[] {
+  // Listed by priority; the first of two equally close targets wins
+  const targets: SnapTarget[] = [
+    { time: params.playheadTime, kind: "playhead" },
+  ];
+  if (params.markIn !== null) {
+    targets.push({ time: params.markIn, kind: "in" });
+  }
+  if (params.markOut !== null) {
+    targets.push({ time: params.markOut, kind: "out" });
+  }
+
+  for (const track of params.tracks) {
+    if (track.hidden) continue;
+    for (const clip of track.clips) {
+      if (clip.id === params.excludeClipId) continue;
+      targets.push(
+        { time: clip.startTime, kind: "clip" },
+        { time: clip.startTime + clip.duration, kind: "clip" },
+      );
+      // Keyframe markers, drawn along the bottom of the clip
+      for (const time of getKeyframeTimes(clip.keyframes)) {
+        targets.push({ time: clip.startTime + time, kind: "marker" });
+      }
+    }
+  }
+  return targets;
+}
+
+// ============================================================================
+// Snapping
+// ============================================================================
+
+export interface SnapResult {
+  time: number;
+  /** Target that was hit, for the guide line; null if only frames snapped */
+  target: SnapTarget | null;
+}
+
+function findNearestTarget(
+  time: number,
+  targets: SnapTarget[],
+  threshold: number,
+): SnapTarget | null {
+  let nearest: SnapTarget | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+  for (const target of targets) {
+    const distance = Math.abs(target.time - time);
+    if (distance <= threshold && distance < nearestDistance) {
+      nearest = target;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+function snapToFrame(time: number, frameRate?: number): number {
+  return frameRate ? Math.round(time * frameRate) / frameRate : time;
+}
+
+/**
+ * Snap one edge to the nearest target within `threshold` seconds. With no
+ * target in reach it still lands on a whole frame.
+ */
+export function snapTime(
+  time: number,
+  targets: SnapTarget[],
+  threshold: number,
+  frameRate?: number,
+): SnapResult {
+  const target = findNearestTarget(time, targets, threshold);
+  return target
+    ? { time: target.time, target }
+    : { time: Math.max(0, snapToFrame(time, frameRate)), target: null };
+}
+
+/** Snap a moving clip by whichever of its edges is closer to a target */
+export function snapClipStart(
+  start: number,
+  duration: number,
+  targets: SnapTarget[],
+  threshold: number,
+  frameRate?: number,
+): SnapResult {
+  const startTarget = findNearestTarget(start, targets, threshold);
+  const endTarget = findNearestTarget(start + duration, targets, threshold);
+
+  if (
+    endTarget &&
+    (!startTarget ||
+      Math.abs(endTarget.time - start - duration) <
+        Math.abs(startTarget.time - start)) &&
+    endTarget.time - duration >= 0
+  ) {
+    return { time: endTarget.time - duration, target: endTarget };
+  }
+  if (startTarget) return { time: startTarget.time, target: startTarget };
+  return { time: Math.max(0, snapToFrame(start, frameRate)), target: null };
+}
@@ -0,0 +1,61 @@
+// ============================================================================
+// Zoom levels
+// ============================================================================
+
+/** Timeline zoom is measured in pixels per second */
+export const DEFAULT_PIXELS_PER_SECOND = 50;
+export const MIN_PIXELS_PER_SECOND = 0.5;
+// About 30px per frame at 30fps
+export const MAX_PIXELS_PER_SECOND = 1000;
+
+const ZOOM_STEP = 1.5;
+
+export function clampZoom(pixelsPerSecond: number): number {
+  return Math.min(
+    MAX_PIXELS_PER_SECOND,
+    Math.max(MIN_PIXELS_PER_SECOND, pixelsPerSecond),
+  );
+}
+
+export function zoomIn(pixelsPerSecond: number): number {
+  return clampZoom(pixelsPerSecond * ZOOM_STEP);
+}
+
+export function zoomOut(pixelsPerSecond: number): number {
+  return clampZoom(pixelsPerSecond / ZOOM_STEP);
+}
+
+/** Zoom factor for one wheel event; trackpad pinches arrive as Ctrl+wheel */
+export function getWheelZoomFactor(event: WheelEvent): number {
+  // Line-based deltas (most mice on Firefox) are roughly 16px each
+  const delta =
+    event.deltaMode === WheelEvent.DOM_DELTA_LINE
+      ? event.deltaY * 16
+      : event.deltaY;
+  return Math.exp(-delta * 0.002);
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+// Room left on each side of a fitted range
+const FIT_PADDING = 24;
+
+/** Zoom that shows `start`-`end` across a view `viewWidth` pixels wide */
+export function getZoomToRange(
+  start: number,
+  end: number,
+  viewWidth: number,
+): number {
+  const span = Math.max(end - start, 0.1);
+  return clampZoom((viewWidth - FIT_PADDING * 2) / span);
+}
+
+/** Scroll offset that puts `start` just inside the left edge of the view */
+export function getRangeScrollLeft(
+  start: number,
+  pixelsPerSecond: number,
+): number {
+  return Math.max(0, start * pixelsPerSecond - FIT_PADDING);
+}
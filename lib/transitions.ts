@@ -0,0 +1,339 @@
+import type {
+  ShapeClipData,
+  TimelineClipWithAsset,
+  TimelineTrackData,
+  TimelineTransition,
+  TransitionDirection,
+  TransitionType,
+} from "@/components/editor/preview/timeline-player-context";
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export const TRANSITION_TYPES: {
+  value: TransitionType;
+  label: string;
+  description: string;
+  /** Uses TimelineTransition.direction */
+  directional: boolean;
+}[] = [
+  {
+    value: "crossfade",
+    label: "Crossfade",
+    description: "Blend from one clip into the next",
+    directional: false,
+  },
+  {
+    value: "dip-to-black",
+    label: "Dip to black",
+    description: "Fade out to black, then in",
+    directional: false,
+  },
+  {
+    value: "dip-to-white",
+    label: "Dip to white",
+    description: "Fade out to white, then in",
+    directional: false,
+  },
+  {
+    value: "wipe",
+    label: "Wipe",
+    description: "A panel sweeps across the cut",
+    directional: true,
+  },
+  {
+    value: "slide",
+    label: "Slide",
+    description: "The next clip pushes the previous one out",
+    directional: true,
+  },
+  {
+    value: "zoom",
+    label: "Zoom",
+    description: "Zoom through into the next clip",
+    directional: false,
+  },
+];
+
+export const TRANSITION_DIRECTIONS: {
+  value: TransitionDirection;
+  label: string;
+}[] = [
+  { value: "left", label: "Left" },
+  { value: "right", label: "Right" },
+  { value: "up", label: "Up" },
+  { value: "down", label: "Down" },
+];
+
+export const DEFAULT_TRANSITION_DURATION = 1;
+
+export function isDirectionalTransition(type: TransitionType): boolean {
+  return (
+    TRANSITION_TYPES.find((entry) => entry.value === type)?.directional ?? false
+  );
+}
+
+// ============================================================================
+// Boundaries
+// ============================================================================
+
+// Clips closer than this count as touching
+const CUT_TOLERANCE = 0.01;
+
+/** A transition resolved against the clips it joins */
+export interface TransitionBoundary {
+  transition: TimelineTransition;
+  from: TimelineClipWithAsset;
+  to: TimelineClipWithAsset;
+  cutTime: number;
+  /** Transition duration clamped so each half fits inside its clip */
+  duration: number;
+}
+
+/** Longest transition that fits between two clips */
+export function getMaxTransitionDuration(
+  from: TimelineClipWithAsset,
+  to: TimelineClipWithAsset,
+): number {
+  return Math.min(from.duration, to.duration);
+}
+
+function areAdjacent(
+  from: TimelineClipWithAsset,
+  to: TimelineClipWithAsset,
+): boolean {
+  return (
+    Math.abs(from.startTime + from.duration - to.startTime) < CUT_TOLERANCE
+  );
+}
+
+/**
+ * Transitions of a track that still join two touching clips.
+ *
+ * Transitions whose clips were moved apart or removed are kept on the track
+ * (so undoing the move restores them) but are not rendered.
+ */
+export function getTrackTransitions(
+  track: TimelineTrackData,
+): TransitionBoundary[] {
+  if (!track.transitions?.length) return [];
+
+  const clipsById = new Map(track.clips.map((clip) => [clip.id, clip]));
+  const boundaries: TransitionBoundary[] = [];
+  for (const transition of track.transitions) {
+    const from = clipsById.get(transition.fromClipId);
+    const to = clipsById.get(transition.toClipId);
+    if (!from || !to || !areAdjacent(from, to)) continue;
+
+    const duration = Math.min(
+      transition.duration,
+      getMaxTransitionDuration(from, to),
+    );
+    if (duration <= 0) continue;
+
+    boundaries.push({
+      transition,
+      from,
+      to,
+      cutTime: to.startTime,
+      duration,
+    });
+  }
+  return boundaries;
+}
+
+/**
+ * The cut a transition on `clipId` would attach to: its end if the next clip
+ * touches it, otherwise its start.
+ */
+export function findTransitionSlot(
+  track: TimelineTrackData,
+  clipId: string,
+): { from: TimelineClipWithAsset; to: TimelineClipWithAsset } | null {
+  const clip = track.clips.find((c) => c.id === clipId);
+  if (!clip) return null;
+
+  const next = track.clips.find(
+    (other) => other.id !== clipId && areAdjacent(clip, other),
+  );
+  if (next) return { from: clip, to: next };
+
+  const previous = track.clips.find(
+    (other) => other.id !== clipId && areAdjacent(other, clip),
+  );
+  if (previous) return { from: previous, to: clip };
+
+  return null;
+}
+
+/** Point transitions at the two halves of a split clip */
+export function remapSplitTransitions(
+  transitions: TimelineTransition[] | undefined,
+  clipId: string,
+  firstPartId: string,
+  secondPartId: string,
+): TimelineTransition[] | undefined {
+  return transitions?.map((transition) => ({
+    ...transition,
+    fromClipId:
+      transition.fromClipId === clipId ? secondPartId : transition.fromClipId,
+    toClipId:
+      transition.toClipId === clipId ? firstPartId : transition.toClipId,
+  }));
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** 0-1 progress through a transition at `time`, or null outside of it */
+export function getTransitionProgress(
+  boundary: TransitionBoundary,
+  time: number,
+): number | null {
+  const start = boundary.cutTime - boundary.duration / 2;
+  const progress = (time - start) / boundary.duration;
+  if (progress < 0 || progress >= 1) return null;
+  return progress;
+}
+
+/** How a clip layer is drawn during a transition */
+export interface TransitionLayerEffect {
+  visible: boolean;
+  /** Multiplies the clip opacity */
+  opacity: number;
+  /** Added to the clip position, in output pixels */
+  offsetX: number;
+  offsetY: number;
+  /** Multiplies the clip scale */
+  scale: number;
+}
+
+const NO_EFFECT: TransitionLayerEffect = {
+  visible: true,
+  opacity: 1,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+};
+
+function getDirectionVector(direction: TransitionDirection | undefined) {
+  switch (direction) {
+    case "right":
+      return { dx: 1, dy: 0 };
+    case "up":
+      return { dx: 0, dy: -1 };
+    case "down":
+      return { dx: 0, dy: 1 };
+    default:
+      return { dx: -1, dy: 0 };
+  }
+}
+
+/**
+ * Effect on the outgoing ("from") or incoming ("to") clip at `progress`.
+ * The incoming clip is drawn above the outgoing one.
+ */
+export function getTransitionLayerEffect(params: {
+  transition: TimelineTransition;
+  role: "from" | "to";
+  progress: number;
+  width: number;
+  height: number;
+}): TransitionLayerEffect {
+  const { transition, role, progress, width, height } = params;
+  const isFrom = role === "from";
+
+  switch (transition.type) {
+    case "crossfade":
+      return isFrom ? NO_EFFECT : { ...NO_EFFECT, opacity: progress };
+    case "dip-to-black":
+    case "dip-to-white":
+    case "wipe":
+      // The matte hides the cut; each clip shows on its side of it
+      return {
+        ...NO_EFFECT,
+        visible: isFrom ? progress < 0.5 : progress >= 0.5,
+      };
+    case "slide": {
+      const { dx, dy } = getDirectionVector(transition.direction);
+      const travel = isFrom ? progress : progress - 1;
+      return {
+        ...NO_EFFECT,
+        offsetX: dx * width * travel,
+        offsetY: dy * height * travel,
+      };
+    }
+    case "zoom":
+      return isFrom
+        ? { ...NO_EFFECT, opacity: 1 - progress, scale: 1 + progress }
+        : { ...NO_EFFECT, opacity: progress, scale: 2 - progress };
+  }
+}
+
+function getMatteColor(type: TransitionType): string | null {
+  switch (type) {
+    case "dip-to-black":
+    case "wipe":
+      return "#000000";
+    case "dip-to-white":
+      return "#ffffff";
+    default:
+      return null;
+  }
+}
+
+/** Solid shape drawn over a transition; stretched to the canvas when rendered */
+export function getTransitionMatteShape(
+  type: TransitionType,
+): ShapeClipData | null {
+  const color = getMatteColor(type);
+  if (!color) return null;
+  return {
+    kind: "rectangle",
+    width: 16,
+    height: 16,
+    fillColor: color,
+    fillOpacity: 100,
+    strokeColor: color,
+    strokeWidth: 0,
+    cornerRadius: 0,
+    opacity: 100,
+  };
+}
+
+/** Mattes the tracks' transitions need loaded as sources */
+export function getTransitionMattes(
+  tracks: TimelineTrackData[],
+): ShapeClipData[] {
+  const types = new Set<TransitionType>();
+  for (const track of tracks) {
+    if (track.hidden || track.type === "audio") continue;
+    for (const boundary of getTrackTransitions(track)) {
+      types.add(boundary.transition.type);
+    }
+  }
+  return [...types]
+    .map(getTransitionMatteShape)
+    .filter((shape): shape is ShapeClipData => shape !== null);
+}
+
+/** Placement of the matte layer at `progress` */
+export function getTransitionMatteEffect(params: {
+  transition: TimelineTransition;
+  progress: number;
+  width: number;
+  height: number;
+}): { opacity: number; x: number; y: number } {
+  const { transition, progress, width, height } = params;
+
+  if (transition.type === "wipe") {
+    // Sweeps in from the edge opposite the direction, covers the cut, sweeps out
+    const { dx, dy } = getDirectionVector(transition.direction);
+    const travel = 1 - 2 * progress;
+    return { opacity: 1, x: -dx * width * travel, y: -dy * height * travel };
+  }
+
+  return { opacity: 1 - Math.abs(2 * progress - 1), x: 0, y: 0 };
+}
@@ -0,0 +1,358 @@
+import type { OutputWriter } from "@/lib/output-target";
+
+// ============================================================================
+// CRC-32
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Files are read a slice at a time, so large entries never sit in memory
+const CRC_CHUNK_SIZE = 8 * 1024 * 1024;
+
+async function crc32(file: Blob): Promise<number> {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < file.size; offset += CRC_CHUNK_SIZE) {
+    const chunk = file.slice(offset, offset + CRC_CHUNK_SIZE);
+    const data = new Uint8Array(await chunk.arrayBuffer());
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// Records
+// ============================================================================
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+// Field values that mean "see the ZIP64 record instead"
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+// Version needed to extract: 2.0 for plain archives, 4.5 for ZIP64
+const VERSION = 20;
+const ZIP64_VERSION = 45;
+
+function header(
+  size: number,
+  fill: (view: DataView) => void,
+): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(size);
+  fill(new DataView(bytes.buffer));
+  return bytes;
+}
+
+// Sizes and offsets stay below 2^53, so two 32-bit halves are exact
+function setUint64(view: DataView, offset: number, value: number) {
+  view.setUint32(offset, value % 2 ** 32, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return (
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+  );
+}
+
+/** ZIP64 extra field holding `values`, each 8 bytes */
+function zip64ExtraField(values: number[]): Uint8Array<ArrayBuffer> {
+  return header(4 + values.length * 8, (view) => {
+    view.setUint16(0, ZIP64_EXTRA_FIELD, true);
+    view.setUint16(2, values.length * 8, true);
+    values.forEach((value, i) => {
+      setUint64(view, 4 + i * 8, value);
+    });
+  });
+}
+
+// ============================================================================
+// ZIP writer
+// ============================================================================
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// MS-DOS time and date fields for `date`
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      (Math.max(0, date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+export interface ZipWriter {
+  /** Write `file`'s local header and data to the output */
+  addFile: (fileName: string, file: Blob) => Promise<void>;
+  /** Write the central directory; the caller then closes the output */
+  finish: () => Promise<void>;
+}
+
+/**
+ * Write a ZIP archive without compression, which suits files that are
+ * already compressed (PNG, JPEG, ...). Each entry goes to `output` as soon
+ * as it is added, so the archive never has to sit in memory. Sizes, offsets
+ * and entry counts past the classic limits get ZIP64 records.
+ */
+export function createZipWriter(
+  output: Pick<OutputWriter, "write">,
+): ZipWriter {
+  const entries: ZipEntry[] = [];
+  const modified = toDosDateTime(new Date());
+  let offset = 0;
+
+  return {
+    addFile: async (fileName, file) => {
+      const name = new TextEncoder().encode(fileName);
+      const crc = await crc32(file);
+      const size = file.size;
+      const isZip64 = size >= MAX_UINT32;
+      const extra = isZip64 ? zip64ExtraField([size, size]) : null;
+
+      const local = header(30 + name.length + (extra?.length ?? 0), (view) => {
+        view.setUint32(0, LOCAL_HEADER, true);
+        view.setUint16(4, isZip64 ? ZIP64_VERSION : VERSION, true);
+        view.setUint16(6, 0x0800, true); // UTF-8 names
+        view.setUint16(8, 0, true); // stored
+        view.setUint16(10, modified.time, true);
+        view.setUint16(12, modified.date, true);
+        view.setUint32(14, crc, true);
+        view.setUint32(18, isZip64 ? MAX_UINT32 : size, true);
+        view.setUint32(22, isZip64 ? MAX_UINT32 : size, true);
+        view.setUint16(26, name.length, true);
+        view.setUint16(28, extra?.length ?? 0, true);
+      });
+      local.set(name, 30);
+      if (extra) local.set(extra, 30 + name.length);
+
+      entries.push({ name, crc, size, offset });
+      await output.write(local);
+      await output.write(file);
+      offset += local.length + size;
+    },
+    finish: async () => {
+      // Records are gathered into one write rather than one per entry
+      const records: Uint8Array<ArrayBuffer>[] = [];
+      const directoryOffset = offset;
+      let directorySize = 0;
+      for (const entry of entries) {
+        // Only the fields that overflow go into the ZIP64 extra field
+        const largeSize = entry.size >= MAX_UINT32;
+        const largeOffset = entry.offset >= MAX_UINT32;
+        const zip64Values = [
+          ...(largeSize ? [entry.size, entry.size] : []),
+          ...(largeOffset ? [entry.offset] : []),
+        ];
+        const extra =
+          zip64Values.length > 0 ? zip64ExtraField(zip64Values) : null;
+
+        const nameEnd = 46 + entry.name.length;
+        const central = header(nameEnd + (extra?.length ?? 0), (view) => {
+          const version = extra ? ZIP64_VERSION : VERSION;
+          view.setUint32(0, CENTRAL_HEADER, true);
+          view.setUint16(4, version, true); // version made by
+          view.setUint16(6, version, true); // version needed
+          view.setUint16(8, 0x0800, true);
+          view.setUint16(10, 0, true);
+          view.setUint16(12, modified.time, true);
+          view.setUint16(14, modified.date, true);
+          view.setUint32(16, entry.crc, true);
+          view.setUint32(20, largeSize ? MAX_UINT32 : entry.size, true);
+          view.setUint32(24, largeSize ? MAX_UINT32 : entry.size, true);
+          view.setUint16(28, entry.name.length, true);
+          view.setUint16(30, extra?.length ?? 0, true);
+          view.setUint32(42, largeOffset ? MAX_UINT32 : entry.offset, true);
+        });
+        central.set(entry.name, 46);
+        if (extra) central.set(extra, nameEnd);
+        records.push(central);
+        directorySize += central.length;
+      }
+
+      const isZip64 =
+        entries.length >= MAX_UINT16 ||
+        directorySize >= MAX_UINT32 ||
+        directoryOffset >= MAX_UINT32;
+      if (isZip64) {
+        const zip64EndOffset = directoryOffset + directorySize;
+        records.push(
+          header(56, (view) => {
+            view.setUint32(0, ZIP64_END_OF_DIRECTORY, true);
+            setUint64(view, 4, 44); // size of the rest of the record
+            view.setUint16(12, ZIP64_VERSION, true);
+            view.setUint16(14, ZIP64_VERSION, true);
+            setUint64(view, 24, entries.length);
+            setUint64(view, 32, entries.length);
+            setUint64(view, 40, directorySize);
+            setUint64(view, 48, directoryOffset);
+          }),
+          header(20, (view) => {
+            view.setUint32(0, ZIP64_LOCATOR, true);
+            setUint64(view, 8, zip64EndOffset);
+            view.setUint32(16, 1, true); // total number of disks
+          }),
+        );
+      }
+
+      const entryCount = isZip64
+        ? Math.min(entries.length, MAX_UINT16)
+        : entries.length;
+      records.push(
+        header(22, (view) => {
+          view.setUint32(0, END_OF_DIRECTORY, true);
+          view.setUint16(8, entryCount, true);
+          view.setUint16(10, entryCount, true);
+          view.setUint32(12, Math.min(directorySize, MAX_UINT32), true);
+          view.setUint32(16, Math.min(directoryOffset, MAX_UINT32), true);
+        }),
+      );
+      await output.write(new Blob(records));
+    },
+  };
+}
+
+// ============================================================================
+// ZIP reader
+// ============================================================================
+
+const END_OF_DIRECTORY_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_SIZE = 0xffff;
+
+async function readView(blob: Blob, start: number, end: number) {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+/**
+ * List the files of a ZIP archive written without compression, like the
+ * ones `createZipWriter` produces, ZIP64 included. Entries are returned as slices of `blob`,
+ * so nothing is read into memory until it is used.
+ */
+export async function readZipEntries(blob: Blob): Promise<Map<string, Blob>> {
+  // The end-of-directory record sits before an optional trailing comment
+  const tailStart = Math.max(
+    0,
+    blob.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE,
+  );
+  const tail = await readView(blob, tailStart, blob.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error("Not a ZIP archive.");
+
+  let entryCount = tail.getUint16(endOffset + 10, true);
+  let directorySize = tail.getUint32(endOffset + 12, true);
+  let directoryOffset = tail.getUint32(endOffset + 16, true);
+
+  // Saturated fields mean the real values are in the ZIP64 end record, found
+  // through the locator just before the classic one
+  const locatorOffset = endOffset - ZIP64_LOCATOR_SIZE;
+  if (
+    (entryCount === MAX_UINT16 ||
+      directorySize === MAX_UINT32 ||
+      directoryOffset === MAX_UINT32) &&
+    locatorOffset >= 0 &&
+    tail.getUint32(locatorOffset, true) === ZIP64_LOCATOR
+  ) {
+    const zip64EndOffset = getUint64(tail, locatorOffset + 8);
+    const zip64End = await readView(blob, zip64EndOffset, zip64EndOffset + 56);
+    if (zip64End.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY) {
+      throw new Error("Corrupt ZIP64 end of directory.");
+    }
+    entryCount = getUint64(zip64End, 32);
+    directorySize = getUint64(zip64End, 40);
+    directoryOffset = getUint64(zip64End, 48);
+  }
+
+  const directory = await readView(
+    blob,
+    directoryOffset,
+    directoryOffset + directorySize,
+  );
+  const decoder = new TextDecoder();
+
+  const entries = new Map<string, Blob>();
+  let position = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_HEADER) {
+      throw new Error("Corrupt ZIP directory.");
+    }
+    const method = directory.getUint16(position + 10, true);
+    let size = directory.getUint32(position + 20, true);
+    const compressedSize = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let localOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(
+        directory.buffer,
+        directory.byteOffset + position + 46,
+        nameLength,
+      ),
+    );
+
+    // The ZIP64 extra field lists only the saturated fields, in this order
+    const extraStart = position + 46 + nameLength;
+    const extraEnd = extraStart + extraLength;
+    for (let field = extraStart; field + 4 <= extraEnd; ) {
+      const id = directory.getUint16(field, true);
+      const length = directory.getUint16(field + 2, true);
+      if (id === ZIP64_EXTRA_FIELD) {
+        let value = field + 4;
+        if (size === MAX_UINT32) {
+          size = getUint64(directory, value);
+          value += 8;
+        }
+        if (compressedSize === MAX_UINT32) value += 8;
+        if (localOffset === MAX_UINT32) {
+          localOffset = getUint64(directory, value);
+        }
+      }
+      field += 4 + length;
+    }
+    position = extraEnd + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (method !== 0) {
+      throw new Error(`"${name}" is compressed; only stored files are read.`);
+    }
+
+    // The local header's name and extra field may differ from the directory's
+    const local = await readView(blob, localOffset, localOffset + 30);
+    const dataStart =
+      localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.set(name, blob.slice(dataStart, dataStart + size));
+  }
+  return entries;
+}